@@ -7,7 +7,15 @@ export interface Transaction {
   date: string;
   amount: number;
   currency: string;
-  status: 'pending' | 'completed' | 'failed' | 'canceled';
+  status:
+    | 'pending'
+    | 'authorized'
+    | 'completed'
+    | 'partially_refunded'
+    | 'refunded'
+    | 'failed'
+    | 'canceled'
+    | 'voided';
   type: 'payment' | 'refund' | 'capture' | 'authorization';
   description?: string;
 }
@@ -73,10 +81,15 @@ const StatusBadge = styled.span<{ status: Transaction['status'] }>`
       case 'completed':
         return 'background-color: #e6f7e6; color: #2e7d32;';
       case 'pending':
+      case 'authorized':
         return 'background-color: #fff8e1; color: #f57c00;';
+      case 'partially_refunded':
+      case 'refunded':
+        return 'background-color: #e3f2fd; color: #1565c0;';
       case 'failed':
         return 'background-color: #ffebee; color: #c62828;';
       case 'canceled':
+      case 'voided':
         return 'background-color: #eeeeee; color: #616161;';
       default:
         return '';
@@ -194,7 +207,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
               <TableCell>{formatAmount(transaction.amount, transaction.currency)}</TableCell>
               <TableCell>
                 <StatusBadge status={transaction.status}>
-                  {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)}
+                  {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1).replace('_', ' ')}
                 </StatusBadge>
               </TableCell>
               <TableCell>{transaction.description || '-'}</TableCell>
@@ -1,10 +1,30 @@
 import { useState, useEffect, useCallback } from 'react';
 
+export type TransactionStatus =
+  | 'pending'
+  | 'authorized'
+  | 'completed'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'failed'
+  | 'canceled'
+  | 'voided';
+
+export interface TransactionStatusChange {
+  from: TransactionStatus | null;
+  to: TransactionStatus;
+  timestamp: string;
+  actor: string;
+  reason?: string;
+}
+
 export interface Transaction {
   id: string;
-  amount: number;
+  // Major units as an exact decimal string, e.g. "10.50" USD or "1000" JPY
+  amount: string;
   currency: string;
-  status: 'pending' | 'completed' | 'failed' | 'canceled';
+  status: TransactionStatus;
+  statusHistory: TransactionStatusChange[];
   type: 'payment' | 'refund' | 'capture' | 'authorization';
   createdAt: string;
   updatedAt: string;
@@ -116,12 +136,9 @@ export const useTransaction = (options: UseTransactionOptions = {}): UseTransact
       
       const refundData = await response.json();
       
-      // Update the original transaction status
+      // A refund may be partial, so reload the original to get the status the gateway assigned
       if (transaction && transaction.id === id) {
-        setTransaction({
-          ...transaction,
-          status: 'refunded',
-        });
+        await fetchTransaction(id);
       }
       
       return refundData;
@@ -141,7 +158,7 @@ export const useTransaction = (options: UseTransactionOptions = {}): UseTransact
     } finally {
       setIsLoading(false);
     }
-  }, [baseUrl, headers, transaction, options.onError]);
+  }, [baseUrl, headers, transaction, fetchTransaction, options.onError]);
   
   // Issue: No retry logic on failed requests
   
@@ -0,0 +1,89 @@
+import { NextFunction, Request, Response } from 'express';
+import { FraudScreeningService } from '../../services/FraudScreeningService';
+import { FraudReviewStatus } from '../../models/FraudScreening';
+import { FraudReviewBody } from '../schemas';
+import { currentUser } from '../middleware/authenticate';
+
+/**
+ * Review queue for payments fraud screening held.
+ * Routes are restricted to platform admins; failures are passed to next()
+ * and answered by the central error handler.
+ */
+export class FraudReviewController {
+  private fraudScreening: FraudScreeningService;
+
+  constructor(fraudScreening: FraudScreeningService) {
+    this.fraudScreening = fraudScreening;
+  }
+
+  /**
+   * @route GET /fraud-reviews?status=pending
+   */
+  async listReviews(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.fraudScreening.listReviews(req.query.status as FraudReviewStatus | undefined)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /fraud-reviews/:id
+   */
+  async getReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.fraudScreening.getReview(req.params.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a held payment so the customer's retry goes through
+   * @route POST /fraud-reviews/:id/approve
+   */
+  async approveReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { note } = req.body as FraudReviewBody;
+      const review = await this.fraudScreening.approveReview(req.params.id, {
+        actor: currentUser(req).id,
+        ipAddress: req.ip,
+        note
+      });
+
+      res.status(200).json({
+        success: true,
+        data: review
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route POST /fraud-reviews/:id/reject
+   */
+  async rejectReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { note } = req.body as FraudReviewBody;
+      const review = await this.fraudScreening.rejectReview(req.params.id, {
+        actor: currentUser(req).id,
+        ipAddress: req.ip,
+        note
+      });
+
+      res.status(200).json({
+        success: true,
+        data: review
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { NextFunction, Request, Response } from 'express';
+import { LedgerService } from '../../services/LedgerService';
+
+/**
+ * Ledger balances, entries and the balance check for finance.
+ * Routes are restricted to platform admins; failures are passed to next()
+ * and answered by the central error handler.
+ */
+export class LedgerController {
+  private ledgerService: LedgerService;
+
+  constructor(ledgerService: LedgerService) {
+    this.ledgerService = ledgerService;
+  }
+
+  /**
+   * @route GET /ledger/balances?asOf=2026-01-31T23:59:59Z&account=merchant_payable:merchant_1
+   */
+  async getBalances(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { asOf, account } = req.query as unknown as { asOf?: Date; account?: string };
+
+      res.status(200).json({
+        success: true,
+        data: await this.ledgerService.balances(asOf, account)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /ledger/transactions/:id/entries
+   */
+  async getEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.ledgerService.entriesFor(req.params.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Fails with ledger_unbalanced (500) when any journal entry does not sum to zero per currency,
+   * so monitoring can alert on the status code
+   * @route GET /ledger/verify
+   */
+  async verify(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.ledgerService.assertBalanced()
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
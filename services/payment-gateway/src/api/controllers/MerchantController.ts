@@ -0,0 +1,167 @@
+import { NextFunction, Request, Response } from 'express';
+import { MerchantAdminContext, MerchantService } from '../../services/MerchantService';
+import { MerchantApiKey } from '../../models/Merchant';
+import { IssueApiKeyBody, MerchantBody, MerchantUpdateBody } from '../schemas';
+import { currentUser } from '../middleware/authenticate';
+
+// API keys as shown to admins; the secret hash stays on the server
+type ApiKeyView = Omit<MerchantApiKey, 'secretHash'>;
+
+const toApiKeyView = ({ secretHash: _secretHash, ...apiKey }: MerchantApiKey): ApiKeyView => apiKey;
+
+/**
+ * Merchant and API key administration.
+ * Routes are restricted to the admin role; failures are passed to next()
+ * and answered by the central error handler.
+ */
+export class MerchantController {
+  private merchantService: MerchantService;
+
+  constructor(merchantService: MerchantService) {
+    this.merchantService = merchantService;
+  }
+
+  /**
+   * Register a merchant
+   * @route POST /merchants
+   */
+  async createMerchant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const merchant = await this.merchantService.createMerchant(req.body as MerchantBody, this.adminContext(req));
+
+      res.status(201).json({
+        success: true,
+        data: merchant
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /merchants
+   */
+  async listMerchants(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.merchantService.listMerchants()
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /merchants/:id
+   */
+  async getMerchant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.merchantService.getMerchant(req.params.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a merchant's name, default currency, provider credentials or status
+   * @route PATCH /merchants/:id
+   */
+  async updateMerchant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const merchant = await this.merchantService.updateMerchant(
+        req.params.id,
+        req.body as MerchantUpdateBody,
+        this.adminContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: merchant
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a merchant's API keys without their secrets
+   * @route GET /merchants/:id/api-keys
+   */
+  async listApiKeys(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKeys = await this.merchantService.listApiKeys(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: apiKeys.map(toApiKeyView)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Issue an API key; the response is the only place the full key ever appears
+   * @route POST /merchants/:id/api-keys
+   */
+  async issueApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { permissions } = req.body as IssueApiKeyBody;
+
+    try {
+      const { apiKey, key } = await this.merchantService.issueApiKey(req.params.id, permissions, this.adminContext(req));
+
+      res.status(201).json({
+        success: true,
+        data: { ...toApiKeyView(apiKey), key }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace an API key; the old key keeps working for the rotation grace period
+   * @route POST /merchants/:id/api-keys/:keyId/rotate
+   */
+  async rotateApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { id, keyId } = req.params;
+
+    try {
+      const { apiKey, key } = await this.merchantService.rotateApiKey(id, keyId, this.adminContext(req));
+
+      res.status(201).json({
+        success: true,
+        data: { ...toApiKeyView(apiKey), key }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Disable an API key immediately
+   * @route POST /merchants/:id/api-keys/:keyId/revoke
+   */
+  async revokeApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { id, keyId } = req.params;
+
+    try {
+      const apiKey = await this.merchantService.revokeApiKey(id, keyId, this.adminContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: toApiKeyView(apiKey)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private adminContext(req: Request): MerchantAdminContext {
+    return { actor: currentUser(req).id, ipAddress: req.ip };
+  }
+}
@@ -0,0 +1,187 @@
+import { NextFunction, Request, Response } from 'express';
+import { MerchantWebhookService, WebhookActorContext } from '../../services/MerchantWebhookService';
+import { WebhookDeliveryStatus, WebhookSubscription } from '../../models/MerchantWebhook';
+import { PaymentError } from '../../errors/PaymentError';
+import { WebhookSubscriptionBody, WebhookSubscriptionUpdateBody } from '../schemas';
+import { currentUser } from '../middleware/authenticate';
+
+// Subscriptions as listed; the signing secret is only shown once, when the subscription is created
+type SubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+const toSubscriptionView = ({ secret: _secret, ...subscription }: WebhookSubscription): SubscriptionView => subscription;
+
+/**
+ * Lets merchants manage their webhook subscriptions, and merchants and support staff inspect and
+ * redeliver webhook deliveries. Failures are passed to next() and answered by the central error handler.
+ */
+export class MerchantWebhookController {
+  private webhookService: MerchantWebhookService;
+
+  constructor(webhookService: MerchantWebhookService) {
+    this.webhookService = webhookService;
+  }
+
+  /**
+   * Register a URL for some event types. The response carries the signing secret.
+   * @route POST /webhook-subscriptions
+   */
+  async createSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscription = await this.webhookService.createSubscription(
+        this.merchantId(req),
+        req.body as WebhookSubscriptionBody,
+        this.actorContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: subscription
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /webhook-subscriptions
+   */
+  async listSubscriptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscriptions = await this.webhookService.listSubscriptions(this.merchantId(req));
+
+      res.status(200).json({
+        success: true,
+        data: subscriptions.map(toSubscriptionView)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /webhook-subscriptions/:id
+   */
+  async getSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscription = await this.webhookService.getSubscription(this.merchantId(req), req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: toSubscriptionView(subscription)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a subscription's URL or event types, or disable it
+   * @route PATCH /webhook-subscriptions/:id
+   */
+  async updateSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscription = await this.webhookService.updateSubscription(
+        this.merchantId(req),
+        req.params.id,
+        req.body as WebhookSubscriptionUpdateBody,
+        this.actorContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: toSubscriptionView(subscription)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route DELETE /webhook-subscriptions/:id
+   */
+  async deleteSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.webhookService.deleteSubscription(this.merchantId(req), req.params.id, this.actorContext(req));
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deliveries with every attempt and response code, newest first; merchants only see their own
+   * @route GET /webhook-deliveries?status=dead&subscriptionId=...&eventId=...&limit=50
+   */
+  async listDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, subscriptionId, eventId, limit } = req.query as unknown as {
+        status?: WebhookDeliveryStatus;
+        subscriptionId?: string;
+        eventId?: string;
+        limit: number;
+      };
+      const deliveries = await this.webhookService.listDeliveries(
+        { merchantId: currentUser(req).merchantId, status, subscriptionId, eventId },
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: deliveries
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /webhook-deliveries/:id
+   */
+  async getDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.webhookService.getDelivery(req.params.id, currentUser(req).merchantId)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a delivery again now, e.g. one on the dead-letter list after the merchant fixed their endpoint
+   * @route POST /webhook-deliveries/:id/redeliver
+   */
+  async redeliver(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const delivery = await this.webhookService.redeliver(
+        req.params.id,
+        currentUser(req).merchantId,
+        this.actorContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: delivery
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @throws PaymentError forbidden when the caller does not act for a merchant
+   */
+  private merchantId(req: Request): string {
+    const { merchantId } = currentUser(req);
+    if (!merchantId) {
+      throw new PaymentError('Webhook subscriptions belong to a merchant; act for one to manage them', 'forbidden');
+    }
+    return merchantId;
+  }
+
+  private actorContext(req: Request): WebhookActorContext {
+    return { actor: currentUser(req).id, ipAddress: req.ip };
+  }
+}
@@ -0,0 +1,66 @@
+import { NextFunction, Request, Response } from 'express';
+import { ProviderWebhookService } from '../../services/ProviderWebhookService';
+import { ProviderEventStatus } from '../../models/ProviderEvent';
+import { currentUser } from '../middleware/authenticate';
+
+/**
+ * Receives the payment provider's webhooks and lets platform admins inspect and replay them.
+ * Failures are passed to next() and answered by the central error handler.
+ */
+export class ProviderWebhookController {
+  private webhookService: ProviderWebhookService;
+
+  constructor(webhookService: ProviderWebhookService) {
+    this.webhookService = webhookService;
+  }
+
+  /**
+   * Apply an event pushed by the provider. The signature has already been checked; once the
+   * event is stored the delivery is acknowledged, even if it could not be applied, and
+   * failed events are replayed through POST /provider-events/:id/replay.
+   * @route POST /webhooks/provider
+   */
+  async receive(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { event, duplicate } = await this.webhookService.receive(req.body as Buffer);
+
+      res.status(200).json({
+        success: true,
+        data: { eventId: event.id, status: event.status, duplicate }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route GET /provider-events?status=failed
+   */
+  async listEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await this.webhookService.listEvents(req.query.status as ProviderEventStatus | undefined)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Apply a stored event again
+   * @route POST /provider-events/:id/replay
+   */
+  async replayEvent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const event = await this.webhookService.replay(req.params.id, currentUser(req).id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        data: event
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
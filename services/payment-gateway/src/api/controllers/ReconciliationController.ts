@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from 'express';
+import { ReconciliationService, parseSettlementReport } from '../../services/ReconciliationService';
+import { ReconciliationQuery } from '../schemas';
+
+/**
+ * Settlement reconciliation for finance.
+ * Routes are restricted to platform admins; failures are passed to next()
+ * and answered by the central error handler.
+ */
+export class ReconciliationController {
+  private reconciliationService: ReconciliationService;
+
+  constructor(reconciliationService: ReconciliationService) {
+    this.reconciliationService = reconciliationService;
+  }
+
+  /**
+   * Reconcile the settlement report in the body against the transactions created in [from, to)
+   * @route POST /reconciliations?from=2026-01-01T00:00:00Z&to=2026-01-02T00:00:00Z&format=csv
+   */
+  async reconcile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { from, to, format } = req.query as unknown as ReconciliationQuery;
+      const content = typeof req.body === 'string' ? req.body : '';
+      const settlement = parseSettlementReport(content, format || (req.is('application/json') ? 'json' : 'csv'));
+
+      res.status(200).json({
+        success: true,
+        data: await this.reconciliationService.reconcile(settlement, { from, to })
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { NextFunction, Request, Response } from 'express';
+import { PaymentProcessor } from '../../services/PaymentProcessor';
+import { RefundApprovalStatus } from '../../models/RefundApproval';
+import { ReviewBody } from '../schemas';
+import { currentUser } from '../middleware/authenticate';
+
+/**
+ * Review queue for refunds above the approval threshold (maker-checker).
+ * Routes are restricted to the refund_approver role; failures are passed to next()
+ * and answered by the central error handler.
+ */
+export class RefundApprovalController {
+  private paymentProcessor: PaymentProcessor;
+  
+  constructor(paymentProcessor: PaymentProcessor) {
+    this.paymentProcessor = paymentProcessor;
+  }
+  
+  /**
+   * List refund approval requests, optionally filtered by status
+   * Approvers acting for a merchant only see that merchant's requests
+   * @route GET /refund-approvals?status=pending
+   */
+  async listApprovals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const status = req.query.status as RefundApprovalStatus | undefined;
+    
+    try {
+      const approvals = await this.paymentProcessor.listRefundApprovals(status, currentUser(req).merchantId);
+      
+      res.status(200).json({
+        success: true,
+        data: approvals
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  /**
+   * Approve a held refund and send it to the provider
+   * @route POST /refund-approvals/:id/approve
+   */
+  async approveRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { id } = req.params;
+    const { note } = req.body as ReviewBody;
+    
+    try {
+      const { id: actor, merchantId } = currentUser(req);
+      const approval = await this.paymentProcessor.approveRefund(id, {
+        actor,
+        merchantId,
+        ipAddress: req.ip,
+        note
+      });
+      
+      res.status(200).json({
+        success: true,
+        data: approval
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  /**
+   * Reject a held refund
+   * @route POST /refund-approvals/:id/reject
+   */
+  async rejectRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { id } = req.params;
+    const { note } = req.body as ReviewBody;
+    
+    try {
+      const { id: actor, merchantId } = currentUser(req);
+      const approval = await this.paymentProcessor.rejectRefund(id, {
+        actor,
+        merchantId,
+        ipAddress: req.ip,
+        note
+      });
+      
+      res.status(200).json({
+        success: true,
+        data: approval
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
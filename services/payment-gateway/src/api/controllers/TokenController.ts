@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from 'express';
+import { TokenizationService } from '../../services/TokenizationService';
+import { CardToken } from '../../models/CardToken';
+import { CreateCardTokenBody } from '../schemas';
+import { currentUser } from '../middleware/authenticate';
+
+// Tokens as shown to their owner; the encrypted number and the fingerprint stay in the vault
+type CardTokenView = Omit<CardToken, 'encryptedNumber' | 'fingerprint'>;
+
+const toCardTokenView = ({ encryptedNumber: _encryptedNumber, fingerprint: _fingerprint, ...cardToken }: CardToken): CardTokenView =>
+  cardToken;
+
+/**
+ * Exchanges card details for vault tokens that payments can use instead.
+ * Failures are passed to next() and answered by the central error handler.
+ */
+export class TokenController {
+  private tokenization: TokenizationService;
+
+  constructor(tokenization: TokenizationService) {
+    this.tokenization = tokenization;
+  }
+
+  /**
+   * Store a card and return its token; only the caller, acting for the same merchant, can pay with it
+   * @route POST /tokens
+   */
+  async createToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { card } = req.body as CreateCardTokenBody;
+      const { id: userId, merchantId } = currentUser(req);
+      const cardToken = await this.tokenization.tokenize(card, { userId, merchantId });
+
+      res.status(201).json({
+        success: true,
+        data: toCardTokenView(cardToken)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
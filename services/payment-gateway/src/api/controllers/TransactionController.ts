@@ -1,162 +1,483 @@
-import { Request, Response } from 'express';
-import { PaymentProcessor, PaymentError } from '../../services/PaymentProcessor';
-import { Transaction, TransactionStatus } from '../../models/Transaction';
-import winston from 'winston';
+import { NextFunction, Request, Response } from 'express';
+import {
+  PaymentOperationOptions,
+  PaymentProcessor,
+  PaymentError,
+  RefundApprovalRequiredError
+} from '../../services/PaymentProcessor';
+import { ValidationError } from '../../errors/PaymentError';
+import { Money } from '../../models/Money';
+import { Transaction } from '../../models/Transaction';
+import { AuthenticatedUser, Role } from '../../models/AuthenticatedUser';
+import { TransactionRepository, StoredResponse } from '../../repositories';
+import { TransactionFilter, TransactionPosition, TransactionSortField } from '../../repositories/TransactionRepository';
+import { IdempotencyService } from '../../services/IdempotencyService';
+import { CaptureBody, ListTransactionsQuery, PaymentBody, RefundBody } from '../schemas';
+import { toErrorResponse } from '../middleware/errorHandler';
+import { currentUser } from '../middleware/authenticate';
+import { decodeCursor, encodeCursor } from '../../utils/cursor';
+import { createLogger } from '../../utils/logging';
+import { config } from '../../config';
 
-// Configure logger - Updated - Updated - Updated
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  defaultMeta: { service: 'transaction-controller' },
-  transports: [
-    new winston.transports.Console(),
-    new winston.transports.File({ filename: 'transactions.log' })
-  ]
-});
+const logger = createLogger('transaction-controller');
 
-const paymentProcessor = new PaymentProcessor();
+// Sort value of an amount cursor: a non-negative decimal as Money.toString writes it
+const AMOUNT_CURSOR_VALUE = /^\d+(\.\d+)?$/;
 
+/**
+ * Route handlers expect authenticated requests validated against the schemas in ../schemas.
+ * Failures are passed to next() and answered by the central error handler.
+ */
 export class TransactionController {
+  private paymentProcessor: PaymentProcessor;
+  private transactionRepository: TransactionRepository;
+  private idempotencyService: IdempotencyService;
+  
+  constructor(
+    paymentProcessor: PaymentProcessor,
+    transactionRepository: TransactionRepository,
+    idempotencyService: IdempotencyService
+  ) {
+    this.paymentProcessor = paymentProcessor;
+    this.transactionRepository = transactionRepository;
+    this.idempotencyService = idempotencyService;
+  }
+  
   /**
    * Create a new payment transaction
+   * The amount is in major units of the currency (e.g. 10.50 USD, 1000 JPY)
+   * The currency defaults to the merchant's default currency
+   * Honors an optional Idempotency-Key header
    * @route POST /transactions
    */
-  async createTransaction(req: Request, res: Response): Promise<void> {
-    const { amount, currency, paymentMethod, metadata } = req.body;
-    const userId = req.headers['user-id'] as string;
-    
-    // Issue: Missing input validation
-    
+  async createTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      logger.info('Creating new transaction', { userId, amount, currency });
-      
-      const transaction = await paymentProcessor.processPayment(
-        amount,
-        currency,
-        paymentMethod,
-        { ...metadata, userId }
-      );
-      
-      res.status(201).json({
-        success: true,
-        data: transaction
-      });
-    } catch (error) {
-      // Issue: Inconsistent error responses
-      if (error instanceof PaymentError) {
-        logger.error('Payment error', { 
-          userId, 
-          error: error.message,
-          code: error.code
-        });
+      await this.withIdempotency(req, res, 'create_transaction', async () => {
+        const { amount, paymentMethod, metadata } = req.body as PaymentBody;
+        const { id: userId, merchantId } = currentUser(req);
+        const currency = this.paymentCurrency(req);
         
-        res.status(400).json({
-          success: false,
-          error: {
-            message: error.message,
-            code: error.code
-          }
-        });
-      } else {
-        // Fixed: Removed sensitive data from error logs
-        logger.error('Unexpected error processing payment', { 
-          userId, 
-          amount, 
-          currency, 
-          // Removed paymentMethod which could contain sensitive card data
-          error: error.message
-        });
+        logger.info('Creating new transaction', { userId, merchantId, amount, currency });
         
-        res.status(500).json({
-          success: false,
-          error: {
-            message: 'An unexpected error occurred',
-            code: 'internal_error'
-          }
+        const transaction = await this.paymentProcessor.processPayment(
+          Money.of(amount, currency),
+          paymentMethod,
+          { ...metadata, userId },
+          this.paymentOptions(req)
+        );
+        
+        res.status(201).json({
+          success: true,
+          data: transaction
         });
-      }
+      });
+    } catch (error) {
+      next(error);
     }
   }
   
   /**
    * Get transaction by ID
+   * Users only see their own transactions unless they hold the support, admin or merchant role,
+   * and callers acting for a merchant only see that merchant's transactions;
+   * anything else is reported as not found
    * @route GET /transactions/:id
    */
-  async getTransaction(req: Request, res: Response): Promise<void> {
+  async getTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
     const { id } = req.params;
     
-    // Issue: One endpoint missing authentication check
-    // Should check for user authentication here
-    
     try {
-      // Simulating database fetch
-      const transaction: Transaction = {
-        id,
-        amount: 1000,
-        currency: 'USD',
-        status: TransactionStatus.COMPLETED,
-        type: 'payment',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      const transaction = await this.visibleTransaction(currentUser(req), id);
       
       res.status(200).json({
         success: true,
         data: transaction
       });
     } catch (error) {
-      logger.error('Error fetching transaction', { id, error: error.message });
+      next(error);
+    }
+  }
+  
+  /**
+   * List transactions matching the query filters, one page at a time
+   * Callers see what they could fetch by ID: their own transactions, or all of them with the
+   * support, admin or merchant role, always limited to the caller's merchant
+   * Pass pagination.nextCursor back as ?cursor= with the same filters to get the next page
+   * @route GET /transactions
+   */
+  async listTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const query = req.query as unknown as ListTransactionsQuery;
+    
+    try {
+      const filter = this.visibleFilter(currentUser(req), query);
+      const sortBy = query.sort.replace('-', '') as TransactionSortField;
+      // Cursors only continue the exact result set they were issued for
+      const resultSet = { filter, sort: query.sort };
       
-      // Issue: Not following error format from STYLE_GUIDE.md
-      res.status(500).send('Internal server error');
+      const page = await this.transactionRepository.search({
+        ...filter,
+        sortBy,
+        sortDirection: query.sort.startsWith('-') ? 'desc' : 'asc',
+        limit: query.limit,
+        after: query.cursor ? this.cursorPosition(query.cursor, resultSet, sortBy) : undefined,
+        includeTotal: query.includeTotal
+      });
+      
+      const last = page.transactions[page.transactions.length - 1];
+      const nextCursor = page.hasMore && last
+        ? encodeCursor({
+          value: sortBy === 'amount' ? last.amount.toString() : last.createdAt.toISOString(),
+          id: last.id
+        }, resultSet)
+        : null;
+      
+      res.status(200).json({
+        success: true,
+        data: page.transactions,
+        pagination: {
+          hasMore: page.hasMore,
+          nextCursor,
+          total: page.total
+        }
+      });
+    } catch (error) {
+      next(error);
     }
   }
   
   /**
-   * Process a refund
+   * Process a full or partial refund with an optional reason code (see RefundReason)
+   * A partial amount is in major units of the original transaction's currency
+   * Refunds above the approval threshold are answered with 202 and the pending approval request
+   * Honors an optional Idempotency-Key header
    * @route POST /transactions/:id/refund
    */
-  async refundTransaction(req: Request, res: Response): Promise<void> {
+  async refundTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
     const { id } = req.params;
-    const { amount } = req.body;
-    const userId = req.headers['user-id'] as string;
-    
-    // Issue: Missing rate limiting annotation
+    const body = req.body as RefundBody;
     
-    if (!userId) {
-      res.status(401).json({
-        success: false,
-        error: {
-          message: 'Authentication required',
-          code: 'auth_required'
+    try {
+      const { id: userId, merchantId } = currentUser(req);
+      
+      await this.withIdempotency(req, res, 'refund_transaction', async () => {
+        logger.info('Processing refund', { transactionId: id, amount: body.amount, reason: body.reason, userId });
+        
+        try {
+          const refundTransaction = await this.paymentProcessor.processRefund(id, await this.requestedAmount(id, body), {
+            idempotencyKey: this.providerIdempotencyKey(req),
+            actor: userId,
+            ipAddress: req.ip,
+            merchantId,
+            reason: body.reason
+          });
+          
+          res.status(200).json({
+            success: true,
+            data: refundTransaction
+          });
+        } catch (error) {
+          if (!(error instanceof RefundApprovalRequiredError)) {
+            throw error;
+          }
+          
+          res.status(202).json({
+            success: true,
+            data: error.approval
+          });
         }
       });
-      return;
+    } catch (error) {
+      next(error);
     }
+  }
+  
+  /**
+   * Authorize a card payment for later capture
+   * The currency defaults to the merchant's default currency
+   * Honors an optional Idempotency-Key header
+   * @route POST /transactions/authorize
+   */
+  async authorizeTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.withIdempotency(req, res, 'authorize_transaction', async () => {
+        const { amount, paymentMethod, metadata } = req.body as PaymentBody;
+        const { id: userId, merchantId } = currentUser(req);
+        const currency = this.paymentCurrency(req);
+        
+        logger.info('Authorizing transaction', { userId, merchantId, amount, currency });
+        
+        const authorization = await this.paymentProcessor.authorizePayment(
+          Money.of(amount, currency),
+          paymentMethod,
+          { ...metadata, userId },
+          this.paymentOptions(req)
+        );
+        
+        res.status(201).json({
+          success: true,
+          data: authorization
+        });
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  /**
+   * Capture all or part of an authorization
+   * Only callers who could fetch the authorization by ID may capture it
+   * Honors an optional Idempotency-Key header
+   * @route POST /transactions/:id/capture
+   */
+  async captureTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.withIdempotency(req, res, 'capture_transaction', async () => {
+        const { id } = req.params;
+        const body = req.body as CaptureBody;
+        const user = currentUser(req);
+        const { id: userId, merchantId } = user;
+        
+        logger.info('Capturing transaction', { transactionId: id, amount: body.amount, userId });
+        await this.visibleTransaction(user, id);
+        
+        const capture = await this.paymentProcessor.capturePayment(id, await this.requestedAmount(id, body), {
+          idempotencyKey: this.providerIdempotencyKey(req),
+          actor: userId,
+          ipAddress: req.ip,
+          merchantId,
+          final: body.final
+        });
+        
+        res.status(201).json({
+          success: true,
+          data: capture
+        });
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  /**
+   * Release an uncaptured authorization, or what partial captures left of it
+   * Only callers who could fetch the authorization by ID may void it
+   * @route POST /transactions/:id/void
+   */
+  async voidTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { id } = req.params;
     
     try {
-      logger.info('Processing refund', { transactionId: id, amount, userId });
+      const user = currentUser(req);
+      const { id: userId, merchantId } = user;
+      logger.info('Voiding transaction', { transactionId: id, userId });
+      await this.visibleTransaction(user, id);
       
-      const refundTransaction = await paymentProcessor.processRefund(id, amount);
+      const authorization = await this.paymentProcessor.voidAuthorization(id, {
+        actor: userId,
+        ipAddress: req.ip,
+        merchantId
+      });
       
       res.status(200).json({
         success: true,
-        data: refundTransaction
+        data: authorization
       });
     } catch (error) {
-      logger.error('Refund error', { 
-        transactionId: id, 
-        userId,
-        error: error.message
-      });
+      next(error);
+    }
+  }
+  
+  /**
+   * Options for a new payment or authorization, including what fraud screening needs to know about the customer
+   */
+  private paymentOptions(req: Request): PaymentOperationOptions {
+    const user = currentUser(req);
+    const { customerEmail, customerId } = req.body as PaymentBody;
+    
+    return {
+      idempotencyKey: this.providerIdempotencyKey(req),
+      actor: user.id,
+      ipAddress: req.ip,
+      merchantId: user.merchantId,
+      ipCountry: config.fraud.ipCountryHeader ? req.header(config.fraud.ipCountryHeader) : undefined,
+      customerEmail,
+      // A merchant API key pays for many customers, so the customer comes from the body;
+      // people always pay for themselves
+      customerId: user.roles.includes(Role.MERCHANT) ? customerId ?? customerEmail?.toLowerCase() : user.id
+    };
+  }
+  
+  /**
+   * Currency of a new payment: the one in the body, otherwise the merchant's default
+   * @throws ValidationError when neither is available
+   */
+  private paymentCurrency(req: Request): string {
+    const currency = (req.body as PaymentBody).currency ?? req.merchant?.defaultCurrency;
+    if (!currency) {
+      throw new ValidationError([{ field: 'body.currency', message: 'Required when the caller has no merchant' }]);
+    }
+    
+    return currency;
+  }
+  
+  /**
+   * Parse an optional partial amount for a refund or capture.
+   * The currency defaults to the one of the transaction being refunded or captured.
+   */
+  private async requestedAmount(transactionId: string, body: CaptureBody): Promise<Money | undefined> {
+    if (body.amount === undefined) {
+      return undefined;
+    }
+    
+    const currency = body.currency ?? (await this.transactionRepository.findById(transactionId))?.currency;
+    if (!currency) {
+      throw new PaymentError('Transaction not found', 'transaction_not_found');
+    }
+    
+    return Money.of(body.amount, currency);
+  }
+  
+  /**
+   * Support and admin callers may read every transaction of their merchant (or all, without one);
+   * merchant callers only every transaction of their own merchant
+   */
+  private canReadAll(user: AuthenticatedUser): boolean {
+    return [Role.SUPPORT, Role.ADMIN].some(role => user.roles.includes(role))
+      || (user.roles.includes(Role.MERCHANT) && user.merchantId !== undefined);
+  }
+  
+  /**
+   * Read a list cursor and check its sort value, as clients can forge cursors for the same query
+   * @throws PaymentError validation_error when the value is not an amount or timestamp as the sort needs
+   */
+  private cursorPosition(cursor: string, resultSet: unknown, sortBy: TransactionSortField): TransactionPosition {
+    const position = decodeCursor(cursor, resultSet);
+    const valid = sortBy === 'amount'
+      ? AMOUNT_CURSOR_VALUE.test(position.value)
+      : !Number.isNaN(Date.parse(position.value));
+    
+    if (!valid) {
+      throw new PaymentError('Invalid cursor', 'validation_error');
+    }
+    
+    return position;
+  }
+  
+  /**
+   * Narrow the requested filters to what the caller may see
+   * @throws PaymentError forbidden when a customer asks for another user's transactions
+   */
+  private visibleFilter(user: AuthenticatedUser, query: ListTransactionsQuery): TransactionFilter {
+    const canReadAll = this.canReadAll(user);
+    
+    if (!canReadAll && query.userId !== undefined && query.userId !== user.id) {
+      throw new PaymentError('Only support and admin users can list other users\' transactions', 'forbidden');
+    }
+    
+    return {
+      merchantId: user.merchantId,
+      statuses: query.status,
+      types: query.type,
+      currency: query.currency,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+      createdFrom: query.createdFrom,
+      createdTo: query.createdTo,
+      userId: canReadAll ? query.userId : user.id,
+      metadataKey: query.metadataKey,
+      metadataValue: query.metadataValue
+    };
+  }
+  
+  /**
+   * A transaction the caller may see: their own, or any with the support, admin or merchant role,
+   * always limited to the caller's merchant
+   * @throws PaymentError transaction_not_found for anything else, so other users' IDs are not confirmed
+   */
+  private async visibleTransaction(user: AuthenticatedUser, id: string): Promise<Transaction> {
+    const transaction = await this.transactionRepository.findById(id);
+    const otherMerchant = user.merchantId !== undefined && transaction?.merchantId !== user.merchantId;
+    
+    if (!transaction || otherMerchant || (!this.canReadAll(user) && await this.ownerOf(transaction) !== user.id)) {
+      throw new PaymentError('Transaction not found', 'transaction_not_found');
+    }
+    
+    return transaction;
+  }
+  
+  /**
+   * User who created a payment or authorization; refunds and captures belong to the owner of the original
+   */
+  private async ownerOf(transaction: Transaction): Promise<string | undefined> {
+    const owner = transaction.metadata?.userId;
+    if (typeof owner === 'string') {
+      return owner;
+    }
+    
+    const original = transaction.originalTransactionId
+      ? await this.transactionRepository.findById(transaction.originalTransactionId)
+      : undefined;
+    return typeof original?.metadata?.userId === 'string' ? original.metadata.userId : undefined;
+  }
+  
+  /**
+   * Run a handler at most once per Idempotency-Key and user, replaying the stored response
+   * for retries of the same request
+   */
+  private async withIdempotency(
+    req: Request,
+    res: Response,
+    operation: string,
+    handler: () => Promise<void>
+  ): Promise<void> {
+    const key = req.header('Idempotency-Key');
+    if (!key) {
+      await handler();
+      return;
+    }
+    
+    const scope = { userId: currentUser(req).id, key, operation };
+    const outcome = await this.idempotencyService.begin(scope, { params: req.params, body: req.body });
+    
+    if (outcome.replay) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(outcome.response.statusCode).json(outcome.response.body);
+      return;
+    }
+    
+    // Capture what the handler sends so retries see exactly the same response
+    const send = res.json.bind(res);
+    let captured: StoredResponse | undefined;
+    res.json = (body: unknown): Response => {
+      captured = { statusCode: res.statusCode, body: JSON.parse(JSON.stringify(body)) };
+      return send(body);
+    };
+    
+    try {
+      await handler();
+    } catch (error) {
+      // Rejections are stored like any other response; the error handler sends the same envelope
+      const { statusCode, body } = toErrorResponse(error);
+      captured = { statusCode, body: JSON.parse(JSON.stringify(body)) };
+      throw error;
+    } finally {
+      res.json = send;
       
-      // Issue: Inconsistent error responses
-      res.status(400).json({
-        success: false,
-        message: error.message
-      });
+      // Server errors leave the outcome unknown, so the client is allowed to retry them
+      if (captured && captured.statusCode < 500) {
+        await this.idempotencyService.complete(scope, captured);
+      } else {
+        await this.idempotencyService.release(scope);
+      }
     }
   }
+  
+  /**
+   * Derive the provider idempotency key from the client's key so a retried request
+   * can never create a second charge at the provider
+   */
+  private providerIdempotencyKey(req: Request): string | undefined {
+    const key = req.header('Idempotency-Key');
+    return key ? `${currentUser(req).id}:${key}` : undefined;
+  }
 }
-
-export default new TransactionController();
@@ -0,0 +1,196 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { PaymentError } from '../../errors/PaymentError';
+import { AuthenticatedUser, Permission, Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { MerchantService } from '../../services/MerchantService';
+import { ProviderWebhookService } from '../../services/ProviderWebhookService';
+import { JwtClaims, JwtVerifyOptions, verifyJwt } from '../../utils/jwt';
+import { createLogger, updateLogContext } from '../../utils/logging';
+
+const logger = createLogger('authentication');
+
+const BEARER = /^Bearer\s+(\S+)$/i;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const toUser = (claims: JwtClaims): AuthenticatedUser => ({
+  id: claims.sub,
+  merchantId: typeof claims.merchant_id === 'string' ? claims.merchant_id : undefined,
+  roles: stringList(claims.roles),
+  permissions: [
+    ...stringList(claims.permissions),
+    ...(typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [])
+  ]
+});
+
+const auditDenial = async (auditLogger: AuditLogger, req: Request, reason: string): Promise<void> => {
+  await auditLogger
+    .recordAccessDenied({
+      userId: req.user?.id,
+      ipAddress: req.ip,
+      resource: `${req.method} ${req.originalUrl}`,
+      reason
+    })
+    .catch(error => logger.error('Failed to write audit event', { error: (error as Error).message }));
+};
+
+/**
+ * Identify server-to-server callers by their `X-Api-Key` header and attach them as req.user.
+ * Requests without the header are left to authenticate; rejections are written to the audit trail.
+ */
+export const authenticateApiKey = (merchantService: MerchantService, auditLogger: AuditLogger): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const key = req.header('X-Api-Key');
+    if (!key) {
+      next();
+      return;
+    }
+
+    try {
+      const { merchant, apiKey } = await merchantService.authenticate(key);
+      // One identity per merchant, so idempotency keys and ownership survive key rotation
+      req.user = {
+        id: `merchant:${merchant.id}`,
+        merchantId: merchant.id,
+        roles: [Role.MERCHANT],
+        permissions: apiKey.permissions
+      };
+      req.merchant = merchant;
+      logger.debug('API key accepted', { merchantId: merchant.id, apiKeyPrefix: apiKey.prefix });
+    } catch (error) {
+      const code = (error as PaymentError).code || 'invalid_api_key';
+      logger.warn('API key rejected', { code });
+      await auditDenial(auditLogger, req, code);
+      next(error);
+      return;
+    }
+
+    updateLogContext({ userId: req.user.id });
+    next();
+  };
+
+/**
+ * Require a valid `Authorization: Bearer <JWT>` header and attach the caller as req.user.
+ * Callers already identified by authenticateApiKey pass through. Rejections are written to the audit trail.
+ */
+export const authenticate = (options: JwtVerifyOptions, auditLogger: AuditLogger): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    if (req.user) {
+      next();
+      return;
+    }
+
+    const token = BEARER.exec(req.header('Authorization') || '')?.[1];
+
+    if (!token) {
+      await auditDenial(auditLogger, req, 'auth_required');
+      next(new PaymentError('Authentication required', 'auth_required'));
+      return;
+    }
+
+    try {
+      req.user = toUser(verifyJwt(token, options));
+    } catch (error) {
+      const code = (error as PaymentError).code || 'invalid_token';
+      logger.warn('Bearer token rejected', { code, error: (error as Error).message });
+      await auditDenial(auditLogger, req, code);
+      next(error);
+      return;
+    }
+
+    updateLogContext({ userId: req.user.id });
+    next();
+  };
+
+/**
+ * Attach the merchant a bearer token names in its merchant_id claim as req.merchant.
+ * Tokens for unknown or suspended merchants, and merchant-role tokens without a merchant, are refused.
+ */
+export const resolveMerchant = (merchantService: MerchantService, auditLogger: AuditLogger): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const merchantId = req.user?.merchantId;
+    if (!merchantId && req.user?.roles.includes(Role.MERCHANT)) {
+      logger.warn('Merchant token names no merchant', { userId: req.user.id });
+      await auditDenial(auditLogger, req, 'invalid_token');
+      next(new PaymentError('Merchant tokens must name a merchant', 'invalid_token'));
+      return;
+    }
+    if (!merchantId || req.merchant) {
+      next();
+      return;
+    }
+
+    try {
+      req.merchant = await merchantService.getActiveMerchant(merchantId);
+    } catch (error) {
+      const code = (error as PaymentError).code;
+      logger.warn('Token names an unusable merchant', { userId: req.user?.id, merchantId, code });
+      await auditDenial(auditLogger, req, code);
+      next(code === 'merchant_not_found' ? new PaymentError('Token names an unknown merchant', 'invalid_token') : error);
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * Accept only webhook deliveries carrying a valid `X-Provider-Signature` for the raw body in req.body.
+ * Must run after express.raw(); rejections are written to the audit trail.
+ */
+export const verifyProviderSignature = (webhookService: ProviderWebhookService, auditLogger: AuditLogger): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const payload = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+    try {
+      webhookService.verifySignature(payload, req.header('X-Provider-Signature'));
+    } catch (error) {
+      logger.warn('Provider webhook rejected', { error: (error as Error).message });
+      await auditDenial(auditLogger, req, (error as PaymentError).code || 'invalid_webhook_signature');
+      next(error);
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * Allow only callers holding at least one of the roles
+ */
+export const requireRole = (auditLogger: AuditLogger, ...roles: Role[]): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    if (req.user && roles.some(role => req.user?.roles.includes(role))) {
+      next();
+      return;
+    }
+
+    logger.warn('Access denied: missing role', { userId: req.user?.id, path: req.path, roles });
+    await auditDenial(auditLogger, req, 'missing_role');
+    next(new PaymentError(`One of these roles is required: ${roles.join(', ')}`, 'forbidden'));
+  };
+
+/**
+ * Allow only callers whose token explicitly grants the permission; roles do not imply permissions
+ */
+export const requirePermission = (auditLogger: AuditLogger, permission: Permission): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    if (req.user?.permissions.includes(permission)) {
+      next();
+      return;
+    }
+
+    logger.warn('Access denied: missing permission', { userId: req.user?.id, path: req.path, permission });
+    await auditDenial(auditLogger, req, 'missing_permission');
+    next(new PaymentError(`The ${permission} permission is required`, 'forbidden'));
+  };
+
+/**
+ * The caller attached by authenticate
+ * @throws PaymentError auth_required when the route is not behind authenticate
+ */
+export const currentUser = (req: Request): AuthenticatedUser => {
+  if (!req.user) {
+    throw new PaymentError('Authentication required', 'auth_required');
+  }
+  return req.user;
+};
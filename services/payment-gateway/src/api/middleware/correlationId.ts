@@ -0,0 +1,29 @@
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runWithLogContext } from '../../utils/logging';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+// Accept caller-supplied IDs only if they are short and cannot inject into log lines
+const VALID_CORRELATION_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+// The ID is logged without redaction, so it must not hold as many digits as a card number ('@' already rules out emails)
+const CARD_NUMBER_LIKE = /\d(?:[._:-]?\d){12}/;
+
+/**
+ * Reuse the caller's X-Correlation-Id (or create one), echo it on the response and
+ * run the rest of the request inside its own log context. The user is added once authenticated.
+ */
+export const correlationId = (req: Request, res: Response, next: NextFunction): void => {
+  const supplied = req.header(CORRELATION_ID_HEADER);
+  const id = supplied && VALID_CORRELATION_ID.test(supplied) && !CARD_NUMBER_LIKE.test(supplied) ? supplied : uuidv4();
+
+  res.setHeader(CORRELATION_ID_HEADER, id);
+
+  runWithLogContext(
+    {
+      correlationId: id,
+      ipAddress: req.ip
+    },
+    next
+  );
+};
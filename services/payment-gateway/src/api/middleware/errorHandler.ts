@@ -0,0 +1,117 @@
+import { NextFunction, Request, Response } from 'express';
+import { PaymentError, ValidationError } from '../../errors/PaymentError';
+import { createLogger } from '../../utils/logging';
+
+const logger = createLogger('error-handler');
+
+// HTTP status per error code; other PaymentErrors are client errors (400)
+const PAYMENT_ERROR_STATUS: Record<string, number> = {
+  auth_required: 401,
+  invalid_api_key: 401,
+  invalid_token: 401,
+  token_expired: 401,
+  invalid_webhook_signature: 401,
+  forbidden: 403,
+  refund_self_approval: 403,
+  merchant_suspended: 403,
+  // Stopped by fraud screening before reaching the provider, like a decline
+  payment_blocked: 402,
+  payment_held_for_review: 402,
+  transaction_not_found: 404,
+  refund_approval_not_found: 404,
+  merchant_not_found: 404,
+  api_key_not_found: 404,
+  provider_event_not_found: 404,
+  webhook_subscription_not_found: 404,
+  webhook_delivery_not_found: 404,
+  fraud_review_not_found: 404,
+  card_token_not_found: 404,
+  route_not_found: 404,
+  invalid_status_transition: 409,
+  authorization_not_active: 409,
+  refund_approval_not_pending: 409,
+  fraud_review_not_pending: 409,
+  idempotency_key_in_progress: 409,
+  idempotency_key_reused: 422,
+  rate_limited: 429,
+  // The outcome at the provider is unknown, so clients may retry with the same Idempotency-Key
+  provider_unavailable: 502,
+  provider_circuit_open: 503,
+  provider_timeout: 504,
+  // The ledger invariant check failed: an integrity problem on our side, not in the request
+  ledger_unbalanced: 500
+};
+
+// Failures raised by express.json() before a route runs
+const BODY_PARSER_ERRORS: Record<string, { status: number; code: string; message: string }> = {
+  'entity.parse.failed': { status: 400, code: 'invalid_json', message: 'Request body is not valid JSON' },
+  'entity.too.large': { status: 413, code: 'payload_too_large', message: 'Request body is too large' }
+};
+
+export interface ErrorResponse {
+  statusCode: number;
+  body: {
+    success: false;
+    error: {
+      code: string;
+      message: string;
+      details?: unknown;
+    };
+  };
+}
+
+const envelope = (statusCode: number, code: string, message: string, details?: unknown): ErrorResponse => ({
+  statusCode,
+  body: {
+    success: false,
+    error: details !== undefined ? { code, message, details } : { code, message }
+  }
+});
+
+/**
+ * The response for an error in the standard envelope. Anything that is not a PaymentError
+ * is reported as a generic internal error so no internals reach the client.
+ */
+export const toErrorResponse = (error: unknown): ErrorResponse => {
+  if (error instanceof ValidationError) {
+    return envelope(400, error.code, error.message, error.details);
+  }
+
+  if (error instanceof PaymentError) {
+    return envelope(PAYMENT_ERROR_STATUS[error.code] || 400, error.code, error.message);
+  }
+
+  const bodyParserError = BODY_PARSER_ERRORS[(error as { type?: string })?.type ?? ''];
+  if (bodyParserError) {
+    return envelope(bodyParserError.status, bodyParserError.code, bodyParserError.message);
+  }
+
+  return envelope(500, 'internal_error', 'An unexpected error occurred');
+};
+
+/**
+ * Central Express error handler: every failed request is answered from here
+ */
+export const errorHandler = (error: unknown, req: Request, res: Response, next: NextFunction): void => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const { statusCode, body } = toErrorResponse(error);
+  const context = {
+    method: req.method,
+    path: req.originalUrl,
+    statusCode,
+    code: body.error.code,
+    error: (error as Error)?.message
+  };
+
+  if (statusCode >= 500) {
+    logger.error('Request failed', { ...context, stack: (error as Error)?.stack });
+  } else {
+    logger.warn('Request rejected', context);
+  }
+
+  res.status(statusCode).json(body);
+};
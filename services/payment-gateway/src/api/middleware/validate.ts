@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from 'express';
+import { ZodTypeAny } from 'zod';
+import { FieldError, ValidationError } from '../../errors/PaymentError';
+
+/**
+ * Schemas for the parts of a request a route accepts. Parts without a schema are not checked.
+ */
+export interface RequestSchema {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  headers?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+const PARTS: ReadonlyArray<keyof RequestSchema> = ['params', 'query', 'headers', 'body'];
+
+/**
+ * Validate a request against its schemas, reporting every invalid field at once.
+ * Parsed params, query and body (trimmed, defaulted and with unknown keys stripped) replace the raw values;
+ * headers are only checked.
+ */
+export const validate = (schema: RequestSchema) => (req: Request, _res: Response, next: NextFunction): void => {
+  const details: FieldError[] = [];
+
+  PARTS.forEach(part => {
+    const partSchema = schema[part];
+    if (!partSchema) {
+      return;
+    }
+
+    const result = partSchema.safeParse(req[part] ?? {});
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        details.push({ field: [part, ...issue.path].join('.'), message: issue.message });
+      });
+    } else if (part !== 'headers') {
+      req[part] = result.data;
+    }
+  });
+
+  next(details.length > 0 ? new ValidationError(details) : undefined);
+};
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { FraudReviewController } from '../controllers/FraudReviewController';
+import { PaymentError } from '../../errors/PaymentError';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { validate } from '../middleware/validate';
+import { requireRole } from '../middleware/authenticate';
+import { decideFraudReviewSchema, getFraudReviewSchema, listFraudReviewsSchema } from '../schemas';
+
+/**
+ * Routes under /fraud-reviews; callers must already be authenticated and be platform admins
+ */
+export const createFraudReviewRouter = (controller: FraudReviewController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.ADMIN));
+  router.use((req, _res, next) => next(
+    req.user?.merchantId ? new PaymentError('Fraud reviews are limited to platform admins', 'forbidden') : undefined
+  ));
+  router.get('/', validate(listFraudReviewsSchema), (req, res, next) => controller.listReviews(req, res, next));
+  router.get('/:id', validate(getFraudReviewSchema), (req, res, next) => controller.getReview(req, res, next));
+  router.post('/:id/approve', validate(decideFraudReviewSchema), (req, res, next) => controller.approveReview(req, res, next));
+  router.post('/:id/reject', validate(decideFraudReviewSchema), (req, res, next) => controller.rejectReview(req, res, next));
+
+  return router;
+};
@@ -0,0 +1,9 @@
+export { createTransactionRouter } from './transactionRoutes';
+export { createRefundApprovalRouter } from './refundApprovalRoutes';
+export { createMerchantRouter } from './merchantRoutes';
+export { createProviderEventRouter, createProviderWebhookRouter } from './providerWebhookRoutes';
+export { createWebhookDeliveryRouter, createWebhookSubscriptionRouter } from './merchantWebhookRoutes';
+export { createLedgerRouter } from './ledgerRoutes';
+export { createReconciliationRouter } from './reconciliationRoutes';
+export { createFraudReviewRouter } from './fraudReviewRoutes';
+export { createTokenRouter } from './tokenRoutes';
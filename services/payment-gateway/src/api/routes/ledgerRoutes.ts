@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { LedgerController } from '../controllers/LedgerController';
+import { PaymentError } from '../../errors/PaymentError';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { validate } from '../middleware/validate';
+import { requireRole } from '../middleware/authenticate';
+import { ledgerBalancesSchema, ledgerEntriesSchema } from '../schemas';
+
+/**
+ * Routes under /ledger; callers must already be authenticated and be platform admins
+ */
+export const createLedgerRouter = (controller: LedgerController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.ADMIN));
+  router.use((req, _res, next) => next(
+    req.user?.merchantId ? new PaymentError('The ledger is limited to platform admins', 'forbidden') : undefined
+  ));
+  router.get('/balances', validate(ledgerBalancesSchema), (req, res, next) => controller.getBalances(req, res, next));
+  router.get(
+    '/transactions/:id/entries',
+    validate(ledgerEntriesSchema),
+    (req, res, next) => controller.getEntries(req, res, next)
+  );
+  router.get('/verify', (req, res, next) => controller.verify(req, res, next));
+
+  return router;
+};
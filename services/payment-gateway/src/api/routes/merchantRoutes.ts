@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { MerchantController } from '../controllers/MerchantController';
+import { PaymentError } from '../../errors/PaymentError';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { validate } from '../middleware/validate';
+import { requireRole } from '../middleware/authenticate';
+import {
+  apiKeySchema,
+  createMerchantSchema,
+  getMerchantSchema,
+  issueApiKeySchema,
+  updateMerchantSchema
+} from '../schemas';
+
+/**
+ * Routes under /merchants; callers must already be authenticated and be platform admins,
+ * i.e. hold the admin role without acting for a merchant
+ */
+export const createMerchantRouter = (controller: MerchantController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.ADMIN));
+  router.use((req, _res, next) => next(
+    req.user?.merchantId ? new PaymentError('Merchant administration is limited to platform admins', 'forbidden') : undefined
+  ));
+  router.post('/', validate(createMerchantSchema), (req, res, next) => controller.createMerchant(req, res, next));
+  router.get('/', (req, res, next) => controller.listMerchants(req, res, next));
+  router.get('/:id', validate(getMerchantSchema), (req, res, next) => controller.getMerchant(req, res, next));
+  router.patch('/:id', validate(updateMerchantSchema), (req, res, next) => controller.updateMerchant(req, res, next));
+  router.get('/:id/api-keys', validate(getMerchantSchema), (req, res, next) => controller.listApiKeys(req, res, next));
+  router.post('/:id/api-keys', validate(issueApiKeySchema), (req, res, next) => controller.issueApiKey(req, res, next));
+  router.post(
+    '/:id/api-keys/:keyId/rotate',
+    validate(apiKeySchema),
+    (req, res, next) => controller.rotateApiKey(req, res, next)
+  );
+  router.post(
+    '/:id/api-keys/:keyId/revoke',
+    validate(apiKeySchema),
+    (req, res, next) => controller.revokeApiKey(req, res, next)
+  );
+
+  return router;
+};
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { MerchantWebhookController } from '../controllers/MerchantWebhookController';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { validate } from '../middleware/validate';
+import { requireRole } from '../middleware/authenticate';
+import {
+  createWebhookSubscriptionSchema,
+  getWebhookDeliverySchema,
+  getWebhookSubscriptionSchema,
+  listWebhookDeliveriesSchema,
+  updateWebhookSubscriptionSchema
+} from '../schemas';
+
+/**
+ * Routes under /webhook-subscriptions; callers must already be authenticated, act for a merchant
+ * and hold the merchant or admin role
+ */
+export const createWebhookSubscriptionRouter = (controller: MerchantWebhookController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.MERCHANT, Role.ADMIN));
+  router.post(
+    '/',
+    validate(createWebhookSubscriptionSchema),
+    (req, res, next) => controller.createSubscription(req, res, next)
+  );
+  router.get('/', (req, res, next) => controller.listSubscriptions(req, res, next));
+  router.get('/:id', validate(getWebhookSubscriptionSchema), (req, res, next) => controller.getSubscription(req, res, next));
+  router.patch(
+    '/:id',
+    validate(updateWebhookSubscriptionSchema),
+    (req, res, next) => controller.updateSubscription(req, res, next)
+  );
+  router.delete(
+    '/:id',
+    validate(getWebhookSubscriptionSchema),
+    (req, res, next) => controller.deleteSubscription(req, res, next)
+  );
+
+  return router;
+};
+
+/**
+ * Routes under /webhook-deliveries; callers must already be authenticated and hold the merchant,
+ * support or admin role. Merchant-bound callers only see their own deliveries.
+ */
+export const createWebhookDeliveryRouter = (controller: MerchantWebhookController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.MERCHANT, Role.SUPPORT, Role.ADMIN));
+  router.get('/', validate(listWebhookDeliveriesSchema), (req, res, next) => controller.listDeliveries(req, res, next));
+  router.get('/:id', validate(getWebhookDeliverySchema), (req, res, next) => controller.getDelivery(req, res, next));
+  router.post(
+    '/:id/redeliver',
+    validate(getWebhookDeliverySchema),
+    (req, res, next) => controller.redeliver(req, res, next)
+  );
+
+  return router;
+};
@@ -0,0 +1,50 @@
+import express, { Router } from 'express';
+import { ProviderWebhookController } from '../controllers/ProviderWebhookController';
+import { PaymentError } from '../../errors/PaymentError';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { ProviderWebhookService } from '../../services/ProviderWebhookService';
+import { validate } from '../middleware/validate';
+import { requireRole, verifyProviderSignature } from '../middleware/authenticate';
+import { listProviderEventsSchema, replayProviderEventSchema } from '../schemas';
+
+/**
+ * Routes under /webhooks/provider. Deliveries are authenticated by their signature rather than a user,
+ * so the router must be mounted before express.json(): the signature covers the body byte for byte.
+ */
+export const createProviderWebhookRouter = (
+  controller: ProviderWebhookController,
+  webhookService: ProviderWebhookService,
+  auditLogger: AuditLogger
+): Router => {
+  const router = Router();
+
+  router.post(
+    '/',
+    express.raw({ type: () => true, limit: '100kb' }),
+    verifyProviderSignature(webhookService, auditLogger),
+    (req, res, next) => controller.receive(req, res, next)
+  );
+
+  return router;
+};
+
+/**
+ * Routes under /provider-events; callers must already be authenticated and be platform admins
+ */
+export const createProviderEventRouter = (controller: ProviderWebhookController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.ADMIN));
+  router.use((req, _res, next) => next(
+    req.user?.merchantId ? new PaymentError('Provider events are limited to platform admins', 'forbidden') : undefined
+  ));
+  router.get('/', validate(listProviderEventsSchema), (req, res, next) => controller.listEvents(req, res, next));
+  router.post(
+    '/:id/replay',
+    validate(replayProviderEventSchema),
+    (req, res, next) => controller.replayEvent(req, res, next)
+  );
+
+  return router;
+};
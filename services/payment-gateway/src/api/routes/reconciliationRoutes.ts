@@ -0,0 +1,31 @@
+import express, { Router } from 'express';
+import { ReconciliationController } from '../controllers/ReconciliationController';
+import { PaymentError } from '../../errors/PaymentError';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { config } from '../../config';
+import { validate } from '../middleware/validate';
+import { requireRole } from '../middleware/authenticate';
+import { reconcileSettlementSchema } from '../schemas';
+
+/**
+ * Routes under /reconciliations; callers must already be authenticated and be platform admins.
+ * Settlement reports are posted as-is (CSV or JSON) and can be larger than other request bodies,
+ * so the router must be mounted before express.json().
+ */
+export const createReconciliationRouter = (controller: ReconciliationController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.ADMIN));
+  router.use((req, _res, next) => next(
+    req.user?.merchantId ? new PaymentError('Reconciliation is limited to platform admins', 'forbidden') : undefined
+  ));
+  router.post(
+    '/',
+    express.text({ type: () => true, limit: config.reconciliation.maxReportSize }),
+    validate(reconcileSettlementSchema),
+    (req, res, next) => controller.reconcile(req, res, next)
+  );
+
+  return router;
+};
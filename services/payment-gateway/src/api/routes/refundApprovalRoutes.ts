@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { RefundApprovalController } from '../controllers/RefundApprovalController';
+import { Role } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { validate } from '../middleware/validate';
+import { requireRole } from '../middleware/authenticate';
+import { listApprovalsSchema, reviewApprovalSchema } from '../schemas';
+
+/**
+ * Routes under /refund-approvals; callers must already be authenticated and hold the refund_approver role
+ */
+export const createRefundApprovalRouter = (controller: RefundApprovalController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.use(requireRole(auditLogger, Role.REFUND_APPROVER));
+  router.get('/', validate(listApprovalsSchema), (req, res, next) => controller.listApprovals(req, res, next));
+  router.post('/:id/approve', validate(reviewApprovalSchema), (req, res, next) => controller.approveRefund(req, res, next));
+  router.post('/:id/reject', validate(reviewApprovalSchema), (req, res, next) => controller.rejectRefund(req, res, next));
+
+  return router;
+};
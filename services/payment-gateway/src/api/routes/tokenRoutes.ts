@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { TokenController } from '../controllers/TokenController';
+import { validate } from '../middleware/validate';
+import { createCardTokenSchema } from '../schemas';
+
+/**
+ * Routes under /tokens; callers must already be authenticated
+ */
+export const createTokenRouter = (controller: TokenController): Router => {
+  const router = Router();
+
+  router.post('/', validate(createCardTokenSchema), (req, res, next) => controller.createToken(req, res, next));
+
+  return router;
+};
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { TransactionController } from '../controllers/TransactionController';
+import { Permission } from '../../models/AuthenticatedUser';
+import { AuditLogger } from '../../services/AuditLogger';
+import { validate } from '../middleware/validate';
+import { requirePermission } from '../middleware/authenticate';
+import {
+  authorizeTransactionSchema,
+  captureTransactionSchema,
+  createTransactionSchema,
+  getTransactionSchema,
+  listTransactionsSchema,
+  refundTransactionSchema,
+  voidTransactionSchema
+} from '../schemas';
+
+/**
+ * Routes under /transactions; callers must already be authenticated
+ */
+export const createTransactionRouter = (controller: TransactionController, auditLogger: AuditLogger): Router => {
+  const router = Router();
+
+  router.post('/', validate(createTransactionSchema), (req, res, next) => controller.createTransaction(req, res, next));
+  router.post(
+    '/authorize',
+    validate(authorizeTransactionSchema),
+    (req, res, next) => controller.authorizeTransaction(req, res, next)
+  );
+  router.get('/', validate(listTransactionsSchema), (req, res, next) => controller.listTransactions(req, res, next));
+  router.get('/:id', validate(getTransactionSchema), (req, res, next) => controller.getTransaction(req, res, next));
+  router.post(
+    '/:id/refund',
+    requirePermission(auditLogger, Permission.REFUNDS_CREATE),
+    validate(refundTransactionSchema),
+    (req, res, next) => controller.refundTransaction(req, res, next)
+  );
+  router.post(
+    '/:id/capture',
+    requirePermission(auditLogger, Permission.CAPTURES_CREATE),
+    validate(captureTransactionSchema),
+    (req, res, next) => controller.captureTransaction(req, res, next)
+  );
+  router.post(
+    '/:id/void',
+    requirePermission(auditLogger, Permission.AUTHORIZATIONS_VOID),
+    validate(voidTransactionSchema),
+    (req, res, next) => controller.voidTransaction(req, res, next)
+  );
+
+  return router;
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { isSupportedCurrency } from '../../models/currencies';
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+/**
+ * Major-unit amount as a JSON number or decimal string. Precision per currency is checked by Money.
+ */
+export const amountSchema = z
+  .union([z.number(), z.string().trim()])
+  .superRefine((amount, ctx) => {
+    if (typeof amount === 'string' && !DECIMAL.test(amount)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a decimal number, e.g. "10.50"' });
+    } else if (!Number.isFinite(Number(amount)) || Number(amount) <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be greater than zero' });
+    }
+  });
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .transform(code => code.toUpperCase())
+  .refine(isSupportedCurrency, 'Must be a supported ISO 4217 currency code');
+
+export const isoDateSchema = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO-8601 date-time, e.g. "2026-01-31T00:00:00Z"' })
+  .transform(value => new Date(value));
+
+export const cardSchema = z.object({
+  number: z.string().regex(/^\d{12,19}$/, 'Must be 12 to 19 digits'),
+  expiryMonth: z.number().int().min(1).max(12),
+  expiryYear: z.number().int().min(2000).max(2100),
+  cvv: z.string().regex(/^\d{3,4}$/, 'Must be 3 or 4 digits'),
+  cardholderName: z.string().max(100).optional()
+});
+
+export const idParamsSchema = z.object({
+  id: z.string().trim().min(1).max(128)
+});
+
+// Headers every gateway route accepts; Express lower-cases header names
+export const commonHeadersSchema = z
+  .object({
+    'idempotency-key': z.string().min(1).max(255).optional()
+  })
+  .passthrough();
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { FraudReviewStatus } from '../../models/FraudScreening';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, idParamsSchema } from './common';
+
+const fraudReviewBodySchema = z.object({
+  note: z.string().trim().max(500).optional()
+});
+
+export type FraudReviewBody = z.infer<typeof fraudReviewBodySchema>;
+
+/** @route GET /fraud-reviews */
+export const listFraudReviewsSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: z.object({
+    status: z.nativeEnum(FraudReviewStatus).optional()
+  })
+};
+
+/** @route GET /fraud-reviews/:id */
+export const getFraudReviewSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
+
+/** @route POST /fraud-reviews/:id/approve and /reject */
+export const decideFraudReviewSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: fraudReviewBodySchema
+};
@@ -0,0 +1,10 @@
+export * from './common';
+export * from './transactionSchemas';
+export * from './refundApprovalSchemas';
+export * from './merchantSchemas';
+export * from './providerEventSchemas';
+export * from './webhookSubscriptionSchemas';
+export * from './ledgerSchemas';
+export * from './reconciliationSchemas';
+export * from './fraudReviewSchemas';
+export * from './tokenSchemas';
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, idParamsSchema, isoDateSchema } from './common';
+
+/** @route GET /ledger/balances */
+export const ledgerBalancesSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: z.object({
+    asOf: isoDateSchema.optional(),
+    account: z.string().trim().min(1).max(200).optional()
+  })
+};
+
+/** @route GET /ledger/transactions/:id/entries */
+export const ledgerEntriesSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { MerchantStatus } from '../../models/Merchant';
+import { Permission } from '../../models/AuthenticatedUser';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, currencySchema, idParamsSchema } from './common';
+
+// Names the environment variable holding the key; the key itself never goes through the API
+const providerCredentialsSchema = z.object({
+  url: z.string().url().refine(url => url.startsWith('https://'), 'Must use https').optional(),
+  apiKeyEnv: z.string().regex(/^[A-Z][A-Z0-9_]{0,127}$/, 'Must be an environment variable name')
+});
+
+const merchantBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  defaultCurrency: currencySchema,
+  providerCredentials: providerCredentialsSchema.optional()
+});
+
+const merchantUpdateBodySchema = merchantBodySchema
+  .partial()
+  .extend({ status: z.nativeEnum(MerchantStatus).optional() })
+  .refine(update => Object.keys(update).length > 0, 'At least one field is required');
+
+const issueApiKeyBodySchema = z.object({
+  permissions: z.array(z.nativeEnum(Permission)).max(20).default([])
+});
+
+const apiKeyParamsSchema = idParamsSchema.extend({
+  keyId: z.string().trim().min(1).max(64)
+});
+
+export type MerchantBody = z.infer<typeof merchantBodySchema>;
+export type MerchantUpdateBody = z.infer<typeof merchantUpdateBodySchema>;
+export type IssueApiKeyBody = z.infer<typeof issueApiKeyBodySchema>;
+
+/** @route POST /merchants */
+export const createMerchantSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  body: merchantBodySchema
+};
+
+/** @route GET /merchants/:id and GET /merchants/:id/api-keys */
+export const getMerchantSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
+
+/** @route PATCH /merchants/:id */
+export const updateMerchantSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: merchantUpdateBodySchema
+};
+
+/** @route POST /merchants/:id/api-keys */
+export const issueApiKeySchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: issueApiKeyBodySchema
+};
+
+/** @route POST /merchants/:id/api-keys/:keyId/rotate and /revoke */
+export const apiKeySchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: apiKeyParamsSchema
+};
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { ProviderEventStatus } from '../../models/ProviderEvent';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, idParamsSchema } from './common';
+
+/** @route GET /provider-events */
+export const listProviderEventsSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: z.object({
+    status: z.nativeEnum(ProviderEventStatus).optional()
+  })
+};
+
+/** @route POST /provider-events/:id/replay */
+export const replayProviderEventSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
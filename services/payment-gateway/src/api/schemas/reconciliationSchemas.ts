@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, isoDateSchema } from './common';
+
+const reconciliationQuerySchema = z
+  .object({
+    from: isoDateSchema,
+    to: isoDateSchema,
+    // Defaults to json for application/json bodies and csv otherwise
+    format: z.enum(['csv', 'json']).optional()
+  })
+  .refine(query => query.from < query.to, { path: ['to'], message: 'Must be after from' });
+
+export type ReconciliationQuery = z.infer<typeof reconciliationQuerySchema>;
+
+/** @route POST /reconciliations; the body is the settlement report itself */
+export const reconcileSettlementSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: reconciliationQuerySchema
+};
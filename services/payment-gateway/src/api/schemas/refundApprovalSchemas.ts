@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { RefundApprovalStatus } from '../../models/RefundApproval';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, idParamsSchema } from './common';
+
+const reviewBodySchema = z.object({
+  note: z.string().trim().max(500).optional()
+});
+
+export type ReviewBody = z.infer<typeof reviewBodySchema>;
+
+/** @route GET /refund-approvals */
+export const listApprovalsSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: z.object({
+    status: z.nativeEnum(RefundApprovalStatus).optional()
+  })
+};
+
+/** @route POST /refund-approvals/:id/approve and /reject */
+export const reviewApprovalSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: reviewBodySchema
+};
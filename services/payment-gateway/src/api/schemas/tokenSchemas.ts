@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { RequestSchema } from '../middleware/validate';
+import { cardSchema, commonHeadersSchema } from './common';
+
+const createCardTokenBodySchema = z.object({
+  card: cardSchema
+});
+
+export type CreateCardTokenBody = z.infer<typeof createCardTokenBodySchema>;
+
+/** @route POST /tokens */
+export const createCardTokenSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  body: createCardTokenBodySchema
+};
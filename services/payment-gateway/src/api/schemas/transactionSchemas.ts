@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { Decimal } from 'decimal.js';
+import { RefundReason, TransactionStatus, TransactionType } from '../../models/Transaction';
+import { RequestSchema } from '../middleware/validate';
+import { amountSchema, cardSchema, commonHeadersSchema, currencySchema, idParamsSchema, isoDateSchema } from './common';
+
+const bankAccountSchema = z.object({
+  accountNumber: z.string().regex(/^\d{4,17}$/, 'Must be 4 to 17 digits'),
+  routingNumber: z.string().regex(/^\d{9}$/, 'Must be 9 digits'),
+  accountType: z.enum(['checking', 'savings']),
+  accountHolderName: z.string().min(1).max(100)
+});
+
+const walletSchema = z.object({
+  provider: z.enum(['apple_pay', 'google_pay', 'paypal']),
+  token: z.string().min(1).max(4096)
+});
+
+// The details object matching the type is required
+const paymentMethodSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('card'), card: cardSchema }),
+  // A token from POST /tokens, in place of the card details
+  z.object({ type: z.literal('card_token'), cardToken: z.object({ token: z.string().trim().min(1).max(128) }) }),
+  z.object({ type: z.literal('bank_account'), bankAccount: bankAccountSchema }),
+  z.object({ type: z.literal('wallet'), wallet: walletSchema })
+]);
+
+const paymentBodySchema = z.object({
+  amount: amountSchema,
+  // Defaults to the merchant's default currency
+  currency: currencySchema.optional(),
+  paymentMethod: paymentMethodSchema,
+  // Only used by fraud screening and not stored
+  customerEmail: z.string().trim().email().max(254).optional(),
+  // Merchant's own ID for the end customer, so fraud screening can limit attempts per customer
+  customerId: z.string().trim().min(1).max(128).optional(),
+  metadata: z.record(z.unknown()).optional()
+});
+
+// Partial amounts default to the currency of the original transaction
+const partialAmountBodySchema = z.object({
+  amount: amountSchema.optional(),
+  currency: currencySchema.optional()
+});
+
+const captureBodySchema = partialAmountBodySchema.extend({
+  // Release the rest of the authorization after this capture
+  final: z.boolean().optional()
+});
+
+const refundBodySchema = partialAmountBodySchema.extend({
+  reason: z.nativeEnum(RefundReason).optional()
+});
+
+// Comma-separated list of enum values, e.g. ?status=completed,refunded
+const csvEnum = <T extends Record<string, string>>(
+  values: T
+): z.ZodPipeline<z.ZodEffects<z.ZodString, string[]>, z.ZodArray<z.ZodNativeEnum<T>>> =>
+  z.string().transform(list => list.split(',').map(item => item.trim())).pipe(z.array(z.nativeEnum(values)).min(1));
+
+const listQuerySchema = z
+  .object({
+    status: csvEnum(TransactionStatus).optional(),
+    type: csvEnum(TransactionType).optional(),
+    currency: currencySchema.optional(),
+    minAmount: amountSchema.transform(String).optional(),
+    maxAmount: amountSchema.transform(String).optional(),
+    createdFrom: isoDateSchema.optional(),
+    createdTo: isoDateSchema.optional(),
+    userId: z.string().trim().min(1).max(128).optional(),
+    metadataKey: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Must be 1 to 64 letters, digits, "_" or "-"').optional(),
+    metadataValue: z.string().max(256).optional(),
+    sort: z.enum(['createdAt', '-createdAt', 'amount', '-amount']).default('-createdAt'),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().max(512).optional(),
+    includeTotal: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+  })
+  .superRefine((query, ctx) => {
+    // Amounts of different currencies cannot be compared
+    if (query.sort.endsWith('amount') && !query.currency) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['currency'], message: 'Required when sorting by amount' });
+    } else if ((query.minAmount !== undefined || query.maxAmount !== undefined) && !query.currency) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['currency'], message: 'Required when filtering by amount' });
+    }
+    if (query.minAmount !== undefined && query.maxAmount !== undefined && new Decimal(query.minAmount).greaterThan(query.maxAmount)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['maxAmount'], message: 'Must not be below minAmount' });
+    }
+    if (query.createdFrom && query.createdTo && query.createdFrom > query.createdTo) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['createdTo'], message: 'Must not be before createdFrom' });
+    }
+    if (query.metadataValue !== undefined && query.metadataKey === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['metadataKey'], message: 'Required with metadataValue' });
+    }
+  });
+
+export type PaymentBody = z.infer<typeof paymentBodySchema>;
+export type RefundBody = z.infer<typeof refundBodySchema>;
+export type CaptureBody = z.infer<typeof captureBodySchema>;
+export type ListTransactionsQuery = z.infer<typeof listQuerySchema>;
+
+/** @route POST /transactions */
+export const createTransactionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  body: paymentBodySchema
+};
+
+/** @route POST /transactions/authorize */
+export const authorizeTransactionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  body: paymentBodySchema
+};
+
+/** @route GET /transactions */
+export const listTransactionsSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: listQuerySchema
+};
+
+/** @route GET /transactions/:id */
+export const getTransactionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
+
+/** @route POST /transactions/:id/refund */
+export const refundTransactionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: refundBodySchema
+};
+
+/** @route POST /transactions/:id/capture */
+export const captureTransactionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: captureBodySchema
+};
+
+/** @route POST /transactions/:id/void */
+export const voidTransactionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { MERCHANT_WEBHOOK_EVENT_TYPES, WebhookDeliveryStatus, WebhookSubscriptionStatus } from '../../models/MerchantWebhook';
+import { ALL_EVENT_TYPES } from '../../services/MerchantWebhookService';
+import { RequestSchema } from '../middleware/validate';
+import { commonHeadersSchema, idParamsSchema } from './common';
+
+const eventTypeSchema = z
+  .string()
+  .refine(
+    type => type === ALL_EVENT_TYPES || MERCHANT_WEBHOOK_EVENT_TYPES.includes(type),
+    `Must be '${ALL_EVENT_TYPES}' or '<transaction type>.<status>', e.g. 'payment.completed'`
+  );
+
+const subscriptionBodySchema = z.object({
+  url: z.string().url().max(2048).refine(url => url.startsWith('https://'), 'Must use https'),
+  eventTypes: z.array(eventTypeSchema).min(1).max(50)
+});
+
+const subscriptionUpdateBodySchema = subscriptionBodySchema
+  .partial()
+  .extend({ status: z.nativeEnum(WebhookSubscriptionStatus).optional() })
+  .refine(update => Object.keys(update).length > 0, 'At least one field is required');
+
+export type WebhookSubscriptionBody = z.infer<typeof subscriptionBodySchema>;
+export type WebhookSubscriptionUpdateBody = z.infer<typeof subscriptionUpdateBodySchema>;
+
+/** @route POST /webhook-subscriptions */
+export const createWebhookSubscriptionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  body: subscriptionBodySchema
+};
+
+/** @route GET and DELETE /webhook-subscriptions/:id */
+export const getWebhookSubscriptionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
+
+/** @route PATCH /webhook-subscriptions/:id */
+export const updateWebhookSubscriptionSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema,
+  body: subscriptionUpdateBodySchema
+};
+
+/** @route GET /webhook-deliveries */
+export const listWebhookDeliveriesSchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  query: z.object({
+    status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+    subscriptionId: z.string().trim().min(1).max(128).optional(),
+    eventId: z.string().trim().min(1).max(256).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50)
+  })
+};
+
+/** @route GET /webhook-deliveries/:id and POST /webhook-deliveries/:id/redeliver */
+export const getWebhookDeliverySchema: RequestSchema = {
+  headers: commonHeadersSchema,
+  params: idParamsSchema
+};
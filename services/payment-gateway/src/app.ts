@@ -0,0 +1,250 @@
+import express, { Express } from 'express';
+import helmet from 'helmet';
+import rateLimit from 'express-rate-limit';
+import { config } from './config';
+import { PaymentError } from './errors/PaymentError';
+import {
+  AuditStore,
+  IdempotencyRepository,
+  MerchantRepository,
+  ProviderEventRepository,
+  RefundApprovalRepository,
+  TransactionRepository,
+  WebhookRepository,
+  FraudScreeningRepository,
+  CardTokenRepository,
+  createAuditStore,
+  createCardTokenRepository,
+  createFraudScreeningRepository,
+  createIdempotencyRepository,
+  createMerchantRepository,
+  createProviderEventRepository,
+  createRefundApprovalRepository,
+  createTransactionRepository,
+  createWebhookRepository
+} from './repositories';
+import { PaymentProviderAdapter } from './providers';
+import { MessageBroker, createMessageBroker } from './messaging';
+import { PaymentProcessor } from './services/PaymentProcessor';
+import { IdempotencyService } from './services/IdempotencyService';
+import { AuditLogger } from './services/AuditLogger';
+import { MerchantService } from './services/MerchantService';
+import { ProviderWebhookOptions, ProviderWebhookService } from './services/ProviderWebhookService';
+import { MerchantWebhookOptions, MerchantWebhookService } from './services/MerchantWebhookService';
+import { OutboxRelay } from './services/OutboxRelay';
+import { LedgerService } from './services/LedgerService';
+import { ReconciliationService } from './services/ReconciliationService';
+import { FraudScreeningOptions, FraudScreeningService } from './services/FraudScreeningService';
+import { TokenizationOptions, TokenizationService } from './services/TokenizationService';
+import { TransactionController } from './api/controllers/TransactionController';
+import { RefundApprovalController } from './api/controllers/RefundApprovalController';
+import { MerchantController } from './api/controllers/MerchantController';
+import { ProviderWebhookController } from './api/controllers/ProviderWebhookController';
+import { MerchantWebhookController } from './api/controllers/MerchantWebhookController';
+import { LedgerController } from './api/controllers/LedgerController';
+import { ReconciliationController } from './api/controllers/ReconciliationController';
+import { FraudReviewController } from './api/controllers/FraudReviewController';
+import { TokenController } from './api/controllers/TokenController';
+import {
+  createFraudReviewRouter,
+  createLedgerRouter,
+  createMerchantRouter,
+  createProviderEventRouter,
+  createProviderWebhookRouter,
+  createReconciliationRouter,
+  createRefundApprovalRouter,
+  createTokenRouter,
+  createTransactionRouter,
+  createWebhookDeliveryRouter,
+  createWebhookSubscriptionRouter
+} from './api/routes';
+import { correlationId } from './api/middleware/correlationId';
+import { authenticate, authenticateApiKey, resolveMerchant } from './api/middleware/authenticate';
+import { JwtVerifyOptions } from './utils/jwt';
+import { logger } from './utils/logging';
+import { errorHandler } from './api/middleware/errorHandler';
+
+/**
+ * Overrides for the app's collaborators; anything left out is built from config
+ */
+export interface AppOptions {
+  transactionRepository?: TransactionRepository;
+  idempotencyRepository?: IdempotencyRepository;
+  refundApprovalRepository?: RefundApprovalRepository;
+  merchantRepository?: MerchantRepository;
+  providerEventRepository?: ProviderEventRepository;
+  webhookRepository?: WebhookRepository;
+  fraudScreeningRepository?: FraudScreeningRepository;
+  cardTokenRepository?: CardTokenRepository;
+  auditStore?: AuditStore;
+  providerAdapter?: PaymentProviderAdapter;
+  // Transport domain events from the outbox are published to
+  messageBroker?: MessageBroker;
+  // Keys and claims accepted in bearer tokens
+  auth?: JwtVerifyOptions;
+  // Secret and tolerance for signatures on provider webhooks
+  webhooks?: ProviderWebhookOptions;
+  // Retries, timeout and polling for webhooks sent to merchants
+  merchantWebhooks?: MerchantWebhookOptions;
+  // Rules payments are screened with before reaching the provider
+  fraud?: FraudScreeningOptions;
+  // Key card numbers in the token vault are encrypted with
+  tokenization?: TokenizationOptions;
+  rateLimit?: {
+    windowMs: number;
+    max: number;
+  };
+}
+
+/**
+ * The app and the background work that runs next to it
+ */
+export interface Gateway {
+  app: Express;
+  // Sends queued merchant webhooks once started; stop it before closing the repositories
+  merchantWebhooks: MerchantWebhookService;
+  // Publishes the transaction outbox to the broker once started; stop it before closing the repositories
+  outboxRelay: OutboxRelay;
+  messageBroker: MessageBroker;
+}
+
+/**
+ * Build the gateway without binding a port or starting background work, so tests can drive it directly
+ */
+export const createGateway = (options: AppOptions = {}): Gateway => {
+  const transactionRepository = options.transactionRepository || createTransactionRepository();
+  const auditLogger = new AuditLogger(options.auditStore || createAuditStore());
+  const merchantService = new MerchantService(options.merchantRepository || createMerchantRepository(), auditLogger);
+  const merchantWebhooks = new MerchantWebhookService(
+    options.webhookRepository || createWebhookRepository(),
+    auditLogger,
+    options.merchantWebhooks
+  );
+  const messageBroker = options.messageBroker || createMessageBroker();
+  const outboxRelay = new OutboxRelay(transactionRepository.outbox, messageBroker);
+  const fraudOptions = options.fraud || config.fraud;
+  const fraudScreening = new FraudScreeningService(
+    options.fraudScreeningRepository || createFraudScreeningRepository(),
+    auditLogger,
+    fraudOptions
+  );
+  const tokenization = new TokenizationService(
+    options.cardTokenRepository || createCardTokenRepository(),
+    options.tokenization || {
+      encryptionKey: config.tokenization.encryptionKey,
+      fingerprintSecret: fraudOptions.cardFingerprintSecret
+    }
+  );
+  // One processor for every route so per-transaction locks cover refunds, captures and approvals alike
+  const paymentProcessor = new PaymentProcessor({
+    transactionRepository,
+    refundApprovalRepository: options.refundApprovalRepository || createRefundApprovalRepository(),
+    providerAdapter: options.providerAdapter,
+    merchantProviderAdapter: merchantId => merchantService.providerAdapterFor(merchantId),
+    auditLogger,
+    fraudScreening: fraudOptions.enabled ? fraudScreening : undefined,
+    tokenization,
+    onTransactionSaved: transaction => merchantWebhooks.transactionSaved(transaction)
+  });
+
+  const transactionController = new TransactionController(
+    paymentProcessor,
+    transactionRepository,
+    new IdempotencyService(options.idempotencyRepository || createIdempotencyRepository())
+  );
+  const refundApprovalController = new RefundApprovalController(paymentProcessor);
+  const merchantController = new MerchantController(merchantService);
+  const merchantWebhookController = new MerchantWebhookController(merchantWebhooks);
+  const ledgerController = new LedgerController(new LedgerService(transactionRepository.ledger));
+  const reconciliationController = new ReconciliationController(new ReconciliationService(transactionRepository));
+  const fraudReviewController = new FraudReviewController(fraudScreening);
+  const tokenController = new TokenController(tokenization);
+
+  const webhookOptions = options.webhooks || {
+    secret: config.webhooks.providerSecret,
+    toleranceSeconds: config.webhooks.toleranceSeconds
+  };
+  if (!webhookOptions.secret) {
+    logger.warn('No provider webhook secret configured; provider webhooks will be rejected');
+  }
+  const webhookService = new ProviderWebhookService(
+    paymentProcessor,
+    transactionRepository,
+    options.providerEventRepository || createProviderEventRepository(),
+    auditLogger,
+    webhookOptions
+  );
+  const webhookController = new ProviderWebhookController(webhookService);
+
+  const auth = options.auth || {
+    hs256Secret: config.auth.jwtHs256Secret,
+    rs256PublicKey: config.auth.jwtRs256PublicKey,
+    issuer: config.auth.jwtIssuer,
+    audience: config.auth.jwtAudience,
+    maxLifetimeSeconds: config.auth.maxTokenLifetimeSeconds,
+    clockToleranceSeconds: config.auth.clockToleranceSeconds
+  };
+  if (!auth.hs256Secret && !auth.rs256PublicKey) {
+    logger.warn('No JWT verification key configured; only merchant API keys will be accepted');
+  }
+  // Server-to-server callers use a merchant API key, people a bearer token
+  const requireUser = [
+    authenticateApiKey(merchantService, auditLogger),
+    authenticate(auth, auditLogger),
+    resolveMerchant(merchantService, auditLogger)
+  ];
+
+  const app = express();
+  app.set('trust proxy', config.server.trustProxyHops);
+  app.disable('x-powered-by');
+
+  app.use(correlationId);
+  app.use(helmet());
+
+  // Kept ahead of the rate limit so load balancer probes are never throttled
+  app.get('/health', (_req, res) => {
+    res.status(200).json({
+      success: true,
+      data: {
+        status: 'ok',
+        provider: paymentProcessor.getProviderCircuitState()
+      }
+    });
+  });
+
+  const { windowMs, max } = options.rateLimit || config.server.rateLimit;
+  app.use(rateLimit({
+    windowMs,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (_req, _res, next) => next(new PaymentError('Too many requests, please retry later', 'rate_limited'))
+  }));
+
+  // Ahead of express.json() because the signature covers the raw body
+  app.use('/webhooks/provider', createProviderWebhookRouter(webhookController, webhookService, auditLogger));
+  // Ahead of express.json() because settlement reports are read as text with their own size limit
+  app.use('/reconciliations', requireUser, createReconciliationRouter(reconciliationController, auditLogger));
+
+  app.use(express.json({ limit: '100kb' }));
+
+  app.use('/tokens', requireUser, createTokenRouter(tokenController));
+  app.use('/transactions', requireUser, createTransactionRouter(transactionController, auditLogger));
+  app.use('/refund-approvals', requireUser, createRefundApprovalRouter(refundApprovalController, auditLogger));
+  app.use('/merchants', requireUser, createMerchantRouter(merchantController, auditLogger));
+  app.use('/provider-events', requireUser, createProviderEventRouter(webhookController, auditLogger));
+  app.use('/webhook-subscriptions', requireUser, createWebhookSubscriptionRouter(merchantWebhookController, auditLogger));
+  app.use('/webhook-deliveries', requireUser, createWebhookDeliveryRouter(merchantWebhookController, auditLogger));
+  app.use('/ledger', requireUser, createLedgerRouter(ledgerController, auditLogger));
+  app.use('/fraud-reviews', requireUser, createFraudReviewRouter(fraudReviewController, auditLogger));
+
+  app.use((req, _res, next) => next(new PaymentError(`Route ${req.method} ${req.path} not found`, 'route_not_found')));
+  app.use(errorHandler);
+
+  return { app, merchantWebhooks, outboxRelay, messageBroker };
+};
+
+/**
+ * Build the gateway's Express app alone, for callers that do not run its background work
+ */
+export const createApp = (options: AppOptions = {}): Express => createGateway(options).app;
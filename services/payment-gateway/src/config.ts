@@ -0,0 +1,175 @@
+// Central place for environment-driven settings so modules do not read process.env directly
+
+// Parses 'USD:50000,EUR:45000' into { USD: '50000', EUR: '45000' }
+const parseCurrencyAmounts = (value: string): Record<string, string> =>
+  value
+    .split(',')
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter(([currency, amount]) => currency && amount)
+    .reduce<Record<string, string>>((amounts, [currency, amount]) => ({
+      ...amounts,
+      [currency.toUpperCase()]: amount
+    }), {});
+
+// Parses '411111:US,535522:gb' into { '411111': 'US', '535522': 'GB' }
+const parseBinCountries = (value: string): Record<string, string> =>
+  value
+    .split(',')
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter(([bin, country]) => bin && country)
+    .reduce<Record<string, string>>((countries, [bin, country]) => ({
+      ...countries,
+      [bin]: country.toUpperCase()
+    }), {});
+
+export type PaymentProviderMode = 'rest' | 'simulator' | 'sandbox';
+
+export type MessageBrokerMode = 'file' | 'memory';
+
+export const config = {
+  server: {
+    port: Number(process.env.PORT) || 3000,
+    // Number of reverse proxies in front of the gateway, so req.ip (and the rate limit) sees the client address
+    trustProxyHops: Number(process.env.TRUST_PROXY_HOPS) || 0,
+    // STYLE_GUIDE.md: 100 requests per minute per IP
+    rateLimit: {
+      windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60 * 1000,
+      max: Number(process.env.RATE_LIMIT_MAX) || 100
+    },
+    // How long in-flight requests get to finish after SIGTERM
+    shutdownTimeoutMs: Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10000
+  },
+  logging: {
+    level: process.env.LOG_LEVEL || 'info',
+    // Extra field names that are safe to log without redaction, comma-separated
+    redactionAllowList: (process.env.LOG_REDACTION_ALLOW_LIST || '')
+      .split(',')
+      .map(field => field.trim())
+      .filter(Boolean)
+  },
+  auth: {
+    // Bearer tokens are verified locally; configure at least one key or every request is rejected
+    jwtHs256Secret: process.env.JWT_HS256_SECRET,
+    // PEM public key; '\n' escapes are accepted so the key fits in one environment variable
+    jwtRs256PublicKey: process.env.JWT_RS256_PUBLIC_KEY?.replace(/\\n/g, '\n'),
+    jwtIssuer: process.env.JWT_ISSUER,
+    jwtAudience: process.env.JWT_AUDIENCE,
+    // SECURITY.md: tokens are short-lived, at most 1 hour
+    maxTokenLifetimeSeconds: Math.min(Number(process.env.JWT_MAX_LIFETIME_SECONDS) || 3600, 3600),
+    clockToleranceSeconds: 30
+  },
+  paymentProvider: {
+    mode: (process.env.PAYMENT_PROVIDER_MODE || 'rest') as PaymentProviderMode,
+    url: process.env.PAYMENT_PROVIDER_URL || 'https://api.payment-provider.com/v1',
+    apiKey: process.env.PAYMENT_API_KEY || 'test_key',
+    // Per-attempt timeout; with the retry defaults a call gives up within the 30 second budget
+    timeoutMs: Math.min(Number(process.env.PAYMENT_PROVIDER_TIMEOUT_MS) || 8000, 30000),
+    retry: {
+      maxAttempts: Number(process.env.PAYMENT_PROVIDER_RETRY_ATTEMPTS) || 3,
+      baseDelayMs: Number(process.env.PAYMENT_PROVIDER_RETRY_BASE_DELAY_MS) || 200,
+      maxDelayMs: Number(process.env.PAYMENT_PROVIDER_RETRY_MAX_DELAY_MS) || 2000
+    },
+    circuitBreaker: {
+      failureThreshold: Number(process.env.PAYMENT_PROVIDER_BREAKER_THRESHOLD) || 5,
+      resetTimeoutMs: Number(process.env.PAYMENT_PROVIDER_BREAKER_RESET_MS) || 30000
+    }
+  },
+  merchants: {
+    // A rotated API key keeps working this long so the merchant can roll out its replacement
+    apiKeyRotationGraceSeconds: Number(process.env.MERCHANT_API_KEY_ROTATION_GRACE_SECONDS) || 24 * 60 * 60,
+    // Per-merchant provider keys can only be read from environment variables with this prefix
+    providerKeyEnvPrefix: 'MERCHANT_PROVIDER_KEY_'
+  },
+  webhooks: {
+    // Shared secret the provider signs POST /webhooks/provider with; without it every delivery is rejected
+    providerSecret: process.env.PROVIDER_WEBHOOK_SECRET,
+    // Deliveries signed further than this from the current time are rejected, so captured ones cannot be replayed
+    toleranceSeconds: Number(process.env.PROVIDER_WEBHOOK_TOLERANCE_SECONDS) || 300
+  },
+  merchantWebhooks: {
+    // Attempts per delivery, including the first, before it moves to the dead-letter list
+    maxAttempts: Number(process.env.MERCHANT_WEBHOOK_MAX_ATTEMPTS) || 8,
+    // Upper bound of the delay before the first retry; doubles for each further retry
+    baseDelayMs: Number(process.env.MERCHANT_WEBHOOK_RETRY_BASE_DELAY_MS) || 30 * 1000,
+    maxDelayMs: Number(process.env.MERCHANT_WEBHOOK_RETRY_MAX_DELAY_MS) || 6 * 60 * 60 * 1000,
+    timeoutMs: Number(process.env.MERCHANT_WEBHOOK_TIMEOUT_MS) || 10000,
+    // How often the queue is checked for due deliveries, and how many are sent per check
+    pollIntervalMs: Number(process.env.MERCHANT_WEBHOOK_POLL_INTERVAL_MS) || 5000,
+    batchSize: Number(process.env.MERCHANT_WEBHOOK_BATCH_SIZE) || 20
+  },
+  events: {
+    // Where the outbox relay publishes domain events: a JSON Lines file other services read, or this process only
+    broker: (process.env.EVENT_BROKER || 'file') as MessageBrokerMode,
+    filePath: process.env.EVENT_BROKER_FILE || 'domain-events.jsonl',
+    // How often the outbox (and the broker file, for subscribers) is checked, and how many events are relayed per check
+    pollIntervalMs: Number(process.env.EVENT_RELAY_POLL_INTERVAL_MS) || 1000,
+    batchSize: Number(process.env.EVENT_RELAY_BATCH_SIZE) || 100,
+    // Delay before publishing again after the broker refused an event; doubles for each further failure
+    retryBaseDelayMs: Number(process.env.EVENT_RELAY_RETRY_BASE_DELAY_MS) || 1000,
+    retryMaxDelayMs: Number(process.env.EVENT_RELAY_RETRY_MAX_DELAY_MS) || 5 * 60 * 1000
+  },
+  ledger: {
+    // Share of each payment or capture the platform keeps as its fee, taken from the merchant payable
+    feeRate: process.env.PLATFORM_FEE_RATE || '0.029'
+  },
+  fraud: {
+    // Screening runs before every payment and authorization is sent to the provider; 'off' disables it
+    enabled: process.env.FRAUD_SCREENING !== 'off',
+    // Total score of the triggered rules at which a payment is held for review, and at which it is blocked
+    reviewScore: Number(process.env.FRAUD_REVIEW_SCORE) || 50,
+    blockScore: Number(process.env.FRAUD_BLOCK_SCORE) || 100,
+    // Attempts allowed per end customer and per card within the window, counting the current one; 0 disables the rule.
+    // Too many attempts by one customer only holds their payments by default, as customer IDs come from merchants.
+    velocity: {
+      windowSeconds: Number(process.env.FRAUD_VELOCITY_WINDOW_SECONDS) || 60 * 60,
+      maxPerUser: Number(process.env.FRAUD_VELOCITY_MAX_PER_USER ?? 10),
+      maxPerCard: Number(process.env.FRAUD_VELOCITY_MAX_PER_CARD ?? 5),
+      userScore: Number(process.env.FRAUD_VELOCITY_USER_SCORE) || 60,
+      cardScore: Number(process.env.FRAUD_VELOCITY_CARD_SCORE) || 100
+    },
+    // Major-unit amounts at or above which a payment is held or blocked; '*' applies to unlisted currencies
+    reviewAmounts: parseCurrencyAmounts(process.env.FRAUD_REVIEW_AMOUNTS || 'USD:5000,EUR:5000,GBP:5000'),
+    blockAmounts: parseCurrencyAmounts(process.env.FRAUD_BLOCK_AMOUNTS || 'USD:50000,EUR:50000,GBP:50000'),
+    // Issuing country per card BIN (the leading 6 to 8 digits); the longest matching prefix wins
+    binCountries: parseBinCountries(process.env.FRAUD_BIN_COUNTRIES || ''),
+    // Request header the edge proxy puts the client's ISO country in, e.g. 'cf-ipcountry'. Clients can send it too,
+    // so set it only when that proxy always overwrites it; without one the BIN/IP country rule never triggers.
+    ipCountryHeader: process.env.FRAUD_IP_COUNTRY_HEADER,
+    binCountryMismatchScore: Number(process.env.FRAUD_BIN_COUNTRY_MISMATCH_SCORE) || 60,
+    disposableEmailDomains: (process.env.FRAUD_DISPOSABLE_EMAIL_DOMAINS
+      || 'mailinator.com,guerrillamail.com,10minutemail.com,temp-mail.org,yopmail.com,trashmail.com,sharklasers.com,maildrop.cc')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase())
+      .filter(Boolean),
+    disposableEmailScore: Number(process.env.FRAUD_DISPOSABLE_EMAIL_SCORE) || 40,
+    // How long an approved review lets the customer retry the same payment
+    reviewReleaseSeconds: Number(process.env.FRAUD_REVIEW_RELEASE_SECONDS) || 24 * 60 * 60,
+    // Key for card fingerprints, which the token vault uses too; the gateway does not start without one
+    cardFingerprintSecret: process.env.CARD_FINGERPRINT_SECRET
+  },
+  tokenization: {
+    // 256-bit key the token vault encrypts card numbers with, as 64 hex characters or base64; required
+    encryptionKey: process.env.CARD_VAULT_ENCRYPTION_KEY
+  },
+  reconciliation: {
+    // Largest settlement report accepted by POST /reconciliations
+    maxReportSize: process.env.SETTLEMENT_REPORT_MAX_SIZE || '5mb'
+  },
+  transactionStore: {
+    driver: process.env.TRANSACTION_STORE || 'sqlite',
+    path: process.env.TRANSACTION_DB_PATH || 'transactions.db'
+  },
+  idempotency: {
+    // How long a stored response can be replayed for the same Idempotency-Key
+    ttlSeconds: Number(process.env.IDEMPOTENCY_TTL_SECONDS) || 24 * 60 * 60
+  },
+  audit: {
+    // Append-only JSON Lines file holding the hash-chained audit trail
+    path: process.env.AUDIT_LOG_PATH || 'audit-trail.jsonl'
+  },
+  refundApproval: {
+    // Refunds above these major-unit amounts need a second user's approval; '*' applies to unlisted currencies.
+    // Every refund in a currency without a threshold needs approval.
+    thresholds: parseCurrencyAmounts(process.env.REFUND_APPROVAL_THRESHOLDS || 'USD:50000,EUR:50000,GBP:50000,*:50000')
+  }
+};
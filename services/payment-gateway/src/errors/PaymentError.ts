@@ -0,0 +1,116 @@
+import { RefundApproval } from '../models/RefundApproval';
+import { LedgerImbalance } from '../models/Ledger';
+import { FraudScreening } from '../models/FraudScreening';
+
+export class PaymentError extends Error {
+  code: string;
+  
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when the payment provider could not be reached or answered with a server error.
+ * Unlike a decline, the outcome at the provider is unknown.
+ */
+export class ProviderError extends PaymentError {
+  retryable: boolean;
+  
+  constructor(message: string, code: string, retryable = true) {
+    super(message, code);
+    this.name = 'ProviderError';
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Raised instead of processing a refund that is above the approval threshold.
+ * The refund has been recorded as a pending approval request and nothing was sent to the provider.
+ */
+export class RefundApprovalRequiredError extends PaymentError {
+  approval: RefundApproval;
+  
+  constructor(approval: RefundApproval) {
+    super('Refund is above the approval threshold and is waiting for a second approver', 'refund_approval_required');
+    this.name = 'RefundApprovalRequiredError';
+    this.approval = approval;
+  }
+}
+
+/**
+ * Raised without calling the provider while its circuit breaker is open.
+ * Nothing was sent, so the operation can safely be tried again later.
+ */
+export class CircuitOpenError extends ProviderError {
+  constructor(provider: string) {
+    super(`Payment provider ${provider} is unavailable; calls are paused by its circuit breaker`, 'provider_circuit_open', false);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Raised instead of sending a payment to the provider when fraud screening blocked it.
+ * The reasons stay with the screening so the response does not teach anyone the rules.
+ */
+export class PaymentBlockedError extends PaymentError {
+  screening: FraudScreening;
+  
+  constructor(screening: FraudScreening) {
+    super('Payment was declined by fraud screening', 'payment_blocked');
+    this.name = 'PaymentBlockedError';
+    this.screening = screening;
+  }
+}
+
+/**
+ * Raised instead of sending a payment to the provider when fraud screening held it for review.
+ * Once an admin approves the review, the same payment can be retried (as a new request, since
+ * this response is what its Idempotency-Key replays).
+ */
+export class PaymentHeldForReviewError extends PaymentError {
+  screening: FraudScreening;
+  
+  constructor(screening: FraudScreening) {
+    super(`Payment is held for fraud review ${screening.id}; retry it once the review is approved`, 'payment_held_for_review');
+    this.name = 'PaymentHeldForReviewError';
+    this.screening = screening;
+  }
+}
+
+export interface FieldError {
+  // Location and path of the offending value, e.g. 'body.paymentMethod.card.number'
+  field: string;
+  message: string;
+}
+
+/**
+ * Raised when a request does not match its schema; lists every offending field
+ */
+export class ValidationError extends PaymentError {
+  details: FieldError[];
+  
+  constructor(details: FieldError[]) {
+    super('Request validation failed', 'validation_error');
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * Raised by the ledger invariant check when a journal entry does not sum to zero in some currency
+ */
+export class LedgerImbalanceError extends PaymentError {
+  imbalances: LedgerImbalance[];
+  
+  constructor(imbalances: LedgerImbalance[]) {
+    const examples = imbalances
+      .slice(0, 5)
+      .map(imbalance => `${imbalance.entryId} is off by ${imbalance.difference.toString()} ${imbalance.currency}`);
+    super(`Ledger is unbalanced in ${imbalances.length} place(s): ${examples.join('; ')}`, 'ledger_unbalanced');
+    this.name = 'LedgerImbalanceError';
+    this.imbalances = imbalances;
+  }
+}
@@ -0,0 +1,46 @@
+import { createGateway } from './app';
+import { config } from './config';
+import { closeRepositories } from './repositories';
+import { logger } from './utils/logging';
+
+const { app, merchantWebhooks, outboxRelay, messageBroker } = createGateway();
+
+const server = app.listen(config.server.port, () => {
+  logger.info('Payment gateway listening', { port: config.server.port });
+  merchantWebhooks.start();
+  outboxRelay.start();
+});
+
+/**
+ * Stop accepting connections, let in-flight requests, webhook deliveries and event publishing finish,
+ * then release the database.
+ * Exits non-zero if requests are still running when the shutdown timeout expires.
+ */
+const shutdown = (signal: string): void => {
+  logger.info('Shutting down payment gateway', { signal });
+
+  const forceExit = setTimeout(() => {
+    logger.error('In-flight requests did not finish before the shutdown timeout', {
+      timeoutMs: config.server.shutdownTimeoutMs
+    });
+    process.exit(1);
+  }, config.server.shutdownTimeoutMs);
+  forceExit.unref();
+
+  server.close(async error => {
+    await Promise.all([merchantWebhooks.stop(), outboxRelay.stop()]);
+    await messageBroker.close();
+    closeRepositories();
+
+    if (error) {
+      logger.error('Error while closing the HTTP server', { error: error.message });
+      process.exit(1);
+    }
+
+    logger.info('Payment gateway stopped');
+    process.exit(0);
+  });
+};
+
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import { DomainEvent, DomainEventType } from '../models/DomainEvent';
+import { DomainEventHandler, DomainEventOfType, MessageBroker, Unsubscribe } from './MessageBroker';
+import { PollingWorker } from '../utils/polling';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('file-broker');
+
+// Events are written as JSON, so the timestamp comes back as a string
+type StoredEvent = Omit<DomainEvent, 'occurredAt'> & { occurredAt: string };
+
+/**
+ * Event log kept as a JSON Lines file that publishers append to and subscribers, in this or
+ * another process on the same host, read by polling. Each subscription keeps its own position;
+ * a failing handler is retried with the same event on the next poll, so later events wait for it.
+ */
+export class FileMessageBroker implements MessageBroker {
+  private path: string;
+  private pollIntervalMs: number;
+  private workers = new Set<PollingWorker>();
+
+  constructor(path: string, pollIntervalMs: number) {
+    this.path = path;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  async publish(event: DomainEvent): Promise<void> {
+    fs.appendFileSync(this.path, `${JSON.stringify(event)}\n`, { flag: 'a', mode: 0o600 });
+  }
+
+  subscribe<T extends DomainEventType>(
+    types: ReadonlyArray<T>,
+    handler: DomainEventHandler<DomainEventOfType<T>>
+  ): Unsubscribe {
+    // Only events published from now on
+    let position = fs.existsSync(this.path) ? fs.statSync(this.path).size : 0;
+
+    const worker = new PollingWorker(`file-broker:${types.join(',')}`, async () => {
+      position = await this.deliver(position, types, handler as DomainEventHandler);
+    }, this.pollIntervalMs);
+    this.workers.add(worker);
+    worker.start();
+
+    return () => {
+      this.workers.delete(worker);
+      void worker.stop();
+    };
+  }
+
+  async close(): Promise<void> {
+    const workers = Array.from(this.workers);
+    this.workers.clear();
+    await Promise.all(workers.map(worker => worker.stop()));
+  }
+
+  /**
+   * Hand every complete line after the position to the handler
+   * @returns Position after the last event handled
+   */
+  private async deliver(position: number, types: ReadonlyArray<DomainEventType>, handler: DomainEventHandler): Promise<number> {
+    if (!fs.existsSync(this.path)) {
+      return 0;
+    }
+
+    const size = fs.statSync(this.path).size;
+    // The file was replaced or truncated: start over
+    let offset = size < position ? 0 : position;
+    if (size === offset) {
+      return offset;
+    }
+
+    const buffer = Buffer.alloc(size - offset);
+    const fd = fs.openSync(this.path, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // A line without its newline is still being written
+    const complete = buffer.subarray(0, buffer.lastIndexOf('\n') + 1);
+    for (const line of complete.toString('utf8').split('\n').slice(0, -1)) {
+      const next = offset + Buffer.byteLength(line) + 1;
+      if (line.trim() === '') {
+        offset = next;
+        continue;
+      }
+
+      let stored: StoredEvent;
+      try {
+        stored = JSON.parse(line) as StoredEvent;
+      } catch {
+        logger.error('Skipping a line that is not a JSON event', { path: this.path, offset });
+        offset = next;
+        continue;
+      }
+
+      if (types.includes(stored.type)) {
+        try {
+          await handler({ ...stored, occurredAt: new Date(stored.occurredAt) } as DomainEvent);
+        } catch (error) {
+          logger.warn('Event handler failed; retrying on the next poll', {
+            eventId: stored.id,
+            type: stored.type,
+            error: (error as Error).message
+          });
+          return offset;
+        }
+      }
+      offset = next;
+    }
+
+    return offset;
+  }
+}
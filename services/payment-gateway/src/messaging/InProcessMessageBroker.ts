@@ -0,0 +1,51 @@
+import { DomainEvent, DomainEventType } from '../models/DomainEvent';
+import { DomainEventHandler, DomainEventOfType, MessageBroker, Unsubscribe } from './MessageBroker';
+
+interface Subscriber {
+  types: ReadonlyArray<DomainEventType>;
+  handler: DomainEventHandler;
+}
+
+/**
+ * Hands events straight to subscribers in the same process, e.g. for tests or a single-process deployment.
+ * Publishing waits for every subscriber and fails if one of them does, so the relay publishes the event again.
+ */
+export class InProcessMessageBroker implements MessageBroker {
+  private subscribers = new Set<Subscriber>();
+
+  async publish(event: DomainEvent): Promise<void> {
+    const failures: string[] = [];
+
+    for (const subscriber of Array.from(this.subscribers)) {
+      if (!subscriber.types.includes(event.type)) {
+        continue;
+      }
+
+      try {
+        await subscriber.handler({ ...event, data: { ...event.data } } as DomainEvent);
+      } catch (error) {
+        failures.push((error as Error).message);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} subscriber(s) failed to handle ${event.type} ${event.id}: ${failures.join('; ')}`);
+    }
+  }
+
+  subscribe<T extends DomainEventType>(
+    types: ReadonlyArray<T>,
+    handler: DomainEventHandler<DomainEventOfType<T>>
+  ): Unsubscribe {
+    const subscriber: Subscriber = { types, handler: handler as DomainEventHandler };
+    this.subscribers.add(subscriber);
+
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.subscribers.clear();
+  }
+}
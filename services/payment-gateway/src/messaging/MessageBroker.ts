@@ -0,0 +1,38 @@
+import { DomainEvent, DomainEventType } from '../models/DomainEvent';
+
+/**
+ * Event of one type, with its typed data
+ */
+export type DomainEventOfType<T extends DomainEventType> = Extract<DomainEvent, { type: T }>;
+
+export type DomainEventHandler<E extends DomainEvent = DomainEvent> = (event: E) => Promise<void> | void;
+
+/**
+ * Stops a subscription; events published afterwards are not delivered to it
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Transport the outbox relay publishes domain events to and other services subscribe on.
+ * Delivery is at least once: an event is published again when an earlier attempt failed,
+ * so subscribers must ignore event IDs they have already handled.
+ */
+export interface MessageBroker {
+  /**
+   * @throws Error when the event was not accepted; the relay retries it
+   */
+  publish(event: DomainEvent): Promise<void>;
+
+  /**
+   * Receive events of the given types published from now on, in publication order
+   */
+  subscribe<T extends DomainEventType>(
+    types: ReadonlyArray<T>,
+    handler: DomainEventHandler<DomainEventOfType<T>>
+  ): Unsubscribe;
+
+  /**
+   * Stop delivering to subscribers and wait for deliveries in progress
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { config, MessageBrokerMode } from '../config';
+import { MessageBroker } from './MessageBroker';
+import { FileMessageBroker } from './FileMessageBroker';
+import { InProcessMessageBroker } from './InProcessMessageBroker';
+
+export * from './MessageBroker';
+export { FileMessageBroker } from './FileMessageBroker';
+export { InProcessMessageBroker } from './InProcessMessageBroker';
+
+/**
+ * Build the message broker selected by EVENT_BROKER ('file' or 'memory')
+ * @param mode Override for the configured mode
+ */
+export const createMessageBroker = (mode: MessageBrokerMode = config.events.broker): MessageBroker => {
+  switch (mode) {
+    case 'memory':
+      return new InProcessMessageBroker();
+    default:
+      return new FileMessageBroker(config.events.filePath, config.events.pollIntervalMs);
+  }
+};
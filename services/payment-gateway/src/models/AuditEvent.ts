@@ -0,0 +1,27 @@
+export type AuditStatus = 'success' | 'failure' | 'pending';
+
+/**
+ * Audit event in the base format from docs/AUDIT_REQUIREMENTS.md
+ */
+export interface AuditEvent {
+  eventId: string;
+  // ISO-8601, UTC
+  timestamp: string;
+  userId: string;
+  ipAddress: string;
+  service: string;
+  action: string;
+  status: AuditStatus;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Stored audit event linked to its predecessor.
+ * hash covers every other field, including previousHash, so editing or removing
+ * an entry breaks the chain from that point on.
+ */
+export interface AuditRecord extends AuditEvent {
+  sequence: number;
+  previousHash: string;
+  hash: string;
+}
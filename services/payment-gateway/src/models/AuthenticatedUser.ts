@@ -0,0 +1,37 @@
+import { Merchant } from './Merchant';
+
+export enum Role {
+  ADMIN = 'admin',
+  SUPPORT = 'support',
+  // Second pair of eyes for refunds held for approval
+  REFUND_APPROVER = 'refund_approver',
+  // Given to server-to-server callers using a merchant API key; sees all of the merchant's transactions
+  MERCHANT = 'merchant'
+}
+
+export enum Permission {
+  REFUNDS_CREATE = 'refunds:create',
+  CAPTURES_CREATE = 'captures:create',
+  AUTHORIZATIONS_VOID = 'authorizations:void'
+}
+
+/**
+ * Caller identified from a verified bearer token or a merchant API key
+ */
+export interface AuthenticatedUser {
+  id: string;
+  // Merchant the caller acts for; callers without one are platform users
+  merchantId?: string;
+  // Unknown roles and permissions from the token are kept but grant nothing
+  roles: string[];
+  permissions: string[];
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Set by the authenticate or authenticateApiKey middleware
+    user?: AuthenticatedUser;
+    // Set by the resolveMerchant middleware for callers acting for a merchant
+    merchant?: Merchant;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * A card exchanged for an opaque token at POST /tokens. Payments refer to the token and only the
+ * provider adapter reads the card number back; the CVV is never stored.
+ */
+export interface CardToken {
+  // Opaque 'tok_' identifier handed to the client
+  token: string;
+  // Only this user, acting for this merchant, can pay with the token
+  userId: string;
+  merchantId?: string;
+  brand: string;
+  // First six and last four digits, which may be kept and shown in the clear
+  bin: string;
+  last4: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cardholderName?: string;
+  // Same keyed hash fraud screening computes, so tokenized and raw payments with a card are counted together
+  fingerprint: string;
+  // Card number encrypted with the vault key, bound to the token
+  encryptedNumber: string;
+  createdAt: Date;
+}
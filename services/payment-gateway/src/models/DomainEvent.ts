@@ -0,0 +1,144 @@
+import { StatusChange, Transaction, TransactionStatus, TransactionType } from './Transaction';
+import { Money } from './Money';
+
+/**
+ * Facts about transactions that other services (lending engine, analytics) can subscribe to
+ */
+export enum DomainEventType {
+  PAYMENT_SUCCEEDED = 'PaymentSucceeded',
+  PAYMENT_FAILED = 'PaymentFailed',
+  AUTHORIZATION_SUCCEEDED = 'AuthorizationSucceeded',
+  AUTHORIZATION_FAILED = 'AuthorizationFailed',
+  AUTHORIZATION_VOIDED = 'AuthorizationVoided',
+  CAPTURE_COMPLETED = 'CaptureCompleted',
+  CAPTURE_FAILED = 'CaptureFailed',
+  REFUND_ISSUED = 'RefundIssued',
+  REFUND_FAILED = 'RefundFailed',
+  CHARGEBACK_RECEIVED = 'ChargebackReceived'
+}
+
+/**
+ * What every event says about the transaction it is about
+ */
+export interface TransactionEventData {
+  transactionId: string;
+  merchantId?: string;
+  // Payment or authorization a refund or capture belongs to
+  originalTransactionId?: string;
+  providerTransactionId?: string;
+  // Major-unit decimal string
+  amount: string;
+  currency: string;
+  // User or system that made the status change, and why
+  actor: string;
+  reason?: string;
+}
+
+export interface FailedTransactionEventData extends TransactionEventData {
+  error?: {
+    message: string;
+    code: string;
+  };
+}
+
+export interface RefundEventData extends TransactionEventData {
+  refundReason?: string;
+}
+
+interface DomainEventOf<T extends DomainEventType, D> {
+  // Stable across retries: the transaction ID and the index of the status change, so consumers can de-duplicate
+  id: string;
+  type: T;
+  occurredAt: Date;
+  data: D;
+}
+
+export type PaymentSucceeded = DomainEventOf<DomainEventType.PAYMENT_SUCCEEDED, TransactionEventData>;
+export type PaymentFailed = DomainEventOf<DomainEventType.PAYMENT_FAILED, FailedTransactionEventData>;
+export type AuthorizationSucceeded = DomainEventOf<DomainEventType.AUTHORIZATION_SUCCEEDED, TransactionEventData>;
+export type AuthorizationFailed = DomainEventOf<DomainEventType.AUTHORIZATION_FAILED, FailedTransactionEventData>;
+export type AuthorizationVoided = DomainEventOf<DomainEventType.AUTHORIZATION_VOIDED, TransactionEventData>;
+export type CaptureCompleted = DomainEventOf<DomainEventType.CAPTURE_COMPLETED, TransactionEventData>;
+export type CaptureFailed = DomainEventOf<DomainEventType.CAPTURE_FAILED, FailedTransactionEventData>;
+export type RefundIssued = DomainEventOf<DomainEventType.REFUND_ISSUED, RefundEventData>;
+export type RefundFailed = DomainEventOf<DomainEventType.REFUND_FAILED, RefundEventData & FailedTransactionEventData>;
+// amount is what was charged back, not the amount of the payment or capture
+export type ChargebackReceived = DomainEventOf<DomainEventType.CHARGEBACK_RECEIVED, TransactionEventData>;
+
+export type DomainEvent =
+  | PaymentSucceeded
+  | PaymentFailed
+  | AuthorizationSucceeded
+  | AuthorizationFailed
+  | AuthorizationVoided
+  | CaptureCompleted
+  | CaptureFailed
+  | RefundIssued
+  | RefundFailed
+  | ChargebackReceived;
+
+// Event raised when a transaction of a type reaches a status; other status changes raise none
+const EVENT_TYPES: Record<string, Partial<Record<TransactionStatus, DomainEventType>>> = {
+  [TransactionType.PAYMENT]: {
+    [TransactionStatus.COMPLETED]: DomainEventType.PAYMENT_SUCCEEDED,
+    [TransactionStatus.FAILED]: DomainEventType.PAYMENT_FAILED,
+    [TransactionStatus.REFUNDED]: DomainEventType.CHARGEBACK_RECEIVED
+  },
+  [TransactionType.AUTHORIZATION]: {
+    [TransactionStatus.AUTHORIZED]: DomainEventType.AUTHORIZATION_SUCCEEDED,
+    [TransactionStatus.FAILED]: DomainEventType.AUTHORIZATION_FAILED,
+    [TransactionStatus.VOIDED]: DomainEventType.AUTHORIZATION_VOIDED
+  },
+  [TransactionType.CAPTURE]: {
+    [TransactionStatus.COMPLETED]: DomainEventType.CAPTURE_COMPLETED,
+    [TransactionStatus.FAILED]: DomainEventType.CAPTURE_FAILED,
+    [TransactionStatus.REFUNDED]: DomainEventType.CHARGEBACK_RECEIVED
+  },
+  [TransactionType.REFUND]: {
+    [TransactionStatus.COMPLETED]: DomainEventType.REFUND_ISSUED,
+    [TransactionStatus.FAILED]: DomainEventType.REFUND_FAILED
+  }
+};
+
+const FAILED_TYPES: ReadonlyArray<DomainEventType> = [
+  DomainEventType.PAYMENT_FAILED,
+  DomainEventType.AUTHORIZATION_FAILED,
+  DomainEventType.CAPTURE_FAILED,
+  DomainEventType.REFUND_FAILED
+];
+
+const eventFor = (transaction: Transaction, change: StatusChange, index: number): DomainEvent | undefined => {
+  const type = EVENT_TYPES[transaction.type]?.[change.to];
+  // Refunds through the API also end in refunded, but their money moves with RefundIssued
+  if (!type || (type === DomainEventType.CHARGEBACK_RECEIVED && !transaction.chargebackAmount)) {
+    return undefined;
+  }
+
+  const data: RefundEventData & FailedTransactionEventData = {
+    transactionId: transaction.id,
+    merchantId: transaction.merchantId,
+    originalTransactionId: transaction.originalTransactionId,
+    providerTransactionId: transaction.providerTransactionId,
+    amount: (type === DomainEventType.CHARGEBACK_RECEIVED ? transaction.chargebackAmount as Money : transaction.amount).toString(),
+    currency: transaction.currency,
+    actor: change.actor,
+    reason: change.reason
+  };
+  if (type === DomainEventType.REFUND_ISSUED || type === DomainEventType.REFUND_FAILED) {
+    data.refundReason = transaction.refundReason;
+  }
+  if (FAILED_TYPES.includes(type)) {
+    data.error = transaction.error;
+  }
+
+  return { id: `${transaction.id}:${index}`, type, occurredAt: change.timestamp, data } as DomainEvent;
+};
+
+/**
+ * Events for every status change in a transaction's history. Saving the same transaction again
+ * yields the same event IDs, so the outbox stores each event once however often it is saved.
+ */
+export const domainEventsFor = (transaction: Transaction): DomainEvent[] =>
+  transaction.statusHistory
+    .map((change, index) => eventFor(transaction, change, index))
+    .filter((event): event is DomainEvent => event !== undefined);
@@ -0,0 +1,59 @@
+import { Money } from './Money';
+
+export enum FraudDecision {
+  ALLOW = 'allow',
+  // Held until an admin reviews it; nothing is sent to the provider
+  REVIEW = 'review',
+  BLOCK = 'block'
+}
+
+export enum FraudReviewStatus {
+  PENDING = 'pending',
+  // The customer may retry the same payment and it will not be held again
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+/**
+ * Why a rule raised the risk of a payment
+ */
+export interface FraudReason {
+  rule: string;
+  // What the rule's score alone would have decided
+  decision: FraudDecision;
+  score: number;
+  message: string;
+}
+
+/**
+ * Outcome of screening one payment or authorization before it was sent to the provider.
+ * Every screening is kept: allowed ones count towards velocity limits, held ones form the review queue.
+ */
+export interface FraudScreening {
+  id: string;
+  // Transaction the payment was, or would have been, recorded as
+  transactionId: string;
+  merchantId?: string;
+  userId?: string;
+  // Keyed hash of the card number, so attempts with the same card can be counted without storing it
+  cardFingerprint?: string;
+  binCountry?: string;
+  ipAddress?: string;
+  ipCountry?: string;
+  // Only the domain of the customer's email is kept
+  emailDomain?: string;
+  amount: Money;
+  currency: string;
+  decision: FraudDecision;
+  // Sum of the reasons' scores
+  score: number;
+  reasons: FraudReason[];
+  screenedAt: Date;
+  // Set for payments held for review
+  reviewStatus?: FraudReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  // Approved reviews only: the retried transaction the approval let through
+  releasedTransactionId?: string;
+}
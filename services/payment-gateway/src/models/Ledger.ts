@@ -0,0 +1,173 @@
+import { Decimal } from 'decimal.js';
+import { DomainEvent, DomainEventType } from './DomainEvent';
+import { Money } from './Money';
+
+/**
+ * Ledger accounts. Merchant payable is kept per merchant; the others are platform-wide.
+ */
+export enum LedgerAccountType {
+  // Owed by customers for charges until the provider collects it
+  CUSTOMER_RECEIVABLE = 'customer_receivable',
+  // Owed by the platform to a merchant for their sales, less fees and refunds
+  MERCHANT_PAYABLE = 'merchant_payable',
+  // Collected by the provider and not yet settled to the platform
+  PROVIDER_CLEARING = 'provider_clearing',
+  // Fees the platform earned
+  FEES = 'fees',
+  // Owed back to customers for refunds until the provider pays them out
+  REFUNDS = 'refunds'
+}
+
+export enum EntrySide {
+  DEBIT = 'debit',
+  CREDIT = 'credit'
+}
+
+export enum JournalKind {
+  PAYMENT = 'payment',
+  CAPTURE = 'capture',
+  REFUND = 'refund',
+  CHARGEBACK = 'chargeback',
+  FEE = 'fee'
+}
+
+export interface JournalLine {
+  // Account name, see ledgerAccount()
+  account: string;
+  side: EntrySide;
+  // Always positive
+  amount: Money;
+}
+
+/**
+ * A balanced, immutable posting for one money movement. Corrections are new entries, never edits.
+ */
+export interface JournalEntry {
+  // Derived from the domain event, so posting the same movement twice is a no-op
+  id: string;
+  kind: JournalKind;
+  transactionId: string;
+  merchantId?: string;
+  description: string;
+  lines: JournalLine[];
+  // When the money moved; balances at a point in time are based on it
+  effectiveAt: Date;
+  recordedAt: Date;
+}
+
+export interface AccountBalance {
+  account: string;
+  currency: string;
+  debits: Money;
+  credits: Money;
+  // Debits minus credits; negative for accounts that normally carry a credit balance
+  balance: Money;
+}
+
+/**
+ * Amount by which one journal entry fails to balance in one currency
+ */
+export interface LedgerImbalance {
+  entryId: string;
+  currency: string;
+  // Debits minus credits
+  difference: Money;
+}
+
+/**
+ * Name of an account, e.g. 'merchant_payable:merchant_1'; merchant payable without a merchant is the platform's own
+ */
+export const ledgerAccount = (type: LedgerAccountType, merchantId?: string): string =>
+  type === LedgerAccountType.MERCHANT_PAYABLE && merchantId ? `${type}:${merchantId}` : type;
+
+/**
+ * Debits minus credits per currency for every currency in the lines that does not sum to zero
+ */
+export const imbalances = (entryId: string, lines: ReadonlyArray<JournalLine>): LedgerImbalance[] => {
+  const totals = new Map<string, Money>();
+  lines.forEach(line => {
+    const signed = line.side === EntrySide.DEBIT ? line.amount : Money.zero(line.amount.currency).minus(line.amount);
+    totals.set(line.amount.currency, (totals.get(line.amount.currency) || Money.zero(line.amount.currency)).plus(signed));
+  });
+
+  return Array.from(totals.entries())
+    .filter(([, difference]) => !difference.isZero())
+    .map(([currency, difference]) => ({ entryId, currency, difference }));
+};
+
+const debit = (account: string, amount: Money): JournalLine => ({ account, side: EntrySide.DEBIT, amount });
+const credit = (account: string, amount: Money): JournalLine => ({ account, side: EntrySide.CREDIT, amount });
+
+const entry = (
+  event: DomainEvent,
+  kind: JournalKind,
+  description: string,
+  lines: JournalLine[]
+): JournalEntry => {
+  const id = `${event.id}:${kind}`;
+  if (imbalances(id, lines).length > 0) {
+    throw new Error(`Journal entry ${id} does not balance`);
+  }
+
+  return {
+    id,
+    kind,
+    transactionId: event.data.transactionId,
+    merchantId: event.data.merchantId,
+    description,
+    lines,
+    effectiveAt: event.occurredAt,
+    recordedAt: new Date()
+  };
+};
+
+/**
+ * Journal entries for the money a domain event moved:
+ * - a payment or capture charges the customer for the merchant and the provider collects it,
+ *   and the platform's fee is taken from the merchant's share
+ * - a refund is paid by the merchant and paid out to the customer by the provider
+ * - a chargeback is taken back by the provider and recovered from the merchant; the platform keeps its fee
+ * Other events move no money and post nothing.
+ * @param feeRate Share of each charge kept as the platform's fee, e.g. 0.029
+ */
+export const journalEntriesFor = (event: DomainEvent, feeRate: Decimal.Value): JournalEntry[] => {
+  const { transactionId, merchantId } = event.data;
+  const amount = Money.of(event.data.amount, event.data.currency);
+  const merchantPayable = ledgerAccount(LedgerAccountType.MERCHANT_PAYABLE, merchantId);
+
+  switch (event.type) {
+    case DomainEventType.PAYMENT_SUCCEEDED:
+    case DomainEventType.CAPTURE_COMPLETED: {
+      const kind = event.type === DomainEventType.PAYMENT_SUCCEEDED ? JournalKind.PAYMENT : JournalKind.CAPTURE;
+      const entries = [entry(event, kind, `Charge for ${kind} ${transactionId}`, [
+        debit(LedgerAccountType.CUSTOMER_RECEIVABLE, amount),
+        credit(merchantPayable, amount),
+        debit(LedgerAccountType.PROVIDER_CLEARING, amount),
+        credit(LedgerAccountType.CUSTOMER_RECEIVABLE, amount)
+      ])];
+
+      const fee = amount.times(feeRate);
+      if (fee.isPositive()) {
+        entries.push(entry(event, JournalKind.FEE, `Platform fee on ${kind} ${transactionId}`, [
+          debit(merchantPayable, fee),
+          credit(LedgerAccountType.FEES, fee)
+        ]));
+      }
+      return entries;
+    }
+    case DomainEventType.REFUND_ISSUED:
+      return [entry(event, JournalKind.REFUND, `Refund ${transactionId} of ${event.data.originalTransactionId}`, [
+        debit(merchantPayable, amount),
+        credit(LedgerAccountType.REFUNDS, amount),
+        debit(LedgerAccountType.REFUNDS, amount),
+        credit(LedgerAccountType.PROVIDER_CLEARING, amount)
+      ])];
+    case DomainEventType.CHARGEBACK_RECEIVED:
+      return [entry(event, JournalKind.CHARGEBACK, `Chargeback of ${transactionId}`, [
+        debit(merchantPayable, amount),
+        credit(LedgerAccountType.PROVIDER_CLEARING, amount)
+      ])];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,56 @@
+export enum MerchantStatus {
+  ACTIVE = 'active',
+  // Keys stop working until the merchant is reactivated
+  SUSPENDED = 'suspended'
+}
+
+/**
+ * Where a merchant's own provider account is reached.
+ * Holds the name of the environment variable with the provider API key, never the key itself.
+ */
+export interface MerchantProviderCredentials {
+  // Defaults to PAYMENT_PROVIDER_URL
+  url?: string;
+  apiKeyEnv: string;
+}
+
+/**
+ * A business unit sharing this deployment; every transaction belongs to exactly one merchant
+ */
+export interface Merchant {
+  id: string;
+  name: string;
+  status: MerchantStatus;
+  // Used when a payment request leaves out the currency
+  defaultCurrency: string;
+  // Uses the gateway's provider account when not set
+  providerCredentials?: MerchantProviderCredentials;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Server-to-server credential of a merchant.
+ * Only a SHA-256 hash of the secret part is stored; the full key is shown once when issued.
+ */
+export interface MerchantApiKey {
+  id: string;
+  merchantId: string;
+  // Non-secret start of the key ('gw_<id>'), safe to show and log
+  prefix: string;
+  secretHash: string;
+  permissions: string[];
+  createdAt: Date;
+  // Set on rotation so the old key keeps working for a grace period
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * A newly issued key together with its full value, which cannot be recovered later
+ */
+export interface IssuedApiKey {
+  apiKey: MerchantApiKey;
+  key: string;
+}
@@ -0,0 +1,68 @@
+import { TransactionStatus, TransactionType } from './Transaction';
+
+/**
+ * Event types merchants can subscribe to: '<transaction type>.<new status>', e.g. 'payment.completed'
+ */
+export const MERCHANT_WEBHOOK_EVENT_TYPES: ReadonlyArray<string> = Object.values(TransactionType).flatMap(type =>
+  Object.values(TransactionStatus).map(status => `${type}.${status}`)
+);
+
+export enum WebhookSubscriptionStatus {
+  ACTIVE = 'active',
+  // Keeps the subscription and its deliveries but sends nothing new
+  DISABLED = 'disabled'
+}
+
+/**
+ * A merchant URL that receives signed POSTs for the event types it subscribed to
+ */
+export interface WebhookSubscription {
+  id: string;
+  merchantId: string;
+  url: string;
+  eventTypes: string[];
+  status: WebhookSubscriptionStatus;
+  // Signing secret; only shown to the merchant when the subscription is created
+  secret: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export enum WebhookDeliveryStatus {
+  // Waiting for its first or next attempt
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  // Out of attempts; only sent again through a manual redelivery
+  DEAD = 'dead'
+}
+
+/**
+ * One POST of a delivery, kept so support staff can see what the merchant's endpoint answered
+ */
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  // Missing when no response came back, e.g. on a timeout
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * One event queued for one subscription
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  merchantId: string;
+  // Same for every subscription the event goes to, and stable across attempts
+  eventId: string;
+  eventType: string;
+  // JSON body exactly as signed and sent
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  // When a pending delivery is next due
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
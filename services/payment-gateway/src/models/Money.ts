@@ -0,0 +1,176 @@
+import { Decimal } from 'decimal.js';
+import { PaymentError } from '../errors/PaymentError';
+import { CURRENCY_MINOR_UNITS, isSupportedCurrency } from './currencies';
+
+/**
+ * Immutable amount of a single currency, held in major units (10.50 USD, 1000 JPY).
+ * Values never carry more decimal places than the currency allows, and arithmetic
+ * across different currencies is rejected.
+ */
+export class Money {
+  readonly amount: Decimal;
+  readonly currency: string;
+
+  private constructor(amount: Decimal, currency: string) {
+    this.amount = amount;
+    this.currency = currency;
+  }
+
+  /**
+   * Create an amount from major units
+   * @param amount Amount in major units, e.g. 10.5 or '10.50' for USD
+   * @param currency ISO 4217 currency code
+   * @throws PaymentError invalid_currency for unknown codes
+   * @throws PaymentError invalid_amount when the amount is not a finite number or is more precise than the currency allows
+   */
+  static of(amount: Decimal.Value, currency: string): Money {
+    const code = Money.normalizeCurrency(currency);
+    const value = Money.parse(amount);
+
+    if (value.decimalPlaces() > Money.minorUnits(code)) {
+      throw new PaymentError(
+        `${code} amounts cannot have more than ${Money.minorUnits(code)} decimal places`,
+        'invalid_amount'
+      );
+    }
+
+    return new Money(value, code);
+  }
+
+  /**
+   * Create an amount from major units, rounding half-even to the currency's precision
+   */
+  static rounded(amount: Decimal.Value, currency: string): Money {
+    const code = Money.normalizeCurrency(currency);
+    return new Money(
+      Money.parse(amount).toDecimalPlaces(Money.minorUnits(code), Decimal.ROUND_HALF_EVEN),
+      code
+    );
+  }
+
+  /**
+   * Create an amount from minor units, e.g. 1050 cents for 10.50 USD
+   */
+  static fromMinorUnits(minorUnits: number | string, currency: string): Money {
+    const code = Money.normalizeCurrency(currency);
+    const value = Money.parse(minorUnits);
+
+    if (!value.isInteger()) {
+      throw new PaymentError('Minor-unit amounts must be whole numbers', 'invalid_amount');
+    }
+
+    return new Money(value.dividedBy(new Decimal(10).pow(Money.minorUnits(code))), code);
+  }
+
+  static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * Number of decimal places used by a currency
+   * @throws PaymentError invalid_currency for unknown codes
+   */
+  static minorUnits(currency: string): number {
+    return CURRENCY_MINOR_UNITS[Money.normalizeCurrency(currency)];
+  }
+
+  /**
+   * Amount in minor units as an integer, e.g. 1050 for 10.50 USD
+   */
+  toMinorUnits(): number {
+    const minor = this.amount.times(new Decimal(10).pow(Money.minorUnits(this.currency)));
+
+    if (minor.abs().gt(Number.MAX_SAFE_INTEGER)) {
+      throw new PaymentError('Amount is too large to express in minor units', 'invalid_amount');
+    }
+
+    return minor.toNumber();
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount.plus(other.amount), this.currency);
+  }
+
+  minus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount.minus(other.amount), this.currency);
+  }
+
+  /**
+   * Multiply by a factor (e.g. a fee rate), rounding half-even to the currency's precision
+   */
+  times(factor: Decimal.Value): Money {
+    return Money.rounded(this.amount.times(factor), this.currency);
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount.equals(other.amount);
+  }
+
+  greaterThan(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount.gt(other.amount);
+  }
+
+  lessThan(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount.lt(other.amount);
+  }
+
+  isZero(): boolean {
+    return this.amount.isZero();
+  }
+
+  isPositive(): boolean {
+    return this.amount.gt(0);
+  }
+
+  /**
+   * Major-unit amount padded to the currency's precision, e.g. '10.50' for USD and '1000' for JPY
+   */
+  toString(): string {
+    return this.amount.toFixed(Money.minorUnits(this.currency));
+  }
+
+  /**
+   * Serialized as the major-unit string; the currency travels next to it (e.g. Transaction.currency)
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new PaymentError(
+        `Cannot combine ${this.currency} and ${other.currency} amounts`,
+        'currency_mismatch'
+      );
+    }
+  }
+
+  private static normalizeCurrency(currency: string): string {
+    const code = typeof currency === 'string' ? currency.toUpperCase() : '';
+
+    if (!isSupportedCurrency(code)) {
+      throw new PaymentError(`Unsupported currency: ${currency}`, 'invalid_currency');
+    }
+
+    return code;
+  }
+
+  private static parse(amount: Decimal.Value): Decimal {
+    let value: Decimal;
+    try {
+      value = new Decimal(amount);
+    } catch {
+      throw new PaymentError(`Invalid amount: ${amount}`, 'invalid_amount');
+    }
+
+    if (!value.isFinite()) {
+      throw new PaymentError(`Invalid amount: ${amount}`, 'invalid_amount');
+    }
+
+    return value;
+  }
+}
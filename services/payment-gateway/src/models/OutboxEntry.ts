@@ -0,0 +1,21 @@
+import { DomainEvent } from './DomainEvent';
+
+export enum OutboxStatus {
+  PENDING = 'pending',
+  PUBLISHED = 'published'
+}
+
+/**
+ * A domain event waiting in the outbox to be handed to the message broker
+ */
+export interface OutboxEntry {
+  event: DomainEvent;
+  status: OutboxStatus;
+  // Failed attempts to publish so far
+  attempts: number;
+  lastError?: string;
+  // Not published before this time; set after a failed attempt
+  nextAttemptAt: Date;
+  createdAt: Date;
+  publishedAt?: Date;
+}
@@ -0,0 +1,29 @@
+export enum ProviderEventStatus {
+  // Stored but not yet applied, or applying it was interrupted
+  RECEIVED = 'received',
+  PROCESSED = 'processed',
+  // Event type the gateway does not act on
+  IGNORED = 'ignored',
+  // Could not be applied, e.g. no matching transaction; can be replayed
+  FAILED = 'failed'
+}
+
+/**
+ * An event pushed by the payment provider to POST /webhooks/provider, kept verbatim so it can be replayed
+ */
+export interface ProviderEvent {
+  // The provider's event ID; redeliveries of an event carry the same ID
+  id: string;
+  type: string;
+  providerTransactionId?: string;
+  // Request body exactly as received and signed
+  payload: string;
+  status: ProviderEventStatus;
+  // Transaction the event was applied to
+  transactionId?: string;
+  // Why the last attempt failed or the event was ignored
+  error?: string;
+  attempts: number;
+  receivedAt: Date;
+  processedAt?: Date;
+}
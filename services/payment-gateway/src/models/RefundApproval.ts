@@ -0,0 +1,30 @@
+import { Money } from './Money';
+import { RefundReason } from './Transaction';
+
+export enum RefundApprovalStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+/**
+ * A refund above the approval threshold, held until a second user (the checker)
+ * approves or rejects what the requesting user (the maker) asked for
+ */
+export interface RefundApproval {
+  id: string;
+  // Merchant of the transaction being refunded
+  merchantId?: string;
+  transactionId: string;
+  amount: Money;
+  currency: string;
+  reason?: RefundReason;
+  status: RefundApprovalStatus;
+  requestedBy: string;
+  requestedAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  // Set once the approved refund has been processed
+  refundTransactionId?: string;
+}
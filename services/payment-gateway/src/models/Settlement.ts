@@ -0,0 +1,69 @@
+import { Money } from './Money';
+
+export type SettlementFormat = 'csv' | 'json';
+
+/**
+ * One transaction the provider says it settled
+ */
+export interface SettlementLine {
+  // Line of the CSV file, or 1-based position in the JSON lines array
+  lineNumber: number;
+  providerTransactionId: string;
+  // As reported; refunds may be negative
+  amount: Money;
+  // Provider's own classification, e.g. 'charge' or 'refund'
+  type?: string;
+  settledAt?: Date;
+}
+
+/**
+ * A provider settlement report after parsing
+ */
+export interface SettlementReport {
+  // Provider's reference for the settlement batch, when the report has one
+  settlementId?: string;
+  lines: SettlementLine[];
+}
+
+export enum ReconciliationIssueType {
+  // A gateway transaction that moved money in the period is not in the settlement
+  MISSING = 'missing',
+  // The settlement lists the same provider transaction more than once
+  DUPLICATE = 'duplicate',
+  // The settled amount or currency differs from the gateway transaction
+  AMOUNT_MISMATCH = 'amount_mismatch',
+  // The settlement lists a provider transaction the gateway does not know
+  UNKNOWN = 'unknown'
+}
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  providerTransactionId: string;
+  // Gateway transaction, unless the issue is unknown
+  transactionId?: string;
+  // Settlement lines involved; empty for missing transactions
+  lineNumbers: number[];
+  // Amounts as major-unit strings with their currency, when there is something to compare
+  expected?: { amount: string; currency: string };
+  settled?: { amount: string; currency: string };
+}
+
+/**
+ * Outcome of reconciling one settlement report against the gateway's transactions
+ */
+export interface ReconciliationReport {
+  id: string;
+  settlementId?: string;
+  // Gateway transactions created in [periodStart, periodEnd) are expected in the settlement
+  periodStart: Date;
+  periodEnd: Date;
+  generatedAt: Date;
+  linesChecked: number;
+  transactionsExpected: number;
+  // Provider transactions settled exactly once with the expected amount and currency
+  matched: number;
+  // True when there are no issues
+  reconciled: boolean;
+  summary: Record<ReconciliationIssueType, number>;
+  issues: ReconciliationIssue[];
+}
@@ -1,21 +1,63 @@
-import { Decimal } from 'decimal.js';
+import { Money } from './Money';
 
-export type TransactionType = 'payment' | 'refund' | 'capture' | 'authorization';
+export enum TransactionType {
+  PAYMENT = 'payment',
+  REFUND = 'refund',
+  CAPTURE = 'capture',
+  AUTHORIZATION = 'authorization'
+}
 
 export enum TransactionStatus {
   PENDING = 'pending',
+  AUTHORIZED = 'authorized',
   COMPLETED = 'completed',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
   FAILED = 'failed',
-  CANCELED = 'canceled'
+  CANCELED = 'canceled',
+  VOIDED = 'voided'
+}
+
+export enum RefundReason {
+  REQUESTED_BY_CUSTOMER = 'requested_by_customer',
+  DUPLICATE = 'duplicate',
+  FRAUDULENT = 'fraudulent',
+  PRODUCT_NOT_RECEIVED = 'product_not_received',
+  PRODUCT_UNACCEPTABLE = 'product_unacceptable',
+  SERVICE_CANCELED = 'service_canceled',
+  OTHER = 'other'
+}
+
+/**
+ * One entry in a transaction's append-only status history
+ */
+export interface StatusChange {
+  from: TransactionStatus | null;
+  to: TransactionStatus;
+  timestamp: Date;
+  actor: string;
+  reason?: string;
 }
 
 export interface Transaction {
   id: string;
+  // Merchant the transaction was made for; refunds and captures inherit it from the original
+  merchantId?: string;
   originalTransactionId?: string;
   providerTransactionId?: string;
-  amount: number | Decimal; // Should always use Decimal, but some places use number - Updated - Updated
+  amount: Money;
+  // Authorizations only: amount still available for capture
+  capturableAmount?: Money;
+  // Payments and captures only: total of all completed refunds
+  refundedAmount?: Money;
+  // Refunds only
+  refundReason?: RefundReason;
+  // Payments and captures only: amount the customer's bank took back in a chargeback, beyond earlier refunds
+  chargebackAmount?: Money;
+  // Always equal to amount.currency; kept top-level for API consumers and queries
   currency: string;
-  status: TransactionStatus | string;
+  status: TransactionStatus;
+  statusHistory: ReadonlyArray<StatusChange>;
   type: TransactionType | string;
   metadata?: Record<string, unknown>;
   error?: {
@@ -27,15 +69,16 @@ export interface Transaction {
 }
 
 export interface TransactionCreateParams {
-  amount: number | string | Decimal;
-  currency: string;
+  amount: Money;
   paymentMethod: PaymentMethod;
   metadata?: Record<string, unknown>;
 }
 
 export interface PaymentMethod {
-  type: 'card' | 'bank_account' | 'wallet';
+  type: 'card' | 'card_token' | 'bank_account' | 'wallet';
   card?: CardDetails;
+  // Card stored in the token vault; only the provider adapter sees its details
+  cardToken?: CardTokenReference;
   bankAccount?: BankAccountDetails;
   wallet?: WalletDetails;
 }
@@ -44,10 +87,15 @@ export interface CardDetails {
   number: string;
   expiryMonth: number;
   expiryYear: number;
-  cvv: string;
+  // Absent for cards read back from the token vault, which never stores it
+  cvv?: string;
   cardholderName?: string;
 }
 
+export interface CardTokenReference {
+  token: string;
+}
+
 export interface BankAccountDetails {
   accountNumber: string;
   routingNumber: string;
@@ -0,0 +1,82 @@
+import { PaymentError } from '../errors/PaymentError';
+import { StatusChange, Transaction, TransactionStatus } from './Transaction';
+
+// Actor recorded for transitions that no user initiated
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * Allowed status transitions. Statuses with no outgoing transitions are final.
+ */
+export const TRANSACTION_STATUS_TRANSITIONS: Record<TransactionStatus, ReadonlyArray<TransactionStatus>> = {
+  [TransactionStatus.PENDING]: [
+    TransactionStatus.AUTHORIZED,
+    TransactionStatus.COMPLETED,
+    TransactionStatus.FAILED,
+    TransactionStatus.CANCELED
+  ],
+  [TransactionStatus.AUTHORIZED]: [
+    TransactionStatus.COMPLETED,
+    TransactionStatus.VOIDED,
+    TransactionStatus.CANCELED
+  ],
+  [TransactionStatus.COMPLETED]: [
+    TransactionStatus.PARTIALLY_REFUNDED,
+    TransactionStatus.REFUNDED
+  ],
+  // A further partial refund keeps the status but still gets a history entry
+  [TransactionStatus.PARTIALLY_REFUNDED]: [
+    TransactionStatus.PARTIALLY_REFUNDED,
+    TransactionStatus.REFUNDED
+  ],
+  [TransactionStatus.REFUNDED]: [],
+  [TransactionStatus.FAILED]: [],
+  [TransactionStatus.CANCELED]: [],
+  [TransactionStatus.VOIDED]: []
+};
+
+/**
+ * Check whether a transaction may move from one status to another
+ */
+export const canTransition = (from: TransactionStatus, to: TransactionStatus): boolean =>
+  TRANSACTION_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Build the history for a newly created transaction
+ * @param status Status the transaction starts in
+ * @param actor User or component creating the transaction
+ */
+export const initialStatusHistory = (
+  status: TransactionStatus,
+  actor: string = SYSTEM_ACTOR
+): ReadonlyArray<StatusChange> => [
+  { from: null, to: status, timestamp: new Date(), actor, reason: 'created' }
+];
+
+/**
+ * Move a transaction to a new status and append the change to its history
+ * @param transaction Transaction to update in place
+ * @param to Target status
+ * @param actor User or component causing the change
+ * @param reason Why the status changed
+ * @throws PaymentError invalid_status_transition if the transition table does not allow the change
+ */
+export const transitionTransaction = (
+  transaction: Transaction,
+  to: TransactionStatus,
+  actor: string = SYSTEM_ACTOR,
+  reason?: string
+): void => {
+  const from = transaction.status;
+
+  if (!canTransition(from, to)) {
+    throw new PaymentError(
+      `Transaction ${transaction.id} cannot move from ${from} to ${to}`,
+      'invalid_status_transition'
+    );
+  }
+
+  const timestamp = new Date();
+  transaction.status = to;
+  transaction.statusHistory = [...transaction.statusHistory, { from, to, timestamp, actor, reason }];
+  transaction.updatedAt = timestamp;
+};
@@ -0,0 +1,65 @@
+import { CardDetails } from '../models/Transaction';
+import {
+  AuthorizeRequest,
+  CaptureRequest,
+  ChargeRequest,
+  PaymentProviderAdapter,
+  ProviderResponse,
+  RefundRequest,
+  VoidRequest
+} from './PaymentProviderAdapter';
+
+/**
+ * Reads a stored card back from the token vault
+ */
+export interface CardDetokenizer {
+  detokenize(token: string): Promise<CardDetails>;
+}
+
+/**
+ * Wraps a provider adapter so card_token payment methods are swapped for the stored card just before
+ * the request is sent. Card numbers from the vault never exist outside the provider layer.
+ */
+export class DetokenizingPaymentProviderAdapter implements PaymentProviderAdapter {
+  readonly name: string;
+  private adapter: PaymentProviderAdapter;
+  private detokenizer: CardDetokenizer;
+
+  constructor(adapter: PaymentProviderAdapter, detokenizer: CardDetokenizer) {
+    this.name = adapter.name;
+    this.adapter = adapter;
+    this.detokenizer = detokenizer;
+  }
+
+  async charge(request: ChargeRequest): Promise<ProviderResponse> {
+    return this.adapter.charge(await this.detokenized(request));
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderResponse> {
+    return this.adapter.authorize(await this.detokenized(request));
+  }
+
+  async capture(request: CaptureRequest): Promise<ProviderResponse> {
+    return this.adapter.capture(request);
+  }
+
+  async refund(request: RefundRequest): Promise<ProviderResponse> {
+    return this.adapter.refund(request);
+  }
+
+  async void(request: VoidRequest): Promise<ProviderResponse> {
+    return this.adapter.void(request);
+  }
+
+  private async detokenized(request: ChargeRequest): Promise<ChargeRequest> {
+    const { paymentMethod } = request;
+    if (paymentMethod.type !== 'card_token' || !paymentMethod.cardToken) {
+      return request;
+    }
+
+    return {
+      ...request,
+      paymentMethod: { type: 'card', card: await this.detokenizer.detokenize(paymentMethod.cardToken.token) }
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { PaymentMethod } from '../models/Transaction';
+import { Money } from '../models/Money';
+
+export type ProviderStatus = 'succeeded' | 'pending' | 'failed';
+
+/**
+ * Provider-agnostic result of a call to a payment provider.
+ * Amount and currency are echoed as the provider reported them.
+ */
+export interface ProviderResponse {
+  status: ProviderStatus;
+  providerTransactionId?: string;
+  amount?: string;
+  currency?: string;
+  error?: {
+    message: string;
+    code: string;
+  };
+}
+
+export interface ChargeRequest {
+  amount: Money;
+  paymentMethod: PaymentMethod;
+  idempotencyKey: string;
+  metadata?: Record<string, unknown>;
+}
+
+export type AuthorizeRequest = ChargeRequest;
+
+export interface RefundRequest {
+  transactionId: string;
+  amount?: Money;
+  idempotencyKey: string;
+}
+
+export interface CaptureRequest {
+  authorizationId: string;
+  amount?: Money;
+  idempotencyKey: string;
+  // Release what stays uncaptured instead of keeping it for further captures
+  final?: boolean;
+}
+
+export interface VoidRequest {
+  authorizationId: string;
+  idempotencyKey: string;
+}
+
+/**
+ * Contract every acquirer integration implements.
+ * Declined operations resolve with status 'failed'; transport problems reject.
+ */
+export interface PaymentProviderAdapter {
+  readonly name: string;
+
+  charge(request: ChargeRequest): Promise<ProviderResponse>;
+  authorize(request: AuthorizeRequest): Promise<ProviderResponse>;
+  capture(request: CaptureRequest): Promise<ProviderResponse>;
+  refund(request: RefundRequest): Promise<ProviderResponse>;
+  void(request: VoidRequest): Promise<ProviderResponse>;
+}
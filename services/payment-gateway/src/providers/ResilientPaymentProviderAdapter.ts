@@ -0,0 +1,100 @@
+import { config } from '../config';
+import { ProviderError } from '../errors/PaymentError';
+import {
+  AuthorizeRequest,
+  CaptureRequest,
+  ChargeRequest,
+  PaymentProviderAdapter,
+  ProviderResponse,
+  RefundRequest,
+  VoidRequest
+} from './PaymentProviderAdapter';
+import {
+  CircuitBreaker,
+  RetryPolicy,
+  getCircuitBreaker,
+  isRetryableError,
+  withRetry,
+  withTimeout
+} from '../utils/resilience';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('provider-resilience');
+
+export interface ResilienceOptions {
+  retryPolicy?: Partial<RetryPolicy>;
+  // Timeout for each attempt
+  timeoutMs?: number;
+  // Defaults to the shared breaker for the wrapped provider's name
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Wraps any provider adapter with a per-attempt timeout, a circuit breaker and retries.
+ * Every provider request carries an idempotency key, so retrying after a timeout cannot charge twice;
+ * requests without one are never retried.
+ */
+export class ResilientPaymentProviderAdapter implements PaymentProviderAdapter {
+  readonly name: string;
+  readonly circuitBreaker: CircuitBreaker;
+  private adapter: PaymentProviderAdapter;
+  private retryPolicy: RetryPolicy;
+  private timeoutMs: number;
+
+  constructor(adapter: PaymentProviderAdapter, options: ResilienceOptions = {}) {
+    this.name = adapter.name;
+    this.adapter = adapter;
+    this.retryPolicy = { ...config.paymentProvider.retry, ...options.retryPolicy };
+    this.timeoutMs = options.timeoutMs || config.paymentProvider.timeoutMs;
+    this.circuitBreaker = options.circuitBreaker
+      || getCircuitBreaker(adapter.name, config.paymentProvider.circuitBreaker);
+  }
+
+  async charge(request: ChargeRequest): Promise<ProviderResponse> {
+    return this.call('charge', request.idempotencyKey, () => this.adapter.charge(request));
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderResponse> {
+    return this.call('authorize', request.idempotencyKey, () => this.adapter.authorize(request));
+  }
+
+  async capture(request: CaptureRequest): Promise<ProviderResponse> {
+    return this.call('capture', request.idempotencyKey, () => this.adapter.capture(request));
+  }
+
+  async refund(request: RefundRequest): Promise<ProviderResponse> {
+    return this.call('refund', request.idempotencyKey, () => this.adapter.refund(request));
+  }
+
+  async void(request: VoidRequest): Promise<ProviderResponse> {
+    return this.call('void', request.idempotencyKey, () => this.adapter.void(request));
+  }
+
+  private call(
+    operation: string,
+    idempotencyKey: string,
+    send: () => Promise<ProviderResponse>
+  ): Promise<ProviderResponse> {
+    const attempt = (): Promise<ProviderResponse> =>
+      this.circuitBreaker.execute(() =>
+        withTimeout(send, this.timeoutMs, () => new ProviderError(
+          `Payment provider ${this.name} did not answer ${operation} within ${this.timeoutMs}ms`,
+          'provider_timeout'
+        ))
+      );
+
+    return withRetry(attempt, {
+      policy: this.retryPolicy,
+      isRetryable: error => Boolean(idempotencyKey) && isRetryableError(error),
+      onRetry: (error, attemptNumber, delayMs) => {
+        logger.warn('Retrying payment provider call', {
+          provider: this.name,
+          operation,
+          attempt: attemptNumber,
+          delayMs,
+          code: (error as ProviderError).code
+        });
+      }
+    });
+  }
+}
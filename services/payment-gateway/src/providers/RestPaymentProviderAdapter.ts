@@ -0,0 +1,167 @@
+import axios from 'axios';
+import {
+  AuthorizeRequest,
+  CaptureRequest,
+  ChargeRequest,
+  PaymentProviderAdapter,
+  ProviderResponse,
+  RefundRequest,
+  VoidRequest
+} from './PaymentProviderAdapter';
+import { ProviderError } from '../errors/PaymentError';
+import { getLogContext } from '../utils/logging';
+
+// Provider calls must never exceed 30 seconds (see .cursorrules)
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Socket-level failures where the request may not have reached the provider
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+const CONNECTION_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN']);
+
+interface HttpClientError {
+  message: string;
+  code?: string;
+  response?: {
+    status: number;
+    data?: Partial<RestProviderPayload>;
+  };
+}
+
+export interface RestPaymentProviderOptions {
+  baseUrl: string;
+  apiKey: string;
+  timeoutMs?: number;
+  name?: string;
+}
+
+interface RestProviderPayload {
+  id?: string;
+  status: string;
+  amount?: string;
+  currency?: string;
+  error?: {
+    message: string;
+    code: string;
+  };
+}
+
+/**
+ * Adapter for acquirers exposing the generic JSON-over-HTTP payments API.
+ * Request amounts are sent as integers in the currency's minor units.
+ */
+export class RestPaymentProviderAdapter implements PaymentProviderAdapter {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private timeoutMs: number;
+
+  constructor(options: RestPaymentProviderOptions) {
+    this.name = options.name || 'rest';
+    this.baseUrl = options.baseUrl;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = Math.min(options.timeoutMs || DEFAULT_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+  }
+
+  async charge(request: ChargeRequest): Promise<ProviderResponse> {
+    return this.post('/payments', {
+      amount: request.amount.toMinorUnits(),
+      currency: request.amount.currency,
+      payment_method: request.paymentMethod,
+      idempotency_key: request.idempotencyKey,
+      metadata: request.metadata
+    });
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderResponse> {
+    return this.post('/authorizations', {
+      amount: request.amount.toMinorUnits(),
+      currency: request.amount.currency,
+      payment_method: request.paymentMethod,
+      idempotency_key: request.idempotencyKey,
+      metadata: request.metadata
+    });
+  }
+
+  async capture(request: CaptureRequest): Promise<ProviderResponse> {
+    return this.post('/captures', {
+      authorization_id: request.authorizationId,
+      amount: request.amount?.toMinorUnits(),
+      final_capture: request.final,
+      idempotency_key: request.idempotencyKey
+    });
+  }
+
+  async refund(request: RefundRequest): Promise<ProviderResponse> {
+    return this.post('/refunds', {
+      transaction_id: request.transactionId,
+      amount: request.amount?.toMinorUnits(),
+      idempotency_key: request.idempotencyKey
+    });
+  }
+
+  async void(request: VoidRequest): Promise<ProviderResponse> {
+    return this.post('/voids', {
+      authorization_id: request.authorizationId,
+      idempotency_key: request.idempotencyKey
+    });
+  }
+
+  private async post(path: string, body: Record<string, unknown>): Promise<ProviderResponse> {
+    const correlationId = getLogContext()?.correlationId;
+    let response;
+    try {
+      response = await axios.post<RestProviderPayload>(`${this.baseUrl}${path}`, body, {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+          // Lets the provider's logs be matched to ours
+          ...(correlationId ? { 'X-Correlation-Id': correlationId } : {})
+        },
+        timeout: this.timeoutMs
+      });
+    } catch (error) {
+      throw this.toProviderError(error as HttpClientError);
+    }
+
+    return this.normalize(response.data);
+  }
+
+  /**
+   * Classify an HTTP client failure. Timeouts, dropped connections and 5xx answers are retryable;
+   * any other error response is final.
+   */
+  private toProviderError(error: HttpClientError): ProviderError {
+    const status = error.response?.status;
+
+    if (error.code && TIMEOUT_CODES.has(error.code)) {
+      return new ProviderError(`Payment provider timed out: ${error.message}`, 'provider_timeout');
+    }
+
+    if ((error.code && CONNECTION_CODES.has(error.code)) || (status !== undefined && status >= 500)) {
+      return new ProviderError(`Payment provider unavailable: ${error.message}`, 'provider_unavailable');
+    }
+
+    const providerError = error.response?.data?.error;
+    return new ProviderError(
+      providerError?.message || error.message,
+      providerError?.code || 'provider_error',
+      false
+    );
+  }
+
+  private normalize(payload: RestProviderPayload): ProviderResponse {
+    const status = payload.status === 'succeeded' || payload.status === 'pending'
+      ? payload.status
+      : 'failed';
+
+    return {
+      status,
+      providerTransactionId: payload.id,
+      amount: payload.amount,
+      currency: payload.currency,
+      error: status === 'failed'
+        ? payload.error || { message: 'Payment provider returned an unknown status', code: 'unknown_error' }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { Decimal } from 'decimal.js';
+import { ProviderError } from '../errors/PaymentError';
+import { AuthorizeRequest, ChargeRequest, ProviderResponse } from './PaymentProviderAdapter';
+import { SimulatorPaymentProviderAdapter } from './SimulatorPaymentProviderAdapter';
+
+export type SandboxOutcome =
+  | 'succeed'
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'authentication_required'
+  | 'timeout'
+  | 'server_error';
+
+/**
+ * Card numbers with a fixed outcome. Any other number succeeds unless its amount is listed below.
+ */
+export const SANDBOX_CARDS: Record<string, SandboxOutcome> = {
+  '4242424242424242': 'succeed',
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000003220': 'authentication_required',
+  '4000000000000408': 'timeout',
+  '4000000000000500': 'server_error'
+};
+
+/**
+ * Major-unit amounts with a fixed outcome regardless of the card or currency
+ */
+export const SANDBOX_AMOUNTS: Record<string, SandboxOutcome> = {
+  '9995': 'insufficient_funds',
+  '9220': 'authentication_required',
+  '9408': 'timeout',
+  '9500': 'server_error'
+};
+
+const DECLINES: Partial<Record<SandboxOutcome, string>> = {
+  card_declined: 'Your card was declined',
+  insufficient_funds: 'Your card has insufficient funds',
+  authentication_required: 'Your card requires 3-D Secure authentication'
+};
+
+/**
+ * Deterministic provider for local development and integration tests.
+ * Magic card numbers and amounts trigger declines and provider failures without any network I/O;
+ * captures, refunds and voids behave like the simulator.
+ */
+export class SandboxPaymentProviderAdapter extends SimulatorPaymentProviderAdapter {
+  readonly name: string = 'sandbox';
+
+  async charge(request: ChargeRequest): Promise<ProviderResponse> {
+    return this.resolve(request) || super.charge(request);
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderResponse> {
+    return this.resolve(request) || super.authorize(request);
+  }
+
+  /**
+   * Decide the outcome for a card request
+   * @returns A decline response, or undefined when the request should succeed
+   */
+  private resolve(request: ChargeRequest): ProviderResponse | undefined {
+    const outcome = this.outcomeFor(request);
+
+    if (outcome === 'timeout') {
+      throw new ProviderError('Sandbox provider timed out', 'provider_timeout');
+    }
+
+    if (outcome === 'server_error') {
+      throw new ProviderError('Sandbox provider returned HTTP 500', 'provider_unavailable');
+    }
+
+    if (outcome === 'succeed') {
+      return undefined;
+    }
+
+    return {
+      status: 'failed',
+      error: {
+        message: DECLINES[outcome] as string,
+        code: outcome
+      }
+    };
+  }
+
+  private outcomeFor(request: ChargeRequest): SandboxOutcome {
+    const cardNumber = request.paymentMethod.card?.number.replace(/\s+/g, '');
+    const cardOutcome = cardNumber ? SANDBOX_CARDS[cardNumber] : undefined;
+
+    if (cardOutcome && cardOutcome !== 'succeed') {
+      return cardOutcome;
+    }
+
+    const amountOutcome = Object.keys(SANDBOX_AMOUNTS)
+      .find(amount => new Decimal(amount).equals(request.amount.amount));
+
+    return amountOutcome ? SANDBOX_AMOUNTS[amountOutcome] : 'succeed';
+  }
+}
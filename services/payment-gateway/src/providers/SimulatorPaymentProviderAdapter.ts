@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Money } from '../models/Money';
+import {
+  AuthorizeRequest,
+  CaptureRequest,
+  ChargeRequest,
+  PaymentProviderAdapter,
+  ProviderResponse,
+  RefundRequest,
+  VoidRequest
+} from './PaymentProviderAdapter';
+
+interface SimulatedAuthorization {
+  amount: Money;
+  captured: Money;
+  voided: boolean;
+}
+
+/**
+ * In-process provider that approves every well-formed request without any network I/O.
+ * Authorizations are tracked so captures and voids behave like a real acquirer.
+ */
+export class SimulatorPaymentProviderAdapter implements PaymentProviderAdapter {
+  readonly name: string = 'simulator';
+  private authorizations = new Map<string, SimulatedAuthorization>();
+  private responses = new Map<string, ProviderResponse>();
+
+  async charge(request: ChargeRequest): Promise<ProviderResponse> {
+    return this.once(request.idempotencyKey, () => this.succeed(request.amount));
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderResponse> {
+    return this.once(request.idempotencyKey, () => {
+      const response = this.succeed(request.amount);
+      this.authorizations.set(response.providerTransactionId as string, {
+        amount: request.amount,
+        captured: Money.zero(request.amount.currency),
+        voided: false
+      });
+      return response;
+    });
+  }
+
+  async capture(request: CaptureRequest): Promise<ProviderResponse> {
+    return this.once(request.idempotencyKey, () => {
+      const authorization = this.authorizations.get(request.authorizationId);
+      if (!authorization || authorization.voided) {
+        return this.fail('Authorization not found or no longer valid', 'authorization_invalid');
+      }
+
+      const remaining = authorization.amount.minus(authorization.captured);
+      const amount = request.amount || remaining;
+      if (amount.currency !== remaining.currency || !amount.isPositive() || amount.greaterThan(remaining)) {
+        return this.fail('Capture amount exceeds the authorized amount', 'amount_too_large');
+      }
+
+      authorization.captured = authorization.captured.plus(amount);
+      // Nothing more can be captured once the rest of the hold is released
+      if (request.final) {
+        authorization.voided = true;
+      }
+      return this.succeed(amount);
+    });
+  }
+
+  async refund(request: RefundRequest): Promise<ProviderResponse> {
+    return this.once(request.idempotencyKey, () => ({
+      status: 'succeeded',
+      providerTransactionId: `sim_${uuidv4()}`,
+      amount: request.amount?.toString(),
+      currency: request.amount?.currency
+    }));
+  }
+
+  async void(request: VoidRequest): Promise<ProviderResponse> {
+    return this.once(request.idempotencyKey, () => {
+      const authorization = this.authorizations.get(request.authorizationId);
+      if (!authorization || authorization.voided) {
+        return this.fail('Authorization not found or no longer valid', 'authorization_invalid');
+      }
+
+      authorization.voided = true;
+      return {
+        status: 'succeeded',
+        providerTransactionId: `sim_${uuidv4()}`,
+        currency: authorization.amount.currency
+      };
+    });
+  }
+
+  // Mirror real providers: a repeated idempotency key returns the original result
+  private once(idempotencyKey: string, operation: () => ProviderResponse): ProviderResponse {
+    const previous = this.responses.get(idempotencyKey);
+    if (previous) {
+      return previous;
+    }
+
+    const response = operation();
+    this.responses.set(idempotencyKey, response);
+    return response;
+  }
+
+  private succeed(amount: Money): ProviderResponse {
+    return {
+      status: 'succeeded',
+      providerTransactionId: `sim_${uuidv4()}`,
+      amount: amount.toString(),
+      currency: amount.currency
+    };
+  }
+
+  private fail(message: string, code: string): ProviderResponse {
+    return {
+      status: 'failed',
+      error: { message, code }
+    };
+  }
+}
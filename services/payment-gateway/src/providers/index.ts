@@ -0,0 +1,32 @@
+import { config, PaymentProviderMode } from '../config';
+import { PaymentProviderAdapter } from './PaymentProviderAdapter';
+import { RestPaymentProviderAdapter } from './RestPaymentProviderAdapter';
+import { SimulatorPaymentProviderAdapter } from './SimulatorPaymentProviderAdapter';
+import { SandboxPaymentProviderAdapter } from './SandboxPaymentProviderAdapter';
+
+export * from './PaymentProviderAdapter';
+export { RestPaymentProviderAdapter, RestPaymentProviderOptions } from './RestPaymentProviderAdapter';
+export { SimulatorPaymentProviderAdapter } from './SimulatorPaymentProviderAdapter';
+export { SandboxPaymentProviderAdapter, SANDBOX_CARDS, SANDBOX_AMOUNTS } from './SandboxPaymentProviderAdapter';
+export { ResilientPaymentProviderAdapter, ResilienceOptions } from './ResilientPaymentProviderAdapter';
+export { DetokenizingPaymentProviderAdapter, CardDetokenizer } from './DetokenizingPaymentProviderAdapter';
+
+/**
+ * Build the provider adapter selected by PAYMENT_PROVIDER_MODE ('rest', 'simulator' or 'sandbox')
+ * @param mode Override for the configured mode
+ */
+export const createPaymentProviderAdapter = (
+  mode: PaymentProviderMode = config.paymentProvider.mode
+): PaymentProviderAdapter => {
+  switch (mode) {
+    case 'sandbox':
+      return new SandboxPaymentProviderAdapter();
+    case 'simulator':
+      return new SimulatorPaymentProviderAdapter();
+    default:
+      return new RestPaymentProviderAdapter({
+        baseUrl: config.paymentProvider.url,
+        apiKey: config.paymentProvider.apiKey
+      });
+  }
+};
@@ -0,0 +1,22 @@
+import { AuditRecord } from '../models/AuditEvent';
+
+/**
+ * Append-only storage for hash-chained audit records.
+ * There is deliberately no way to update or delete a record.
+ */
+export interface AuditStore {
+  /**
+   * Add a record to the end of the trail
+   */
+  append(record: AuditRecord): Promise<void>;
+
+  /**
+   * Most recent record, or undefined for an empty trail
+   */
+  last(): Promise<AuditRecord | undefined>;
+
+  /**
+   * Every record in the order it was appended
+   */
+  readAll(): Promise<AuditRecord[]>;
+}
@@ -0,0 +1,16 @@
+import { CardToken } from '../models/CardToken';
+
+/**
+ * Storage for the token vault; holds card numbers only in encrypted form
+ */
+export interface CardTokenRepository {
+  /**
+   * Store a new token
+   */
+  save(cardToken: CardToken): Promise<void>;
+
+  /**
+   * Look up a token
+   */
+  findByToken(token: string): Promise<CardToken | undefined>;
+}
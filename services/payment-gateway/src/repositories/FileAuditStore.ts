@@ -0,0 +1,52 @@
+import fs from 'fs';
+import { AuditRecord } from '../models/AuditEvent';
+import { AuditStore } from './AuditStore';
+
+/**
+ * Audit trail kept as a JSON Lines file that is only ever opened for appending.
+ * The file is created readable and writable by the service user only.
+ */
+export class FileAuditStore implements AuditStore {
+  private path: string;
+  // Cached tail so appends do not re-read the whole file
+  private head: AuditRecord | null | undefined;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    fs.appendFileSync(this.path, `${JSON.stringify(record)}\n`, { flag: 'a', mode: 0o600 });
+    this.head = record;
+  }
+
+  async last(): Promise<AuditRecord | undefined> {
+    if (this.head === undefined) {
+      const records = await this.readAll();
+      this.head = records[records.length - 1] || null;
+    }
+
+    return this.head || undefined;
+  }
+
+  /**
+   * @throws Error naming the line when the file contains something that is not a JSON record
+   */
+  async readAll(): Promise<AuditRecord[]> {
+    if (!fs.existsSync(this.path)) {
+      return [];
+    }
+
+    return fs.readFileSync(this.path, 'utf8')
+      .split('\n')
+      .map((line, index) => ({ line, number: index + 1 }))
+      .filter(({ line }) => line.trim() !== '')
+      .map(({ line, number }) => {
+        try {
+          return JSON.parse(line) as AuditRecord;
+        } catch {
+          throw new Error(`Audit trail line ${number} is not valid JSON`);
+        }
+      });
+  }
+}
@@ -0,0 +1,40 @@
+import { FraudReviewStatus, FraudScreening } from '../models/FraudScreening';
+
+/**
+ * Who a velocity count is for: an end customer of one merchant (or of none), or a card across all merchants
+ */
+export type VelocityKey = { userId: string; merchantId?: string } | { cardFingerprint: string };
+
+/**
+ * Storage for fraud screenings and the review queue built from them
+ */
+export interface FraudScreeningRepository {
+  /**
+   * Insert or update a screening
+   */
+  save(screening: FraudScreening): Promise<void>;
+
+  /**
+   * Look up a screening by ID
+   */
+  findById(id: string): Promise<FraudScreening | undefined>;
+
+  /**
+   * Number of screenings for a user or card at or after a time, whatever their decision.
+   * Users are only counted within their merchant, as merchants choose their customer IDs.
+   */
+  countSince(key: VelocityKey, since: Date): Promise<number>;
+
+  /**
+   * Screenings held for review, oldest first
+   * @param status Only return reviews with this status
+   * @param merchantId Only return reviews of this merchant's payments
+   */
+  listReviews(status?: FraudReviewStatus, merchantId?: string): Promise<FraudScreening[]>;
+
+  /**
+   * The oldest approved review reviewed at or after a time that has not released a payment yet
+   * and was for the same user, card, amount and currency
+   */
+  findReleasableReview(screening: FraudScreening, reviewedSince: Date): Promise<FraudScreening | undefined>;
+}
@@ -0,0 +1,42 @@
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+export interface IdempotencyRecord {
+  userId: string;
+  key: string;
+  operation: string;
+  fingerprint: string;
+  state: 'in_progress' | 'completed';
+  response?: StoredResponse;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Storage for Idempotency-Key records, scoped by user and key
+ */
+export interface IdempotencyRepository {
+  /**
+   * Insert a record unless a live one already exists for the same user and key.
+   * Expired records are replaced.
+   * @returns True if the record was inserted
+   */
+  create(record: IdempotencyRecord): Promise<boolean>;
+
+  /**
+   * Look up a live (unexpired) record
+   */
+  find(userId: string, key: string): Promise<IdempotencyRecord | undefined>;
+
+  /**
+   * Overwrite an existing record
+   */
+  save(record: IdempotencyRecord): Promise<void>;
+
+  /**
+   * Remove a record so the key can be used again
+   */
+  delete(userId: string, key: string): Promise<void>;
+}
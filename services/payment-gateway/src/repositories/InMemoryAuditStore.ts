@@ -0,0 +1,22 @@
+import { AuditRecord } from '../models/AuditEvent';
+import { AuditStore } from './AuditStore';
+
+/**
+ * Non-persistent audit trail used for tests and local development
+ */
+export class InMemoryAuditStore implements AuditStore {
+  private records: AuditRecord[] = [];
+
+  async append(record: AuditRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  async last(): Promise<AuditRecord | undefined> {
+    const record = this.records[this.records.length - 1];
+    return record ? { ...record } : undefined;
+  }
+
+  async readAll(): Promise<AuditRecord[]> {
+    return this.records.map(record => ({ ...record }));
+  }
+}
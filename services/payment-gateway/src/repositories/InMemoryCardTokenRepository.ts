@@ -0,0 +1,18 @@
+import { CardToken } from '../models/CardToken';
+import { CardTokenRepository } from './CardTokenRepository';
+
+/**
+ * Non-persistent token vault store used for tests and local development
+ */
+export class InMemoryCardTokenRepository implements CardTokenRepository {
+  private cardTokens = new Map<string, CardToken>();
+
+  async save(cardToken: CardToken): Promise<void> {
+    this.cardTokens.set(cardToken.token, { ...cardToken });
+  }
+
+  async findByToken(token: string): Promise<CardToken | undefined> {
+    const cardToken = this.cardTokens.get(token);
+    return cardToken ? { ...cardToken } : undefined;
+  }
+}
@@ -0,0 +1,49 @@
+import { FraudReviewStatus, FraudScreening } from '../models/FraudScreening';
+import { FraudScreeningRepository, VelocityKey } from './FraudScreeningRepository';
+
+/**
+ * Non-persistent screening store used for tests and local development
+ */
+export class InMemoryFraudScreeningRepository implements FraudScreeningRepository {
+  private screenings = new Map<string, FraudScreening>();
+
+  async save(screening: FraudScreening): Promise<void> {
+    this.screenings.set(screening.id, { ...screening, reasons: [...screening.reasons] });
+  }
+
+  async findById(id: string): Promise<FraudScreening | undefined> {
+    const screening = this.screenings.get(id);
+    return screening ? { ...screening } : undefined;
+  }
+
+  async countSince(key: VelocityKey, since: Date): Promise<number> {
+    return Array.from(this.screenings.values())
+      .filter(screening => 'userId' in key
+        ? screening.userId === key.userId && screening.merchantId === key.merchantId
+        : screening.cardFingerprint === key.cardFingerprint)
+      .filter(screening => screening.screenedAt >= since)
+      .length;
+  }
+
+  async listReviews(status?: FraudReviewStatus, merchantId?: string): Promise<FraudScreening[]> {
+    return Array.from(this.screenings.values())
+      .filter(screening => screening.reviewStatus !== undefined)
+      .filter(screening => !status || screening.reviewStatus === status)
+      .filter(screening => !merchantId || screening.merchantId === merchantId)
+      .sort((a, b) => a.screenedAt.getTime() - b.screenedAt.getTime())
+      .map(screening => ({ ...screening }));
+  }
+
+  async findReleasableReview(screening: FraudScreening, reviewedSince: Date): Promise<FraudScreening | undefined> {
+    const [review] = Array.from(this.screenings.values())
+      .filter(candidate => candidate.reviewStatus === FraudReviewStatus.APPROVED && !candidate.releasedTransactionId)
+      .filter(candidate => candidate.reviewedAt && candidate.reviewedAt >= reviewedSince)
+      .filter(candidate => candidate.userId === screening.userId
+        && candidate.cardFingerprint === screening.cardFingerprint
+        && candidate.currency === screening.currency
+        && candidate.amount.equals(screening.amount))
+      .sort((a, b) => a.screenedAt.getTime() - b.screenedAt.getTime());
+
+    return review ? { ...review } : undefined;
+  }
+}
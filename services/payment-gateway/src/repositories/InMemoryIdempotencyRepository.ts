@@ -0,0 +1,38 @@
+import { IdempotencyRecord, IdempotencyRepository } from './IdempotencyRepository';
+
+/**
+ * Non-persistent idempotency store used for tests and local development
+ */
+export class InMemoryIdempotencyRepository implements IdempotencyRepository {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async create(record: IdempotencyRecord): Promise<boolean> {
+    if (await this.find(record.userId, record.key)) {
+      return false;
+    }
+
+    this.records.set(this.scope(record.userId, record.key), { ...record });
+    return true;
+  }
+
+  async find(userId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const record = this.records.get(this.scope(userId, key));
+    if (!record || record.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    return { ...record };
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    this.records.set(this.scope(record.userId, record.key), { ...record });
+  }
+
+  async delete(userId: string, key: string): Promise<void> {
+    this.records.delete(this.scope(userId, key));
+  }
+
+  private scope(userId: string, key: string): string {
+    return JSON.stringify([userId, key]);
+  }
+}
@@ -0,0 +1,64 @@
+import { AccountBalance, EntrySide, JournalEntry, LedgerImbalance, imbalances } from '../models/Ledger';
+import { Money } from '../models/Money';
+import { BalanceQuery, LedgerRepository } from './LedgerRepository';
+
+const copyEntry = (entry: JournalEntry): JournalEntry => ({ ...entry, lines: entry.lines.map(line => ({ ...line })) });
+
+// Plain code point order, as SQLite sorts text
+const compareText = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Non-persistent ledger used for tests and local development; owned by an InMemoryTransactionRepository
+ */
+export class InMemoryLedgerRepository implements LedgerRepository {
+  // Map iteration follows insertion order, which is the order entries were recorded
+  private entries = new Map<string, JournalEntry>();
+
+  async append(entries: ReadonlyArray<JournalEntry>): Promise<void> {
+    this.insert(entries);
+  }
+
+  /**
+   * Synchronous append, so the transaction repository can store a transaction and its entries in one step
+   */
+  insert(entries: ReadonlyArray<JournalEntry>): void {
+    entries
+      .filter(entry => !this.entries.has(entry.id))
+      .forEach(entry => this.entries.set(entry.id, copyEntry(entry)));
+  }
+
+  async findByTransactionId(transactionId: string): Promise<JournalEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.transactionId === transactionId)
+      .map(copyEntry);
+  }
+
+  async balances(query: BalanceQuery): Promise<AccountBalance[]> {
+    const balances = new Map<string, AccountBalance>();
+
+    Array.from(this.entries.values())
+      .filter(entry => entry.effectiveAt <= query.asOf)
+      .forEach(entry => entry.lines
+        .filter(line => !query.account || line.account === query.account)
+        .forEach(line => {
+          const key = `${line.account}\u0000${line.amount.currency}`;
+          const zero = Money.zero(line.amount.currency);
+          const current = balances.get(key)
+            || { account: line.account, currency: line.amount.currency, debits: zero, credits: zero, balance: zero };
+          const debits = line.side === EntrySide.DEBIT ? current.debits.plus(line.amount) : current.debits;
+          const credits = line.side === EntrySide.CREDIT ? current.credits.plus(line.amount) : current.credits;
+          balances.set(key, { ...current, debits, credits, balance: debits.minus(credits) });
+        }));
+
+    return Array.from(balances.values())
+      .sort((a, b) => compareText(a.account, b.account) || compareText(a.currency, b.currency));
+  }
+
+  async findImbalances(): Promise<LedgerImbalance[]> {
+    return Array.from(this.entries.values()).flatMap(entry => imbalances(entry.id, entry.lines));
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+}
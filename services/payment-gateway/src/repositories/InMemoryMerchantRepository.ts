@@ -0,0 +1,41 @@
+import { Merchant, MerchantApiKey } from '../models/Merchant';
+import { MerchantRepository } from './MerchantRepository';
+
+/**
+ * Non-persistent merchant store used for tests and local development
+ */
+export class InMemoryMerchantRepository implements MerchantRepository {
+  private merchants = new Map<string, Merchant>();
+  private apiKeys = new Map<string, MerchantApiKey>();
+
+  async save(merchant: Merchant): Promise<void> {
+    this.merchants.set(merchant.id, { ...merchant });
+  }
+
+  async findById(id: string): Promise<Merchant | undefined> {
+    const merchant = this.merchants.get(id);
+    return merchant ? { ...merchant } : undefined;
+  }
+
+  async list(): Promise<Merchant[]> {
+    return Array.from(this.merchants.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(merchant => ({ ...merchant }));
+  }
+
+  async saveApiKey(apiKey: MerchantApiKey): Promise<void> {
+    this.apiKeys.set(apiKey.id, { ...apiKey, permissions: [...apiKey.permissions] });
+  }
+
+  async findApiKey(id: string): Promise<MerchantApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    return apiKey ? { ...apiKey, permissions: [...apiKey.permissions] } : undefined;
+  }
+
+  async listApiKeys(merchantId: string): Promise<MerchantApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(apiKey => apiKey.merchantId === merchantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(apiKey => ({ ...apiKey, permissions: [...apiKey.permissions] }));
+  }
+}
@@ -0,0 +1,53 @@
+import { DomainEvent } from '../models/DomainEvent';
+import { OutboxEntry, OutboxStatus } from '../models/OutboxEntry';
+import { OutboxRepository } from './OutboxRepository';
+
+const copyEvent = (event: DomainEvent): DomainEvent => ({ ...event, data: { ...event.data } }) as DomainEvent;
+
+const copyEntry = (entry: OutboxEntry): OutboxEntry => ({ ...entry, event: copyEvent(entry.event) });
+
+/**
+ * Non-persistent outbox used for tests and local development; owned by an InMemoryTransactionRepository
+ */
+export class InMemoryOutboxRepository implements OutboxRepository {
+  // Map iteration follows insertion order, which is the order events were appended
+  private entries = new Map<string, OutboxEntry>();
+
+  async append(events: ReadonlyArray<DomainEvent>): Promise<void> {
+    this.insert(events);
+  }
+
+  /**
+   * Synchronous append, so the transaction repository can store a transaction and its events in one step
+   */
+  insert(events: ReadonlyArray<DomainEvent>): void {
+    const now = new Date();
+    events
+      .filter(event => !this.entries.has(event.id))
+      .forEach(event => {
+        this.entries.set(event.id, {
+          event: copyEvent(event),
+          status: OutboxStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now
+        });
+      });
+  }
+
+  async save(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.event.id, copyEntry(entry));
+  }
+
+  async findById(eventId: string): Promise<OutboxEntry | undefined> {
+    const entry = this.entries.get(eventId);
+    return entry ? copyEntry(entry) : undefined;
+  }
+
+  async listPending(limit: number): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.status === OutboxStatus.PENDING)
+      .slice(0, limit)
+      .map(copyEntry);
+  }
+}
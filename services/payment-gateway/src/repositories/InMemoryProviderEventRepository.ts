@@ -0,0 +1,34 @@
+import { ProviderEvent, ProviderEventStatus } from '../models/ProviderEvent';
+import { ProviderEventRepository } from './ProviderEventRepository';
+
+/**
+ * Non-persistent provider event store used for tests and local development
+ */
+export class InMemoryProviderEventRepository implements ProviderEventRepository {
+  private events = new Map<string, ProviderEvent>();
+
+  async insert(event: ProviderEvent): Promise<boolean> {
+    if (this.events.has(event.id)) {
+      return false;
+    }
+
+    this.events.set(event.id, { ...event });
+    return true;
+  }
+
+  async save(event: ProviderEvent): Promise<void> {
+    this.events.set(event.id, { ...event });
+  }
+
+  async findById(id: string): Promise<ProviderEvent | undefined> {
+    const event = this.events.get(id);
+    return event ? { ...event } : undefined;
+  }
+
+  async list(status?: ProviderEventStatus): Promise<ProviderEvent[]> {
+    return Array.from(this.events.values())
+      .filter(event => !status || event.status === status)
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime())
+      .map(event => ({ ...event }));
+  }
+}
@@ -0,0 +1,26 @@
+import { RefundApproval, RefundApprovalStatus } from '../models/RefundApproval';
+import { RefundApprovalRepository } from './RefundApprovalRepository';
+
+/**
+ * Non-persistent approval store used for tests and local development
+ */
+export class InMemoryRefundApprovalRepository implements RefundApprovalRepository {
+  private approvals = new Map<string, RefundApproval>();
+
+  async save(approval: RefundApproval): Promise<void> {
+    this.approvals.set(approval.id, { ...approval });
+  }
+
+  async findById(id: string): Promise<RefundApproval | undefined> {
+    const approval = this.approvals.get(id);
+    return approval ? { ...approval } : undefined;
+  }
+
+  async list(status?: RefundApprovalStatus, merchantId?: string): Promise<RefundApproval[]> {
+    return Array.from(this.approvals.values())
+      .filter(approval => !status || approval.status === status)
+      .filter(approval => !merchantId || approval.merchantId === merchantId)
+      .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime())
+      .map(approval => ({ ...approval }));
+  }
+}
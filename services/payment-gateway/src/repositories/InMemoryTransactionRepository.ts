@@ -0,0 +1,100 @@
+import { Decimal } from 'decimal.js';
+import { Transaction } from '../models/Transaction';
+import { DomainEvent } from '../models/DomainEvent';
+import { JournalEntry } from '../models/Ledger';
+import { InMemoryOutboxRepository } from './InMemoryOutboxRepository';
+import { InMemoryLedgerRepository } from './InMemoryLedgerRepository';
+import {
+  TransactionFilter,
+  TransactionPage,
+  TransactionRepository,
+  TransactionSearch,
+  TransactionSortField
+} from './TransactionRepository';
+
+const sortValue = (transaction: Transaction, field: TransactionSortField): Decimal =>
+  field === 'amount'
+    ? new Decimal(transaction.amount.toString())
+    : new Decimal(transaction.createdAt.getTime());
+
+const positionValue = (value: string, field: TransactionSortField): Decimal =>
+  field === 'amount' ? new Decimal(value) : new Decimal(new Date(value).getTime());
+
+/**
+ * Non-persistent repository used for tests and local development
+ */
+export class InMemoryTransactionRepository implements TransactionRepository {
+  readonly outbox = new InMemoryOutboxRepository();
+  readonly ledger = new InMemoryLedgerRepository();
+  private transactions = new Map<string, Transaction>();
+
+  async save(
+    transaction: Transaction,
+    events: ReadonlyArray<DomainEvent> = [],
+    journalEntries: ReadonlyArray<JournalEntry> = []
+  ): Promise<void> {
+    this.transactions.set(transaction.id, { ...transaction });
+    this.outbox.insert(events);
+    this.ledger.insert(journalEntries);
+  }
+
+  async findById(id: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction ? { ...transaction } : undefined;
+  }
+
+  async findByProviderTransactionId(providerTransactionId: string): Promise<Transaction | undefined> {
+    const transaction = Array.from(this.transactions.values())
+      .find(candidate => candidate.providerTransactionId === providerTransactionId);
+    return transaction ? { ...transaction } : undefined;
+  }
+
+  async search(search: TransactionSearch): Promise<TransactionPage> {
+    const direction = search.sortDirection === 'asc' ? 1 : -1;
+    const compare = (a: Transaction, b: Transaction): number =>
+      direction * (sortValue(a, search.sortBy).comparedTo(sortValue(b, search.sortBy)) || a.id.localeCompare(b.id));
+
+    const matches = Array.from(this.transactions.values())
+      .filter(transaction => this.matches(transaction, search))
+      .sort(compare);
+
+    const { after } = search;
+    const remaining = after
+      ? matches.filter(transaction => {
+        const order = sortValue(transaction, search.sortBy).comparedTo(positionValue(after.value, search.sortBy))
+          || transaction.id.localeCompare(after.id);
+        return direction * order > 0;
+      })
+      : matches;
+
+    return {
+      transactions: remaining.slice(0, search.limit).map(transaction => ({ ...transaction })),
+      hasMore: remaining.length > search.limit,
+      total: search.includeTotal ? matches.length : undefined
+    };
+  }
+
+  private matches(transaction: Transaction, filter: TransactionFilter): boolean {
+    const amount = new Decimal(transaction.amount.toString());
+    const metadataValue = filter.metadataKey !== undefined ? transaction.metadata?.[filter.metadataKey] : undefined;
+
+    return (filter.merchantId === undefined || transaction.merchantId === filter.merchantId)
+      && (!filter.statuses || filter.statuses.includes(transaction.status))
+      && (!filter.types || filter.types.includes(transaction.type))
+      && (filter.currency === undefined || transaction.currency === filter.currency)
+      && (filter.minAmount === undefined || amount.gte(filter.minAmount))
+      && (filter.maxAmount === undefined || amount.lte(filter.maxAmount))
+      && (!filter.createdFrom || transaction.createdAt >= filter.createdFrom)
+      && (!filter.createdTo || transaction.createdAt < filter.createdTo)
+      && (filter.userId === undefined || this.ownerOf(transaction) === filter.userId)
+      && (filter.metadataKey === undefined || (metadataValue !== undefined && metadataValue !== null))
+      && (filter.metadataValue === undefined || String(metadataValue) === filter.metadataValue);
+  }
+
+  private ownerOf(transaction: Transaction): unknown {
+    const original = transaction.originalTransactionId
+      ? this.transactions.get(transaction.originalTransactionId)
+      : undefined;
+    return transaction.metadata?.userId ?? original?.metadata?.userId;
+  }
+}
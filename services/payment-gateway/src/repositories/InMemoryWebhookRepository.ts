@@ -0,0 +1,77 @@
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '../models/MerchantWebhook';
+import { WebhookDeliveryFilter, WebhookRepository } from './WebhookRepository';
+
+const copySubscription = (subscription: WebhookSubscription): WebhookSubscription =>
+  ({ ...subscription, eventTypes: [...subscription.eventTypes] });
+
+const copyDelivery = (delivery: WebhookDelivery): WebhookDelivery =>
+  ({ ...delivery, attempts: delivery.attempts.map(attempt => ({ ...attempt })) });
+
+/**
+ * Non-persistent webhook store used for tests and local development
+ */
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private subscriptions = new Map<string, WebhookSubscription>();
+  private deliveries = new Map<string, WebhookDelivery>();
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.subscriptions.set(subscription.id, copySubscription(subscription));
+  }
+
+  async findSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? copySubscription(subscription) : undefined;
+  }
+
+  async listSubscriptions(merchantId: string): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.merchantId === merchantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copySubscription);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    this.subscriptions.delete(id);
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<boolean> {
+    const queued = Array.from(this.deliveries.values()).some(existing =>
+      existing.subscriptionId === delivery.subscriptionId && existing.eventId === delivery.eventId);
+    if (queued) {
+      return false;
+    }
+
+    this.deliveries.set(delivery.id, copyDelivery(delivery));
+    return true;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, copyDelivery(delivery));
+  }
+
+  async findDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? copyDelivery(delivery) : undefined;
+  }
+
+  async listDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === WebhookDeliveryStatus.PENDING
+        && delivery.nextAttemptAt !== undefined
+        && delivery.nextAttemptAt <= now)
+      .sort((a, b) => (a.nextAttemptAt as Date).getTime() - (b.nextAttemptAt as Date).getTime())
+      .slice(0, limit)
+      .map(copyDelivery);
+  }
+
+  async listDeliveries(filter: WebhookDeliveryFilter, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => (!filter.merchantId || delivery.merchantId === filter.merchantId)
+        && (!filter.subscriptionId || delivery.subscriptionId === filter.subscriptionId)
+        && (!filter.status || delivery.status === filter.status)
+        && (!filter.eventId || delivery.eventId === filter.eventId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map(copyDelivery);
+  }
+}
@@ -0,0 +1,39 @@
+import { AccountBalance, JournalEntry, LedgerImbalance } from '../models/Ledger';
+
+export interface BalanceQuery {
+  // Only entries effective at or before this time count
+  asOf: Date;
+  // Only this account, e.g. 'merchant_payable:merchant_1'
+  account?: string;
+}
+
+/**
+ * Append-only store of journal entries. Entries are written together with the transaction
+ * records they account for, by the transaction repository, and are never changed afterwards.
+ */
+export interface LedgerRepository {
+  /**
+   * Store new entries; entries whose ID is already in the ledger are skipped
+   */
+  append(entries: ReadonlyArray<JournalEntry>): Promise<void>;
+
+  /**
+   * Entries posted for a transaction, in the order they were recorded
+   */
+  findByTransactionId(transactionId: string): Promise<JournalEntry[]>;
+
+  /**
+   * Balance per account and currency, sorted by account then currency
+   */
+  balances(query: BalanceQuery): Promise<AccountBalance[]>;
+
+  /**
+   * Every entry whose lines do not sum to zero in some currency
+   */
+  findImbalances(): Promise<LedgerImbalance[]>;
+
+  /**
+   * Number of entries in the ledger
+   */
+  count(): Promise<number>;
+}
@@ -0,0 +1,36 @@
+import { Merchant, MerchantApiKey } from '../models/Merchant';
+
+/**
+ * Storage for merchants and their API keys
+ */
+export interface MerchantRepository {
+  /**
+   * Insert or update a merchant
+   */
+  save(merchant: Merchant): Promise<void>;
+
+  /**
+   * Look up a merchant by ID
+   */
+  findById(id: string): Promise<Merchant | undefined>;
+
+  /**
+   * List all merchants, oldest first
+   */
+  list(): Promise<Merchant[]>;
+
+  /**
+   * Insert or update an API key
+   */
+  saveApiKey(apiKey: MerchantApiKey): Promise<void>;
+
+  /**
+   * Look up an API key by its ID (the part of the key after 'gw_')
+   */
+  findApiKey(id: string): Promise<MerchantApiKey | undefined>;
+
+  /**
+   * List a merchant's API keys, including revoked and expired ones, oldest first
+   */
+  listApiKeys(merchantId: string): Promise<MerchantApiKey[]>;
+}
@@ -0,0 +1,25 @@
+import { DomainEvent } from '../models/DomainEvent';
+import { OutboxEntry } from '../models/OutboxEntry';
+
+/**
+ * Domain events written together with the transaction records they describe, until the relay publishes them.
+ * The transaction repository appends to it in the same unit of work as the transaction itself.
+ */
+export interface OutboxRepository {
+  /**
+   * Add events as pending; events whose ID is already in the outbox are skipped
+   */
+  append(events: ReadonlyArray<DomainEvent>): Promise<void>;
+
+  /**
+   * Update the status and attempts of an entry
+   */
+  save(entry: OutboxEntry): Promise<void>;
+
+  findById(eventId: string): Promise<OutboxEntry | undefined>;
+
+  /**
+   * Pending entries in the order their events were appended, including those waiting for a retry
+   */
+  listPending(limit: number): Promise<OutboxEntry[]>;
+}
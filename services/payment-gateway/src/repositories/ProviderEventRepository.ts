@@ -0,0 +1,28 @@
+import { ProviderEvent, ProviderEventStatus } from '../models/ProviderEvent';
+
+/**
+ * Storage for events received from the payment provider
+ */
+export interface ProviderEventRepository {
+  /**
+   * Store a newly received event unless one with the same ID is already stored
+   * @returns false if the event ID was already known, leaving the stored event untouched
+   */
+  insert(event: ProviderEvent): Promise<boolean>;
+
+  /**
+   * Update a stored event after an attempt to apply it
+   */
+  save(event: ProviderEvent): Promise<void>;
+
+  /**
+   * Look up an event by the provider's event ID
+   */
+  findById(id: string): Promise<ProviderEvent | undefined>;
+
+  /**
+   * List events, oldest first
+   * @param status Only return events with this status
+   */
+  list(status?: ProviderEventStatus): Promise<ProviderEvent[]>;
+}
@@ -0,0 +1,23 @@
+import { RefundApproval, RefundApprovalStatus } from '../models/RefundApproval';
+
+/**
+ * Storage for refunds waiting on, or already given, a second user's approval
+ */
+export interface RefundApprovalRepository {
+  /**
+   * Insert or update an approval request
+   */
+  save(approval: RefundApproval): Promise<void>;
+
+  /**
+   * Look up an approval request by ID
+   */
+  findById(id: string): Promise<RefundApproval | undefined>;
+
+  /**
+   * List approval requests, oldest first
+   * @param status Only return requests with this status
+   * @param merchantId Only return requests for this merchant's transactions
+   */
+  list(status?: RefundApprovalStatus, merchantId?: string): Promise<RefundApproval[]>;
+}
@@ -0,0 +1,87 @@
+import Database from 'better-sqlite3';
+import { CardToken } from '../models/CardToken';
+import { CardTokenRepository } from './CardTokenRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface CardTokenRow {
+  token: string;
+  user_id: string;
+  merchant_id: string | null;
+  brand: string;
+  bin: string;
+  last4: string;
+  expiry_month: number;
+  expiry_year: number;
+  cardholder_name: string | null;
+  fingerprint: string;
+  encrypted_number: string;
+  created_at: string;
+}
+
+/**
+ * File-backed token vault store using SQLite
+ */
+export class SqliteCardTokenRepository implements CardTokenRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async save(cardToken: CardToken): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO card_tokens (
+        token, user_id, merchant_id, brand, bin, last4, expiry_month, expiry_year,
+        cardholder_name, fingerprint, encrypted_number, created_at
+      ) VALUES (
+        @token, @user_id, @merchant_id, @brand, @bin, @last4, @expiry_month, @expiry_year,
+        @cardholder_name, @fingerprint, @encrypted_number, @created_at
+      )
+    `).run(this.toRow(cardToken));
+  }
+
+  async findByToken(token: string): Promise<CardToken | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM card_tokens WHERE token = ?')
+      .get(token) as CardTokenRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  private toRow(cardToken: CardToken): CardTokenRow {
+    return {
+      token: cardToken.token,
+      user_id: cardToken.userId,
+      merchant_id: cardToken.merchantId ?? null,
+      brand: cardToken.brand,
+      bin: cardToken.bin,
+      last4: cardToken.last4,
+      expiry_month: cardToken.expiryMonth,
+      expiry_year: cardToken.expiryYear,
+      cardholder_name: cardToken.cardholderName ?? null,
+      fingerprint: cardToken.fingerprint,
+      encrypted_number: cardToken.encryptedNumber,
+      created_at: cardToken.createdAt.toISOString()
+    };
+  }
+
+  private fromRow(row: CardTokenRow): CardToken {
+    return {
+      token: row.token,
+      userId: row.user_id,
+      merchantId: row.merchant_id ?? undefined,
+      brand: row.brand,
+      bin: row.bin,
+      last4: row.last4,
+      expiryMonth: row.expiry_month,
+      expiryYear: row.expiry_year,
+      cardholderName: row.cardholder_name ?? undefined,
+      fingerprint: row.fingerprint,
+      encryptedNumber: row.encrypted_number,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import Database from 'better-sqlite3';
+import { Money } from '../models/Money';
+import { FraudDecision, FraudReason, FraudReviewStatus, FraudScreening } from '../models/FraudScreening';
+import { FraudScreeningRepository, VelocityKey } from './FraudScreeningRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface FraudScreeningRow {
+  id: string;
+  transaction_id: string;
+  merchant_id: string | null;
+  user_id: string | null;
+  card_fingerprint: string | null;
+  bin_country: string | null;
+  ip_address: string | null;
+  ip_country: string | null;
+  email_domain: string | null;
+  amount: string;
+  currency: string;
+  decision: string;
+  score: number;
+  reasons: string;
+  screened_at: string;
+  review_status: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  released_transaction_id: string | null;
+}
+
+/**
+ * File-backed screening store using SQLite
+ */
+export class SqliteFraudScreeningRepository implements FraudScreeningRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async save(screening: FraudScreening): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO fraud_screenings (
+        id, transaction_id, merchant_id, user_id, card_fingerprint, bin_country, ip_address, ip_country,
+        email_domain, amount, currency, decision, score, reasons, screened_at,
+        review_status, reviewed_by, reviewed_at, review_note, released_transaction_id
+      ) VALUES (
+        @id, @transaction_id, @merchant_id, @user_id, @card_fingerprint, @bin_country, @ip_address, @ip_country,
+        @email_domain, @amount, @currency, @decision, @score, @reasons, @screened_at,
+        @review_status, @reviewed_by, @reviewed_at, @review_note, @released_transaction_id
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        review_status = excluded.review_status,
+        reviewed_by = excluded.reviewed_by,
+        reviewed_at = excluded.reviewed_at,
+        review_note = excluded.review_note,
+        released_transaction_id = excluded.released_transaction_id
+    `).run(this.toRow(screening));
+  }
+
+  async findById(id: string): Promise<FraudScreening | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM fraud_screenings WHERE id = ?')
+      .get(id) as FraudScreeningRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async countSince(key: VelocityKey, since: Date): Promise<number> {
+    // IS rather than = so users without a merchant are only counted with each other
+    const { count } = ('userId' in key
+      ? this.db
+        .prepare('SELECT COUNT(*) AS count FROM fraud_screenings WHERE merchant_id IS ? AND user_id = ? AND screened_at >= ?')
+        .get(key.merchantId ?? null, key.userId, since.toISOString())
+      : this.db
+        .prepare('SELECT COUNT(*) AS count FROM fraud_screenings WHERE card_fingerprint = ? AND screened_at >= ?')
+        .get(key.cardFingerprint, since.toISOString())) as { count: number };
+
+    return count;
+  }
+
+  async listReviews(status?: FraudReviewStatus, merchantId?: string): Promise<FraudScreening[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM fraud_screenings
+      WHERE review_status IS NOT NULL
+        AND (@status IS NULL OR review_status = @status)
+        AND (@merchant_id IS NULL OR merchant_id = @merchant_id)
+      ORDER BY screened_at
+    `).all({ status: status ?? null, merchant_id: merchantId ?? null });
+
+    return (rows as FraudScreeningRow[]).map(row => this.fromRow(row));
+  }
+
+  async findReleasableReview(screening: FraudScreening, reviewedSince: Date): Promise<FraudScreening | undefined> {
+    // IS rather than = so a missing user or card only matches a review that lacked it too
+    const row = this.db.prepare(`
+      SELECT * FROM fraud_screenings
+      WHERE review_status = @approved AND released_transaction_id IS NULL AND reviewed_at >= @reviewed_since
+        AND user_id IS @user_id AND card_fingerprint IS @card_fingerprint
+        AND currency = @currency AND amount = @amount
+      ORDER BY screened_at
+      LIMIT 1
+    `).get({
+      approved: FraudReviewStatus.APPROVED,
+      reviewed_since: reviewedSince.toISOString(),
+      user_id: screening.userId ?? null,
+      card_fingerprint: screening.cardFingerprint ?? null,
+      currency: screening.currency,
+      amount: screening.amount.toString()
+    }) as FraudScreeningRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  private toRow(screening: FraudScreening): FraudScreeningRow {
+    return {
+      id: screening.id,
+      transaction_id: screening.transactionId,
+      merchant_id: screening.merchantId ?? null,
+      user_id: screening.userId ?? null,
+      card_fingerprint: screening.cardFingerprint ?? null,
+      bin_country: screening.binCountry ?? null,
+      ip_address: screening.ipAddress ?? null,
+      ip_country: screening.ipCountry ?? null,
+      email_domain: screening.emailDomain ?? null,
+      amount: screening.amount.toString(),
+      currency: screening.currency,
+      decision: screening.decision,
+      score: screening.score,
+      reasons: JSON.stringify(screening.reasons),
+      screened_at: screening.screenedAt.toISOString(),
+      review_status: screening.reviewStatus ?? null,
+      reviewed_by: screening.reviewedBy ?? null,
+      reviewed_at: screening.reviewedAt?.toISOString() ?? null,
+      review_note: screening.reviewNote ?? null,
+      released_transaction_id: screening.releasedTransactionId ?? null
+    };
+  }
+
+  private fromRow(row: FraudScreeningRow): FraudScreening {
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      merchantId: row.merchant_id ?? undefined,
+      userId: row.user_id ?? undefined,
+      cardFingerprint: row.card_fingerprint ?? undefined,
+      binCountry: row.bin_country ?? undefined,
+      ipAddress: row.ip_address ?? undefined,
+      ipCountry: row.ip_country ?? undefined,
+      emailDomain: row.email_domain ?? undefined,
+      amount: Money.of(row.amount, row.currency),
+      currency: row.currency,
+      decision: row.decision as FraudDecision,
+      score: row.score,
+      reasons: JSON.parse(row.reasons) as FraudReason[],
+      screenedAt: new Date(row.screened_at),
+      reviewStatus: (row.review_status as FraudReviewStatus | null) ?? undefined,
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewNote: row.review_note ?? undefined,
+      releasedTransactionId: row.released_transaction_id ?? undefined
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import Database from 'better-sqlite3';
+import { IdempotencyRecord, IdempotencyRepository } from './IdempotencyRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface IdempotencyRow {
+  user_id: string;
+  idempotency_key: string;
+  operation: string;
+  fingerprint: string;
+  state: string;
+  response: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * File-backed idempotency store using SQLite.
+ * The (user_id, idempotency_key) primary key makes concurrent first requests race safely.
+ */
+export class SqliteIdempotencyRepository implements IdempotencyRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async create(record: IdempotencyRecord): Promise<boolean> {
+    const insert = this.db.transaction((row: IdempotencyRow) => {
+      this.db
+        .prepare('DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND expires_at <= ?')
+        .run(row.user_id, row.idempotency_key, new Date().toISOString());
+
+      return this.db.prepare(`
+        INSERT OR IGNORE INTO idempotency_keys (
+          user_id, idempotency_key, operation, fingerprint, state, response, created_at, expires_at
+        ) VALUES (
+          @user_id, @idempotency_key, @operation, @fingerprint, @state, @response, @created_at, @expires_at
+        )
+      `).run(row).changes > 0;
+    });
+
+    return insert(this.toRow(record));
+  }
+
+  async find(userId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND expires_at > ?')
+      .get(userId, key, new Date().toISOString()) as IdempotencyRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    this.db.prepare(`
+      UPDATE idempotency_keys
+      SET state = @state, response = @response, expires_at = @expires_at
+      WHERE user_id = @user_id AND idempotency_key = @idempotency_key
+    `).run(this.toRow(record));
+  }
+
+  async delete(userId: string, key: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ?')
+      .run(userId, key);
+  }
+
+  private toRow(record: IdempotencyRecord): IdempotencyRow {
+    return {
+      user_id: record.userId,
+      idempotency_key: record.key,
+      operation: record.operation,
+      fingerprint: record.fingerprint,
+      state: record.state,
+      response: record.response ? JSON.stringify(record.response) : null,
+      created_at: record.createdAt.toISOString(),
+      expires_at: record.expiresAt.toISOString()
+    };
+  }
+
+  private fromRow(row: IdempotencyRow): IdempotencyRecord {
+    return {
+      userId: row.user_id,
+      key: row.idempotency_key,
+      operation: row.operation,
+      fingerprint: row.fingerprint,
+      state: row.state as IdempotencyRecord['state'],
+      response: row.response ? JSON.parse(row.response) : undefined,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import Database from 'better-sqlite3';
+import { AccountBalance, EntrySide, JournalEntry, JournalKind, LedgerImbalance } from '../models/Ledger';
+import { Money } from '../models/Money';
+import { BalanceQuery, LedgerRepository } from './LedgerRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface JournalEntryRow {
+  id: string;
+  kind: string;
+  transaction_id: string;
+  merchant_id: string | null;
+  description: string;
+  effective_at: string;
+  recorded_at: string;
+}
+
+interface JournalLineRow {
+  entry_id: string;
+  line_number: number;
+  account: string;
+  side: string;
+  currency: string;
+  amount_minor: number;
+}
+
+/**
+ * File-backed ledger using SQLite. Amounts are stored as integer minor units so sums are exact,
+ * and triggers reject any UPDATE or DELETE. It must share the transactions' database so a
+ * transaction and its entries are committed together.
+ */
+export class SqliteLedgerRepository implements LedgerRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async append(entries: ReadonlyArray<JournalEntry>): Promise<void> {
+    this.db.transaction(() => this.insert(entries))();
+  }
+
+  /**
+   * Synchronous append for use inside another repository's database transaction
+   */
+  insert(entries: ReadonlyArray<JournalEntry>): void {
+    const insertEntry = this.db.prepare(`
+      INSERT INTO journal_entries (id, kind, transaction_id, merchant_id, description, effective_at, recorded_at)
+      VALUES (@id, @kind, @transaction_id, @merchant_id, @description, @effective_at, @recorded_at)
+      ON CONFLICT (id) DO NOTHING
+    `);
+    const insertLine = this.db.prepare(`
+      INSERT INTO journal_lines (entry_id, line_number, account, side, currency, amount_minor)
+      VALUES (@entry_id, @line_number, @account, @side, @currency, @amount_minor)
+    `);
+
+    entries.forEach(entry => {
+      if (insertEntry.run(this.toRow(entry)).changes === 0) {
+        return;
+      }
+
+      entry.lines.forEach((line, index) => insertLine.run({
+        entry_id: entry.id,
+        line_number: index + 1,
+        account: line.account,
+        side: line.side,
+        currency: line.amount.currency,
+        amount_minor: line.amount.toMinorUnits()
+      }));
+    });
+  }
+
+  async findByTransactionId(transactionId: string): Promise<JournalEntry[]> {
+    const entries = this.db
+      .prepare('SELECT * FROM journal_entries WHERE transaction_id = ? ORDER BY sequence')
+      .all(transactionId) as JournalEntryRow[];
+    const lines = this.db.prepare(`
+      SELECT l.* FROM journal_lines l
+      JOIN journal_entries e ON e.id = l.entry_id
+      WHERE e.transaction_id = ?
+      ORDER BY l.entry_id, l.line_number
+    `).all(transactionId) as JournalLineRow[];
+
+    return entries.map(row => this.fromRow(row, lines.filter(line => line.entry_id === row.id)));
+  }
+
+  async balances(query: BalanceQuery): Promise<AccountBalance[]> {
+    const rows = this.db.prepare(`
+      SELECT
+        l.account,
+        l.currency,
+        SUM(CASE WHEN l.side = 'debit' THEN l.amount_minor ELSE 0 END) AS debits,
+        SUM(CASE WHEN l.side = 'credit' THEN l.amount_minor ELSE 0 END) AS credits
+      FROM journal_lines l
+      JOIN journal_entries e ON e.id = l.entry_id
+      WHERE e.effective_at <= @as_of AND (@account IS NULL OR l.account = @account)
+      GROUP BY l.account, l.currency
+      ORDER BY l.account, l.currency
+    `).all({ as_of: query.asOf.toISOString(), account: query.account ?? null }) as Array<{
+      account: string;
+      currency: string;
+      debits: number;
+      credits: number;
+    }>;
+
+    return rows.map(row => {
+      const debits = Money.fromMinorUnits(row.debits, row.currency);
+      const credits = Money.fromMinorUnits(row.credits, row.currency);
+      return { account: row.account, currency: row.currency, debits, credits, balance: debits.minus(credits) };
+    });
+  }
+
+  async findImbalances(): Promise<LedgerImbalance[]> {
+    const rows = this.db.prepare(`
+      SELECT entry_id, currency, SUM(CASE WHEN side = 'debit' THEN amount_minor ELSE -amount_minor END) AS difference
+      FROM journal_lines
+      GROUP BY entry_id, currency
+      HAVING difference <> 0
+      ORDER BY entry_id, currency
+    `).all() as Array<{ entry_id: string; currency: string; difference: number }>;
+
+    return rows.map(row => ({
+      entryId: row.entry_id,
+      currency: row.currency,
+      difference: Money.fromMinorUnits(row.difference, row.currency)
+    }));
+  }
+
+  async count(): Promise<number> {
+    return (this.db.prepare('SELECT COUNT(*) AS total FROM journal_entries').get() as { total: number }).total;
+  }
+
+  private toRow(entry: JournalEntry): JournalEntryRow {
+    return {
+      id: entry.id,
+      kind: entry.kind,
+      transaction_id: entry.transactionId,
+      merchant_id: entry.merchantId ?? null,
+      description: entry.description,
+      effective_at: entry.effectiveAt.toISOString(),
+      recorded_at: entry.recordedAt.toISOString()
+    };
+  }
+
+  private fromRow(row: JournalEntryRow, lines: JournalLineRow[]): JournalEntry {
+    return {
+      id: row.id,
+      kind: row.kind as JournalKind,
+      transactionId: row.transaction_id,
+      merchantId: row.merchant_id ?? undefined,
+      description: row.description,
+      lines: lines.map(line => ({
+        account: line.account,
+        side: line.side as EntrySide,
+        amount: Money.fromMinorUnits(line.amount_minor, line.currency)
+      })),
+      effectiveAt: new Date(row.effective_at),
+      recordedAt: new Date(row.recorded_at)
+    };
+  }
+}
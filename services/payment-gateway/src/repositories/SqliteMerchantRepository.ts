@@ -0,0 +1,148 @@
+import Database from 'better-sqlite3';
+import { Merchant, MerchantApiKey, MerchantStatus } from '../models/Merchant';
+import { MerchantRepository } from './MerchantRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface MerchantRow {
+  id: string;
+  name: string;
+  status: string;
+  default_currency: string;
+  provider_credentials: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MerchantApiKeyRow {
+  id: string;
+  merchant_id: string;
+  prefix: string;
+  secret_hash: string;
+  permissions: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+}
+
+/**
+ * File-backed merchant store using SQLite
+ */
+export class SqliteMerchantRepository implements MerchantRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async save(merchant: Merchant): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO merchants (id, name, status, default_currency, provider_credentials, created_at, updated_at)
+      VALUES (@id, @name, @status, @default_currency, @provider_credentials, @created_at, @updated_at)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        status = excluded.status,
+        default_currency = excluded.default_currency,
+        provider_credentials = excluded.provider_credentials,
+        updated_at = excluded.updated_at
+    `).run(this.toRow(merchant));
+  }
+
+  async findById(id: string): Promise<Merchant | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM merchants WHERE id = ?')
+      .get(id) as MerchantRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async list(): Promise<Merchant[]> {
+    const rows = this.db.prepare('SELECT * FROM merchants ORDER BY created_at').all() as MerchantRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async saveApiKey(apiKey: MerchantApiKey): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO merchant_api_keys (
+        id, merchant_id, prefix, secret_hash, permissions, created_at, expires_at, revoked_at, last_used_at
+      ) VALUES (
+        @id, @merchant_id, @prefix, @secret_hash, @permissions, @created_at, @expires_at, @revoked_at, @last_used_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        expires_at = excluded.expires_at,
+        revoked_at = excluded.revoked_at,
+        last_used_at = excluded.last_used_at
+    `).run(this.toApiKeyRow(apiKey));
+  }
+
+  async findApiKey(id: string): Promise<MerchantApiKey | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM merchant_api_keys WHERE id = ?')
+      .get(id) as MerchantApiKeyRow | undefined;
+
+    return row ? this.fromApiKeyRow(row) : undefined;
+  }
+
+  async listApiKeys(merchantId: string): Promise<MerchantApiKey[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM merchant_api_keys WHERE merchant_id = ? ORDER BY created_at')
+      .all(merchantId) as MerchantApiKeyRow[];
+
+    return rows.map(row => this.fromApiKeyRow(row));
+  }
+
+  private toRow(merchant: Merchant): MerchantRow {
+    return {
+      id: merchant.id,
+      name: merchant.name,
+      status: merchant.status,
+      default_currency: merchant.defaultCurrency,
+      provider_credentials: merchant.providerCredentials ? JSON.stringify(merchant.providerCredentials) : null,
+      created_at: merchant.createdAt.toISOString(),
+      updated_at: merchant.updatedAt.toISOString()
+    };
+  }
+
+  private fromRow(row: MerchantRow): Merchant {
+    return {
+      id: row.id,
+      name: row.name,
+      status: row.status as MerchantStatus,
+      defaultCurrency: row.default_currency,
+      providerCredentials: row.provider_credentials ? JSON.parse(row.provider_credentials) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private toApiKeyRow(apiKey: MerchantApiKey): MerchantApiKeyRow {
+    return {
+      id: apiKey.id,
+      merchant_id: apiKey.merchantId,
+      prefix: apiKey.prefix,
+      secret_hash: apiKey.secretHash,
+      permissions: JSON.stringify(apiKey.permissions),
+      created_at: apiKey.createdAt.toISOString(),
+      expires_at: apiKey.expiresAt?.toISOString() ?? null,
+      revoked_at: apiKey.revokedAt?.toISOString() ?? null,
+      last_used_at: apiKey.lastUsedAt?.toISOString() ?? null
+    };
+  }
+
+  private fromApiKeyRow(row: MerchantApiKeyRow): MerchantApiKey {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      prefix: row.prefix,
+      secretHash: row.secret_hash,
+      permissions: JSON.parse(row.permissions) as string[],
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined
+    };
+  }
+}
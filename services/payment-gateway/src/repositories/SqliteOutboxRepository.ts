@@ -0,0 +1,123 @@
+import Database from 'better-sqlite3';
+import { DomainEvent, DomainEventType } from '../models/DomainEvent';
+import { OutboxEntry, OutboxStatus } from '../models/OutboxEntry';
+import { OutboxRepository } from './OutboxRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface OutboxRow {
+  event_id: string;
+  event_type: string;
+  occurred_at: string;
+  data: string;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  published_at: string | null;
+}
+
+/**
+ * File-backed outbox using SQLite. It must share the transactions' database so a
+ * transaction and its events are committed together.
+ */
+export class SqliteOutboxRepository implements OutboxRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async append(events: ReadonlyArray<DomainEvent>): Promise<void> {
+    this.db.transaction(() => this.insert(events))();
+  }
+
+  /**
+   * Synchronous append for use inside another repository's database transaction
+   */
+  insert(events: ReadonlyArray<DomainEvent>): void {
+    const statement = this.db.prepare(`
+      INSERT INTO outbox_events (
+        event_id, event_type, occurred_at, data, status, attempts, last_error, next_attempt_at, created_at, published_at
+      ) VALUES (
+        @event_id, @event_type, @occurred_at, @data, @status, @attempts, @last_error, @next_attempt_at, @created_at, @published_at
+      )
+      ON CONFLICT (event_id) DO NOTHING
+    `);
+    const now = new Date();
+
+    events.forEach(event => statement.run(this.toRow({
+      event,
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    })));
+  }
+
+  async save(entry: OutboxEntry): Promise<void> {
+    this.db.prepare(`
+      UPDATE outbox_events SET
+        status = @status,
+        attempts = @attempts,
+        last_error = @last_error,
+        next_attempt_at = @next_attempt_at,
+        published_at = @published_at
+      WHERE event_id = @event_id
+    `).run(this.toRow(entry));
+  }
+
+  async findById(eventId: string): Promise<OutboxEntry | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM outbox_events WHERE event_id = ?')
+      .get(eventId) as OutboxRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async listPending(limit: number): Promise<OutboxEntry[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM outbox_events
+      WHERE status = @status
+      ORDER BY sequence
+      LIMIT @limit
+    `).all({ status: OutboxStatus.PENDING, limit });
+
+    return (rows as OutboxRow[]).map(row => this.fromRow(row));
+  }
+
+  private toRow(entry: OutboxEntry): OutboxRow {
+    return {
+      event_id: entry.event.id,
+      event_type: entry.event.type,
+      occurred_at: entry.event.occurredAt.toISOString(),
+      data: JSON.stringify(entry.event.data),
+      status: entry.status,
+      attempts: entry.attempts,
+      last_error: entry.lastError ?? null,
+      next_attempt_at: entry.nextAttemptAt.toISOString(),
+      created_at: entry.createdAt.toISOString(),
+      published_at: entry.publishedAt?.toISOString() ?? null
+    };
+  }
+
+  private fromRow(row: OutboxRow): OutboxEntry {
+    return {
+      event: {
+        id: row.event_id,
+        type: row.event_type as DomainEventType,
+        occurredAt: new Date(row.occurred_at),
+        data: JSON.parse(row.data)
+      } as DomainEvent,
+      status: row.status as OutboxStatus,
+      attempts: row.attempts,
+      lastError: row.last_error ?? undefined,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      createdAt: new Date(row.created_at),
+      publishedAt: row.published_at ? new Date(row.published_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import Database from 'better-sqlite3';
+import { ProviderEvent, ProviderEventStatus } from '../models/ProviderEvent';
+import { ProviderEventRepository } from './ProviderEventRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface ProviderEventRow {
+  id: string;
+  type: string;
+  provider_transaction_id: string | null;
+  payload: string;
+  status: string;
+  transaction_id: string | null;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  processed_at: string | null;
+}
+
+/**
+ * File-backed provider event store using SQLite
+ */
+export class SqliteProviderEventRepository implements ProviderEventRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async insert(event: ProviderEvent): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT INTO provider_events (
+        id, type, provider_transaction_id, payload, status, transaction_id, error, attempts, received_at, processed_at
+      ) VALUES (
+        @id, @type, @provider_transaction_id, @payload, @status, @transaction_id, @error, @attempts, @received_at, @processed_at
+      )
+      ON CONFLICT (id) DO NOTHING
+    `).run(this.toRow(event));
+
+    return result.changes > 0;
+  }
+
+  async save(event: ProviderEvent): Promise<void> {
+    this.db.prepare(`
+      UPDATE provider_events SET
+        status = @status,
+        transaction_id = @transaction_id,
+        error = @error,
+        attempts = @attempts,
+        processed_at = @processed_at
+      WHERE id = @id
+    `).run(this.toRow(event));
+  }
+
+  async findById(id: string): Promise<ProviderEvent | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM provider_events WHERE id = ?')
+      .get(id) as ProviderEventRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async list(status?: ProviderEventStatus): Promise<ProviderEvent[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM provider_events
+      WHERE @status IS NULL OR status = @status
+      ORDER BY received_at
+    `).all({ status: status ?? null });
+
+    return (rows as ProviderEventRow[]).map(row => this.fromRow(row));
+  }
+
+  private toRow(event: ProviderEvent): ProviderEventRow {
+    return {
+      id: event.id,
+      type: event.type,
+      provider_transaction_id: event.providerTransactionId ?? null,
+      payload: event.payload,
+      status: event.status,
+      transaction_id: event.transactionId ?? null,
+      error: event.error ?? null,
+      attempts: event.attempts,
+      received_at: event.receivedAt.toISOString(),
+      processed_at: event.processedAt?.toISOString() ?? null
+    };
+  }
+
+  private fromRow(row: ProviderEventRow): ProviderEvent {
+    return {
+      id: row.id,
+      type: row.type,
+      providerTransactionId: row.provider_transaction_id ?? undefined,
+      payload: row.payload,
+      status: row.status as ProviderEventStatus,
+      transactionId: row.transaction_id ?? undefined,
+      error: row.error ?? undefined,
+      attempts: row.attempts,
+      receivedAt: new Date(row.received_at),
+      processedAt: row.processed_at ? new Date(row.processed_at) : undefined
+    };
+  }
+}
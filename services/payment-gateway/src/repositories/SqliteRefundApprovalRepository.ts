@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import { Money } from '../models/Money';
+import { RefundApproval, RefundApprovalStatus } from '../models/RefundApproval';
+import { RefundReason } from '../models/Transaction';
+import { RefundApprovalRepository } from './RefundApprovalRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface RefundApprovalRow {
+  id: string;
+  merchant_id: string | null;
+  transaction_id: string;
+  amount: string;
+  currency: string;
+  reason: string | null;
+  status: string;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  refund_transaction_id: string | null;
+}
+
+/**
+ * File-backed approval store using SQLite
+ */
+export class SqliteRefundApprovalRepository implements RefundApprovalRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async save(approval: RefundApproval): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO refund_approvals (
+        id, merchant_id, transaction_id, amount, currency, reason, status, requested_by, requested_at,
+        reviewed_by, reviewed_at, review_note, refund_transaction_id
+      ) VALUES (
+        @id, @merchant_id, @transaction_id, @amount, @currency, @reason, @status, @requested_by, @requested_at,
+        @reviewed_by, @reviewed_at, @review_note, @refund_transaction_id
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        reviewed_by = excluded.reviewed_by,
+        reviewed_at = excluded.reviewed_at,
+        review_note = excluded.review_note,
+        refund_transaction_id = excluded.refund_transaction_id
+    `).run(this.toRow(approval));
+  }
+
+  async findById(id: string): Promise<RefundApproval | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM refund_approvals WHERE id = ?')
+      .get(id) as RefundApprovalRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async list(status?: RefundApprovalStatus, merchantId?: string): Promise<RefundApproval[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM refund_approvals
+      WHERE (@status IS NULL OR status = @status) AND (@merchant_id IS NULL OR merchant_id = @merchant_id)
+      ORDER BY requested_at
+    `).all({ status: status ?? null, merchant_id: merchantId ?? null });
+
+    return (rows as RefundApprovalRow[]).map(row => this.fromRow(row));
+  }
+
+  private toRow(approval: RefundApproval): RefundApprovalRow {
+    return {
+      id: approval.id,
+      merchant_id: approval.merchantId ?? null,
+      transaction_id: approval.transactionId,
+      amount: approval.amount.toString(),
+      currency: approval.currency,
+      reason: approval.reason ?? null,
+      status: approval.status,
+      requested_by: approval.requestedBy,
+      requested_at: approval.requestedAt.toISOString(),
+      reviewed_by: approval.reviewedBy ?? null,
+      reviewed_at: approval.reviewedAt?.toISOString() ?? null,
+      review_note: approval.reviewNote ?? null,
+      refund_transaction_id: approval.refundTransactionId ?? null
+    };
+  }
+
+  private fromRow(row: RefundApprovalRow): RefundApproval {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id ?? undefined,
+      transactionId: row.transaction_id,
+      amount: Money.of(row.amount, row.currency),
+      currency: row.currency,
+      reason: (row.reason as RefundReason | null) ?? undefined,
+      status: row.status as RefundApprovalStatus,
+      requestedBy: row.requested_by,
+      requestedAt: new Date(row.requested_at),
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewNote: row.review_note ?? undefined,
+      refundTransactionId: row.refund_transaction_id ?? undefined
+    };
+  }
+}
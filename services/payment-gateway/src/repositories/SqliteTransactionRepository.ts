@@ -0,0 +1,275 @@
+import Database from 'better-sqlite3';
+import { Decimal } from 'decimal.js';
+import { RefundReason, StatusChange, Transaction, TransactionStatus } from '../models/Transaction';
+import { Money } from '../models/Money';
+import { DomainEvent } from '../models/DomainEvent';
+import { JournalEntry } from '../models/Ledger';
+import {
+  TransactionFilter,
+  TransactionPage,
+  TransactionRepository,
+  TransactionSearch
+} from './TransactionRepository';
+import { SqliteOutboxRepository } from './SqliteOutboxRepository';
+import { SqliteLedgerRepository } from './SqliteLedgerRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+// Amounts are compared as integers in ten-thousandths of the major unit, the finest any currency uses:
+// TEXT would order '9.00' after '10.00', and REAL would round large amounts
+const AMOUNT_SCALE = new Decimal(10).pow(4);
+
+const SORT_COLUMNS = {
+  createdAt: 'created_at',
+  amount: 'amount_scaled'
+};
+
+const scaledAmount = (amount: Decimal.Value, rounding: Decimal.Rounding = Decimal.ROUND_HALF_EVEN): bigint =>
+  BigInt(new Decimal(amount).times(AMOUNT_SCALE).toDecimalPlaces(0, rounding).toFixed());
+
+interface TransactionRow {
+  id: string;
+  merchant_id: string | null;
+  original_transaction_id: string | null;
+  provider_transaction_id: string | null;
+  amount: string;
+  // Read back as a number; only used in queries
+  amount_scaled: bigint | number;
+  capturable_amount: string | null;
+  refunded_amount: string | null;
+  refund_reason: string | null;
+  chargeback_amount: string | null;
+  currency: string;
+  status: string;
+  status_history: string;
+  type: string;
+  metadata: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * File-backed repository using SQLite.
+ * Amounts are stored as major-unit TEXT next to their currency so no precision is lost on the way through the database.
+ */
+export class SqliteTransactionRepository implements TransactionRepository {
+  readonly outbox: SqliteOutboxRepository;
+  readonly ledger: SqliteLedgerRepository;
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+    this.outbox = new SqliteOutboxRepository(this.db);
+    this.ledger = new SqliteLedgerRepository(this.db);
+  }
+
+  async save(
+    transaction: Transaction,
+    events: ReadonlyArray<DomainEvent> = [],
+    journalEntries: ReadonlyArray<JournalEntry> = []
+  ): Promise<void> {
+    this.db.transaction(() => {
+      this.upsert(transaction);
+      this.outbox.insert(events);
+      this.ledger.insert(journalEntries);
+    })();
+  }
+
+  async findById(id: string): Promise<Transaction | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM transactions WHERE id = ?')
+      .get(id) as TransactionRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async findByProviderTransactionId(providerTransactionId: string): Promise<Transaction | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM transactions WHERE provider_transaction_id = ? ORDER BY created_at LIMIT 1')
+      .get(providerTransactionId) as TransactionRow | undefined;
+
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  async search(search: TransactionSearch): Promise<TransactionPage> {
+    const { conditions, params } = this.filterConditions(search);
+    const column = SORT_COLUMNS[search.sortBy];
+    const direction = search.sortDirection === 'asc' ? 'ASC' : 'DESC';
+
+    const pageConditions = [...conditions];
+    if (search.after) {
+      const operator = search.sortDirection === 'asc' ? '>' : '<';
+      pageConditions.push(`(${column} ${operator} @after_value OR (${column} = @after_value AND id ${operator} @after_id))`);
+      params.after_value = search.sortBy === 'amount' ? scaledAmount(search.after.value) : search.after.value;
+      params.after_id = search.after.id;
+    }
+
+    // One extra row tells whether another page follows
+    const rows = this.db.prepare(`
+      SELECT * FROM transactions
+      ${this.where(pageConditions)}
+      ORDER BY ${column} ${direction}, id ${direction}
+      LIMIT @limit
+    `).all({ ...params, limit: search.limit + 1 }) as TransactionRow[];
+
+    const total = search.includeTotal
+      ? (this.db.prepare(`SELECT COUNT(*) AS total FROM transactions ${this.where(conditions)}`).get(params) as { total: number }).total
+      : undefined;
+
+    return {
+      transactions: rows.slice(0, search.limit).map(row => this.fromRow(row)),
+      hasMore: rows.length > search.limit,
+      total
+    };
+  }
+
+  /**
+   * Close the underlying database handle
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private upsert(transaction: Transaction): void {
+    this.db.prepare(`
+      INSERT INTO transactions (
+        id, merchant_id, original_transaction_id, provider_transaction_id, amount, amount_scaled, capturable_amount,
+        refunded_amount, refund_reason, chargeback_amount, currency, status, status_history, type, metadata, error,
+        created_at, updated_at
+      ) VALUES (
+        @id, @merchant_id, @original_transaction_id, @provider_transaction_id, @amount, @amount_scaled, @capturable_amount,
+        @refunded_amount, @refund_reason, @chargeback_amount, @currency, @status, @status_history, @type, @metadata, @error,
+        @created_at, @updated_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        provider_transaction_id = excluded.provider_transaction_id,
+        amount = excluded.amount,
+        amount_scaled = excluded.amount_scaled,
+        capturable_amount = excluded.capturable_amount,
+        refunded_amount = excluded.refunded_amount,
+        chargeback_amount = excluded.chargeback_amount,
+        currency = excluded.currency,
+        status = excluded.status,
+        status_history = excluded.status_history,
+        metadata = excluded.metadata,
+        error = excluded.error,
+        updated_at = excluded.updated_at
+    `).run(this.toRow(transaction));
+  }
+
+  private filterConditions(filter: TransactionFilter): { conditions: string[]; params: Record<string, unknown> } {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+    const inList = (name: string, values: string[]): string => {
+      values.forEach((value, index) => {
+        params[`${name}_${index}`] = value;
+      });
+      return values.map((_value, index) => `@${name}_${index}`).join(', ');
+    };
+
+    if (filter.merchantId !== undefined) {
+      conditions.push('merchant_id = @merchant_id');
+      params.merchant_id = filter.merchantId;
+    }
+    if (filter.statuses) {
+      conditions.push(`status IN (${inList('status', filter.statuses)})`);
+    }
+    if (filter.types) {
+      conditions.push(`type IN (${inList('type', filter.types)})`);
+    }
+    if (filter.currency !== undefined) {
+      conditions.push('currency = @currency');
+      params.currency = filter.currency;
+    }
+    if (filter.minAmount !== undefined) {
+      conditions.push('amount_scaled >= @min_amount');
+      params.min_amount = scaledAmount(filter.minAmount, Decimal.ROUND_CEIL);
+    }
+    if (filter.maxAmount !== undefined) {
+      conditions.push('amount_scaled <= @max_amount');
+      params.max_amount = scaledAmount(filter.maxAmount, Decimal.ROUND_FLOOR);
+    }
+    if (filter.createdFrom) {
+      conditions.push('created_at >= @created_from');
+      params.created_from = filter.createdFrom.toISOString();
+    }
+    if (filter.createdTo) {
+      conditions.push('created_at < @created_to');
+      params.created_to = filter.createdTo.toISOString();
+    }
+    if (filter.userId !== undefined) {
+      // Refunds and captures belong to the owner of their original transaction
+      conditions.push(`COALESCE(
+        json_extract(metadata, '$.userId'),
+        (SELECT json_extract(original.metadata, '$.userId') FROM transactions original
+          WHERE original.id = transactions.original_transaction_id)
+      ) = @user_id`);
+      params.user_id = filter.userId;
+    }
+    if (filter.metadataKey !== undefined) {
+      conditions.push('json_extract(metadata, @metadata_path) IS NOT NULL');
+      params.metadata_path = `$."${filter.metadataKey.replace(/"/g, '')}"`;
+    }
+    if (filter.metadataValue !== undefined) {
+      conditions.push('CAST(json_extract(metadata, @metadata_path) AS TEXT) = @metadata_value');
+      params.metadata_value = filter.metadataValue;
+    }
+
+    return { conditions, params };
+  }
+
+  private where(conditions: string[]): string {
+    return conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private toRow(transaction: Transaction): TransactionRow {
+    return {
+      id: transaction.id,
+      merchant_id: transaction.merchantId ?? null,
+      original_transaction_id: transaction.originalTransactionId ?? null,
+      provider_transaction_id: transaction.providerTransactionId ?? null,
+      amount: transaction.amount.toString(),
+      amount_scaled: scaledAmount(transaction.amount.toString()),
+      capturable_amount: transaction.capturableAmount?.toString() ?? null,
+      refunded_amount: transaction.refundedAmount?.toString() ?? null,
+      refund_reason: transaction.refundReason ?? null,
+      chargeback_amount: transaction.chargebackAmount?.toString() ?? null,
+      currency: transaction.currency,
+      status: transaction.status,
+      status_history: JSON.stringify(transaction.statusHistory),
+      type: transaction.type,
+      metadata: transaction.metadata ? JSON.stringify(transaction.metadata) : null,
+      error: transaction.error ? JSON.stringify(transaction.error) : null,
+      created_at: transaction.createdAt.toISOString(),
+      updated_at: transaction.updatedAt.toISOString()
+    };
+  }
+
+  private fromRow(row: TransactionRow): Transaction {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id ?? undefined,
+      originalTransactionId: row.original_transaction_id ?? undefined,
+      providerTransactionId: row.provider_transaction_id ?? undefined,
+      amount: Money.of(row.amount, row.currency),
+      capturableAmount: row.capturable_amount !== null ? Money.of(row.capturable_amount, row.currency) : undefined,
+      refundedAmount: row.refunded_amount !== null ? Money.of(row.refunded_amount, row.currency) : undefined,
+      refundReason: (row.refund_reason as RefundReason | null) ?? undefined,
+      chargebackAmount: row.chargeback_amount !== null ? Money.of(row.chargeback_amount, row.currency) : undefined,
+      currency: row.currency,
+      status: row.status as TransactionStatus,
+      statusHistory: (JSON.parse(row.status_history) as StatusChange[]).map(change => ({
+        ...change,
+        timestamp: new Date(change.timestamp)
+      })),
+      type: row.type,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      error: row.error ? JSON.parse(row.error) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
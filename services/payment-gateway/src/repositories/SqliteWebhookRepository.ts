@@ -0,0 +1,210 @@
+import Database from 'better-sqlite3';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  WebhookSubscriptionStatus
+} from '../models/MerchantWebhook';
+import { WebhookDeliveryFilter, WebhookRepository } from './WebhookRepository';
+import { openSqliteDatabase } from './sqliteDatabase';
+
+interface WebhookSubscriptionRow {
+  id: string;
+  merchant_id: string;
+  url: string;
+  event_types: string;
+  status: string;
+  secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  subscription_id: string;
+  merchant_id: string;
+  event_id: string;
+  event_type: string;
+  payload: string;
+  status: string;
+  attempts: string;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Attempts are stored as JSON with ISO timestamps
+type StoredAttempt = Omit<WebhookAttempt, 'attemptedAt'> & { attemptedAt: string };
+
+/**
+ * File-backed webhook store using SQLite; the deliveries table is the durable retry queue
+ */
+export class SqliteWebhookRepository implements WebhookRepository {
+  private db: Database.Database;
+
+  /**
+   * @param database Open database handle, or a path to open (':memory:' for a throwaway database)
+   */
+  constructor(database: Database.Database | string) {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO webhook_subscriptions (id, merchant_id, url, event_types, status, secret, created_at, updated_at)
+      VALUES (@id, @merchant_id, @url, @event_types, @status, @secret, @created_at, @updated_at)
+      ON CONFLICT (id) DO UPDATE SET
+        url = excluded.url,
+        event_types = excluded.event_types,
+        status = excluded.status,
+        secret = excluded.secret,
+        updated_at = excluded.updated_at
+    `).run(this.toSubscriptionRow(subscription));
+  }
+
+  async findSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM webhook_subscriptions WHERE id = ?')
+      .get(id) as WebhookSubscriptionRow | undefined;
+
+    return row ? this.fromSubscriptionRow(row) : undefined;
+  }
+
+  async listSubscriptions(merchantId: string): Promise<WebhookSubscription[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM webhook_subscriptions WHERE merchant_id = ? ORDER BY created_at, id')
+      .all(merchantId) as WebhookSubscriptionRow[];
+
+    return rows.map(row => this.fromSubscriptionRow(row));
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM webhook_subscriptions WHERE id = ?').run(id);
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT INTO webhook_deliveries (
+        id, subscription_id, merchant_id, event_id, event_type, payload, status, attempts, next_attempt_at,
+        created_at, updated_at
+      ) VALUES (
+        @id, @subscription_id, @merchant_id, @event_id, @event_type, @payload, @status, @attempts, @next_attempt_at,
+        @created_at, @updated_at
+      )
+      ON CONFLICT (subscription_id, event_id) DO NOTHING
+    `).run(this.toDeliveryRow(delivery));
+
+    return result.changes > 0;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.db.prepare(`
+      UPDATE webhook_deliveries SET
+        status = @status,
+        attempts = @attempts,
+        next_attempt_at = @next_attempt_at,
+        updated_at = @updated_at
+      WHERE id = @id
+    `).run(this.toDeliveryRow(delivery));
+  }
+
+  async findDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM webhook_deliveries WHERE id = ?')
+      .get(id) as WebhookDeliveryRow | undefined;
+
+    return row ? this.fromDeliveryRow(row) : undefined;
+  }
+
+  async listDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = @status AND next_attempt_at <= @now
+      ORDER BY next_attempt_at
+      LIMIT @limit
+    `).all({ status: WebhookDeliveryStatus.PENDING, now: now.toISOString(), limit });
+
+    return (rows as WebhookDeliveryRow[]).map(row => this.fromDeliveryRow(row));
+  }
+
+  async listDeliveries(filter: WebhookDeliveryFilter, limit: number): Promise<WebhookDelivery[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE (@merchant_id IS NULL OR merchant_id = @merchant_id)
+        AND (@subscription_id IS NULL OR subscription_id = @subscription_id)
+        AND (@status IS NULL OR status = @status)
+        AND (@event_id IS NULL OR event_id = @event_id)
+      ORDER BY created_at DESC, id DESC
+      LIMIT @limit
+    `).all({
+      merchant_id: filter.merchantId ?? null,
+      subscription_id: filter.subscriptionId ?? null,
+      status: filter.status ?? null,
+      event_id: filter.eventId ?? null,
+      limit
+    });
+
+    return (rows as WebhookDeliveryRow[]).map(row => this.fromDeliveryRow(row));
+  }
+
+  private toSubscriptionRow(subscription: WebhookSubscription): WebhookSubscriptionRow {
+    return {
+      id: subscription.id,
+      merchant_id: subscription.merchantId,
+      url: subscription.url,
+      event_types: JSON.stringify(subscription.eventTypes),
+      status: subscription.status,
+      secret: subscription.secret,
+      created_at: subscription.createdAt.toISOString(),
+      updated_at: subscription.updatedAt.toISOString()
+    };
+  }
+
+  private fromSubscriptionRow(row: WebhookSubscriptionRow): WebhookSubscription {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      url: row.url,
+      eventTypes: JSON.parse(row.event_types),
+      status: row.status as WebhookSubscriptionStatus,
+      secret: row.secret,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private toDeliveryRow(delivery: WebhookDelivery): WebhookDeliveryRow {
+    return {
+      id: delivery.id,
+      subscription_id: delivery.subscriptionId,
+      merchant_id: delivery.merchantId,
+      event_id: delivery.eventId,
+      event_type: delivery.eventType,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: JSON.stringify(delivery.attempts),
+      next_attempt_at: delivery.nextAttemptAt?.toISOString() ?? null,
+      created_at: delivery.createdAt.toISOString(),
+      updated_at: delivery.updatedAt.toISOString()
+    };
+  }
+
+  private fromDeliveryRow(row: WebhookDeliveryRow): WebhookDelivery {
+    const attempts = JSON.parse(row.attempts) as StoredAttempt[];
+
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      merchantId: row.merchant_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: attempts.map(attempt => ({ ...attempt, attemptedAt: new Date(attempt.attemptedAt) })),
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { Transaction, TransactionStatus } from '../models/Transaction';
+import { DomainEvent } from '../models/DomainEvent';
+import { JournalEntry } from '../models/Ledger';
+import { OutboxRepository } from './OutboxRepository';
+import { LedgerRepository } from './LedgerRepository';
+
+export type TransactionSortField = 'createdAt' | 'amount';
+
+/**
+ * Criteria for listing transactions; every criterion that is set must match
+ */
+export interface TransactionFilter {
+  merchantId?: string;
+  statuses?: TransactionStatus[];
+  types?: string[];
+  currency?: string;
+  // Inclusive bounds in major units; only meaningful together with currency
+  minAmount?: string;
+  maxAmount?: string;
+  // Inclusive lower and exclusive upper bound on createdAt
+  createdFrom?: Date;
+  createdTo?: Date;
+  // Owner of a payment or authorization; refunds and captures match the owner of their original
+  userId?: string;
+  // Top-level metadata entry that must be present, optionally with this value (compared as text)
+  metadataKey?: string;
+  metadataValue?: string;
+}
+
+/**
+ * Position of the last transaction of a page: its sort value and ID
+ */
+export interface TransactionPosition {
+  // ISO-8601 timestamp for createdAt, major-unit decimal string for amount
+  value: string;
+  id: string;
+}
+
+export interface TransactionSearch extends TransactionFilter {
+  sortBy: TransactionSortField;
+  sortDirection: 'asc' | 'desc';
+  limit: number;
+  // Continue after this transaction in the same order; ties on the sort value are broken by ID
+  after?: TransactionPosition;
+  // Count every match, ignoring limit and after
+  includeTotal?: boolean;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  hasMore: boolean;
+  total?: number;
+}
+
+/**
+ * Storage abstraction for transaction records.
+ * Implementations must return copies so callers cannot mutate stored state.
+ */
+export interface TransactionRepository {
+  /**
+   * Outbox stored alongside the transactions, which save() appends events to
+   */
+  readonly outbox: OutboxRepository;
+
+  /**
+   * Ledger stored alongside the transactions, which save() posts journal entries to
+   */
+  readonly ledger: LedgerRepository;
+
+  /**
+   * Insert or update a transaction record, append its events to the outbox and post its journal entries
+   * in the same unit of work: either all are stored or none is
+   * @param transaction Transaction to persist
+   * @param events Events to publish about the transaction; those already in the outbox are skipped
+   * @param journalEntries Entries for the money the transaction moved; those already in the ledger are skipped
+   */
+  save(
+    transaction: Transaction,
+    events?: ReadonlyArray<DomainEvent>,
+    journalEntries?: ReadonlyArray<JournalEntry>
+  ): Promise<void>;
+
+  /**
+   * Look up a transaction by ID
+   * @param id Transaction ID
+   * @returns The stored transaction, or undefined if none exists
+   */
+  findById(id: string): Promise<Transaction | undefined>;
+
+  /**
+   * Look up a transaction by the ID the payment provider gave it
+   * @param providerTransactionId ID returned by the provider
+   * @returns The stored transaction, or undefined if none exists
+   */
+  findByProviderTransactionId(providerTransactionId: string): Promise<Transaction | undefined>;
+
+  /**
+   * List the transactions matching a filter, one page at a time
+   * @param search Filter, order and page to return
+   */
+  search(search: TransactionSearch): Promise<TransactionPage>;
+}
@@ -0,0 +1,65 @@
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '../models/MerchantWebhook';
+
+/**
+ * Criteria for listing deliveries; every criterion that is set must match
+ */
+export interface WebhookDeliveryFilter {
+  merchantId?: string;
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  eventId?: string;
+}
+
+/**
+ * Storage for merchant webhook subscriptions and the queue of their deliveries
+ */
+export interface WebhookRepository {
+  /**
+   * Insert or update a subscription
+   */
+  saveSubscription(subscription: WebhookSubscription): Promise<void>;
+
+  /**
+   * Look up a subscription by ID
+   */
+  findSubscription(id: string): Promise<WebhookSubscription | undefined>;
+
+  /**
+   * List a merchant's subscriptions, oldest first
+   */
+  listSubscriptions(merchantId: string): Promise<WebhookSubscription[]>;
+
+  /**
+   * Remove a subscription; its deliveries are kept for support staff
+   */
+  deleteSubscription(id: string): Promise<void>;
+
+  /**
+   * Queue a delivery unless the event is already queued for the same subscription
+   * @returns false if the subscription already had a delivery for the event
+   */
+  insertDelivery(delivery: WebhookDelivery): Promise<boolean>;
+
+  /**
+   * Update a delivery after an attempt or a manual redelivery
+   */
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+
+  /**
+   * Look up a delivery by ID
+   */
+  findDelivery(id: string): Promise<WebhookDelivery | undefined>;
+
+  /**
+   * Pending deliveries whose next attempt is due, the longest overdue first
+   * @param now Deliveries due at or before this time are returned
+   * @param limit Maximum number of deliveries to return
+   */
+  listDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * List deliveries, newest first
+   * @param limit Maximum number of deliveries to return
+   */
+  listDeliveries(filter: WebhookDeliveryFilter, limit: number): Promise<WebhookDelivery[]>;
+}
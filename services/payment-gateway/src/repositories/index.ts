@@ -0,0 +1,198 @@
+import Database from 'better-sqlite3';
+import { TransactionRepository } from './TransactionRepository';
+import { InMemoryTransactionRepository } from './InMemoryTransactionRepository';
+import { SqliteTransactionRepository } from './SqliteTransactionRepository';
+import { IdempotencyRepository, IdempotencyRecord, StoredResponse } from './IdempotencyRepository';
+import { InMemoryIdempotencyRepository } from './InMemoryIdempotencyRepository';
+import { SqliteIdempotencyRepository } from './SqliteIdempotencyRepository';
+import { RefundApprovalRepository } from './RefundApprovalRepository';
+import { InMemoryRefundApprovalRepository } from './InMemoryRefundApprovalRepository';
+import { SqliteRefundApprovalRepository } from './SqliteRefundApprovalRepository';
+import { MerchantRepository } from './MerchantRepository';
+import { InMemoryMerchantRepository } from './InMemoryMerchantRepository';
+import { SqliteMerchantRepository } from './SqliteMerchantRepository';
+import { ProviderEventRepository } from './ProviderEventRepository';
+import { InMemoryProviderEventRepository } from './InMemoryProviderEventRepository';
+import { SqliteProviderEventRepository } from './SqliteProviderEventRepository';
+import { WebhookDeliveryFilter, WebhookRepository } from './WebhookRepository';
+import { InMemoryWebhookRepository } from './InMemoryWebhookRepository';
+import { SqliteWebhookRepository } from './SqliteWebhookRepository';
+import { OutboxRepository } from './OutboxRepository';
+import { InMemoryOutboxRepository } from './InMemoryOutboxRepository';
+import { SqliteOutboxRepository } from './SqliteOutboxRepository';
+import { BalanceQuery, LedgerRepository } from './LedgerRepository';
+import { InMemoryLedgerRepository } from './InMemoryLedgerRepository';
+import { SqliteLedgerRepository } from './SqliteLedgerRepository';
+import { FraudScreeningRepository, VelocityKey } from './FraudScreeningRepository';
+import { InMemoryFraudScreeningRepository } from './InMemoryFraudScreeningRepository';
+import { SqliteFraudScreeningRepository } from './SqliteFraudScreeningRepository';
+import { CardTokenRepository } from './CardTokenRepository';
+import { InMemoryCardTokenRepository } from './InMemoryCardTokenRepository';
+import { SqliteCardTokenRepository } from './SqliteCardTokenRepository';
+import { AuditStore } from './AuditStore';
+import { InMemoryAuditStore } from './InMemoryAuditStore';
+import { FileAuditStore } from './FileAuditStore';
+import { openSqliteDatabase } from './sqliteDatabase';
+import { config } from '../config';
+
+export {
+  TransactionRepository,
+  InMemoryTransactionRepository,
+  SqliteTransactionRepository,
+  IdempotencyRepository,
+  IdempotencyRecord,
+  StoredResponse,
+  InMemoryIdempotencyRepository,
+  SqliteIdempotencyRepository,
+  RefundApprovalRepository,
+  InMemoryRefundApprovalRepository,
+  SqliteRefundApprovalRepository,
+  MerchantRepository,
+  InMemoryMerchantRepository,
+  SqliteMerchantRepository,
+  ProviderEventRepository,
+  InMemoryProviderEventRepository,
+  SqliteProviderEventRepository,
+  WebhookRepository,
+  WebhookDeliveryFilter,
+  InMemoryWebhookRepository,
+  SqliteWebhookRepository,
+  OutboxRepository,
+  InMemoryOutboxRepository,
+  SqliteOutboxRepository,
+  LedgerRepository,
+  BalanceQuery,
+  InMemoryLedgerRepository,
+  SqliteLedgerRepository,
+  FraudScreeningRepository,
+  VelocityKey,
+  InMemoryFraudScreeningRepository,
+  SqliteFraudScreeningRepository,
+  CardTokenRepository,
+  InMemoryCardTokenRepository,
+  SqliteCardTokenRepository,
+  AuditStore,
+  InMemoryAuditStore,
+  FileAuditStore,
+  openSqliteDatabase
+};
+
+let database: Database.Database | undefined;
+
+// Every SQLite-backed repository shares one connection to the configured file
+const sharedDatabase = (): Database.Database => {
+  if (!database) {
+    database = openSqliteDatabase(config.transactionStore.path);
+  }
+  return database;
+};
+
+const useMemoryStore = (): boolean => config.transactionStore.driver === 'memory';
+
+/**
+ * Build the transaction repository selected by TRANSACTION_STORE ('sqlite' or 'memory'),
+ * with the outbox its domain events and the ledger its journal entries are written to
+ */
+export const createTransactionRepository = (): TransactionRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryTransactionRepository();
+  }
+
+  return new SqliteTransactionRepository(sharedDatabase());
+};
+
+/**
+ * Build the idempotency key store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createIdempotencyRepository = (): IdempotencyRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryIdempotencyRepository();
+  }
+
+  return new SqliteIdempotencyRepository(sharedDatabase());
+};
+
+/**
+ * Build the refund approval store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createRefundApprovalRepository = (): RefundApprovalRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryRefundApprovalRepository();
+  }
+
+  return new SqliteRefundApprovalRepository(sharedDatabase());
+};
+
+/**
+ * Build the merchant and API key store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createMerchantRepository = (): MerchantRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryMerchantRepository();
+  }
+
+  return new SqliteMerchantRepository(sharedDatabase());
+};
+
+/**
+ * Build the provider webhook event store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createProviderEventRepository = (): ProviderEventRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryProviderEventRepository();
+  }
+
+  return new SqliteProviderEventRepository(sharedDatabase());
+};
+
+/**
+ * Build the merchant webhook subscription and delivery store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createWebhookRepository = (): WebhookRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryWebhookRepository();
+  }
+
+  return new SqliteWebhookRepository(sharedDatabase());
+};
+
+/**
+ * Build the fraud screening and review queue store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createFraudScreeningRepository = (): FraudScreeningRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryFraudScreeningRepository();
+  }
+
+  return new SqliteFraudScreeningRepository(sharedDatabase());
+};
+
+/**
+ * Build the card token vault store selected by TRANSACTION_STORE ('sqlite' or 'memory')
+ */
+export const createCardTokenRepository = (): CardTokenRepository => {
+  if (useMemoryStore()) {
+    return new InMemoryCardTokenRepository();
+  }
+
+  return new SqliteCardTokenRepository(sharedDatabase());
+};
+
+/**
+ * Build the audit trail store: a local file (AUDIT_LOG_PATH), or memory when TRANSACTION_STORE is 'memory'
+ */
+export const createAuditStore = (): AuditStore => {
+  if (useMemoryStore()) {
+    return new InMemoryAuditStore();
+  }
+
+  return new FileAuditStore(config.audit.path);
+};
+
+/**
+ * Close the shared SQLite connection, if one was opened
+ */
+export const closeRepositories = (): void => {
+  database?.close();
+  database = undefined;
+};
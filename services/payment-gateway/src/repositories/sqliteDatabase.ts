@@ -0,0 +1,227 @@
+import Database from 'better-sqlite3';
+
+// Applied in order; the number of applied migrations is kept in PRAGMA user_version
+const MIGRATIONS = [
+  `CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,
+    original_transaction_id TEXT,
+    provider_transaction_id TEXT,
+    amount TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    status TEXT NOT NULL,
+    type TEXT NOT NULL,
+    metadata TEXT,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_transactions_original ON transactions (original_transaction_id);`,
+  `CREATE TABLE IF NOT EXISTS idempotency_keys (
+    user_id TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,
+    state TEXT NOT NULL,
+    response TEXT,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, idempotency_key)
+  );`,
+  `ALTER TABLE transactions ADD COLUMN capturable_amount TEXT;`,
+  `ALTER TABLE transactions ADD COLUMN status_history TEXT NOT NULL DEFAULT '[]';`,
+  `ALTER TABLE transactions ADD COLUMN refunded_amount TEXT;
+  ALTER TABLE transactions ADD COLUMN refund_reason TEXT;`,
+  `CREATE TABLE IF NOT EXISTS refund_approvals (
+    id TEXT PRIMARY KEY,
+    transaction_id TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    reason TEXT,
+    status TEXT NOT NULL,
+    requested_by TEXT NOT NULL,
+    requested_at TEXT NOT NULL,
+    reviewed_by TEXT,
+    reviewed_at TEXT,
+    review_note TEXT,
+    refund_transaction_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_refund_approvals_status ON refund_approvals (status, requested_at);`,
+  `CREATE TABLE IF NOT EXISTS merchants (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    default_currency TEXT NOT NULL,
+    provider_credentials TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS merchant_api_keys (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    secret_hash TEXT NOT NULL,
+    permissions TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT,
+    revoked_at TEXT,
+    last_used_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_merchant_api_keys_merchant ON merchant_api_keys (merchant_id, created_at);
+  ALTER TABLE transactions ADD COLUMN merchant_id TEXT;
+  CREATE INDEX IF NOT EXISTS idx_transactions_merchant ON transactions (merchant_id, created_at);
+  ALTER TABLE refund_approvals ADD COLUMN merchant_id TEXT;`,
+  `CREATE INDEX IF NOT EXISTS idx_transactions_created ON transactions (created_at, id);`,
+  `CREATE TABLE IF NOT EXISTS provider_events (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    provider_transaction_id TEXT,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    transaction_id TEXT,
+    error TEXT,
+    attempts INTEGER NOT NULL,
+    received_at TEXT NOT NULL,
+    processed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_provider_events_status ON provider_events (status, received_at);
+  CREATE INDEX IF NOT EXISTS idx_transactions_provider ON transactions (provider_transaction_id);`,
+  `CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    event_types TEXT NOT NULL,
+    status TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_merchant ON webhook_subscriptions (merchant_id, created_at);
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    subscription_id TEXT NOT NULL,
+    merchant_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts TEXT NOT NULL,
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (subscription_id, event_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_merchant ON webhook_deliveries (merchant_id, created_at);`,
+  `CREATE TABLE IF NOT EXISTS outbox_events (
+    sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL,
+    occurred_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    last_error TEXT,
+    next_attempt_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    published_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_outbox_events_status ON outbox_events (status, sequence);`,
+  `CREATE TABLE IF NOT EXISTS journal_entries (
+    sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    kind TEXT NOT NULL,
+    transaction_id TEXT NOT NULL,
+    merchant_id TEXT,
+    description TEXT NOT NULL,
+    effective_at TEXT NOT NULL,
+    recorded_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_journal_entries_transaction ON journal_entries (transaction_id);
+  CREATE INDEX IF NOT EXISTS idx_journal_entries_effective ON journal_entries (effective_at);
+  CREATE TABLE IF NOT EXISTS journal_lines (
+    entry_id TEXT NOT NULL REFERENCES journal_entries (id),
+    line_number INTEGER NOT NULL,
+    account TEXT NOT NULL,
+    side TEXT NOT NULL CHECK (side IN ('debit', 'credit')),
+    currency TEXT NOT NULL,
+    amount_minor INTEGER NOT NULL CHECK (amount_minor >= 0),
+    PRIMARY KEY (entry_id, line_number)
+  );
+  CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines (account, currency);
+  CREATE TRIGGER IF NOT EXISTS journal_entries_no_update BEFORE UPDATE ON journal_entries
+  BEGIN SELECT RAISE(ABORT, 'Journal entries are immutable'); END;
+  CREATE TRIGGER IF NOT EXISTS journal_entries_no_delete BEFORE DELETE ON journal_entries
+  BEGIN SELECT RAISE(ABORT, 'Journal entries are immutable'); END;
+  CREATE TRIGGER IF NOT EXISTS journal_lines_no_update BEFORE UPDATE ON journal_lines
+  BEGIN SELECT RAISE(ABORT, 'Journal lines are immutable'); END;
+  CREATE TRIGGER IF NOT EXISTS journal_lines_no_delete BEFORE DELETE ON journal_lines
+  BEGIN SELECT RAISE(ABORT, 'Journal lines are immutable'); END;`,
+  `CREATE TABLE IF NOT EXISTS fraud_screenings (
+    id TEXT PRIMARY KEY,
+    transaction_id TEXT NOT NULL,
+    merchant_id TEXT,
+    user_id TEXT,
+    card_fingerprint TEXT,
+    bin_country TEXT,
+    ip_address TEXT,
+    ip_country TEXT,
+    email_domain TEXT,
+    amount TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    decision TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    reasons TEXT NOT NULL,
+    screened_at TEXT NOT NULL,
+    review_status TEXT,
+    reviewed_by TEXT,
+    reviewed_at TEXT,
+    review_note TEXT,
+    released_transaction_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_fraud_screenings_user ON fraud_screenings (user_id, screened_at);
+  CREATE INDEX IF NOT EXISTS idx_fraud_screenings_card ON fraud_screenings (card_fingerprint, screened_at);
+  CREATE INDEX IF NOT EXISTS idx_fraud_screenings_review ON fraud_screenings (review_status, screened_at);`,
+  `CREATE TABLE IF NOT EXISTS card_tokens (
+    token TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    merchant_id TEXT,
+    brand TEXT NOT NULL,
+    bin TEXT NOT NULL,
+    last4 TEXT NOT NULL,
+    expiry_month INTEGER NOT NULL,
+    expiry_year INTEGER NOT NULL,
+    cardholder_name TEXT,
+    fingerprint TEXT NOT NULL,
+    encrypted_number TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );`,
+  `ALTER TABLE transactions ADD COLUMN chargeback_amount TEXT;`,
+  // Scales the stored decimal text by its number of decimals, so no amount goes through floating point
+  `ALTER TABLE transactions ADD COLUMN amount_scaled INTEGER;
+  UPDATE transactions SET amount_scaled = CAST(REPLACE(amount, '.', '') AS INTEGER) * CASE
+    WHEN instr(amount, '.') = 0 THEN 10000
+    ELSE CAST(substr('10000', 1, 5 - (length(amount) - instr(amount, '.'))) AS INTEGER)
+  END;`,
+  `DROP INDEX IF EXISTS idx_fraud_screenings_user;
+  CREATE INDEX IF NOT EXISTS idx_fraud_screenings_merchant_user ON fraud_screenings (merchant_id, user_id, screened_at);`
+];
+
+/**
+ * Open a SQLite database and bring its schema up to date.
+ * All SQLite-backed repositories share one schema so they can share one file.
+ * @param filename Path of the database file, or ':memory:' for a throwaway database
+ */
+export const openSqliteDatabase = (filename: string): Database.Database => {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(applied).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${applied + index + 1}`);
+    })();
+  });
+
+  return db;
+};
@@ -0,0 +1,46 @@
+import { readFile } from 'fs/promises';
+import { SettlementFormat } from '../models/Settlement';
+import { closeRepositories, createTransactionRepository } from '../repositories';
+import { ReconciliationService, parseSettlementReport } from '../services/ReconciliationService';
+
+const USAGE = 'Usage: npm run reconcile -- <settlement file> --from <ISO date-time> --to <ISO date-time> [--format csv|json]';
+
+/**
+ * Reconcile a provider settlement report against the transaction store and print the report as JSON.
+ * Usage: npm run reconcile -- settlement.csv --from 2026-01-01T00:00:00Z --to 2026-01-02T00:00:00Z
+ * The format defaults to json for .json files and csv otherwise.
+ * Exits with status 1 when the settlement has discrepancies and 2 when it could not be reconciled.
+ */
+const main = async (): Promise<number> => {
+  const args = process.argv.slice(2);
+  const option = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const path = args.find((arg, index) => !arg.startsWith('--') && (index === 0 || !args[index - 1].startsWith('--')));
+  const from = new Date(option('from') || '');
+  const to = new Date(option('to') || '');
+  const format = option('format') || (path?.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+
+  if (!path || Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || !['csv', 'json'].includes(format)) {
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+
+  try {
+    const settlement = parseSettlementReport(await readFile(path, 'utf8'), format as SettlementFormat);
+    const report = await new ReconciliationService(createTransactionRepository()).reconcile(settlement, { from, to });
+
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return report.reconciled ? 0 : 1;
+  } catch (error) {
+    process.stderr.write(`Could not reconcile settlement ${path}: ${(error as Error).message}\n`);
+    return 2;
+  } finally {
+    closeRepositories();
+  }
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
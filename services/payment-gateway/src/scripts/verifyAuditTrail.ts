@@ -0,0 +1,34 @@
+import { config } from '../config';
+import { FileAuditStore } from '../repositories/FileAuditStore';
+import { verifyAuditChain } from '../services/AuditLogger';
+
+/**
+ * Check the hash chain of an audit trail file.
+ * Usage: npm run audit:verify -- [path]   (defaults to AUDIT_LOG_PATH)
+ * Exits with status 1 when an entry was modified or removed.
+ */
+const main = async (): Promise<number> => {
+  const path = process.argv[2] || config.audit.path;
+
+  try {
+    const result = verifyAuditChain(await new FileAuditStore(path).readAll());
+
+    if (!result.valid) {
+      process.stderr.write(
+        `Audit trail ${path} is corrupt at entry ${result.sequence}: ${result.reason} ` +
+        `(${result.checked} entries verified before it)\n`
+      );
+      return 1;
+    }
+
+    process.stdout.write(`Audit trail ${path} is intact (${result.checked} entries)\n`);
+    return 0;
+  } catch (error) {
+    process.stderr.write(`Could not verify audit trail ${path}: ${(error as Error).message}\n`);
+    return 1;
+  }
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
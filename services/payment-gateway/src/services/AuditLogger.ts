@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditEvent, AuditRecord, AuditStatus } from '../models/AuditEvent';
+import { AuditStore } from '../repositories/AuditStore';
+import { canonicalJson } from '../utils/canonicalJson';
+
+// previousHash of the first record in a trail
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Used when the caller could not identify the user or the origin of a request
+const UNKNOWN = 'unknown';
+
+export interface AuditEntry {
+  action: string;
+  status: AuditStatus;
+  userId?: string;
+  ipAddress?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AccessDenial {
+  userId?: string;
+  ipAddress?: string;
+  // What was accessed, e.g. 'POST /refund-approvals/123/approve'
+  resource: string;
+  reason: string;
+}
+
+export type AuditVerification =
+  | { valid: true; checked: number }
+  | { valid: false; checked: number; sequence: number; reason: string };
+
+const hashRecord = (record: Omit<AuditRecord, 'hash'>): string =>
+  createHash('sha256').update(canonicalJson(record)).digest('hex');
+
+/**
+ * Check that every record is unmodified and that none is missing from the chain.
+ * Removing records from the very end cannot be detected from the trail alone;
+ * compare the last sequence and hash with an externally kept copy for that.
+ */
+export const verifyAuditChain = (records: AuditRecord[]): AuditVerification => {
+  let previousHash = GENESIS_HASH;
+
+  for (let index = 0; index < records.length; index++) {
+    const { hash, ...content } = records[index];
+    const expectedSequence = index + 1;
+
+    if (content.sequence !== expectedSequence) {
+      return {
+        valid: false,
+        checked: index,
+        sequence: expectedSequence,
+        reason: `Expected sequence ${expectedSequence} but found ${content.sequence}; a record was removed or reordered`
+      };
+    }
+
+    if (content.previousHash !== previousHash) {
+      return {
+        valid: false,
+        checked: index,
+        sequence: expectedSequence,
+        reason: 'previousHash does not match the preceding record; a record was removed or modified'
+      };
+    }
+
+    if (hashRecord(content) !== hash) {
+      return {
+        valid: false,
+        checked: index,
+        sequence: expectedSequence,
+        reason: 'Record content does not match its hash; the record was modified'
+      };
+    }
+
+    previousHash = hash;
+  }
+
+  return { valid: true, checked: records.length };
+};
+
+/**
+ * Writes the SOX/PCI audit events described in docs/AUDIT_REQUIREMENTS.md
+ * to an append-only, hash-chained store
+ */
+export class AuditLogger {
+  private store: AuditStore;
+  private service: string;
+  // Appends are chained so each record sees its predecessor's hash
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(store: AuditStore, service = 'payment-gateway') {
+    this.store = store;
+    this.service = service;
+  }
+
+  /**
+   * Append an event to the trail
+   * @returns The stored record including its hash
+   */
+  async record(entry: AuditEntry): Promise<AuditRecord> {
+    const append = this.tail.catch(() => undefined).then(async () => {
+      const previous = await this.store.last();
+      const event: AuditEvent = {
+        eventId: uuidv4(),
+        timestamp: new Date().toISOString(),
+        userId: entry.userId || UNKNOWN,
+        ipAddress: entry.ipAddress || UNKNOWN,
+        service: this.service,
+        action: entry.action,
+        status: entry.status,
+        // Round-trip through JSON so the hash covers exactly what is stored (Money, Date, ...)
+        details: JSON.parse(JSON.stringify(entry.details || {}))
+      };
+      const content = {
+        ...event,
+        sequence: previous ? previous.sequence + 1 : 1,
+        previousHash: previous ? previous.hash : GENESIS_HASH
+      };
+      const record: AuditRecord = { ...content, hash: hashRecord(content) };
+
+      await this.store.append(record);
+      return record;
+    });
+
+    this.tail = append;
+    return append;
+  }
+
+  /**
+   * Append a denied access attempt (System Access Logging)
+   */
+  async recordAccessDenied(denial: AccessDenial): Promise<AuditRecord> {
+    return this.record({
+      action: 'access.denied',
+      status: 'failure',
+      userId: denial.userId,
+      ipAddress: denial.ipAddress,
+      details: { resource: denial.resource, reason: denial.reason }
+    });
+  }
+
+  /**
+   * Verify the whole trail held by the store
+   */
+  async verify(): Promise<AuditVerification> {
+    return verifyAuditChain(await this.store.readAll());
+  }
+}
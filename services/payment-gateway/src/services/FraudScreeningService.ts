@@ -0,0 +1,393 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FraudDecision, FraudReason, FraudReviewStatus, FraudScreening } from '../models/FraudScreening';
+import { Money } from '../models/Money';
+import { PaymentMethod } from '../models/Transaction';
+import { FraudScreeningRepository } from '../repositories/FraudScreeningRepository';
+import { PaymentError } from '../errors/PaymentError';
+import { AuditLogger } from './AuditLogger';
+import { config } from '../config';
+import { cardFingerprint } from '../utils/cardFingerprint';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('fraud-screening');
+
+// Reason added when an approved review lets a retried payment through
+const APPROVED_REVIEW_RULE = 'approved_review';
+
+// ISO 3166 alpha-2; proxies send 'XX' (or nothing) when they cannot place an address
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+const UNKNOWN_COUNTRY = 'XX';
+
+export type FraudScreeningOptions = typeof config.fraud;
+
+/**
+ * A payment about to be sent to the provider
+ */
+export interface PaymentScreeningRequest {
+  transactionId: string;
+  merchantId?: string;
+  // End customer the payment is for, unique within the merchant; without one only the card's velocity is limited
+  userId?: string;
+  amount: Money;
+  paymentMethod: PaymentMethod;
+  email?: string;
+  ipAddress?: string;
+  // ISO country of ipAddress, as resolved by the edge proxy
+  ipCountry?: string;
+  // Card a card_token payment method refers to, as kept by the token vault without its number
+  storedCard?: { fingerprint: string; bin: string };
+}
+
+/**
+ * What rules see: the request and what was derived from it
+ */
+export interface ScreeningContext extends PaymentScreeningRequest {
+  cardFingerprint?: string;
+  binCountry?: string;
+  emailDomain?: string;
+  screenedAt: Date;
+}
+
+/**
+ * Score and explanation of a triggered rule; undefined when the rule found nothing
+ */
+export type FraudRuleResult = { score: number; message: string } | undefined;
+
+/**
+ * One check run on every payment. A triggered rule returns its score and why; the scores of all
+ * triggered rules add up to the screening's decision.
+ */
+export interface FraudRule {
+  name: string;
+  evaluate(context: ScreeningContext): Promise<FraudRuleResult>;
+}
+
+/**
+ * Admin deciding on a held payment, recorded in the audit trail
+ */
+export interface FraudReviewContext {
+  actor: string;
+  ipAddress?: string;
+  note?: string;
+}
+
+const threshold = (amounts: Record<string, string>, currency: string): Money | undefined => {
+  const amount = amounts[currency] ?? amounts['*'];
+  return amount !== undefined ? Money.rounded(amount, currency) : undefined;
+};
+
+const knownCountry = (country?: string): string | undefined => {
+  const code = country?.trim().toUpperCase();
+  return code && COUNTRY_CODE.test(code) && code !== UNKNOWN_COUNTRY ? code : undefined;
+};
+
+/**
+ * Too many attempts for one end customer, or with one card, within the window
+ */
+export const velocityRule = (
+  repository: FraudScreeningRepository,
+  key: 'user' | 'card',
+  options: FraudScreeningOptions['velocity']
+): FraudRule => ({
+  name: `${key}_velocity`,
+  async evaluate(context: ScreeningContext): Promise<FraudRuleResult> {
+    const max = key === 'user' ? options.maxPerUser : options.maxPerCard;
+    const id = key === 'user' ? context.userId : context.cardFingerprint;
+    if (!max || !id) {
+      return undefined;
+    }
+
+    const since = new Date(context.screenedAt.getTime() - options.windowSeconds * 1000);
+    const attempts = 1 + await repository.countSince(
+      key === 'user' ? { userId: id, merchantId: context.merchantId } : { cardFingerprint: id },
+      since
+    );
+
+    return attempts > max
+      ? {
+        score: key === 'user' ? options.userScore : options.cardScore,
+        message: `${attempts} attempts by this ${key} within ${options.windowSeconds}s, limit ${max}`
+      }
+      : undefined;
+  }
+});
+
+/**
+ * Amounts at or above the review or block threshold of their currency
+ */
+export const amountThresholdRule = (options: FraudScreeningOptions): FraudRule => ({
+  name: 'amount_threshold',
+  async evaluate({ amount }: ScreeningContext): Promise<FraudRuleResult> {
+    const block = threshold(options.blockAmounts, amount.currency);
+    const review = threshold(options.reviewAmounts, amount.currency);
+
+    if (block && !amount.lessThan(block)) {
+      return { score: options.blockScore, message: `Amount is at or above ${block.toString()} ${amount.currency}` };
+    }
+    if (review && !amount.lessThan(review)) {
+      return { score: options.reviewScore, message: `Amount is at or above ${review.toString()} ${amount.currency}` };
+    }
+    return undefined;
+  }
+});
+
+/**
+ * Card issued in another country than the one the request came from
+ */
+export const binCountryMismatchRule = (options: FraudScreeningOptions): FraudRule => ({
+  name: 'bin_country_mismatch',
+  async evaluate({ binCountry, ipCountry }: ScreeningContext): Promise<FraudRuleResult> {
+    const requestCountry = knownCountry(ipCountry);
+    if (!binCountry || !requestCountry || binCountry === requestCountry) {
+      return undefined;
+    }
+
+    return {
+      score: options.binCountryMismatchScore,
+      message: `Card issued in ${binCountry} but the request came from ${requestCountry}`
+    };
+  }
+});
+
+/**
+ * Customer email at a throwaway mailbox provider, or a subdomain of one
+ */
+export const disposableEmailRule = (options: FraudScreeningOptions): FraudRule => ({
+  name: 'disposable_email',
+  async evaluate({ emailDomain }: ScreeningContext): Promise<FraudRuleResult> {
+    const disposable = emailDomain && options.disposableEmailDomains
+      .find(domain => emailDomain === domain || emailDomain.endsWith(`.${domain}`));
+
+    return disposable
+      ? { score: options.disposableEmailScore, message: `Email domain ${emailDomain} is a disposable mailbox provider` }
+      : undefined;
+  }
+});
+
+/**
+ * The rules every payment is screened with unless others are given
+ */
+export const defaultFraudRules = (repository: FraudScreeningRepository, options: FraudScreeningOptions): FraudRule[] => [
+  velocityRule(repository, 'user', options.velocity),
+  velocityRule(repository, 'card', options.velocity),
+  amountThresholdRule(options),
+  binCountryMismatchRule(options),
+  disposableEmailRule(options)
+];
+
+/**
+ * Rules-based risk check run before a payment is sent to the provider. Each rule scores the payment;
+ * the total decides whether it is allowed, held for an admin to review, or blocked.
+ * Every screening is stored: they are the history velocity rules count and the review queue.
+ */
+export class FraudScreeningService {
+  private repository: FraudScreeningRepository;
+  private auditLogger: AuditLogger;
+  private options: FraudScreeningOptions;
+  private rules: FraudRule[];
+  private cardFingerprintSecret: string;
+
+  /**
+   * @param rules Defaults to defaultFraudRules() for the options
+   */
+  constructor(
+    repository: FraudScreeningRepository,
+    auditLogger: AuditLogger,
+    options: FraudScreeningOptions = config.fraud,
+    rules?: FraudRule[]
+  ) {
+    if (!options.cardFingerprintSecret) {
+      throw new Error('Fraud screening needs a card fingerprint secret');
+    }
+    this.repository = repository;
+    this.auditLogger = auditLogger;
+    this.options = options;
+    this.rules = rules || defaultFraudRules(repository, options);
+    this.cardFingerprintSecret = options.cardFingerprintSecret;
+  }
+
+  /**
+   * Screen a payment and store the outcome. A payment that would be held is allowed instead when an admin
+   * approved an earlier review of the same payment (same user, card, amount and currency) and that approval
+   * has not let another payment through yet.
+   */
+  async screen(request: PaymentScreeningRequest): Promise<FraudScreening> {
+    const context = this.contextFor(request);
+    const reasons: FraudReason[] = [];
+
+    for (const rule of this.rules) {
+      const result = await rule.evaluate(context);
+      if (result) {
+        reasons.push({ rule: rule.name, decision: this.decisionFor(result.score), ...result });
+      }
+    }
+
+    const score = reasons.reduce((total, reason) => total + reason.score, 0);
+    const screening: FraudScreening = {
+      id: uuidv4(),
+      transactionId: request.transactionId,
+      merchantId: request.merchantId,
+      userId: request.userId,
+      cardFingerprint: context.cardFingerprint,
+      binCountry: context.binCountry,
+      ipAddress: request.ipAddress,
+      ipCountry: knownCountry(request.ipCountry),
+      emailDomain: context.emailDomain,
+      amount: request.amount,
+      currency: request.amount.currency,
+      decision: this.decisionFor(score),
+      score,
+      reasons,
+      screenedAt: context.screenedAt
+    };
+
+    if (screening.decision === FraudDecision.REVIEW && !await this.releaseApprovedReview(screening)) {
+      screening.reviewStatus = FraudReviewStatus.PENDING;
+    }
+    await this.repository.save(screening);
+
+    if (screening.decision !== FraudDecision.ALLOW) {
+      logger.warn('Payment stopped by fraud screening', {
+        screeningId: screening.id,
+        transactionId: screening.transactionId,
+        decision: screening.decision,
+        score,
+        rules: reasons.map(reason => reason.rule)
+      });
+    }
+
+    return screening;
+  }
+
+  /**
+   * Payments held for review, oldest first
+   * @param status Only return reviews with this status
+   */
+  async listReviews(status?: FraudReviewStatus): Promise<FraudScreening[]> {
+    return this.repository.listReviews(status);
+  }
+
+  /**
+   * @throws PaymentError fraud_review_not_found when the screening does not exist or was never held
+   */
+  async getReview(id: string): Promise<FraudScreening> {
+    const screening = await this.repository.findById(id);
+
+    if (!screening?.reviewStatus) {
+      throw new PaymentError('Fraud review not found', 'fraud_review_not_found');
+    }
+
+    return screening;
+  }
+
+  /**
+   * Approve a held payment; the customer's next attempt at the same payment is let through
+   */
+  async approveReview(id: string, review: FraudReviewContext): Promise<FraudScreening> {
+    return this.decide(id, FraudReviewStatus.APPROVED, review);
+  }
+
+  /**
+   * Reject a held payment; retries keep being held
+   */
+  async rejectReview(id: string, review: FraudReviewContext): Promise<FraudScreening> {
+    return this.decide(id, FraudReviewStatus.REJECTED, review);
+  }
+
+  private async decide(id: string, status: FraudReviewStatus, review: FraudReviewContext): Promise<FraudScreening> {
+    const screening = await this.getReview(id);
+
+    if (screening.reviewStatus !== FraudReviewStatus.PENDING) {
+      throw new PaymentError(`Fraud review has already been ${screening.reviewStatus}`, 'fraud_review_not_pending');
+    }
+
+    screening.reviewStatus = status;
+    screening.reviewedBy = review.actor;
+    screening.reviewedAt = new Date();
+    screening.reviewNote = review.note;
+    await this.repository.save(screening);
+
+    logger.info('Fraud review decided', { screeningId: id, status, reviewer: review.actor });
+    await this.audit(`fraud_review.${status}`, screening, review);
+
+    return screening;
+  }
+
+  /**
+   * Allow a held screening on the strength of an unused approved review of the same payment
+   * @returns Whether such a review was found
+   */
+  private async releaseApprovedReview(screening: FraudScreening): Promise<boolean> {
+    const reviewedSince = new Date(screening.screenedAt.getTime() - this.options.reviewReleaseSeconds * 1000);
+    const approved = await this.repository.findReleasableReview(screening, reviewedSince);
+    if (!approved) {
+      return false;
+    }
+
+    approved.releasedTransactionId = screening.transactionId;
+    await this.repository.save(approved);
+
+    screening.decision = FraudDecision.ALLOW;
+    screening.reasons.push({
+      rule: APPROVED_REVIEW_RULE,
+      decision: FraudDecision.ALLOW,
+      score: 0,
+      message: `Review ${approved.id} of the same payment was approved by ${approved.reviewedBy}`
+    });
+    return true;
+  }
+
+  private contextFor(request: PaymentScreeningRequest): ScreeningContext {
+    const cardNumber = request.paymentMethod.type === 'card' ? request.paymentMethod.card?.number : undefined;
+    const emailDomain = request.email?.split('@').pop()?.trim().toLowerCase();
+
+    return {
+      ...request,
+      cardFingerprint: cardNumber
+        ? cardFingerprint(cardNumber, this.cardFingerprintSecret)
+        : request.storedCard?.fingerprint,
+      binCountry: this.binCountry(cardNumber || request.storedCard?.bin),
+      emailDomain: emailDomain || undefined,
+      screenedAt: new Date()
+    };
+  }
+
+  // Longest configured prefix of the card number or BIN, so an 8-digit BIN overrides the 6-digit range it is in
+  private binCountry(cardNumber?: string): string | undefined {
+    for (let length = 8; cardNumber && length >= 6; length--) {
+      const country = this.options.binCountries[cardNumber.slice(0, length)];
+      if (country) {
+        return country;
+      }
+    }
+    return undefined;
+  }
+
+  private decisionFor(score: number): FraudDecision {
+    if (score >= this.options.blockScore) {
+      return FraudDecision.BLOCK;
+    }
+    return score >= this.options.reviewScore ? FraudDecision.REVIEW : FraudDecision.ALLOW;
+  }
+
+  private async audit(action: string, screening: FraudScreening, review: FraudReviewContext): Promise<void> {
+    try {
+      await this.auditLogger.record({
+        action,
+        status: 'success',
+        userId: review.actor,
+        ipAddress: review.ipAddress,
+        details: {
+          screeningId: screening.id,
+          transactionId: screening.transactionId,
+          amount: screening.amount,
+          currency: screening.currency,
+          score: screening.score,
+          reason: review.note
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to write audit event', { action, error: (error as Error).message });
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { PaymentError } from '../errors/PaymentError';
+import { IdempotencyRepository, StoredResponse } from '../repositories/IdempotencyRepository';
+import { config } from '../config';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotencyScope {
+  userId: string;
+  key: string;
+  operation: string;
+}
+
+export type IdempotencyOutcome =
+  | { replay: false }
+  | { replay: true; response: StoredResponse };
+
+/**
+ * Tracks Idempotency-Key usage so a retried request gets the original response instead of
+ * repeating its side effects.
+ */
+export class IdempotencyService {
+  private repository: IdempotencyRepository;
+  private ttlMs: number;
+
+  constructor(repository: IdempotencyRepository, ttlSeconds = config.idempotency.ttlSeconds) {
+    this.repository = repository;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * Claim a key for a request, or return the response stored for an earlier identical request
+   * @param scope User, key and operation the request belongs to
+   * @param payload Everything that identifies the request (body and route params)
+   * @throws PaymentError idempotency_key_reused when the key was used for a different request
+   * @throws PaymentError idempotency_key_in_progress when the original request has not finished yet
+   */
+  async begin(scope: IdempotencyScope, payload: unknown): Promise<IdempotencyOutcome> {
+    if (scope.key.length > MAX_KEY_LENGTH) {
+      throw new PaymentError(
+        `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+        'invalid_idempotency_key'
+      );
+    }
+
+    const fingerprint = this.fingerprint(scope.operation, payload);
+    const now = new Date();
+
+    const created = await this.repository.create({
+      userId: scope.userId,
+      key: scope.key,
+      operation: scope.operation,
+      fingerprint,
+      state: 'in_progress',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs)
+    });
+
+    if (created) {
+      return { replay: false };
+    }
+
+    const existing = await this.repository.find(scope.userId, scope.key);
+    if (!existing) {
+      // The earlier record expired between the insert and the lookup
+      return this.begin(scope, payload);
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new PaymentError(
+        'Idempotency-Key has already been used for a different request',
+        'idempotency_key_reused'
+      );
+    }
+
+    if (existing.state !== 'completed' || !existing.response) {
+      throw new PaymentError(
+        'A request with this Idempotency-Key is still being processed',
+        'idempotency_key_in_progress'
+      );
+    }
+
+    return { replay: true, response: existing.response };
+  }
+
+  /**
+   * Store the final response for a claimed key
+   */
+  async complete(scope: IdempotencyScope, response: StoredResponse): Promise<void> {
+    const existing = await this.repository.find(scope.userId, scope.key);
+    if (!existing) {
+      return;
+    }
+
+    await this.repository.save({ ...existing, state: 'completed', response });
+  }
+
+  /**
+   * Give up a claimed key so the client can retry, e.g. after an internal error
+   */
+  async release(scope: IdempotencyScope): Promise<void> {
+    await this.repository.delete(scope.userId, scope.key);
+  }
+
+  // Key order in the JSON body must not change the fingerprint
+  private fingerprint(operation: string, payload: unknown): string {
+    const canonical = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(canonical);
+      }
+      if (value && typeof value === 'object') {
+        return Object.keys(value as Record<string, unknown>)
+          .sort()
+          .map(key => [key, canonical((value as Record<string, unknown>)[key])]);
+      }
+      return value;
+    };
+
+    return createHash('sha256')
+      .update(JSON.stringify([operation, canonical(payload)]))
+      .digest('hex');
+  }
+}
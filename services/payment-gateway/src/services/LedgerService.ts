@@ -0,0 +1,64 @@
+import { AccountBalance, JournalEntry, LedgerImbalance } from '../models/Ledger';
+import { LedgerRepository } from '../repositories/LedgerRepository';
+import { LedgerImbalanceError } from '../errors/PaymentError';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('ledger');
+
+export interface LedgerVerification {
+  balanced: boolean;
+  entriesChecked: number;
+  imbalances: LedgerImbalance[];
+}
+
+/**
+ * Read side of the double-entry ledger for finance: balances at a point in time, the entries
+ * behind a transaction and the check that every entry balances.
+ * Entries are posted by PaymentProcessor together with the transactions they account for.
+ */
+export class LedgerService {
+  private repository: LedgerRepository;
+
+  constructor(repository: LedgerRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Balance of every account, or of one, counting entries effective at or before a time
+   * @param asOf Defaults to now
+   */
+  async balances(asOf: Date = new Date(), account?: string): Promise<AccountBalance[]> {
+    return this.repository.balances({ asOf, account });
+  }
+
+  async entriesFor(transactionId: string): Promise<JournalEntry[]> {
+    return this.repository.findByTransactionId(transactionId);
+  }
+
+  /**
+   * Check that every journal entry sums to zero per currency
+   */
+  async verify(): Promise<LedgerVerification> {
+    const [imbalances, entriesChecked] = await Promise.all([this.repository.findImbalances(), this.repository.count()]);
+
+    if (imbalances.length > 0) {
+      logger.error('Ledger invariant violated', {
+        entries: imbalances.map(imbalance => imbalance.entryId),
+        count: imbalances.length
+      });
+    }
+
+    return { balanced: imbalances.length === 0, entriesChecked, imbalances };
+  }
+
+  /**
+   * @throws LedgerImbalanceError when any journal entry does not sum to zero per currency
+   */
+  async assertBalanced(): Promise<LedgerVerification> {
+    const verification = await this.verify();
+    if (!verification.balanced) {
+      throw new LedgerImbalanceError(verification.imbalances);
+    }
+    return verification;
+  }
+}
@@ -0,0 +1,327 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  IssuedApiKey,
+  Merchant,
+  MerchantApiKey,
+  MerchantProviderCredentials,
+  MerchantStatus
+} from '../models/Merchant';
+import { MerchantRepository } from '../repositories/MerchantRepository';
+import { PaymentProviderAdapter, RestPaymentProviderAdapter } from '../providers';
+import { PaymentError, ProviderError } from '../errors/PaymentError';
+import { AuditLogger } from './AuditLogger';
+import { config } from '../config';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('merchant-service');
+
+// gw_<16 hex key ID>_<43 base64url characters of secret>
+const API_KEY_FORMAT = /^gw_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+// lastUsedAt is only written again after this long, so busy keys do not cause a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface MerchantParams {
+  name: string;
+  defaultCurrency: string;
+  providerCredentials?: MerchantProviderCredentials;
+}
+
+export interface MerchantUpdate extends Partial<MerchantParams> {
+  status?: MerchantStatus;
+}
+
+/**
+ * Admin user making a change, recorded in the audit trail
+ */
+export interface MerchantAdminContext {
+  actor: string;
+  ipAddress?: string;
+}
+
+export interface ApiKeyAuthentication {
+  merchant: Merchant;
+  apiKey: MerchantApiKey;
+}
+
+const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Manages merchants, their API keys and the provider account each merchant's payments go to
+ */
+export class MerchantService {
+  private repository: MerchantRepository;
+  private auditLogger: AuditLogger;
+  private providerAdapters = new Map<string, { credentials: string; adapter: PaymentProviderAdapter }>();
+
+  constructor(repository: MerchantRepository, auditLogger: AuditLogger) {
+    this.repository = repository;
+    this.auditLogger = auditLogger;
+  }
+
+  async createMerchant(params: MerchantParams, context: MerchantAdminContext): Promise<Merchant> {
+    this.assertProviderCredentials(params.providerCredentials);
+
+    const merchant: Merchant = {
+      id: uuidv4(),
+      name: params.name,
+      status: MerchantStatus.ACTIVE,
+      defaultCurrency: params.defaultCurrency,
+      providerCredentials: params.providerCredentials,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await this.repository.save(merchant);
+    await this.audit('merchant.create', context, { merchantId: merchant.id, name: merchant.name });
+
+    return merchant;
+  }
+
+  /**
+   * Change a merchant's details; suspending a merchant disables all of its API keys
+   */
+  async updateMerchant(id: string, update: MerchantUpdate, context: MerchantAdminContext): Promise<Merchant> {
+    this.assertProviderCredentials(update.providerCredentials);
+
+    const merchant = await this.getMerchant(id);
+    const updated: Merchant = {
+      ...merchant,
+      name: update.name ?? merchant.name,
+      status: update.status ?? merchant.status,
+      defaultCurrency: update.defaultCurrency ?? merchant.defaultCurrency,
+      providerCredentials: update.providerCredentials ?? merchant.providerCredentials,
+      updatedAt: new Date()
+    };
+    await this.repository.save(updated);
+    await this.audit('merchant.update', context, {
+      merchantId: id,
+      changes: Object.keys(update),
+      status: updated.status
+    });
+
+    return updated;
+  }
+
+  /**
+   * @throws PaymentError merchant_not_found
+   */
+  async getMerchant(id: string): Promise<Merchant> {
+    const merchant = await this.repository.findById(id);
+
+    if (!merchant) {
+      throw new PaymentError('Merchant not found', 'merchant_not_found');
+    }
+
+    return merchant;
+  }
+
+  async listMerchants(): Promise<Merchant[]> {
+    return this.repository.list();
+  }
+
+  /**
+   * The merchant a caller acts for, provided it may still transact
+   * @throws PaymentError merchant_not_found or merchant_suspended
+   */
+  async getActiveMerchant(id: string): Promise<Merchant> {
+    const merchant = await this.getMerchant(id);
+
+    if (merchant.status !== MerchantStatus.ACTIVE) {
+      throw new PaymentError('Merchant is suspended', 'merchant_suspended');
+    }
+
+    return merchant;
+  }
+
+  /**
+   * Create a new API key. The full key is only part of the return value and cannot be recovered later.
+   * @param permissions Permissions granted to callers using the key
+   */
+  async issueApiKey(
+    merchantId: string,
+    permissions: string[],
+    context: MerchantAdminContext
+  ): Promise<IssuedApiKey> {
+    await this.getMerchant(merchantId);
+
+    const issued = this.generateApiKey(merchantId, permissions);
+    await this.repository.saveApiKey(issued.apiKey);
+    await this.audit('merchant.api_key_issue', context, {
+      merchantId,
+      apiKeyId: issued.apiKey.id,
+      prefix: issued.apiKey.prefix,
+      permissions
+    });
+
+    return issued;
+  }
+
+  async listApiKeys(merchantId: string): Promise<MerchantApiKey[]> {
+    await this.getMerchant(merchantId);
+    return this.repository.listApiKeys(merchantId);
+  }
+
+  /**
+   * Replace a key with a new one holding the same permissions.
+   * The old key keeps working for the configured grace period.
+   */
+  async rotateApiKey(merchantId: string, keyId: string, context: MerchantAdminContext): Promise<IssuedApiKey> {
+    const current = await this.findUsableApiKey(merchantId, keyId);
+
+    const graceEnd = new Date(Date.now() + config.merchants.apiKeyRotationGraceSeconds * 1000);
+    current.expiresAt = current.expiresAt && current.expiresAt < graceEnd ? current.expiresAt : graceEnd;
+    await this.repository.saveApiKey(current);
+
+    const issued = this.generateApiKey(merchantId, current.permissions);
+    await this.repository.saveApiKey(issued.apiKey);
+    await this.audit('merchant.api_key_rotate', context, {
+      merchantId,
+      apiKeyId: issued.apiKey.id,
+      prefix: issued.apiKey.prefix,
+      replacedApiKeyId: current.id,
+      replacedKeyExpiresAt: current.expiresAt
+    });
+
+    return issued;
+  }
+
+  /**
+   * Disable a key immediately
+   */
+  async revokeApiKey(merchantId: string, keyId: string, context: MerchantAdminContext): Promise<MerchantApiKey> {
+    const apiKey = await this.findUsableApiKey(merchantId, keyId);
+
+    apiKey.revokedAt = new Date();
+    await this.repository.saveApiKey(apiKey);
+    await this.audit('merchant.api_key_revoke', context, { merchantId, apiKeyId: apiKey.id, prefix: apiKey.prefix });
+
+    return apiKey;
+  }
+
+  /**
+   * Identify the merchant behind an API key
+   * @throws PaymentError invalid_api_key for unknown, revoked or expired keys
+   * @throws PaymentError merchant_suspended when the key is valid but its merchant may not transact
+   */
+  async authenticate(key: string): Promise<ApiKeyAuthentication> {
+    const match = API_KEY_FORMAT.exec(key);
+    const apiKey = match ? await this.repository.findApiKey(match[1]) : undefined;
+    const now = new Date();
+
+    if (!match || !apiKey || !this.secretMatches(apiKey, match[2]) || !this.isUsable(apiKey, now)) {
+      throw new PaymentError('Invalid API key', 'invalid_api_key');
+    }
+
+    const merchant = await this.getActiveMerchant(apiKey.merchantId);
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      apiKey.lastUsedAt = now;
+      await this.repository.saveApiKey(apiKey);
+    }
+
+    return { merchant, apiKey };
+  }
+
+  /**
+   * Provider adapter for a merchant with its own provider account
+   * @returns undefined when the merchant uses the gateway's default provider
+   * @throws ProviderError when the environment variable holding the merchant's provider key is not set
+   */
+  async providerAdapterFor(merchantId: string): Promise<PaymentProviderAdapter | undefined> {
+    const { providerCredentials } = await this.getMerchant(merchantId);
+    if (!providerCredentials) {
+      return undefined;
+    }
+
+    const credentials = JSON.stringify(providerCredentials);
+    const cached = this.providerAdapters.get(merchantId);
+    if (cached?.credentials === credentials) {
+      return cached.adapter;
+    }
+
+    const apiKey = process.env[providerCredentials.apiKeyEnv];
+    if (!apiKey) {
+      logger.error('Merchant provider key is not configured', { merchantId, apiKeyEnv: providerCredentials.apiKeyEnv });
+      throw new ProviderError('Payment provider credentials for this merchant are not configured', 'provider_unavailable', false);
+    }
+
+    // Named per merchant so one merchant's failing provider account does not open the others' circuit
+    const adapter = new RestPaymentProviderAdapter({
+      name: `rest:${merchantId}`,
+      baseUrl: providerCredentials.url || config.paymentProvider.url,
+      apiKey
+    });
+    this.providerAdapters.set(merchantId, { credentials, adapter });
+
+    return adapter;
+  }
+
+  private generateApiKey(merchantId: string, permissions: string[]): IssuedApiKey {
+    const id = randomBytes(8).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const prefix = `gw_${id}`;
+
+    return {
+      key: `${prefix}_${secret}`,
+      apiKey: {
+        id,
+        merchantId,
+        prefix,
+        secretHash: hashSecret(secret),
+        permissions: [...permissions],
+        createdAt: new Date()
+      }
+    };
+  }
+
+  /**
+   * @throws PaymentError api_key_not_found when the key does not belong to the merchant or no longer works
+   */
+  private async findUsableApiKey(merchantId: string, keyId: string): Promise<MerchantApiKey> {
+    const apiKey = await this.repository.findApiKey(keyId);
+
+    if (!apiKey || apiKey.merchantId !== merchantId || !this.isUsable(apiKey, new Date())) {
+      throw new PaymentError('API key not found', 'api_key_not_found');
+    }
+
+    return apiKey;
+  }
+
+  private isUsable(apiKey: MerchantApiKey, now: Date): boolean {
+    return !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > now);
+  }
+
+  private secretMatches(apiKey: MerchantApiKey, secret: string): boolean {
+    const expected = Buffer.from(apiKey.secretHash, 'hex');
+    const actual = Buffer.from(hashSecret(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Only environment variables reserved for merchant provider keys may be referenced,
+   * so an admin cannot point a merchant at another secret of the gateway
+   */
+  private assertProviderCredentials(credentials?: MerchantProviderCredentials): void {
+    if (credentials && !credentials.apiKeyEnv.startsWith(config.merchants.providerKeyEnvPrefix)) {
+      throw new PaymentError(
+        `Provider key environment variables must start with ${config.merchants.providerKeyEnvPrefix}`,
+        'invalid_provider_credentials'
+      );
+    }
+  }
+
+  private async audit(action: string, context: MerchantAdminContext, details: Record<string, unknown>): Promise<void> {
+    try {
+      await this.auditLogger.record({
+        action,
+        status: 'success',
+        userId: context.actor,
+        ipAddress: context.ipAddress,
+        details
+      });
+    } catch (error) {
+      logger.error('Failed to write audit event', { action, error: (error as Error).message, details });
+    }
+  }
+}
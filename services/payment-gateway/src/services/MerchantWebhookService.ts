@@ -0,0 +1,367 @@
+import { randomBytes } from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  WebhookSubscriptionStatus
+} from '../models/MerchantWebhook';
+import { Transaction } from '../models/Transaction';
+import { WebhookDeliveryFilter, WebhookRepository } from '../repositories/WebhookRepository';
+import { PaymentError } from '../errors/PaymentError';
+import { AuditLogger } from './AuditLogger';
+import { config } from '../config';
+import { createLogger } from '../utils/logging';
+import { PollingWorker } from '../utils/polling';
+import { RetryPolicy } from '../utils/resilience';
+import { signWebhook } from '../utils/webhookSignature';
+
+const logger = createLogger('merchant-webhooks');
+
+// Subscribes to every event type
+export const ALL_EVENT_TYPES = '*';
+
+export interface MerchantWebhookOptions {
+  // Attempts per delivery and the capped exponential delay between them
+  retry: RetryPolicy;
+  timeoutMs: number;
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export interface SubscriptionParams {
+  url: string;
+  eventTypes: string[];
+}
+
+export interface SubscriptionUpdate extends Partial<SubscriptionParams> {
+  status?: WebhookSubscriptionStatus;
+}
+
+/**
+ * User making a change, recorded in the audit trail
+ */
+export interface WebhookActorContext {
+  actor: string;
+  ipAddress?: string;
+}
+
+const defaultOptions = (): MerchantWebhookOptions => ({
+  retry: {
+    maxAttempts: config.merchantWebhooks.maxAttempts,
+    baseDelayMs: config.merchantWebhooks.baseDelayMs,
+    maxDelayMs: config.merchantWebhooks.maxDelayMs
+  },
+  timeoutMs: config.merchantWebhooks.timeoutMs,
+  pollIntervalMs: config.merchantWebhooks.pollIntervalMs,
+  batchSize: config.merchantWebhooks.batchSize
+});
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: doubles each time up to the cap
+ */
+const retryDelay = (attempts: number, policy: RetryPolicy): number =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempts - 1));
+
+/**
+ * Tells merchants about transaction status changes through signed webhooks.
+ * Every event is queued per subscription in the repository and sent by a polling worker,
+ * with exponential retries; deliveries out of attempts wait on the dead-letter list for a manual redelivery.
+ */
+export class MerchantWebhookService {
+  private repository: WebhookRepository;
+  private auditLogger: AuditLogger;
+  private options: MerchantWebhookOptions;
+  private worker: PollingWorker;
+  private started = false;
+
+  constructor(repository: WebhookRepository, auditLogger: AuditLogger, options: MerchantWebhookOptions = defaultOptions()) {
+    this.repository = repository;
+    this.auditLogger = auditLogger;
+    this.options = options;
+    this.worker = new PollingWorker('merchant-webhooks', () => this.dispatchDue(), options.pollIntervalMs);
+  }
+
+  /**
+   * Start sending queued deliveries in the background; new events are then also sent straight away
+   */
+  start(): void {
+    this.started = true;
+    this.worker.start();
+  }
+
+  /**
+   * Stop sending and wait for deliveries in flight
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    await this.worker.stop();
+  }
+
+  /**
+   * Register a URL for some event types; the response is the only place the signing secret appears
+   */
+  async createSubscription(
+    merchantId: string,
+    params: SubscriptionParams,
+    context: WebhookActorContext
+  ): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      merchantId,
+      url: params.url,
+      eventTypes: params.eventTypes,
+      status: WebhookSubscriptionStatus.ACTIVE,
+      secret: `whsec_${randomBytes(24).toString('base64url')}`,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await this.repository.saveSubscription(subscription);
+    await this.audit('webhook_subscription.create', context, {
+      merchantId,
+      subscriptionId: subscription.id,
+      url: subscription.url,
+      eventTypes: subscription.eventTypes
+    });
+
+    return subscription;
+  }
+
+  async listSubscriptions(merchantId: string): Promise<WebhookSubscription[]> {
+    return this.repository.listSubscriptions(merchantId);
+  }
+
+  /**
+   * @throws PaymentError webhook_subscription_not_found, also for another merchant's subscription
+   */
+  async getSubscription(merchantId: string, id: string): Promise<WebhookSubscription> {
+    const subscription = await this.repository.findSubscription(id);
+    if (!subscription || subscription.merchantId !== merchantId) {
+      throw new PaymentError('Webhook subscription not found', 'webhook_subscription_not_found');
+    }
+    return subscription;
+  }
+
+  async updateSubscription(
+    merchantId: string,
+    id: string,
+    update: SubscriptionUpdate,
+    context: WebhookActorContext
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.getSubscription(merchantId, id);
+
+    const updated: WebhookSubscription = {
+      ...subscription,
+      url: update.url ?? subscription.url,
+      eventTypes: update.eventTypes ?? subscription.eventTypes,
+      status: update.status ?? subscription.status,
+      updatedAt: new Date()
+    };
+    await this.repository.saveSubscription(updated);
+    await this.audit('webhook_subscription.update', context, { merchantId, subscriptionId: id, changes: update });
+
+    return updated;
+  }
+
+  /**
+   * Remove a subscription; deliveries still queued for it are dropped when they come due
+   */
+  async deleteSubscription(merchantId: string, id: string, context: WebhookActorContext): Promise<void> {
+    await this.getSubscription(merchantId, id);
+    await this.repository.deleteSubscription(id);
+    await this.audit('webhook_subscription.delete', context, { merchantId, subscriptionId: id });
+  }
+
+  /**
+   * Queue an event for every matching subscription when a merchant's transaction changed status.
+   * Called for every save; the event ID is derived from the status history, so saving a transaction
+   * again without a new status queues nothing.
+   */
+  async transactionSaved(transaction: Transaction): Promise<void> {
+    const change = transaction.statusHistory[transaction.statusHistory.length - 1];
+    if (!transaction.merchantId || !change || change.from === null) {
+      return;
+    }
+
+    const eventId = `${transaction.id}:${transaction.statusHistory.length - 1}`;
+    const eventType = `${transaction.type}.${transaction.status}`;
+    const subscriptions = (await this.repository.listSubscriptions(transaction.merchantId)).filter(subscription =>
+      subscription.status === WebhookSubscriptionStatus.ACTIVE
+      && (subscription.eventTypes.includes(eventType) || subscription.eventTypes.includes(ALL_EVENT_TYPES)));
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify({ id: eventId, type: eventType, createdAt: change.timestamp, data: transaction });
+    const now = new Date();
+    let queued = 0;
+
+    for (const subscription of subscriptions) {
+      const inserted = await this.repository.insertDelivery({
+        id: uuidv4(),
+        subscriptionId: subscription.id,
+        merchantId: transaction.merchantId,
+        eventId,
+        eventType,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: [],
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now
+      });
+      queued += inserted ? 1 : 0;
+    }
+
+    if (queued > 0 && this.started) {
+      void this.worker.runOnce();
+    }
+  }
+
+  /**
+   * Send every delivery that is due, oldest first, up to the batch size
+   * @returns Number of deliveries attempted
+   */
+  async dispatchDue(now: Date = new Date()): Promise<number> {
+    const due = await this.repository.listDueDeliveries(now, this.options.batchSize);
+
+    for (const delivery of due) {
+      await this.attempt(delivery);
+    }
+
+    return due.length;
+  }
+
+  /**
+   * List deliveries, newest first
+   * @param filter Merchant-bound callers must pass their merchantId
+   */
+  async listDeliveries(filter: WebhookDeliveryFilter, limit: number): Promise<WebhookDelivery[]> {
+    return this.repository.listDeliveries(filter, limit);
+  }
+
+  /**
+   * @param merchantId Merchant the caller acts for, if any; other merchants' deliveries are reported as not found
+   * @throws PaymentError webhook_delivery_not_found
+   */
+  async getDelivery(id: string, merchantId?: string): Promise<WebhookDelivery> {
+    const delivery = await this.repository.findDelivery(id);
+    if (!delivery || (merchantId !== undefined && delivery.merchantId !== merchantId)) {
+      throw new PaymentError('Webhook delivery not found', 'webhook_delivery_not_found');
+    }
+    return delivery;
+  }
+
+  /**
+   * Send a delivery again now, whatever its status. A delivery that was still being retried keeps
+   * its schedule if this attempt fails; any other goes (back) to the dead-letter list.
+   * @param merchantId Merchant the caller acts for, if any
+   * @throws PaymentError webhook_delivery_not_found, or webhook_subscription_not_found if the subscription was deleted
+   */
+  async redeliver(id: string, merchantId: string | undefined, context: WebhookActorContext): Promise<WebhookDelivery> {
+    const delivery = await this.getDelivery(id, merchantId);
+    const subscription = await this.getSubscription(delivery.merchantId, delivery.subscriptionId);
+
+    const result = await this.send(delivery, subscription, delivery.status === WebhookDeliveryStatus.PENDING);
+    await this.audit('webhook_delivery.redeliver', context, {
+      merchantId: delivery.merchantId,
+      deliveryId: id,
+      eventId: delivery.eventId,
+      deliveryStatus: result.status
+    });
+
+    return result;
+  }
+
+  /**
+   * Send a queued delivery to its subscription, or drop it if the subscription is gone or disabled
+   */
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const subscription = await this.repository.findSubscription(delivery.subscriptionId);
+
+    if (!subscription || subscription.status !== WebhookSubscriptionStatus.ACTIVE) {
+      const dropped: WebhookDelivery = {
+        ...delivery,
+        status: WebhookDeliveryStatus.DEAD,
+        nextAttemptAt: undefined,
+        updatedAt: new Date()
+      };
+      await this.repository.saveDelivery(dropped);
+      logger.info('Dropped webhook delivery for an inactive subscription', { deliveryId: delivery.id });
+      return dropped;
+    }
+
+    return this.send(delivery, subscription, true);
+  }
+
+  /**
+   * POST the payload once and record the outcome
+   * @param retry Schedule another attempt on failure unless the attempts are used up; otherwise the delivery is dead
+   */
+  private async send(delivery: WebhookDelivery, subscription: WebhookSubscription, retry: boolean): Promise<WebhookDelivery> {
+    const attemptedAt = new Date();
+    let attempt: WebhookAttempt;
+
+    try {
+      const response = await axios.post(subscription.url, delivery.payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Gateway-Signature': signWebhook(delivery.payload, subscription.secret),
+          'X-Gateway-Event': delivery.eventType,
+          'X-Gateway-Delivery': delivery.id
+        },
+        timeout: this.options.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true
+      });
+      attempt = {
+        attemptedAt,
+        statusCode: response.status,
+        error: response.status >= 200 && response.status < 300 ? undefined : `HTTP ${response.status}`,
+        durationMs: Date.now() - attemptedAt.getTime()
+      };
+    } catch (error) {
+      attempt = { attemptedAt, error: (error as Error).message, durationMs: Date.now() - attemptedAt.getTime() };
+    }
+
+    const attempts = [...delivery.attempts, attempt];
+    const succeeded = attempt.error === undefined;
+    const dead = !succeeded && (!retry || attempts.length >= this.options.retry.maxAttempts);
+    const updated: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      status: succeeded
+        ? WebhookDeliveryStatus.SUCCEEDED
+        : dead ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: succeeded || dead
+        ? undefined
+        : new Date(Date.now() + retryDelay(attempts.length, this.options.retry)),
+      updatedAt: new Date()
+    };
+    await this.repository.saveDelivery(updated);
+
+    if (dead) {
+      logger.warn('Webhook delivery moved to the dead-letter list', {
+        deliveryId: delivery.id,
+        merchantId: delivery.merchantId,
+        attempts: attempts.length,
+        error: attempt.error
+      });
+    } else if (!succeeded) {
+      logger.info('Webhook delivery failed; will retry', { deliveryId: delivery.id, error: attempt.error });
+    }
+
+    return updated;
+  }
+
+  private async audit(action: string, context: WebhookActorContext, details: Record<string, unknown>): Promise<void> {
+    try {
+      await this.auditLogger.record({ action, status: 'success', userId: context.actor, ipAddress: context.ipAddress, details });
+    } catch (error) {
+      logger.error('Failed to write audit event', { action, error: (error as Error).message });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { OutboxEntry, OutboxStatus } from '../models/OutboxEntry';
+import { OutboxRepository } from '../repositories/OutboxRepository';
+import { MessageBroker } from '../messaging/MessageBroker';
+import { config } from '../config';
+import { createLogger } from '../utils/logging';
+import { PollingWorker } from '../utils/polling';
+
+const logger = createLogger('outbox-relay');
+
+export interface OutboxRelayOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  // Delay after the first failed publish, doubled for each further one up to the cap
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+const defaultOptions = (): OutboxRelayOptions => ({
+  pollIntervalMs: config.events.pollIntervalMs,
+  batchSize: config.events.batchSize,
+  retryBaseDelayMs: config.events.retryBaseDelayMs,
+  retryMaxDelayMs: config.events.retryMaxDelayMs
+});
+
+/**
+ * Publishes the domain events in the outbox to the message broker, oldest first.
+ * Events are never given up on: when the broker refuses one, it and every later event wait
+ * for the retry, so subscribers see events in the order they were written.
+ */
+export class OutboxRelay {
+  private outbox: OutboxRepository;
+  private broker: MessageBroker;
+  private options: OutboxRelayOptions;
+  private worker: PollingWorker;
+
+  constructor(outbox: OutboxRepository, broker: MessageBroker, options: OutboxRelayOptions = defaultOptions()) {
+    this.outbox = outbox;
+    this.broker = broker;
+    this.options = options;
+    this.worker = new PollingWorker('outbox-relay', () => this.relayPending(), options.pollIntervalMs);
+  }
+
+  start(): void {
+    this.worker.start();
+  }
+
+  /**
+   * Stop relaying and wait for the batch in progress
+   */
+  async stop(): Promise<void> {
+    await this.worker.stop();
+  }
+
+  /**
+   * Publish pending events up to the batch size, stopping at the first one that is waiting for a retry or fails
+   * @returns Number of events published
+   */
+  async relayPending(now: Date = new Date()): Promise<number> {
+    const pending = await this.outbox.listPending(this.options.batchSize);
+    let published = 0;
+
+    for (const entry of pending) {
+      if (entry.nextAttemptAt > now || !await this.publish(entry)) {
+        break;
+      }
+      published += 1;
+    }
+
+    return published;
+  }
+
+  private async publish(entry: OutboxEntry): Promise<boolean> {
+    try {
+      await this.broker.publish(entry.event);
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const delay = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** (attempts - 1));
+      await this.outbox.save({
+        ...entry,
+        attempts,
+        lastError: (error as Error).message,
+        nextAttemptAt: new Date(Date.now() + delay)
+      });
+      logger.warn('Could not publish domain event; will retry', {
+        eventId: entry.event.id,
+        type: entry.event.type,
+        attempts,
+        error: (error as Error).message
+      });
+      return false;
+    }
+
+    await this.outbox.save({ ...entry, status: OutboxStatus.PUBLISHED, lastError: undefined, publishedAt: new Date() });
+    return true;
+  }
+}
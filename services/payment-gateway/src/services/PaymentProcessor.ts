@@ -1,281 +1,1127 @@
 import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
 import { Decimal } from 'decimal.js';
-import winston from 'winston';
-import { Transaction, TransactionStatus, TransactionType } from '../models/Transaction';
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  PaymentMethod,
+  RefundReason
+} from '../models/Transaction';
+import { Money } from '../models/Money';
+import { RefundApproval, RefundApprovalStatus } from '../models/RefundApproval';
+import { FraudDecision } from '../models/FraudScreening';
+import { CardToken } from '../models/CardToken';
+import { SYSTEM_ACTOR, initialStatusHistory, transitionTransaction } from '../models/TransactionStateMachine';
+import { domainEventsFor } from '../models/DomainEvent';
+import { journalEntriesFor } from '../models/Ledger';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { InMemoryTransactionRepository } from '../repositories/InMemoryTransactionRepository';
+import { RefundApprovalRepository } from '../repositories/RefundApprovalRepository';
+import { InMemoryRefundApprovalRepository } from '../repositories/InMemoryRefundApprovalRepository';
+import { InMemoryAuditStore } from '../repositories/InMemoryAuditStore';
+import { InMemoryCardTokenRepository } from '../repositories/InMemoryCardTokenRepository';
+import {
+  DetokenizingPaymentProviderAdapter,
+  PaymentProviderAdapter,
+  ResilienceOptions,
+  ResilientPaymentProviderAdapter,
+  createPaymentProviderAdapter
+} from '../providers';
+import { CircuitBreakerSnapshot } from '../utils/resilience';
+import { AuditLogger } from './AuditLogger';
+import { FraudScreeningService } from './FraudScreeningService';
+import { TokenizationService } from './TokenizationService';
+import { AuditStatus } from '../models/AuditEvent';
+import {
+  PaymentBlockedError,
+  PaymentError,
+  PaymentHeldForReviewError,
+  ProviderError,
+  RefundApprovalRequiredError
+} from '../errors/PaymentError';
+import { config } from '../config';
+import { createLogger } from '../utils/logging';
 
-// Configure logger - Updated
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.json(),
-  defaultMeta: { service: 'payment-processor' },
-  transports: [
-    new winston.transports.Console(),
-    new winston.transports.File({ filename: 'payment-processor.log' })
-  ]
-});
+export { PaymentBlockedError, PaymentError, PaymentHeldForReviewError, RefundApprovalRequiredError };
 
-// Constants
-const MAX_RETRY_ATTEMPTS = 3;
-const PAYMENT_PROVIDER_URL = process.env.PAYMENT_PROVIDER_URL || 'https://api.payment-provider.com/v1';
-const API_KEY = process.env.PAYMENT_API_KEY || 'test_key';
+const logger = createLogger('payment-processor');
+
+// What clients are told about a provider failure. The provider's own message can name internal hosts,
+// so it only goes to the logs and transaction.error.
+const PROVIDER_FAILURE_MESSAGES: Record<string, string> = {
+  provider_timeout: 'Payment provider did not respond in time',
+  provider_unavailable: 'Payment provider is unavailable',
+  provider_circuit_open: 'Payment provider is unavailable; try again later'
+};
+
+/**
+ * The error to answer a failed provider call with. Declines already carry their code, and unexpected
+ * errors must reach the error handler as a generic 500, so only provider failures are replaced.
+ */
+const clientError = (error: unknown): unknown =>
+  error instanceof ProviderError
+    ? new PaymentError(PROVIDER_FAILURE_MESSAGES[error.code] ?? 'Payment provider could not process the request', error.code)
+    : error;
 
 export interface PaymentProcessorOptions {
-  retryAttempts?: number;
-  logLevel?: string;
+  transactionRepository?: TransactionRepository;
+  providerAdapter?: PaymentProviderAdapter;
+  // Retry, timeout and circuit breaker settings for provider calls; defaults come from config
+  resilience?: ResilienceOptions;
+  // Adapter for merchants with their own provider account; undefined falls back to providerAdapter
+  merchantProviderAdapter?: (merchantId: string) => Promise<PaymentProviderAdapter | undefined>;
+  refundApprovalRepository?: RefundApprovalRepository;
+  auditLogger?: AuditLogger;
+  // Major-unit amount per currency above which refunds need approval; '*' covers other currencies,
+  // and without either every refund needs approval
+  refundApprovalThresholds?: Record<string, string>;
+  // Share of each payment or capture posted to the ledger as the platform's fee, e.g. '0.029'
+  feeRate?: string;
+  // Screens payments and authorizations before they are sent to the provider; none are screened without it
+  fraudScreening?: FraudScreeningService;
+  // Vault card_token payment methods are looked up in and read back from by the provider adapter;
+  // defaults to an empty in-memory vault
+  tokenization?: TokenizationService;
+  // Called with a copy of every transaction after it is saved, e.g. to notify merchants of status changes
+  onTransactionSaved?: (transaction: Transaction) => Promise<void>;
 }
 
-export class PaymentError extends Error {
-  code: string;
-  
-  constructor(message: string, code: string) {
-    super(message);
-    this.name = 'PaymentError';
-    this.code = code;
-  }
+export interface PaymentOperationOptions {
+  // Merchant the caller acts for; existing transactions of other merchants are reported as not found
+  merchantId?: string;
+  // Key forwarded to the provider; defaults to the new transaction ID
+  idempotencyKey?: string;
+  // User recorded in the status history and audit trail; defaults to 'system'
+  actor?: string;
+  // Origin IP address recorded in the audit trail
+  ipAddress?: string;
+  // Country of ipAddress and the customer's email, used by fraud screening only
+  ipCountry?: string;
+  customerEmail?: string;
+  // End customer the payment is for, whose attempts fraud screening limits; unlike the actor,
+  // a merchant server acts for many customers. Without one only the card's attempts are limited.
+  customerId?: string;
+}
+
+export interface RefundOptions extends PaymentOperationOptions {
+  reason?: RefundReason;
+}
+
+export interface CaptureOptions extends PaymentOperationOptions {
+  // Release whatever this capture leaves of the hold; the authorization cannot be captured again
+  final?: boolean;
+}
+
+export interface RefundReviewOptions {
+  // User approving or rejecting the refund (the checker)
+  actor: string;
+  // Merchant the checker acts for; requests of other merchants are reported as not found
+  merchantId?: string;
+  ipAddress?: string;
+  // Comment recorded with the decision
+  note?: string;
+}
+
+/**
+ * Outcome the provider reported for a transaction after the original call returned
+ */
+export interface ProviderUpdate {
+  status: TransactionStatus;
+  // Recorded in the status history
+  reason: string;
+  // Failures only: the provider's error
+  error?: {
+    message: string;
+    code: string;
+  };
 }
 
 export class PaymentProcessor {
-  private retryAttempts: number;
+  private transactionRepository: TransactionRepository;
+  private providerAdapter: ResilientPaymentProviderAdapter;
+  private merchantProviderAdapter?: (merchantId: string) => Promise<PaymentProviderAdapter | undefined>;
+  private resilience?: ResilienceOptions;
+  private refundApprovalRepository: RefundApprovalRepository;
+  private refundApprovalThresholds: Record<string, string>;
+  private feeRate: Decimal;
+  private fraudScreening?: FraudScreeningService;
+  private tokenization: TokenizationService;
+  private auditLogger: AuditLogger;
+  private onTransactionSaved?: (transaction: Transaction) => Promise<void>;
+  private locks = new Map<string, Promise<unknown>>();
   
   constructor(options: PaymentProcessorOptions = {}) {
-    this.retryAttempts = options.retryAttempts || MAX_RETRY_ATTEMPTS;
-    
-    if (options.logLevel) {
-      logger.level = options.logLevel;
+    this.transactionRepository = options.transactionRepository || new InMemoryTransactionRepository();
+    const providerAdapter = options.providerAdapter || createPaymentProviderAdapter();
+    this.providerAdapter = providerAdapter instanceof ResilientPaymentProviderAdapter
+      ? providerAdapter
+      : new ResilientPaymentProviderAdapter(providerAdapter, options.resilience);
+    this.merchantProviderAdapter = options.merchantProviderAdapter;
+    this.resilience = options.resilience;
+    this.refundApprovalRepository = options.refundApprovalRepository || new InMemoryRefundApprovalRepository();
+    this.refundApprovalThresholds = options.refundApprovalThresholds || config.refundApproval.thresholds;
+    this.feeRate = new Decimal(options.feeRate ?? config.ledger.feeRate);
+    if (this.feeRate.isNegative() || this.feeRate.gte(1)) {
+      throw new Error(`Fee rate must be at least 0 and below 1, got ${this.feeRate.toString()}`);
     }
+    this.fraudScreening = options.fraudScreening;
+    this.tokenization = options.tokenization || new TokenizationService(new InMemoryCardTokenRepository());
+    this.auditLogger = options.auditLogger || new AuditLogger(new InMemoryAuditStore());
+    this.onTransactionSaved = options.onTransactionSaved;
   }
   
   /**
    * Process a payment transaction
-   * @param amount Amount to charge in cents
-   * @param currency Currency code (e.g., 'USD')
+   * @param amount Amount to charge, in major units of its currency
    * @param paymentMethod Payment method details
    * @param metadata Additional metadata
+   * @param options Provider call options
+   * @throws PaymentBlockedError or PaymentHeldForReviewError when fraud screening stopped the payment;
+   * nothing is recorded as a transaction then
+   * @throws PaymentError card_token_not_found when a card token is not the caller's
    */
   async processPayment(
-    amount: number,
-    currency: string,
-    paymentMethod: any,
-    metadata: Record<string, unknown> = {}
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata: Record<string, unknown> = {},
+    options: PaymentOperationOptions = {}
   ): Promise<Transaction> {
     const transactionId = uuidv4();
     logger.info('Starting payment processing', { 
       transactionId,
-      amount,
-      currency,
+      amount: amount.toString(),
+      currency: amount.currency,
       metadata
     });
     
-    // Convert amount to Decimal for precision
-    const decimalAmount = new Decimal(amount);
+    this.assertPositive(amount, 'Payment');
+    const providerAdapter = await this.providerFor(options.merchantId);
+    const cardToken = await this.cardTokenFor(paymentMethod, options);
+    await this.screenForFraud('payment', transactionId, amount, paymentMethod, options, cardToken);
     
     // Create transaction record
     const transaction: Transaction = {
       id: transactionId,
-      amount: decimalAmount.toNumber(), // Issue: Converting back to number loses precision
-      currency,
+      merchantId: options.merchantId,
+      amount,
+      currency: amount.currency,
       status: TransactionStatus.PENDING,
+      statusHistory: initialStatusHistory(TransactionStatus.PENDING, options.actor),
       type: TransactionType.PAYMENT,
       createdAt: new Date(),
       updatedAt: new Date(),
       metadata
     };
+    await this.saveTransaction(transaction);
+    
+    const chargeRequest = {
+      amount,
+      paymentMethod,
+      idempotencyKey: options.idempotencyKey || transactionId,
+      metadata
+    };
     
     try {
-      // Issue: Missing timeout configuration on axios call
-      const response = await axios.post(`${PAYMENT_PROVIDER_URL}/payments`, {
-        amount: decimalAmount.toString(),
-        currency,
-        payment_method: paymentMethod,
-        idempotency_key: transactionId,
-        metadata
-      }, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      });
+      const response = await providerAdapter.charge(chargeRequest);
+      
+      if (response.status === 'pending') {
+        // The outcome arrives later as a provider webhook
+        transaction.providerTransactionId = response.providerTransactionId;
+        await this.saveTransaction(transaction);
+        
+        logger.info('Payment pending at provider', {
+          transactionId,
+          providerTransactionId: response.providerTransactionId
+        });
+        await this.auditTransaction('payment.create', transaction, options);
+        
+        return transaction;
+      }
       
-      if (response.data.status === 'succeeded') {
-        transaction.status = TransactionStatus.COMPLETED;
-        transaction.providerTransactionId = response.data.id;
-        transaction.updatedAt = new Date();
+      if (response.status === 'succeeded') {
+        transaction.providerTransactionId = response.providerTransactionId;
+        transitionTransaction(transaction, TransactionStatus.COMPLETED, options.actor, 'Provider approved the payment');
+        await this.saveTransaction(transaction);
         
         logger.info('Payment processed successfully', { 
           transactionId,
-          providerTransactionId: response.data.id
+          providerTransactionId: response.providerTransactionId
         });
+        await this.auditTransaction('payment.create', transaction, options);
         
         return transaction;
       } else {
-        // Issue: Inconsistent logging - using console.log instead of logger
-        console.log('Payment processing failed', response.data);
+        logger.warn('Payment processing failed', {
+          transactionId,
+          code: response.error?.code
+        });
         
-        transaction.status = TransactionStatus.FAILED;
-        transaction.error = response.data.error;
-        transaction.updatedAt = new Date();
+        transaction.error = response.error;
+        transitionTransaction(
+          transaction,
+          TransactionStatus.FAILED,
+          options.actor,
+          `Provider declined the payment: ${response.error?.code || 'unknown_error'}`
+        );
+        await this.saveTransaction(transaction);
         
         throw new PaymentError(
-          response.data.error.message || 'Payment processing failed',
-          response.data.error.code || 'unknown_error'
+          response.error?.message || 'Payment processing failed',
+          response.error?.code || 'unknown_error'
         );
       }
     } catch (error) {
-      // Retry logic added but with issues
-    let retryCount = 0;
-    const processWithRetry = async () => {
-      try {
-        // No timeout configuration here - violates timeout requirements
-        const response = await axios.post(`${PAYMENT_PROVIDER_URL}/payments`, {
-          amount: decimalAmount.toString(),
-          currency,
-          payment_method: paymentMethod,
-          idempotency_key: transactionId,
-          metadata
-        }, {
-          headers: {
-            'Authorization': `Bearer ${API_KEY}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        return response;
-      } catch (error) {
-        // Missing error handling - doesn't check error types
-        if (retryCount < this.retryAttempts) {
-          retryCount++;
-          // No exponential backoff
-          return processWithRetry();
-        }
-        throw error; // No audit logs for retry failures
+      const { message, code } = error as { message: string; code?: string };
+      
+      // A decline has already been recorded above
+      if (transaction.status === TransactionStatus.PENDING) {
+        transaction.error = {
+          message,
+          code: code || 'provider_error'
+        };
+        transitionTransaction(
+          transaction,
+          TransactionStatus.FAILED,
+          options.actor,
+          `Provider error: ${code || 'provider_error'}`
+        );
+        await this.saveTransaction(transaction);
       }
-    };
-    
-    const response = await processWithRetry();
-      transaction.status = TransactionStatus.FAILED;
-      transaction.error = {
-        message: error.message,
-        code: error.code || 'provider_error'
-      };
-      transaction.updatedAt = new Date();
       
       logger.error('Payment processing error', {
         transactionId,
-        error: error.message,
-        code: error.code
+        error: message,
+        code
       });
+      await this.auditTransaction('payment.create', transaction, options);
       
-      throw new PaymentError(error.message, error.code || 'provider_error');
+      throw clientError(error);
     }
   }
   
   /**
-   * Process a refund for a transaction
+   * Process a refund for a transaction.
+   * Partial refunds are allowed until the original amount has been refunded in full.
+   * Refunds above the approval threshold for their currency are held for a second user instead.
    * @param transactionId Original transaction ID
-   * @param amount Amount to refund (defaults to full amount)
+   * @param amount Amount to refund in the original currency (defaults to the remaining refundable amount)
+   * @param options Provider call options and refund reason
+   * @throws RefundApprovalRequiredError when the refund has been held for approval
    */
   async processRefund(
     transactionId: string,
-    amount?: number
+    amount?: Money,
+    options: RefundOptions = {}
   ): Promise<Transaction> {
-    logger.info('Starting refund processing', { transactionId, amount });
+    logger.info('Starting refund processing', { transactionId, amount: amount?.toString(), reason: options.reason });
     
-    try {
-      // Issue: Magic number without explanation
-      if (amount && amount > 50000) {
-        logger.warn('Large refund amount detected', { transactionId, amount });
-        // Additional verification should happen here
+    // Serialize refunds per original so concurrent requests cannot over-refund
+    return this.withLock(transactionId, async () => {
+      const original = await this.findRefundable(transactionId, options.merchantId);
+      const refundAmount = this.refundAmount(original, amount);
+      
+      if (this.requiresApproval(refundAmount)) {
+        const approval: RefundApproval = {
+          id: uuidv4(),
+          merchantId: original.merchantId,
+          transactionId,
+          amount: refundAmount,
+          currency: refundAmount.currency,
+          reason: options.reason,
+          status: RefundApprovalStatus.PENDING,
+          requestedBy: options.actor || SYSTEM_ACTOR,
+          requestedAt: new Date()
+        };
+        await this.refundApprovalRepository.save(approval);
+        
+        logger.warn('Large refund held for approval', {
+          transactionId,
+          approvalId: approval.id,
+          amount: refundAmount.toString(),
+          currency: refundAmount.currency,
+          requestedBy: approval.requestedBy
+        });
+        
+        await this.audit('refund.approval_requested', 'pending', options, {
+          approvalRequestId: approval.id,
+          relatedTransactionId: transactionId,
+          amount: refundAmount,
+          currency: refundAmount.currency,
+          reason: options.reason
+        });
+        
+        throw new RefundApprovalRequiredError(approval);
       }
       
-      const response = await axios.post(`${PAYMENT_PROVIDER_URL}/refunds`, {
-        transaction_id: transactionId,
-        amount: amount ? amount.toString() : undefined
-      }, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000 // 30 seconds timeout
+      return this.executeRefund(original, refundAmount, options);
+    });
+  }
+  
+  /**
+   * List refunds held for approval
+   * @param status Only return requests with this status
+   * @param merchantId Only return requests for this merchant's transactions
+   */
+  async listRefundApprovals(status?: RefundApprovalStatus, merchantId?: string): Promise<RefundApproval[]> {
+    return this.refundApprovalRepository.list(status, merchantId);
+  }
+  
+  /**
+   * Approve a held refund and process it.
+   * The approver (checker) must be a different user from the one who requested it (maker).
+   * If the refund fails at the provider the request stays pending so it can be approved again.
+   * @param approvalId Approval request ID
+   * @param review Approving user and optional comment
+   */
+  async approveRefund(approvalId: string, review: RefundReviewOptions): Promise<RefundApproval> {
+    return this.withLock(`refund_approval:${approvalId}`, async () => {
+      const approval = await this.findPendingApproval(approvalId, review);
+      
+      logger.info('Refund approved', { approvalId, transactionId: approval.transactionId, approver: review.actor });
+      
+      const refundTransaction = await this.withLock(approval.transactionId, async () => {
+        const original = await this.findRefundable(approval.transactionId, approval.merchantId);
+        
+        return this.executeRefund(original, this.refundAmount(original, approval.amount), {
+          idempotencyKey: `refund_approval_${approval.id}`,
+          actor: review.actor,
+          ipAddress: review.ipAddress,
+          reason: approval.reason
+        });
       });
       
-      const refundTransaction: Transaction = {
-        id: uuidv4(),
-        originalTransactionId: transactionId,
-        amount: amount || response.data.amount,
-        currency: response.data.currency,
-        status: TransactionStatus.COMPLETED,
-        type: TransactionType.REFUND,
-        providerTransactionId: response.data.id,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      approval.status = RefundApprovalStatus.APPROVED;
+      approval.reviewedBy = review.actor;
+      approval.reviewedAt = new Date();
+      approval.reviewNote = review.note;
+      approval.refundTransactionId = refundTransaction.id;
+      await this.refundApprovalRepository.save(approval);
+      await this.auditReview('refund.approved', approval, review);
+      
+      return approval;
+    });
+  }
+  
+  /**
+   * Reject a held refund; nothing is sent to the provider
+   * @param approvalId Approval request ID
+   * @param review Rejecting user and optional comment
+   */
+  async rejectRefund(approvalId: string, review: RefundReviewOptions): Promise<RefundApproval> {
+    return this.withLock(`refund_approval:${approvalId}`, async () => {
+      const approval = await this.findPendingApproval(approvalId, review);
+      
+      approval.status = RefundApprovalStatus.REJECTED;
+      approval.reviewedBy = review.actor;
+      approval.reviewedAt = new Date();
+      approval.reviewNote = review.note;
+      await this.refundApprovalRepository.save(approval);
+      await this.auditReview('refund.rejected', approval, review);
+      
+      logger.info('Refund rejected', { approvalId, transactionId: approval.transactionId, reviewer: review.actor });
+      
+      return approval;
+    });
+  }
+  
+  /**
+   * Send a validated refund to the provider and update the original's refunded amount.
+   * Callers must hold the lock for the original transaction.
+   */
+  private async executeRefund(
+    original: Transaction,
+    refundAmount: Money,
+    options: RefundOptions
+  ): Promise<Transaction> {
+    const transactionId = original.id;
+    const refunded = original.refundedAmount ?? Money.zero(original.currency);
+    const providerAdapter = await this.providerFor(original.merchantId);
+    
+    const refundTransaction: Transaction = {
+      id: uuidv4(),
+      merchantId: original.merchantId,
+      originalTransactionId: transactionId,
+      amount: refundAmount,
+      currency: refundAmount.currency,
+      status: TransactionStatus.PENDING,
+      statusHistory: initialStatusHistory(TransactionStatus.PENDING, options.actor),
+      type: TransactionType.REFUND,
+      refundReason: options.reason,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await this.saveTransaction(refundTransaction);
+    
+    try {
+      const response = await providerAdapter.refund({
+        transactionId: original.providerTransactionId as string,
+        amount: refundAmount,
+        idempotencyKey: options.idempotencyKey || refundTransaction.id
+      });
       
-      // Issue: Missing audit log for refund operations
+      if (response.status === 'failed') {
+        throw new PaymentError(
+          response.error?.message || 'Refund declined by provider',
+          response.error?.code || 'refund_error'
+        );
+      }
       
-      return refundTransaction;
+      refundTransaction.providerTransactionId = response.providerTransactionId;
+      transitionTransaction(refundTransaction, TransactionStatus.COMPLETED, options.actor, 'Provider approved the refund');
+      await this.saveTransaction(refundTransaction);
     } catch (error) {
+      const { message, code, stack } = error as { message: string; code?: string; stack?: string };
+      
+      refundTransaction.error = { message, code: code || 'refund_error' };
+      transitionTransaction(
+        refundTransaction,
+        TransactionStatus.FAILED,
+        options.actor,
+        `Refund failed: ${code || 'refund_error'}`
+      );
+      await this.saveTransaction(refundTransaction);
+      
       // Log full error details for debugging
       logger.error('Refund processing error', {
         transactionId,
-        error: error.message,
-        stack: error.stack
+        error: message,
+        stack
       });
+      await this.auditTransaction('refund.create', refundTransaction, options);
       
-      throw new PaymentError(
-        `Failed to process refund: ${error.message}`,
-        error.code || 'refund_error'
-      );
+      throw clientError(error);
     }
+    
+    original.refundedAmount = refunded.plus(refundAmount);
+    transitionTransaction(
+      original,
+      original.refundedAmount.equals(original.amount)
+        ? TransactionStatus.REFUNDED
+        : TransactionStatus.PARTIALLY_REFUNDED,
+      options.actor,
+      `Refund ${refundTransaction.id}: ${options.reason || 'no reason given'}`
+    );
+    await this.saveTransaction(original);
+    await this.auditTransaction('refund.create', refundTransaction, options);
+    
+    return refundTransaction;
   }
   
   /**
-   * Capture a previously authorized payment
-   * @param authorizationId Authorization ID to capture
-   * @param amount Amount to capture (defaults to full amount)
+   * Authorize a card payment without capturing funds
+   * @param amount Amount to hold, in major units of its currency
+   * @param paymentMethod Payment method details
+   * @param metadata Additional metadata
+   * @param options Provider call options
+   * @throws PaymentBlockedError or PaymentHeldForReviewError when fraud screening stopped the authorization
+   * @throws PaymentError card_token_not_found when a card token is not the caller's
    */
-  async capturePayment(
-    authorizationId: string,
-    amount?: number
+  async authorizePayment(
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    metadata: Record<string, unknown> = {},
+    options: PaymentOperationOptions = {}
   ): Promise<Transaction> {
-    // TODO: Add compliance logging per SOX requirements
+    const transactionId = uuidv4();
+    logger.info('Starting payment authorization', { transactionId, amount: amount.toString(), currency: amount.currency });
+    
+    this.assertPositive(amount, 'Authorization');
+    const providerAdapter = await this.providerFor(options.merchantId);
+    const cardToken = await this.cardTokenFor(paymentMethod, options);
+    await this.screenForFraud('authorization', transactionId, amount, paymentMethod, options, cardToken);
     
-    logger.info('Capturing authorized payment', { authorizationId, amount });
+    const authorization: Transaction = {
+      id: transactionId,
+      merchantId: options.merchantId,
+      amount,
+      capturableAmount: Money.zero(amount.currency),
+      currency: amount.currency,
+      status: TransactionStatus.PENDING,
+      statusHistory: initialStatusHistory(TransactionStatus.PENDING, options.actor),
+      type: TransactionType.AUTHORIZATION,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      metadata
+    };
+    await this.saveTransaction(authorization);
     
     try {
-      const response = await axios.post(`${PAYMENT_PROVIDER_URL}/captures`, {
-        authorization_id: authorizationId,
-        amount: amount ? amount.toString() : undefined
-      }, {
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
+      const response = await providerAdapter.authorize({
+        amount,
+        paymentMethod,
+        idempotencyKey: options.idempotencyKey || transactionId,
+        metadata
+      });
+      
+      if (response.status === 'pending') {
+        // The outcome arrives later as a provider webhook
+        authorization.providerTransactionId = response.providerTransactionId;
+        await this.saveTransaction(authorization);
+        
+        logger.info('Authorization pending at provider', {
+          transactionId,
+          providerTransactionId: response.providerTransactionId
+        });
+        await this.auditTransaction('authorization.create', authorization, options);
+        
+        return authorization;
+      }
+      
+      if (response.status !== 'succeeded') {
+        throw new PaymentError(
+          response.error?.message || 'Authorization declined by provider',
+          response.error?.code || 'authorization_error'
+        );
+      }
+      
+      authorization.capturableAmount = amount;
+      authorization.providerTransactionId = response.providerTransactionId;
+      transitionTransaction(authorization, TransactionStatus.AUTHORIZED, options.actor, 'Provider authorized the payment');
+      await this.saveTransaction(authorization);
+      
+      logger.info('Payment authorized', {
+        transactionId,
+        providerTransactionId: response.providerTransactionId
       });
+      await this.auditTransaction('authorization.create', authorization, options);
+      
+      return authorization;
+    } catch (error) {
+      const { message, code } = error as { message: string; code?: string };
+      
+      // A failure after the provider answered, e.g. while saving, leaves the outcome it recorded
+      if (authorization.status === TransactionStatus.PENDING) {
+        authorization.error = { message, code: code || 'authorization_error' };
+        transitionTransaction(
+          authorization,
+          TransactionStatus.FAILED,
+          options.actor,
+          `Authorization failed: ${code || 'authorization_error'}`
+        );
+        await this.saveTransaction(authorization);
+      }
+      
+      logger.error('Payment authorization error', { transactionId, error: message, code });
+      await this.auditTransaction('authorization.create', authorization, options);
+      
+      throw clientError(error);
+    }
+  }
+  
+  /**
+   * Capture a previously authorized payment.
+   * Several partial captures are allowed until the authorized amount is used up or a final capture releases the rest.
+   * @param authorizationId ID of the authorization transaction to capture
+   * @param amount Amount to capture in the authorized currency (defaults to the remaining capturable amount)
+   * @param options Provider call options, and whether this is the last capture
+   */
+  async capturePayment(
+    authorizationId: string,
+    amount?: Money,
+    options: CaptureOptions = {}
+  ): Promise<Transaction> {
+    logger.info('Capturing authorized payment', { authorizationId, amount: amount?.toString() });
+    
+    // Serialize captures per authorization so two requests cannot both spend the same balance
+    return this.withLock(authorizationId, async () => {
+      const authorization = await this.findAuthorization(authorizationId, options.merchantId);
+      const capturable = authorization.capturableAmount ?? Money.zero(authorization.currency);
+      const captureAmount = amount ?? capturable;
+      
+      this.assertPositive(captureAmount, 'Capture');
       
+      if (captureAmount.greaterThan(capturable)) {
+        throw new PaymentError(
+          `Capture amount exceeds the remaining capturable amount of ${capturable.toString()}`,
+          'capture_exceeds_authorization'
+        );
+      }
+      
+      const providerAdapter = await this.providerFor(authorization.merchantId);
       const captureTransaction: Transaction = {
         id: uuidv4(),
+        merchantId: authorization.merchantId,
         originalTransactionId: authorizationId,
-        amount: amount || response.data.amount,
-        currency: response.data.currency,
-        status: TransactionStatus.COMPLETED,
+        amount: captureAmount,
+        currency: captureAmount.currency,
+        status: TransactionStatus.PENDING,
+        statusHistory: initialStatusHistory(TransactionStatus.PENDING, options.actor),
         type: TransactionType.CAPTURE,
-        providerTransactionId: response.data.id,
         createdAt: new Date(),
         updatedAt: new Date()
       };
+      await this.saveTransaction(captureTransaction);
       
-      return captureTransaction;
-    } catch (error) {
-      logger.error('Payment capture error', {
-        authorizationId,
-        error: error.message
+      try {
+        const response = await providerAdapter.capture({
+          authorizationId: authorization.providerTransactionId as string,
+          amount: captureAmount,
+          idempotencyKey: options.idempotencyKey || captureTransaction.id,
+          final: options.final
+        });
+        
+        if (response.status === 'failed') {
+          throw new PaymentError(
+            response.error?.message || 'Capture declined by provider',
+            response.error?.code || 'capture_error'
+          );
+        }
+        
+        captureTransaction.providerTransactionId = response.providerTransactionId;
+        transitionTransaction(captureTransaction, TransactionStatus.COMPLETED, options.actor, 'Provider approved the capture');
+        await this.saveTransaction(captureTransaction);
+        
+        const remaining = capturable.minus(captureAmount);
+        authorization.capturableAmount = options.final ? Money.zero(authorization.currency) : remaining;
+        authorization.updatedAt = new Date();
+        if (authorization.capturableAmount.isZero()) {
+          transitionTransaction(
+            authorization,
+            TransactionStatus.COMPLETED,
+            options.actor,
+            remaining.isZero() ? 'Authorization fully captured' : `Final capture; remaining ${remaining.toString()} released`
+          );
+        }
+        await this.saveTransaction(authorization);
+        await this.auditTransaction('capture.create', captureTransaction, options);
+        
+        return captureTransaction;
+      } catch (error) {
+        const { message, code } = error as { message: string; code?: string };
+        
+        // A failure after the provider answered, e.g. while saving, leaves the outcome it recorded
+        if (captureTransaction.status === TransactionStatus.PENDING) {
+          captureTransaction.error = { message, code: code || 'capture_error' };
+          transitionTransaction(
+            captureTransaction,
+            TransactionStatus.FAILED,
+            options.actor,
+            `Capture failed: ${code || 'capture_error'}`
+          );
+          await this.saveTransaction(captureTransaction);
+        }
+        
+        logger.error('Payment capture error', {
+          authorizationId,
+          error: message
+        });
+        await this.auditTransaction('capture.create', captureTransaction, options);
+        
+        throw clientError(error);
+      }
+    });
+  }
+  
+  /**
+   * Release an authorization that has not been captured, or the rest of the hold after partial captures.
+   * A partially captured authorization is completed rather than voided, as its captures stand.
+   * @param authorizationId ID of the authorization transaction to void
+   * @param options Provider call options
+   */
+  async voidAuthorization(
+    authorizationId: string,
+    options: PaymentOperationOptions = {}
+  ): Promise<Transaction> {
+    logger.info('Voiding authorization', { authorizationId });
+    
+    return this.withLock(authorizationId, async () => {
+      const authorization = await this.findAuthorization(authorizationId, options.merchantId);
+      const providerAdapter = await this.providerFor(authorization.merchantId);
+      const released = authorization.capturableAmount ?? Money.zero(authorization.currency);
+      
+      try {
+        const response = await providerAdapter.void({
+          authorizationId: authorization.providerTransactionId as string,
+          idempotencyKey: options.idempotencyKey || `void_${authorizationId}`
+        });
+        
+        if (response.status === 'failed') {
+          throw new PaymentError(
+            response.error?.message || 'Void declined by provider',
+            response.error?.code || 'void_error'
+          );
+        }
+      } catch (error) {
+        const { message, code } = error as { message: string; code?: string };
+        
+        logger.error('Authorization void error', { authorizationId, error: message });
+        await this.auditTransaction('authorization.void', authorization, options, 'failure', code || 'void_error');
+        
+        throw clientError(error);
+      }
+      
+      authorization.capturableAmount = Money.zero(authorization.currency);
+      if (released.equals(authorization.amount)) {
+        transitionTransaction(authorization, TransactionStatus.VOIDED, options.actor, 'Authorization voided');
+      } else {
+        transitionTransaction(
+          authorization,
+          TransactionStatus.COMPLETED,
+          options.actor,
+          `Remaining ${released.toString()} of the authorization released`
+        );
+      }
+      await this.saveTransaction(authorization);
+      await this.auditTransaction('authorization.void', authorization, options);
+      
+      return authorization;
+    });
+  }
+  
+  /**
+   * Apply an outcome the provider reported asynchronously, e.g. in a webhook.
+   * Reporting the status a transaction already has changes nothing, so redelivered outcomes are harmless.
+   * @param transactionId Transaction the provider reported on
+   * @param update Status the provider reported and why
+   * @param options Actor and origin recorded in the status history and audit trail
+   * @throws PaymentError transaction_not_found, or invalid_status_transition if the transaction has moved on
+   */
+  async applyProviderUpdate(
+    transactionId: string,
+    update: ProviderUpdate,
+    options: PaymentOperationOptions = {}
+  ): Promise<Transaction> {
+    return this.withLock(transactionId, async () => {
+      const transaction = await this.transactionRepository.findById(transactionId);
+      
+      if (!transaction) {
+        throw new PaymentError('Transaction not found', 'transaction_not_found');
+      }
+      
+      if (transaction.status === update.status) {
+        return transaction;
+      }
+      
+      transitionTransaction(transaction, update.status, options.actor, update.reason);
+      
+      // Keep the balances in line with what the new status means
+      if (update.status === TransactionStatus.AUTHORIZED) {
+        transaction.capturableAmount = transaction.amount;
+      } else if (update.status === TransactionStatus.VOIDED) {
+        transaction.capturableAmount = Money.zero(transaction.currency);
+      } else if (update.status === TransactionStatus.REFUNDED) {
+        // A chargeback takes back whatever was not refunded yet
+        transaction.chargebackAmount = transaction.amount.minus(transaction.refundedAmount ?? Money.zero(transaction.currency));
+        transaction.refundedAmount = transaction.amount;
+      } else if (update.status === TransactionStatus.FAILED) {
+        transaction.error = update.error || { message: update.reason, code: 'provider_error' };
+      }
+      
+      await this.saveTransaction(transaction);
+      
+      logger.info('Applied provider update', {
+        transactionId,
+        status: transaction.status,
+        providerTransactionId: transaction.providerTransactionId
       });
+      await this.auditTransaction('transaction.provider_update', transaction, options);
       
+      return transaction;
+    });
+  }
+  
+  /**
+   * State of the payment provider's circuit breaker, for health checks
+   */
+  getProviderCircuitState(): CircuitBreakerSnapshot {
+    return this.providerAdapter.circuitBreaker.snapshot();
+  }
+  
+  /**
+   * Record the outcome of an operation on a transaction in the audit trail
+   * @param status Overrides the status derived from the transaction (failed, pending or success)
+   * @param errorCode Overrides the error code stored on the transaction
+   */
+  private async auditTransaction(
+    action: string,
+    transaction: Transaction,
+    options: PaymentOperationOptions,
+    status?: AuditStatus,
+    errorCode?: string
+  ): Promise<void> {
+    const derivedStatus: AuditStatus = transaction.status === TransactionStatus.FAILED
+      ? 'failure'
+      : transaction.status === TransactionStatus.PENDING ? 'pending' : 'success';
+    
+    await this.audit(action, status || derivedStatus, options, {
+      transactionId: transaction.id,
+      transactionType: transaction.type,
+      transactionStatus: transaction.status,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      approvalId: transaction.providerTransactionId,
+      relatedTransactionId: transaction.originalTransactionId,
+      errorCode: errorCode || transaction.error?.code
+    });
+  }
+  
+  private async auditReview(action: string, approval: RefundApproval, review: RefundReviewOptions): Promise<void> {
+    await this.audit(action, 'success', review, {
+      approvalRequestId: approval.id,
+      relatedTransactionId: approval.transactionId,
+      refundTransactionId: approval.refundTransactionId,
+      amount: approval.amount,
+      currency: approval.currency,
+      requestedBy: approval.requestedBy,
+      reviewedBy: approval.reviewedBy,
+      reason: review.note
+    });
+  }
+  
+  /**
+   * Persist a transaction together with the domain events for its status changes and the journal
+   * entries for the money they moved, then pass a copy to the onTransactionSaved listener.
+   * A failing listener is logged rather than thrown: the transaction is already stored.
+   */
+  private async saveTransaction(transaction: Transaction): Promise<void> {
+    const events = domainEventsFor(transaction);
+    await this.transactionRepository.save(
+      transaction,
+      events,
+      events.flatMap(event => journalEntriesFor(event, this.feeRate))
+    );
+    
+    if (!this.onTransactionSaved) {
+      return;
+    }
+    
+    try {
+      await this.onTransactionSaved({ ...transaction });
+    } catch (error) {
+      logger.error('Transaction listener failed', { transactionId: transaction.id, error: (error as Error).message });
+    }
+  }
+  
+  /**
+   * Write an audit event. A failing audit store is logged rather than thrown so it cannot
+   * hide the outcome of money that has already moved.
+   */
+  private async audit(
+    action: string,
+    status: AuditStatus,
+    options: PaymentOperationOptions,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.auditLogger.record({
+        action,
+        status,
+        userId: options.actor || SYSTEM_ACTOR,
+        ipAddress: options.ipAddress,
+        details
+      });
+    } catch (error) {
+      logger.error('Failed to write audit event', { action, error: (error as Error).message, details });
+    }
+  }
+  
+  /**
+   * Run fraud screening, if configured, before anything is recorded or sent to the provider
+   * @param operation 'payment' or 'authorization', the prefix of the audit action
+   * @param transactionId ID the transaction will be recorded under if it is allowed
+   * @param cardToken Stored card the payment method refers to, if any
+   */
+  private async screenForFraud(
+    operation: string,
+    transactionId: string,
+    amount: Money,
+    paymentMethod: PaymentMethod,
+    options: PaymentOperationOptions,
+    cardToken?: CardToken
+  ): Promise<void> {
+    if (!this.fraudScreening) {
+      return;
+    }
+    
+    const screening = await this.fraudScreening.screen({
+      transactionId,
+      merchantId: options.merchantId,
+      userId: options.customerId,
+      amount,
+      paymentMethod,
+      email: options.customerEmail,
+      ipAddress: options.ipAddress,
+      ipCountry: options.ipCountry,
+      storedCard: cardToken && { fingerprint: cardToken.fingerprint, bin: cardToken.bin }
+    });
+    if (screening.decision === FraudDecision.ALLOW) {
+      return;
+    }
+    
+    const blocked = screening.decision === FraudDecision.BLOCK;
+    await this.audit(`${operation}.${blocked ? 'fraud_blocked' : 'fraud_held'}`, blocked ? 'failure' : 'pending', options, {
+      transactionId,
+      screeningId: screening.id,
+      amount,
+      currency: amount.currency,
+      score: screening.score,
+      rules: screening.reasons.map(reason => reason.rule)
+    });
+    
+    throw blocked ? new PaymentBlockedError(screening) : new PaymentHeldForReviewError(screening);
+  }
+  
+  /**
+   * The vault entry a card_token payment method refers to, checked to belong to the caller.
+   * Its card number is not read here; the provider adapter does that.
+   */
+  private async cardTokenFor(paymentMethod: PaymentMethod, options: PaymentOperationOptions): Promise<CardToken | undefined> {
+    if (paymentMethod.type !== 'card_token') {
+      return undefined;
+    }
+    
+    return this.tokenization.findToken(paymentMethod.cardToken?.token || '', {
+      userId: options.actor || SYSTEM_ACTOR,
+      merchantId: options.merchantId
+    });
+  }
+  
+  /**
+   * Reject zero and negative amounts before anything is recorded
+   */
+  private assertPositive(amount: Money, operation: string): void {
+    if (!amount.isPositive()) {
+      throw new PaymentError(`${operation} amount must be greater than zero`, 'invalid_amount');
+    }
+  }
+  
+  /**
+   * Load a settled payment or capture that still has a refundable balance
+   * @param merchantId Merchant the caller acts for, if any
+   */
+  private async findRefundable(transactionId: string, merchantId?: string): Promise<Transaction> {
+    const original = await this.transactionRepository.findById(transactionId);
+    
+    if (!original || !this.inScope(original, merchantId)) {
+      throw new PaymentError('Transaction not found', 'transaction_not_found');
+    }
+    
+    // Authorizations are refunded through their captures; uncaptured funds are voided instead
+    const refundableType = original.type === TransactionType.PAYMENT || original.type === TransactionType.CAPTURE;
+    const refundableStatus = original.status === TransactionStatus.COMPLETED
+      || original.status === TransactionStatus.PARTIALLY_REFUNDED;
+    
+    if (!refundableType || !refundableStatus) {
+      throw new PaymentError(
+        `A ${original.type} transaction with status ${original.status} cannot be refunded`,
+        'transaction_not_refundable'
+      );
+    }
+    
+    return original;
+  }
+  
+  /**
+   * Resolve and validate the amount of a refund against what is left to refund
+   */
+  private refundAmount(original: Transaction, amount?: Money): Money {
+    const refunded = original.refundedAmount ?? Money.zero(original.currency);
+    const remaining = original.amount.minus(refunded);
+    const refundAmount = amount ?? remaining;
+    
+    this.assertPositive(refundAmount, 'Refund');
+    
+    if (refundAmount.greaterThan(remaining)) {
+      throw new PaymentError(
+        `Refund amount exceeds the remaining refundable amount of ${remaining.toString()}`,
+        'refund_exceeds_remaining'
+      );
+    }
+    
+    return refundAmount;
+  }
+  
+  private requiresApproval(amount: Money): boolean {
+    const threshold = this.refundApprovalThresholds[amount.currency] ?? this.refundApprovalThresholds['*'];
+    return threshold === undefined || amount.greaterThan(Money.rounded(threshold, amount.currency));
+  }
+  
+  /**
+   * Load an approval request that is still waiting for a decision.
+   * Separation of duties: the user who asked for the refund cannot decide on it.
+   */
+  private async findPendingApproval(approvalId: string, review: RefundReviewOptions): Promise<RefundApproval> {
+    const approval = await this.refundApprovalRepository.findById(approvalId);
+    
+    if (!approval || !this.inScope(approval, review.merchantId)) {
+      throw new PaymentError('Refund approval request not found', 'refund_approval_not_found');
+    }
+    
+    if (approval.status !== RefundApprovalStatus.PENDING) {
       throw new PaymentError(
-        `Failed to capture payment: ${error.message}`,
-        error.code || 'capture_error'
+        `Refund approval request has already been ${approval.status}`,
+        'refund_approval_not_pending'
       );
     }
+    
+    if (approval.requestedBy === review.actor) {
+      throw new PaymentError(
+        'Refunds must be reviewed by a different user from the one who requested them',
+        'refund_self_approval'
+      );
+    }
+    
+    return approval;
+  }
+  
+  /**
+   * Load an authorization that can still be captured or voided
+   * @param merchantId Merchant the caller acts for, if any
+   */
+  private async findAuthorization(authorizationId: string, merchantId?: string): Promise<Transaction> {
+    const authorization = await this.transactionRepository.findById(authorizationId);
+    
+    if (!authorization || authorization.type !== TransactionType.AUTHORIZATION || !this.inScope(authorization, merchantId)) {
+      throw new PaymentError('Authorization not found', 'transaction_not_found');
+    }
+    
+    if (authorization.status !== TransactionStatus.AUTHORIZED) {
+      throw new PaymentError(
+        `Authorization is ${authorization.status} and can no longer be captured or voided`,
+        'authorization_not_active'
+      );
+    }
+    
+    return authorization;
+  }
+  
+  /**
+   * Callers acting for a merchant only reach that merchant's records; callers without one reach all
+   */
+  private inScope(record: { merchantId?: string }, merchantId?: string): boolean {
+    return merchantId === undefined || record.merchantId === merchantId;
+  }
+  
+  /**
+   * Provider adapter for a merchant's own provider account, or the default one,
+   * reading card tokens back from the vault as the request is sent
+   */
+  private async providerFor(merchantId?: string): Promise<PaymentProviderAdapter> {
+    const adapter = merchantId && this.merchantProviderAdapter
+      ? await this.merchantProviderAdapter(merchantId)
+      : undefined;
+    
+    // Breakers are shared by provider name, so a fresh wrapper keeps the merchant's circuit state
+    return new DetokenizingPaymentProviderAdapter(
+      adapter ? new ResilientPaymentProviderAdapter(adapter, this.resilience) : this.providerAdapter,
+      this.tokenization
+    );
+  }
+  
+  /**
+   * Run operations for the same key one at a time within this process
+   */
+  private async withLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.locks.set(key, current);
+    
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
   }
 }
@@ -0,0 +1,256 @@
+import { ProviderEvent, ProviderEventStatus } from '../models/ProviderEvent';
+import { TransactionStatus, TransactionType } from '../models/Transaction';
+import { ProviderEventRepository } from '../repositories/ProviderEventRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { PaymentError } from '../errors/PaymentError';
+import { PaymentProcessor } from './PaymentProcessor';
+import { AuditLogger } from './AuditLogger';
+import { config } from '../config';
+import { createLogger } from '../utils/logging';
+import { parseWebhookSignature, signatureMatches, webhookHmac } from '../utils/webhookSignature';
+
+const logger = createLogger('provider-webhooks');
+
+// Actor recorded for changes made by webhook deliveries
+export const PROVIDER_WEBHOOK_ACTOR = 'provider-webhook';
+
+// Transaction status each event type moves to, and the transaction types it can apply to
+const EVENT_TRANSITIONS: Record<string, { status: TransactionStatus; types: ReadonlyArray<string> }> = {
+  'charge.succeeded': { status: TransactionStatus.COMPLETED, types: [TransactionType.PAYMENT] },
+  'charge.failed': { status: TransactionStatus.FAILED, types: [TransactionType.PAYMENT] },
+  'charge.chargeback': {
+    status: TransactionStatus.REFUNDED,
+    types: [TransactionType.PAYMENT, TransactionType.CAPTURE]
+  },
+  'authorization.succeeded': { status: TransactionStatus.AUTHORIZED, types: [TransactionType.AUTHORIZATION] },
+  'authorization.failed': { status: TransactionStatus.FAILED, types: [TransactionType.AUTHORIZATION] },
+  'authorization.expired': { status: TransactionStatus.VOIDED, types: [TransactionType.AUTHORIZATION] }
+};
+
+// Events in these states are not applied again when the provider redelivers them
+const SETTLED_STATUSES: ReadonlyArray<ProviderEventStatus> = [ProviderEventStatus.PROCESSED, ProviderEventStatus.IGNORED];
+
+export interface ProviderWebhookOptions {
+  // Shared secret the provider signs deliveries with
+  secret?: string;
+  // Largest accepted difference between the signature timestamp and now
+  toleranceSeconds: number;
+}
+
+/**
+ * Body the provider posts: { id, type, data: { id, error? } }, where data.id is the provider's transaction ID
+ */
+interface ProviderEventBody {
+  id: string;
+  type: string;
+  data: {
+    id?: string;
+    error?: { message: string; code: string };
+  };
+}
+
+export interface WebhookReceipt {
+  event: ProviderEvent;
+  // The event ID had already been applied or ignored, so nothing was done
+  duplicate: boolean;
+}
+
+const invalidPayload = (message: string): PaymentError => new PaymentError(message, 'invalid_webhook_payload');
+
+const parseEvent = (payload: string): ProviderEventBody => {
+  let body: Partial<ProviderEventBody> | undefined;
+  try {
+    body = JSON.parse(payload);
+  } catch {
+    throw invalidPayload('Webhook body is not valid JSON');
+  }
+
+  if (!body || typeof body.id !== 'string' || !body.id || typeof body.type !== 'string' || !body.type) {
+    throw invalidPayload('Webhook body must have a string id and type');
+  }
+
+  const { data } = body;
+  if (typeof data !== 'object' || data === null) {
+    throw invalidPayload('Webhook body must have a data object');
+  }
+
+  if (data.id !== undefined && typeof data.id !== 'string') {
+    throw invalidPayload('Webhook data.id must be a string');
+  }
+
+  if (data.error !== undefined && (typeof data.error?.message !== 'string' || typeof data.error?.code !== 'string')) {
+    throw invalidPayload('Webhook data.error must have a string message and code');
+  }
+
+  return body as ProviderEventBody;
+};
+
+/**
+ * Receives the payment provider's webhooks: verifies their signature, stores every event
+ * verbatim and moves the referenced transaction to the status the event reports
+ */
+export class ProviderWebhookService {
+  private paymentProcessor: PaymentProcessor;
+  private transactionRepository: TransactionRepository;
+  private eventRepository: ProviderEventRepository;
+  private auditLogger: AuditLogger;
+  private options: ProviderWebhookOptions;
+
+  constructor(
+    paymentProcessor: PaymentProcessor,
+    transactionRepository: TransactionRepository,
+    eventRepository: ProviderEventRepository,
+    auditLogger: AuditLogger,
+    options: ProviderWebhookOptions = { secret: config.webhooks.providerSecret, toleranceSeconds: config.webhooks.toleranceSeconds }
+  ) {
+    this.paymentProcessor = paymentProcessor;
+    this.transactionRepository = transactionRepository;
+    this.eventRepository = eventRepository;
+    this.auditLogger = auditLogger;
+    this.options = options;
+  }
+
+  /**
+   * Check that a delivery carries an X-Provider-Signature (see signWebhook) made with the shared secret
+   * within the tolerance window.
+   * Several v1 signatures may be present while the provider rotates its secret; one must match.
+   * @param payload Request body exactly as received
+   * @param header Value of the X-Provider-Signature header
+   * @throws PaymentError invalid_webhook_signature
+   */
+  verifySignature(payload: Buffer, header?: string): void {
+    const { secret, toleranceSeconds } = this.options;
+    if (!secret) {
+      throw new PaymentError('Provider webhooks are not configured', 'invalid_webhook_signature');
+    }
+
+    const { timestamp, signatures } = parseWebhookSignature(header || '');
+
+    if (!Number.isInteger(timestamp) || signatures.length === 0) {
+      throw new PaymentError('Webhook signature header is missing or malformed', 'invalid_webhook_signature');
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+      throw new PaymentError('Webhook signature timestamp is outside the tolerance window', 'invalid_webhook_signature');
+    }
+
+    const expected = webhookHmac(payload, secret, timestamp);
+    if (!signatures.some(signature => signatureMatches(signature, expected))) {
+      throw new PaymentError('Webhook signature does not match', 'invalid_webhook_signature');
+    }
+  }
+
+  /**
+   * Store and apply a verified delivery. Redeliveries of an applied or ignored event change nothing;
+   * redeliveries of a failed one are applied again.
+   * @param payload Request body exactly as received, after verifySignature
+   * @throws PaymentError invalid_webhook_payload when the body is not an event
+   */
+  async receive(payload: Buffer): Promise<WebhookReceipt> {
+    const rawPayload = payload.toString('utf8');
+    const body = parseEvent(rawPayload);
+
+    const received: ProviderEvent = {
+      id: body.id,
+      type: body.type,
+      providerTransactionId: body.data.id,
+      payload: rawPayload,
+      status: ProviderEventStatus.RECEIVED,
+      attempts: 0,
+      receivedAt: new Date()
+    };
+
+    if (!await this.eventRepository.insert(received)) {
+      const stored = await this.eventRepository.findById(received.id) as ProviderEvent;
+      if (SETTLED_STATUSES.includes(stored.status)) {
+        logger.info('Ignoring redelivered provider event', { eventId: stored.id, status: stored.status });
+        return { event: stored, duplicate: true };
+      }
+
+      return { event: await this.apply(stored, PROVIDER_WEBHOOK_ACTOR), duplicate: false };
+    }
+
+    return { event: await this.apply(received, PROVIDER_WEBHOOK_ACTOR), duplicate: false };
+  }
+
+  /**
+   * Apply a stored event again, whatever its status, e.g. after fixing what made it fail
+   * @param eventId The provider's event ID
+   * @param actor Admin user asking for the replay
+   * @throws PaymentError provider_event_not_found
+   */
+  async replay(eventId: string, actor: string, ipAddress?: string): Promise<ProviderEvent> {
+    const stored = await this.eventRepository.findById(eventId);
+    if (!stored) {
+      throw new PaymentError('Provider event not found', 'provider_event_not_found');
+    }
+
+    const event = await this.apply(stored, actor, ipAddress);
+    await this.auditLogger
+      .record({
+        action: 'provider_event.replay',
+        status: event.status === ProviderEventStatus.FAILED ? 'failure' : 'success',
+        userId: actor,
+        ipAddress,
+        details: { eventId: event.id, eventType: event.type, transactionId: event.transactionId, error: event.error }
+      })
+      .catch(error => logger.error('Failed to write audit event', { error: (error as Error).message }));
+
+    return event;
+  }
+
+  /**
+   * List stored events, oldest first
+   * @param status Only return events with this status, e.g. failed ones waiting for a replay
+   */
+  async listEvents(status?: ProviderEventStatus): Promise<ProviderEvent[]> {
+    return this.eventRepository.list(status);
+  }
+
+  /**
+   * Move the event's transaction to the status the event reports and record the outcome on the event
+   */
+  private async apply(stored: ProviderEvent, actor: string, ipAddress?: string): Promise<ProviderEvent> {
+    const event: ProviderEvent = { ...stored, attempts: stored.attempts + 1, error: undefined };
+    const transition = EVENT_TRANSITIONS[event.type];
+
+    if (!transition) {
+      event.status = ProviderEventStatus.IGNORED;
+      event.error = `Event type ${event.type} is not handled`;
+    } else {
+      try {
+        const transaction = event.providerTransactionId
+          ? await this.transactionRepository.findByProviderTransactionId(event.providerTransactionId)
+          : undefined;
+
+        if (!transaction || !transition.types.includes(transaction.type)) {
+          throw new PaymentError(
+            `No ${transition.types.join(' or ')} transaction has provider ID ${event.providerTransactionId}`,
+            'transaction_not_found'
+          );
+        }
+
+        const { data } = parseEvent(event.payload);
+        await this.paymentProcessor.applyProviderUpdate(
+          transaction.id,
+          { status: transition.status, reason: `Provider event ${event.type} (${event.id})`, error: data.error },
+          { actor, ipAddress }
+        );
+
+        event.status = ProviderEventStatus.PROCESSED;
+        event.transactionId = transaction.id;
+      } catch (error) {
+        const { message, code } = error as { message: string; code?: string };
+        logger.warn('Could not apply provider event', { eventId: event.id, type: event.type, code, error: message });
+
+        event.status = ProviderEventStatus.FAILED;
+        event.error = `${code || 'internal_error'}: ${message}`;
+      }
+    }
+
+    event.processedAt = new Date();
+    await this.eventRepository.save(event);
+
+    return event;
+  }
+}
@@ -0,0 +1,314 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Money } from '../models/Money';
+import {
+  ReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationReport,
+  SettlementFormat,
+  SettlementLine,
+  SettlementReport
+} from '../models/Settlement';
+import { Transaction, TransactionStatus, TransactionType } from '../models/Transaction';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { PaymentError } from '../errors/PaymentError';
+import { createLogger } from '../utils/logging';
+import { parseCsv } from '../utils/csv';
+
+const logger = createLogger('reconciliation');
+
+// Gateway transactions that moved money and so should appear in a settlement
+const SETTLED_TYPES: ReadonlyArray<string> = [TransactionType.PAYMENT, TransactionType.CAPTURE, TransactionType.REFUND];
+const SETTLED_STATUSES: TransactionStatus[] = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REFUNDED,
+  TransactionStatus.REFUNDED
+];
+
+const PAGE_SIZE = 500;
+
+const SIGNED_DECIMAL = /^-?\d+(\.\d+)?$/;
+
+const CSV_COLUMNS = {
+  providerTransactionId: 'provider_transaction_id',
+  amount: 'amount',
+  currency: 'currency',
+  type: 'type',
+  settledAt: 'settled_at'
+};
+
+export interface ReconciliationPeriod {
+  // Inclusive
+  from: Date;
+  // Exclusive
+  to: Date;
+}
+
+/**
+ * Raw line values from either format, before they are checked
+ */
+interface RawLine {
+  providerTransactionId?: unknown;
+  amount?: unknown;
+  currency?: unknown;
+  type?: unknown;
+  settledAt?: unknown;
+}
+
+const invalidReport = (message: string): PaymentError => new PaymentError(message, 'invalid_settlement_report');
+
+const toLine = (raw: RawLine, lineNumber: number): SettlementLine => {
+  const { providerTransactionId, amount, currency, type, settledAt } = raw;
+  const where = `Settlement line ${lineNumber}`;
+
+  if (typeof providerTransactionId !== 'string' || !providerTransactionId.trim()) {
+    throw invalidReport(`${where}: provider transaction ID is missing`);
+  }
+  const majorUnits = typeof amount === 'string' ? amount.trim() : amount;
+  if (!(typeof majorUnits === 'number' && Number.isFinite(majorUnits))
+    && !(typeof majorUnits === 'string' && SIGNED_DECIMAL.test(majorUnits))) {
+    throw invalidReport(`${where}: amount must be a decimal number, e.g. "10.50"`);
+  }
+  if (typeof currency !== 'string') {
+    throw invalidReport(`${where}: currency is missing`);
+  }
+  if (type !== undefined && typeof type !== 'string') {
+    throw invalidReport(`${where}: type must be a string`);
+  }
+
+  let settled: Date | undefined;
+  if (settledAt !== undefined && settledAt !== '') {
+    settled = typeof settledAt === 'string' ? new Date(settledAt) : undefined;
+    if (!settled || Number.isNaN(settled.getTime())) {
+      throw invalidReport(`${where}: settled at must be an ISO-8601 date-time`);
+    }
+  }
+
+  let money: Money;
+  try {
+    money = Money.of(majorUnits, currency.trim());
+  } catch (error) {
+    throw invalidReport(`${where}: ${(error as Error).message}`);
+  }
+
+  return {
+    lineNumber,
+    providerTransactionId: providerTransactionId.trim(),
+    amount: money,
+    type: typeof type === 'string' && type.trim() ? type.trim() : undefined,
+    settledAt: settled
+  };
+};
+
+const parseCsvReport = (content: string): SettlementReport => {
+  let records;
+  try {
+    records = parseCsv(content);
+  } catch (error) {
+    throw invalidReport(`Settlement report is not valid CSV: ${(error as Error).message}`);
+  }
+
+  const [header, ...rows] = records;
+  if (!header) {
+    throw invalidReport('Settlement report is empty');
+  }
+
+  const columns = header.fields.map(name => name.trim().toLowerCase());
+  const missing = [CSV_COLUMNS.providerTransactionId, CSV_COLUMNS.amount, CSV_COLUMNS.currency]
+    .filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw invalidReport(`Settlement report header is missing the column(s) ${missing.join(', ')}`);
+  }
+
+  const value = (fields: string[], column: string): string | undefined => {
+    const index = columns.indexOf(column);
+    return index >= 0 ? fields[index] : undefined;
+  };
+
+  return {
+    lines: rows.map(({ line, fields }) => toLine({
+      providerTransactionId: value(fields, CSV_COLUMNS.providerTransactionId),
+      amount: value(fields, CSV_COLUMNS.amount),
+      currency: value(fields, CSV_COLUMNS.currency),
+      type: value(fields, CSV_COLUMNS.type),
+      settledAt: value(fields, CSV_COLUMNS.settledAt)
+    }, line))
+  };
+};
+
+const parseJsonReport = (content: string): SettlementReport => {
+  let body: { settlementId?: unknown; lines?: unknown } | undefined;
+  try {
+    body = JSON.parse(content);
+  } catch {
+    throw invalidReport('Settlement report is not valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || !Array.isArray(body.lines)) {
+    throw invalidReport('Settlement report must be an object with a lines array');
+  }
+  if (body.settlementId !== undefined && typeof body.settlementId !== 'string') {
+    throw invalidReport('Settlement report settlementId must be a string');
+  }
+
+  return {
+    settlementId: body.settlementId,
+    lines: body.lines.map((raw: unknown, index: number) => {
+      if (typeof raw !== 'object' || raw === null) {
+        throw invalidReport(`Settlement line ${index + 1}: must be an object`);
+      }
+      return toLine(raw as RawLine, index + 1);
+    })
+  };
+};
+
+/**
+ * Read a provider settlement report.
+ * CSV needs a header row with provider_transaction_id, amount and currency columns, and may have type and settled_at;
+ * other columns are ignored. JSON is { settlementId?, lines: [{ providerTransactionId, amount, currency, type?, settledAt? }] }.
+ * Amounts are major units; refunds may be reported as negative amounts.
+ * @throws PaymentError invalid_settlement_report naming the first offending line
+ */
+export const parseSettlementReport = (content: string, format: SettlementFormat): SettlementReport =>
+  format === 'json' ? parseJsonReport(content) : parseCsvReport(content);
+
+const amountOf = (money: Money): { amount: string; currency: string } => ({
+  amount: money.toString(),
+  currency: money.currency
+});
+
+/**
+ * Matches provider settlement reports to gateway transactions by provider transaction ID, amount and currency.
+ * Reports are computed on demand and not stored; the CLI and the admin route return them to the caller.
+ */
+export class ReconciliationService {
+  private transactionRepository: TransactionRepository;
+
+  constructor(transactionRepository: TransactionRepository) {
+    this.transactionRepository = transactionRepository;
+  }
+
+  /**
+   * Reconcile a settlement against the transactions that moved money in a period:
+   * - duplicate: a provider transaction is listed more than once (its first line is still matched)
+   * - unknown: no gateway transaction has the provider transaction ID
+   * - amount_mismatch: the settled amount or currency differs; refunds match on the size of the amount
+   * - missing: a gateway payment, capture or refund from the period is not in the settlement
+   */
+  async reconcile(settlement: SettlementReport, period: ReconciliationPeriod): Promise<ReconciliationReport> {
+    const issues: ReconciliationIssue[] = [];
+    const settledTransactionIds = new Set<string>();
+    let matched = 0;
+
+    const linesByProviderId = new Map<string, SettlementLine[]>();
+    settlement.lines.forEach(line => {
+      linesByProviderId.set(line.providerTransactionId, [
+        ...(linesByProviderId.get(line.providerTransactionId) || []),
+        line
+      ]);
+    });
+
+    for (const [providerTransactionId, lines] of linesByProviderId) {
+      const lineNumbers = lines.map(line => line.lineNumber);
+      const settledAmount = Money.of(lines[0].amount.amount.abs(), lines[0].amount.currency);
+      const transaction = await this.transactionRepository.findByProviderTransactionId(providerTransactionId);
+
+      if (lines.length > 1) {
+        issues.push({
+          type: ReconciliationIssueType.DUPLICATE,
+          providerTransactionId,
+          transactionId: transaction?.id,
+          lineNumbers
+        });
+      }
+
+      if (!transaction) {
+        issues.push({
+          type: ReconciliationIssueType.UNKNOWN,
+          providerTransactionId,
+          lineNumbers,
+          settled: amountOf(lines[0].amount)
+        });
+        continue;
+      }
+
+      settledTransactionIds.add(transaction.id);
+      if (transaction.currency !== settledAmount.currency || !transaction.amount.equals(settledAmount)) {
+        issues.push({
+          type: ReconciliationIssueType.AMOUNT_MISMATCH,
+          providerTransactionId,
+          transactionId: transaction.id,
+          lineNumbers: [lines[0].lineNumber],
+          expected: amountOf(transaction.amount),
+          settled: amountOf(lines[0].amount)
+        });
+      } else if (lines.length === 1) {
+        matched++;
+      }
+    }
+
+    const expected = await this.settledTransactions(period);
+    expected
+      .filter(transaction => !settledTransactionIds.has(transaction.id))
+      .forEach(transaction => issues.push({
+        type: ReconciliationIssueType.MISSING,
+        providerTransactionId: transaction.providerTransactionId as string,
+        transactionId: transaction.id,
+        lineNumbers: [],
+        expected: amountOf(transaction.amount)
+      }));
+
+    const summary = Object.values(ReconciliationIssueType).reduce(
+      (counts, type) => ({ ...counts, [type]: issues.filter(issue => issue.type === type).length }),
+      {} as Record<ReconciliationIssueType, number>
+    );
+    const report: ReconciliationReport = {
+      id: uuidv4(),
+      settlementId: settlement.settlementId,
+      periodStart: period.from,
+      periodEnd: period.to,
+      generatedAt: new Date(),
+      linesChecked: settlement.lines.length,
+      transactionsExpected: expected.length,
+      matched,
+      reconciled: issues.length === 0,
+      summary,
+      issues
+    };
+
+    if (report.reconciled) {
+      logger.info('Settlement reconciled', { reportId: report.id, settlementId: report.settlementId, matched });
+    } else {
+      logger.warn('Settlement has discrepancies', { reportId: report.id, settlementId: report.settlementId, summary });
+    }
+
+    return report;
+  }
+
+  /**
+   * Payments, captures and refunds created in the period that completed and have a provider transaction ID
+   */
+  private async settledTransactions(period: ReconciliationPeriod): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    let last: Transaction | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await this.transactionRepository.search({
+        types: [...SETTLED_TYPES],
+        statuses: SETTLED_STATUSES,
+        createdFrom: period.from,
+        createdTo: period.to,
+        sortBy: 'createdAt',
+        sortDirection: 'asc',
+        limit: PAGE_SIZE,
+        after: last ? { value: last.createdAt.toISOString(), id: last.id } : undefined
+      });
+
+      transactions.push(...page.transactions);
+      last = page.transactions[page.transactions.length - 1];
+      hasMore = page.hasMore && last !== undefined;
+    }
+
+    return transactions.filter(transaction => transaction.providerTransactionId);
+  }
+}
@@ -0,0 +1,131 @@
+import { randomBytes } from 'crypto';
+import { CardToken } from '../models/CardToken';
+import { CardDetails } from '../models/Transaction';
+import { CardTokenRepository } from '../repositories/CardTokenRepository';
+import { PaymentError } from '../errors/PaymentError';
+import { CreditCardValidator } from '../utils/CreditCardValidator';
+import { cardFingerprint } from '../utils/cardFingerprint';
+import { decrypt, encrypt, parseEncryptionKey } from '../utils/encryption';
+import { config } from '../config';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('tokenization');
+
+const TOKEN_PREFIX = 'tok_';
+
+export interface TokenizationOptions {
+  // Vault key as 64 hex characters or base64
+  encryptionKey?: string;
+  // Must match fraud screening's secret so both compute the same card fingerprints
+  fingerprintSecret?: string;
+}
+
+/**
+ * Who a token belongs to: the user who created it and the merchant they acted for
+ */
+export interface TokenOwner {
+  userId: string;
+  merchantId?: string;
+}
+
+/**
+ * Token vault. Card numbers are exchanged for opaque tokens and kept encrypted with a local key;
+ * CVVs are checked and dropped. Only detokenize() reads a number back, for the provider adapter.
+ */
+export class TokenizationService {
+  private repository: CardTokenRepository;
+  private key: Buffer;
+  private fingerprintSecret: string;
+
+  /**
+   * @throws Error when the encryption key or fingerprint secret is missing, or the key is not 32 bytes
+   */
+  constructor(
+    repository: CardTokenRepository,
+    options: TokenizationOptions = {
+      encryptionKey: config.tokenization.encryptionKey,
+      fingerprintSecret: config.fraud.cardFingerprintSecret
+    }
+  ) {
+    if (!options.encryptionKey || !options.fingerprintSecret) {
+      throw new Error('The card vault needs an encryption key and a card fingerprint secret');
+    }
+    this.repository = repository;
+    this.key = parseEncryptionKey(options.encryptionKey);
+    this.fingerprintSecret = options.fingerprintSecret;
+  }
+
+  /**
+   * Store a card and return its token. The CVV is validated but not kept.
+   * @throws PaymentError invalid_card when the card fails validation, e.g. because it has expired
+   */
+  async tokenize(card: CardDetails, owner: TokenOwner): Promise<CardToken> {
+    const number = card.number.replace(/\s+/g, '');
+    const validation = CreditCardValidator.validate({ ...card, number, cvv: card.cvv || '' });
+    if (!validation.isValid) {
+      throw new PaymentError(`Card is not valid: ${(validation.errors || []).join('; ')}`, 'invalid_card');
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const cardToken: CardToken = {
+      token,
+      userId: owner.userId,
+      merchantId: owner.merchantId,
+      brand: validation.cardType || CreditCardValidator.detectCardType(number),
+      bin: number.slice(0, 6),
+      last4: number.slice(-4),
+      expiryMonth: card.expiryMonth,
+      expiryYear: card.expiryYear,
+      cardholderName: card.cardholderName,
+      fingerprint: cardFingerprint(number, this.fingerprintSecret),
+      encryptedNumber: encrypt(number, this.key, token),
+      createdAt: new Date()
+    };
+    await this.repository.save(cardToken);
+
+    logger.info('Card tokenized', { userId: owner.userId, merchantId: owner.merchantId, brand: cardToken.brand });
+
+    return cardToken;
+  }
+
+  /**
+   * A token of the owner, without reading its card number
+   * @throws PaymentError card_token_not_found when the token does not exist or belongs to someone else
+   */
+  async findToken(token: string, owner: TokenOwner): Promise<CardToken> {
+    const cardToken = await this.repository.findByToken(token);
+
+    if (!cardToken || cardToken.userId !== owner.userId || cardToken.merchantId !== owner.merchantId) {
+      throw new PaymentError('Card token not found', 'card_token_not_found');
+    }
+
+    return cardToken;
+  }
+
+  /**
+   * The stored card for a provider request, without a CVV. Ownership is checked by the caller beforehand.
+   * @throws PaymentError card_token_not_found when the token does not exist or cannot be decrypted with the vault key
+   */
+  async detokenize(token: string): Promise<CardDetails> {
+    const cardToken = await this.repository.findByToken(token);
+    if (!cardToken) {
+      throw new PaymentError('Card token not found', 'card_token_not_found');
+    }
+
+    let number: string;
+    try {
+      number = decrypt(cardToken.encryptedNumber, this.key, token);
+    } catch (error) {
+      // Usually the vault key changed, or none is configured and the process restarted
+      logger.error('Failed to decrypt card token', { error: (error as Error).message });
+      throw new PaymentError('Card token not found', 'card_token_not_found');
+    }
+
+    return {
+      number,
+      expiryMonth: cardToken.expiryMonth,
+      expiryYear: cardToken.expiryYear,
+      cardholderName: cardToken.cardholderName
+    };
+  }
+}
@@ -1,4 +1,6 @@
-import { logger } from '../utils/logging';
+import { createLogger } from '../utils/logging';
+
+const logger = createLogger('credit-card-validator');
 
 export interface CreditCardDetails {
   number: string;
@@ -75,7 +77,7 @@ export class CreditCardValidator {
     if (errors.length > 0) {
       // Fixed: Mask card number in logs to comply with PCI-DSS
       logger.error('Credit card validation failed', {
-        cardNumber: card.number,
+        cardLast4: card.number.slice(-4),
         errors
       });
       
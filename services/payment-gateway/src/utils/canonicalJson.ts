@@ -0,0 +1,23 @@
+/**
+ * JSON with object keys sorted at every level, so equal values always serialize
+ * to the same string regardless of property order
+ */
+export const canonicalJson = (value: unknown): string => {
+  const sortKeys = (current: unknown): unknown => {
+    if (Array.isArray(current)) {
+      return current.map(sortKeys);
+    }
+    if (current && typeof current === 'object' && !(current instanceof Date)) {
+      const source = current as Record<string, unknown>;
+      return Object.keys(source)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = sortKeys(source[key]);
+          return sorted;
+        }, {});
+    }
+    return current;
+  };
+
+  return JSON.stringify(sortKeys(value));
+};
@@ -0,0 +1,13 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Hex HMAC-SHA256 identifying a card number without revealing it. It is keyed so the few
+ * possible numbers for a stored BIN and last four digits cannot be hashed and compared.
+ * @throws Error when the secret is empty
+ */
+export const cardFingerprint = (cardNumber: string, secret: string): string => {
+  if (!secret) {
+    throw new Error('Card fingerprints need a secret');
+  }
+  return createHmac('sha256', secret).update(cardNumber).digest('hex');
+};
@@ -0,0 +1,76 @@
+/**
+ * One record of a CSV document and the line it starts on (1-based)
+ */
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Parse RFC 4180 CSV: comma-separated fields, double-quoted fields may contain commas, line breaks
+ * and doubled quotes. Accepts LF and CRLF line endings and a leading byte order mark; blank lines are skipped.
+ * @throws Error when a quoted field is not closed or a quote appears inside an unquoted field
+ */
+export const parseCsv = (content: string): CsvRecord[] => {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = (): void => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        if (i + 1 < text.length && !',\r\n'.includes(text[i + 1])) {
+          throw new Error(`Unexpected character after closing quote on line ${line}`);
+        }
+      } else {
+        field += char;
+        if (char === '\n') {
+          line++;
+        }
+      }
+    } else if (char === '"') {
+      if (field !== '') {
+        throw new Error(`Unexpected quote in unquoted field on line ${line}`);
+      }
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Quoted field starting on line ${recordLine} is not closed`);
+  }
+  endRecord();
+
+  return records;
+};
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import { PaymentError } from '../errors/PaymentError';
+import { canonicalJson } from './canonicalJson';
+
+/**
+ * Sort value and ID of the last item on a page
+ */
+export interface CursorPosition {
+  value: string;
+  id: string;
+}
+
+interface CursorPayload extends CursorPosition {
+  // Fingerprint of the query the cursor was issued for
+  q: string;
+}
+
+const fingerprint = (query: unknown): string =>
+  createHash('sha256').update(canonicalJson(query)).digest('base64url').slice(0, 16);
+
+/**
+ * Build an opaque pagination cursor bound to the filters and order it was issued for
+ * @param query Everything that defines the result set, e.g. filters, caller scope and sort order
+ */
+export const encodeCursor = (position: CursorPosition, query: unknown): string => {
+  const payload: CursorPayload = { value: position.value, id: position.id, q: fingerprint(query) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Read a cursor from encodeCursor
+ * @param query Must equal the query the cursor was issued for
+ * @throws PaymentError invalid_cursor when the cursor is malformed or was issued for another query
+ */
+export const decodeCursor = (cursor: string, query: unknown): CursorPosition => {
+  let payload: Partial<CursorPayload> | undefined;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    payload = undefined;
+  }
+
+  if (
+    !payload
+    || typeof payload.value !== 'string'
+    || typeof payload.id !== 'string'
+    || payload.q !== fingerprint(query)
+  ) {
+    throw new PaymentError('Cursor is malformed or belongs to a different query', 'invalid_cursor');
+  }
+
+  return { value: payload.value, id: payload.id };
+};
@@ -0,0 +1,49 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+// Leads every ciphertext so a later key or algorithm change can tell old values apart
+const FORMAT_VERSION = 'v1';
+
+/**
+ * Read a 256-bit key given as 64 hex characters or as base64
+ * @throws Error when the value does not decode to 32 bytes
+ */
+export const parseEncryptionKey = (value: string): Buffer => {
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption key must be ${KEY_BYTES} bytes as hex or base64`);
+  }
+  return key;
+};
+
+/**
+ * AES-256-GCM encrypt a value as `v1.<iv>.<tag>.<ciphertext>` in base64url
+ * @param context Bound to the ciphertext: decrypting needs the same value, so it cannot be copied to another record
+ */
+export const encrypt = (plaintext: string, key: Buffer, context = ''): string => {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv).setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+    .join('.');
+};
+
+/**
+ * Reverse encrypt()
+ * @throws Error when the value is malformed, or was encrypted with another key or context
+ */
+export const decrypt = (payload: string, key: Buffer, context = ''): string => {
+  const [version, iv, tag, ciphertext] = payload.split('.');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unsupported ciphertext format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'))
+    .setAAD(Buffer.from(context))
+    .setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
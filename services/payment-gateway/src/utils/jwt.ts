@@ -0,0 +1,123 @@
+import { createHmac, createVerify, timingSafeEqual } from 'crypto';
+import { PaymentError } from '../errors/PaymentError';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface JwtVerifyOptions {
+  // Shared secret; HS256 tokens are rejected without one
+  hs256Secret?: string;
+  // PEM-encoded public key; RS256 tokens are rejected without one
+  rs256PublicKey?: string;
+  issuer?: string;
+  audience?: string;
+  // Longest accepted exp - iat
+  maxLifetimeSeconds: number;
+  clockToleranceSeconds: number;
+  // Current time in seconds since the epoch
+  now?: () => number;
+}
+
+export interface JwtClaims {
+  sub: string;
+  exp: number;
+  iat: number;
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+  roles?: string[];
+  permissions?: string[];
+  // OAuth-style space-separated permissions
+  scope?: string;
+  // Merchant the caller acts for; absent for platform users
+  merchant_id?: string;
+  [claim: string]: unknown;
+}
+
+const invalidToken = (reason: string): PaymentError => new PaymentError(`Invalid bearer token: ${reason}`, 'invalid_token');
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+      throw new Error('not an object');
+    }
+    return decoded;
+  } catch {
+    throw invalidToken('malformed token');
+  }
+};
+
+const signatureMatches = (
+  algorithm: JwtAlgorithm,
+  signingInput: string,
+  signature: Buffer,
+  options: JwtVerifyOptions
+): boolean => {
+  // Each algorithm only ever uses its own key, so an RS256 public key can never be used as an HMAC secret
+  if (algorithm === 'HS256') {
+    if (!options.hs256Secret) {
+      throw invalidToken('HS256 tokens are not accepted');
+    }
+    const expected = createHmac('sha256', options.hs256Secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  if (!options.rs256PublicKey) {
+    throw invalidToken('RS256 tokens are not accepted');
+  }
+  return createVerify('RSA-SHA256').update(signingInput).verify(options.rs256PublicKey, signature);
+};
+
+/**
+ * Verify a compact JWT signed with HS256 or RS256 and check its time, issuer and audience claims
+ * @throws PaymentError invalid_token for malformed, forged or unacceptable tokens
+ * @throws PaymentError token_expired once exp has passed
+ */
+export const verifyJwt = (token: string, options: JwtVerifyOptions): JwtClaims => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw invalidToken('malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const algorithm = header.alg;
+  if (algorithm !== 'HS256' && algorithm !== 'RS256') {
+    throw invalidToken(`unsupported algorithm ${String(algorithm)}`);
+  }
+
+  if (!signatureMatches(algorithm, `${encodedHeader}.${encodedPayload}`, Buffer.from(encodedSignature, 'base64url'), options)) {
+    throw invalidToken('signature mismatch');
+  }
+
+  const claims = decodeSegment(encodedPayload) as Partial<JwtClaims>;
+  const now = options.now ? options.now() : Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds;
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw invalidToken('missing subject');
+  }
+  if (typeof claims.exp !== 'number' || typeof claims.iat !== 'number') {
+    throw invalidToken('exp and iat are required');
+  }
+  if (claims.exp - claims.iat > options.maxLifetimeSeconds) {
+    throw invalidToken(`lifetime exceeds ${options.maxLifetimeSeconds} seconds`);
+  }
+  if (claims.iat > now + tolerance || (typeof claims.nbf === 'number' && claims.nbf > now + tolerance)) {
+    throw invalidToken('token is not valid yet');
+  }
+  if (claims.exp <= now - tolerance) {
+    throw new PaymentError('Bearer token has expired', 'token_expired');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw invalidToken('unexpected issuer');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw invalidToken('unexpected audience');
+    }
+  }
+
+  return claims as JwtClaims;
+};
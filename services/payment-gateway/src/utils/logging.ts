@@ -1,13 +1,198 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import winston from 'winston';
+import { config } from '../config';
 
-// Configure logger - Updated - Updated - Updated
-export const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
+/**
+ * Request-scoped fields added to every log line written while handling the request
+ */
+export interface LogContext {
+  correlationId: string;
+  userId?: string;
+  ipAddress?: string;
+}
+
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function, and everything it awaits, with its own log context.
+ * Concurrent calls never see each other's context.
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T =>
+  logContextStorage.run({ ...context }, fn);
+
+/**
+ * Log context of the current request, if any
+ */
+export const getLogContext = (): LogContext | undefined => logContextStorage.getStore();
+
+/**
+ * Add fields to the current request's log context, e.g. the user once they are authenticated
+ */
+export const updateLogContext = (fields: Partial<LogContext>): void => {
+  const context = logContextStorage.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+};
+
+// Fields passed to an individual log call win over the request context
+const logContextFormat = winston.format(info => {
+  const context = logContextStorage.getStore() || {};
+  Object.entries(context).forEach(([key, value]) => {
+    if (info[key] === undefined && value !== undefined) {
+      info[key] = value;
+    }
+  });
+  // Set here rather than in defaultMeta, which would overwrite the service of child loggers
+  info.service = info.service || 'payment-gateway';
+  return info;
+});
+
+const REDACTED = '[REDACTED]';
+
+// Field names are compared without case, '_' or '-'
+const normalizeField = (field: string): string => field.toLowerCase().replace(/[_-]/g, '');
+
+// Values of these fields are never logged
+const SECRET_FIELDS = new Set([
+  'cvv', 'cvv2', 'cvc', 'cvc2', 'securitycode', 'password', 'secret', 'clientsecret',
+  'token', 'accesstoken', 'refreshtoken', 'apikey', 'xapikey', 'authorization'
+]);
+
+// Values of these fields keep only their last four characters
+const MASKED_FIELDS = new Set(['number', 'cardnumber', 'pan', 'accountnumber', 'routingnumber', 'iban']);
+
+/**
+ * Fields known to hold no cardholder data or PII, logged without being scanned.
+ * Extend with LOG_REDACTION_ALLOW_LIST.
+ */
+export const SAFE_LOG_FIELDS: ReadonlyArray<string> = [
+  'level', 'service', 'timestamp', 'correlationId', 'transactionId', 'originalTransactionId',
+  'providerTransactionId', 'authorizationId', 'approvalId', 'approvalRequestId', 'refundTransactionId',
+  'eventId', 'amount', 'currency', 'status', 'code', 'sequence'
+];
+
+const safeFields = new Set([...SAFE_LOG_FIELDS, ...config.logging.redactionAllowList].map(normalizeField));
+
+const PAN_CANDIDATE = /\b\d(?:[ -]?\d){12,18}\b/g;
+const EMAIL = /\b[A-Za-z0-9._%+-]+@([A-Za-z0-9.-]+\.[A-Za-z]{2,})\b/g;
+// Merchant API keys keep their non-secret 'gw_<id>' prefix
+const MERCHANT_API_KEY = /\b(gw_[0-9a-f]{16})_[A-Za-z0-9_-]{43}/g;
+const AUTHORIZATION_CREDENTIAL = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const LABELLED_CVV = /\b(cvv2?|cvc2?|security code)(\W{1,3})\d{3,4}\b/gi;
+const LABELLED_ACCOUNT = /\b(account(?:[ _-]?(?:number|no))?|acct|routing(?:[ _-]?(?:number|no))?)(\W{1,3})\d{4,17}\b/gi;
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const maskToLastFour = (value: string): string => `****${value.replace(/[\s-]/g, '').slice(-4)}`;
+
+const redactText = (text: string): string =>
+  text
+    .replace(MERCHANT_API_KEY, `$1_${REDACTED}`)
+    .replace(AUTHORIZATION_CREDENTIAL, `$1 ${REDACTED}`)
+    .replace(LABELLED_CVV, `$1$2${REDACTED}`)
+    .replace(LABELLED_ACCOUNT, `$1$2${REDACTED}`)
+    .replace(PAN_CANDIDATE, candidate => {
+      const digits = candidate.replace(/\D/g, '');
+      return passesLuhn(digits) ? maskToLastFour(digits) : candidate;
+    })
+    .replace(EMAIL, '***@$1');
+
+/**
+ * Mask PANs (Luhn-checked digit runs), CVVs, bank account and routing numbers, emails,
+ * bearer tokens and merchant API keys anywhere in a value. Fields in the allow-list are returned untouched.
+ * @param field Name of the field holding the value, if any
+ */
+export const redact = (value: unknown, field?: string, seen = new WeakSet<object>()): unknown => {
+  const name = field !== undefined ? normalizeField(field) : undefined;
+
+  if (name !== undefined && safeFields.has(name)) {
+    return value;
+  }
+
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (name !== undefined && SECRET_FIELDS.has(name)) {
+    return REDACTED;
+  }
+
+  if (name !== undefined && MASKED_FIELDS.has(name) && (typeof value === 'string' || typeof value === 'number')) {
+    return maskToLastFour(String(value));
+  }
+
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+
+  if (typeof value === 'number') {
+    const digits = String(value);
+    return /^\d{13,19}$/.test(digits) && passesLuhn(digits) ? maskToLastFour(digits) : value;
+  }
+
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value as object)) {
+    return '[Circular]';
+  }
+  seen.add(value as object);
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), stack: value.stack && redactText(value.stack) };
+  }
+
+  // Money, Date and the like: redact what would actually be written
+  const { toJSON } = value as { toJSON?: () => unknown };
+  if (typeof toJSON === 'function') {
+    return redact(toJSON.call(value), field, seen);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, undefined, seen));
+  }
+
+  return Object.entries(value as Record<string, unknown>).reduce<Record<string, unknown>>(
+    (redacted, [key, item]) => {
+      redacted[key] = redact(item, key, seen);
+      return redacted;
+    },
+    {}
+  );
+};
+
+// Runs on every line of every logger, after the request context has been added
+const redactionFormat = winston.format(info => {
+  Object.keys(info).forEach(key => {
+    info[key] = redact(info[key], key);
+  });
+  return info;
+});
+
+// One set of transports for the whole process; modules get child loggers from createLogger
+const rootLogger = winston.createLogger({
+  level: config.logging.level,
   format: winston.format.combine(
+    logContextFormat(),
+    redactionFormat(),
     winston.format.timestamp(),
     winston.format.json()
   ),
-  defaultMeta: { service: 'payment-gateway' },
   transports: [
     new winston.transports.Console(),
     new winston.transports.File({ filename: 'error.log', level: 'error' }),
@@ -15,23 +200,12 @@ export const logger = winston.createLogger({
   ]
 });
 
-// Add correlation ID to log context
-export const addCorrelationId = (correlationId: string): void => {
-  logger.defaultMeta = {
-    ...logger.defaultMeta,
-    correlationId
-  };
-};
-
-// Add user ID to log context
-export const addUserId = (userId: string): void => {
-  logger.defaultMeta = {
-    ...logger.defaultMeta,
-    userId
-  };
-};
+/**
+ * Logger for a module. Every line carries the module name and the current request's
+ * correlationId, userId and ipAddress.
+ * @param service Module name, logged as `service` (e.g. 'payment-processor')
+ */
+export const createLogger = (service: string): winston.Logger => rootLogger.child({ service });
 
-// Reset log context
-export const resetLogContext = (): void => {
-  logger.defaultMeta = { service: 'payment-gateway' };
-};
+// Root logger, for code without a module of its own and for adding transports
+export const logger = rootLogger;
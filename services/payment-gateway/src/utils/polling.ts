@@ -0,0 +1,63 @@
+import { createLogger } from './logging';
+
+const logger = createLogger('polling');
+
+/**
+ * Background job that runs a task at a fixed interval. Runs never overlap, a failing run is
+ * logged and the next one still happens, and the timer does not keep the process alive.
+ */
+export class PollingWorker {
+  readonly name: string;
+  private task: () => Promise<unknown>;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(name: string, task: () => Promise<unknown>, intervalMs: number) {
+    this.name = name;
+    this.task = task;
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    this.timer.unref();
+    logger.info('Worker started', { worker: this.name, intervalMs: this.intervalMs });
+  }
+
+  /**
+   * Stop scheduling runs and wait for the current one to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('Worker stopped', { worker: this.name });
+    }
+    await this.running;
+  }
+
+  /**
+   * Run the task now unless a run is already in progress
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = this.task()
+      .then(() => undefined, error => {
+        logger.error('Worker run failed', { worker: this.name, error: (error as Error).message });
+      })
+      .finally(() => {
+        this.running = undefined;
+      });
+    await this.running;
+  }
+}
@@ -0,0 +1,217 @@
+import { CircuitOpenError, ProviderError } from '../errors/PaymentError';
+import { createLogger } from './logging';
+
+const logger = createLogger('resilience');
+
+export interface RetryPolicy {
+  // Total attempts including the first call
+  maxAttempts: number;
+  // Upper bound of the delay before the first retry; doubles for each further retry
+  baseDelayMs: number;
+  // Upper bound of any single delay
+  maxDelayMs: number;
+}
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  // Only errors accepted here are retried; anything else is thrown straight away
+  isRetryable: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Transport failures where the provider may not have seen the request: timeouts,
+ * connection resets and 5xx answers. Declines and validation errors are never retried.
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof ProviderError && error.retryable;
+
+/**
+ * Delay before a retry using "full jitter": a random value between zero and the capped exponential delay,
+ * so clients that failed together do not retry together
+ * @param attempt Number of the attempt that just failed, starting at 1
+ */
+export const backoffDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number =>
+  Math.floor(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)));
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying retryable failures with capped exponential backoff.
+ * Only use for idempotent operations: a timed-out attempt may still have succeeded.
+ * @throws The last error once attempts are exhausted, or the first non-retryable error
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.policy.maxAttempts || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(attempt, options.policy);
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Reject with the error built by `onTimeout` if the operation has not settled in time.
+ * The operation itself keeps running; its late result is ignored.
+ */
+export const withTimeout = <T>(
+  operation: () => Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => Error
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+
+    operation().then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open'
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a single trial call is let through
+  resetTimeoutMs: number;
+  // Errors that count as failures; others (e.g. validation errors) pass through untouched
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+}
+
+/**
+ * Stops calling a dependency after repeated failures so callers fail fast instead of piling up on timeouts.
+ * After the reset timeout one trial call is allowed (half-open): success closes the circuit, failure reopens it.
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private isFailure: (error: unknown) => boolean;
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.failureThreshold = options.failureThreshold;
+    this.resetTimeoutMs = options.resetTimeoutMs;
+    this.isFailure = options.isFailure || isRetryableError;
+  }
+
+  /**
+   * Run an operation through the breaker
+   * @throws CircuitOpenError without running the operation while the circuit is open
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.state === CircuitState.OPEN && Date.now() - (this.openedAt as number) >= this.resetTimeoutMs) {
+      this.transition(CircuitState.HALF_OPEN);
+    }
+
+    if (this.state === CircuitState.OPEN || (this.state === CircuitState.HALF_OPEN && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    const trial = this.state === CircuitState.HALF_OPEN;
+    this.trialInFlight = trial;
+
+    try {
+      const result = await operation();
+      this.consecutiveFailures = 0;
+      if (this.state !== CircuitState.CLOSED) {
+        this.transition(CircuitState.CLOSED);
+      }
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.consecutiveFailures++;
+        if (trial || this.consecutiveFailures >= this.failureThreshold) {
+          this.transition(CircuitState.OPEN);
+        }
+      } else if (trial) {
+        // The dependency answered, so it is reachable again
+        this.transition(CircuitState.CLOSED);
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+
+    if (state === CircuitState.OPEN) {
+      this.openedAt = Date.now();
+    } else if (state === CircuitState.CLOSED) {
+      this.openedAt = undefined;
+      this.consecutiveFailures = 0;
+    }
+
+    const log = state === CircuitState.OPEN ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log('Circuit breaker state changed', {
+      circuit: this.name,
+      from: previous,
+      to: state,
+      consecutiveFailures: this.consecutiveFailures
+    });
+  }
+}
+
+// One breaker per dependency for the whole process
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Shared breaker for a dependency, created with `options` on first use
+ */
+export const getCircuitBreaker = (name: string, options: CircuitBreakerOptions): CircuitBreaker => {
+  let breaker = circuitBreakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, options);
+    circuitBreakers.set(name, breaker);
+  }
+  return breaker;
+};
+
+/**
+ * Current state of every shared breaker, for health checks and monitoring
+ */
+export const getCircuitBreakerSnapshots = (): CircuitBreakerSnapshot[] =>
+  Array.from(circuitBreakers.values()).map(breaker => breaker.snapshot());
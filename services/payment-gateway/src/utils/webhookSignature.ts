@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<payload>"
+ * @param timestamp Unix seconds the payload was signed at
+ */
+export const webhookHmac = (payload: Buffer | string, secret: string, timestamp: number): string =>
+  createHmac('sha256', secret).update(`${timestamp}.`).update(payload).digest('hex');
+
+/**
+ * Signature header value for a webhook payload: `t=<unix seconds>,v1=<webhookHmac>`.
+ * Used for provider webhooks we receive and merchant webhooks we send.
+ */
+export const signWebhook = (
+  payload: Buffer | string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => `t=${timestamp},v1=${webhookHmac(payload, secret, timestamp)}`;
+
+/**
+ * Split a signature header into its timestamp and v1 signatures; several v1 entries are allowed during secret rotation
+ */
+export const parseWebhookSignature = (header: string): { timestamp: number; signatures: string[] } => {
+  const entries = header.split(',').map(entry => entry.trim().split('='));
+  return {
+    timestamp: Number(entries.find(([name]) => name === 't')?.[1]),
+    signatures: entries.filter(([name, value]) => name === 'v1' && value).map(([, value]) => value)
+  };
+};
+
+/**
+ * Compare a received signature with the expected one in constant time
+ */
+export const signatureMatches = (received: string, expected: string): boolean => {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+  return receivedBuffer.length === expectedBuffer.length && timingSafeEqual(receivedBuffer, expectedBuffer);
+};
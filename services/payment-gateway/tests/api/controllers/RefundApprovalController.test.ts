@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { RefundApprovalController } from '../../../src/api/controllers/RefundApprovalController';
+import { PaymentProcessor, RefundApprovalRequiredError } from '../../../src/services/PaymentProcessor';
+import { InMemoryTransactionRepository } from '../../../src/repositories/InMemoryTransactionRepository';
+import { SandboxPaymentProviderAdapter } from '../../../src/providers/SandboxPaymentProviderAdapter';
+import { Money } from '../../../src/models/Money';
+import { RefundApproval } from '../../../src/models/RefundApproval';
+import { AuthenticatedUser } from '../../../src/models/AuthenticatedUser';
+
+interface MockResponse {
+  statusCode: number;
+  body?: unknown;
+}
+
+const buildRequest = (overrides: Partial<Request> = {}, headers: Record<string, string> = {}): Request => ({
+  params: {},
+  query: {},
+  body: {},
+  headers,
+  header: (name: string) => headers[name.toLowerCase()],
+  ...overrides
+} as unknown as Request);
+
+const buildResponse = (): Response & MockResponse => {
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  } as MockResponse & Record<string, unknown>;
+  return res as unknown as Response & MockResponse;
+};
+
+// Stands in for Express: errors passed to next() are answered by the central error handler
+const nextFor = (res: Response) => (error?: unknown): void => {
+  if (error) {
+    errorHandler(error, { method: 'POST', originalUrl: '/' } as Request, res, jest.fn());
+  }
+};
+
+describe('RefundApprovalController', () => {
+  let controller: RefundApprovalController;
+  let approval: RefundApproval;
+
+  const approver: AuthenticatedUser = { id: 'checker', roles: ['support', 'refund_approver'], permissions: [] };
+
+  beforeEach(async () => {
+    const paymentProcessor = new PaymentProcessor({
+      transactionRepository: new InMemoryTransactionRepository(),
+      providerAdapter: new SandboxPaymentProviderAdapter(),
+      refundApprovalThresholds: { '*': '100' }
+    });
+    controller = new RefundApprovalController(paymentProcessor);
+
+    const payment = await paymentProcessor.processPayment(Money.of(500, 'EUR'), {
+      type: 'card',
+      card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    });
+    const error = await paymentProcessor
+      .processRefund(payment.id, undefined, { actor: 'maker' })
+      .catch(caught => caught);
+    approval = (error as RefundApprovalRequiredError).approval;
+  });
+
+  it('should list pending approvals for approvers', async () => {
+    const res = buildResponse();
+    await controller.listApprovals(buildRequest({ query: { status: 'pending' }, user: approver }), res, nextFor(res));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ success: true, data: [{ id: approval.id, requestedBy: 'maker' }] });
+  });
+
+  it('should reject approval by the requester with 403', async () => {
+    const res = buildResponse();
+    await controller.approveRefund(
+      buildRequest({ params: { id: approval.id }, user: { ...approver, id: 'maker' } }),
+      res,
+      nextFor(res)
+    );
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toMatchObject({ success: false, error: { code: 'refund_self_approval' } });
+  });
+
+  it('should record the checker on approval', async () => {
+    const res = buildResponse();
+    await controller.approveRefund(
+      buildRequest({ params: { id: approval.id }, body: { note: 'ok' }, user: approver }),
+      res,
+      nextFor(res)
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      success: true,
+      data: { status: 'approved', requestedBy: 'maker', reviewedBy: 'checker', reviewNote: 'ok' }
+    });
+  });
+
+  it('should return 409 when rejecting an already decided request', async () => {
+    await controller.rejectRefund(buildRequest({ params: { id: approval.id }, user: approver }), buildResponse(), jest.fn());
+
+    const res = buildResponse();
+    await controller.rejectRefund(buildRequest({ params: { id: approval.id }, user: approver }), res, nextFor(res));
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toMatchObject({ success: false, error: { code: 'refund_approval_not_pending' } });
+  });
+});
@@ -0,0 +1,369 @@
+import { Request, Response } from 'express';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { TransactionController } from '../../../src/api/controllers/TransactionController';
+import { PaymentProcessor } from '../../../src/services/PaymentProcessor';
+import { IdempotencyService } from '../../../src/services/IdempotencyService';
+import { InMemoryTransactionRepository } from '../../../src/repositories/InMemoryTransactionRepository';
+import { InMemoryIdempotencyRepository } from '../../../src/repositories/InMemoryIdempotencyRepository';
+import { SandboxPaymentProviderAdapter } from '../../../src/providers/SandboxPaymentProviderAdapter';
+import { AuthenticatedUser } from '../../../src/models/AuthenticatedUser';
+
+interface MockResponse {
+  statusCode: number;
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+const customer: AuthenticatedUser = { id: 'user_1', roles: [], permissions: [] };
+
+// Requests come from customer unless the override says otherwise
+const buildRequest = (overrides: Partial<Request> = {}, headers: Record<string, string> = {}): Request => ({
+  params: {},
+  body: {},
+  headers,
+  user: customer,
+  header: (name: string) => headers[name.toLowerCase()],
+  ...overrides
+} as unknown as Request);
+
+const buildResponse = (): Response & MockResponse => {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    }
+  } as MockResponse & Record<string, unknown>;
+  return res as unknown as Response & MockResponse;
+};
+
+// Stands in for Express: errors passed to next() are answered by the central error handler
+const nextFor = (res: Response) => (error?: unknown): void => {
+  if (error) {
+    errorHandler(error, { method: 'POST', originalUrl: '/' } as Request, res, jest.fn());
+  }
+};
+
+describe('TransactionController', () => {
+  let controller: TransactionController;
+  let transactionRepository: InMemoryTransactionRepository;
+
+  const paymentBody = {
+    amount: 1000,
+    currency: 'USD',
+    paymentMethod: {
+      type: 'card',
+      card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    }
+  };
+
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    controller = new TransactionController(
+      new PaymentProcessor({ transactionRepository, providerAdapter: new SandboxPaymentProviderAdapter() }),
+      transactionRepository,
+      new IdempotencyService(new InMemoryIdempotencyRepository())
+    );
+  });
+
+  describe('getTransaction', () => {
+    it('should return the stored transaction', async () => {
+      // Arrange
+      const createRes = buildResponse();
+      await controller.createTransaction(buildRequest({ body: paymentBody }), createRes, nextFor(createRes));
+      const { id } = (createRes.body as { data: { id: string } }).data;
+
+      // Act
+      const res = buildResponse();
+      await controller.getTransaction(buildRequest({ params: { id } }), res, nextFor(res));
+
+      // Assert
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toMatchObject({ success: true, data: { id, status: 'completed' } });
+      expect((res.body as { data: { statusHistory: unknown[] } }).data.statusHistory).toEqual([
+        expect.objectContaining({ from: null, to: 'pending', actor: 'user_1' }),
+        expect.objectContaining({ from: 'pending', to: 'completed', actor: 'user_1' })
+      ]);
+    });
+
+    it('should hide other customers\' transactions unless the caller has a support role', async () => {
+      // Arrange
+      const createRes = buildResponse();
+      await controller.createTransaction(buildRequest({ body: paymentBody }), createRes, nextFor(createRes));
+      const { id } = (createRes.body as { data: { id: string } }).data;
+
+      // Act
+      const otherCustomer = buildResponse();
+      await controller.getTransaction(
+        buildRequest({ params: { id }, user: { id: 'user_2', roles: [], permissions: [] } }),
+        otherCustomer,
+        nextFor(otherCustomer)
+      );
+      const support = buildResponse();
+      await controller.getTransaction(
+        buildRequest({ params: { id }, user: { id: 'agent_1', roles: ['support'], permissions: [] } }),
+        support,
+        nextFor(support)
+      );
+
+      // Assert
+      expect(otherCustomer.statusCode).toBe(404);
+      expect(support.statusCode).toBe(200);
+    });
+
+    it('should not let a merchant-role caller without a merchant read other users\' transactions', async () => {
+      // Arrange
+      const createRes = buildResponse();
+      await controller.createTransaction(buildRequest({ body: paymentBody }), createRes, nextFor(createRes));
+      const { id } = (createRes.body as { data: { id: string } }).data;
+      const user = { id: 'user_2', roles: ['merchant'], permissions: [] };
+
+      // Act
+      const fetched = buildResponse();
+      await controller.getTransaction(buildRequest({ params: { id }, user }), fetched, nextFor(fetched));
+      const listed = buildResponse();
+      await controller.listTransactions(
+        buildRequest({ query: { sort: '-createdAt', limit: 20 } as unknown as Request['query'], user }),
+        listed,
+        nextFor(listed)
+      );
+
+      // Assert
+      expect(fetched.statusCode).toBe(404);
+      expect((listed.body as { data: unknown[] }).data).toEqual([]);
+    });
+
+    it('should return 404 in the standard error envelope', async () => {
+      const res = buildResponse();
+      await controller.getTransaction(buildRequest({ params: { id: 'missing' } }), res, nextFor(res));
+
+      expect(res.statusCode).toBe(404);
+      expect(res.body).toEqual({
+        success: false,
+        error: { message: 'Transaction not found', code: 'transaction_not_found' }
+      });
+    });
+  });
+
+  describe('listTransactions', () => {
+    const listQuery = { sort: '-createdAt', limit: 2 };
+    // Queries as the validate middleware leaves them: parsed and with defaults applied
+    const listRequest = (query: Record<string, unknown>, user = customer): Request =>
+      buildRequest({ query: query as unknown as Request['query'], user });
+    
+    beforeEach(async () => {
+      for (const user of ['user_1', 'user_1', 'user_1', 'user_2']) {
+        await controller.createTransaction(
+          buildRequest({ body: paymentBody, user: { id: user, roles: [], permissions: [] } }),
+          buildResponse(),
+          jest.fn()
+        );
+      }
+    });
+
+    it('should page through the caller\'s own transactions', async () => {
+      // Act
+      const first = buildResponse();
+      await controller.listTransactions(listRequest(listQuery), first, nextFor(first));
+      const { nextCursor } = (first.body as { pagination: { nextCursor: string } }).pagination;
+      const second = buildResponse();
+      await controller.listTransactions(
+        listRequest({ ...listQuery, cursor: nextCursor }),
+        second,
+        nextFor(second)
+      );
+
+      // Assert
+      expect(first.body).toMatchObject({ success: true, pagination: { hasMore: true } });
+      expect((first.body as { data: unknown[] }).data).toHaveLength(2);
+      expect(second.body).toMatchObject({ success: true, pagination: { hasMore: false, nextCursor: null } });
+      expect((second.body as { data: unknown[] }).data).toEqual([
+        expect.objectContaining({ metadata: expect.objectContaining({ userId: 'user_1' }) })
+      ]);
+    });
+
+    it('should let support list any user but not customers', async () => {
+      // Act
+      const support = buildResponse();
+      await controller.listTransactions(
+        listRequest({ ...listQuery, userId: 'user_2', includeTotal: true }, { id: 'agent_1', roles: ['support'], permissions: [] }),
+        support,
+        nextFor(support)
+      );
+      const customer = buildResponse();
+      await controller.listTransactions(
+        listRequest({ ...listQuery, userId: 'user_2' }),
+        customer,
+        nextFor(customer)
+      );
+
+      // Assert
+      expect(support.body).toMatchObject({ success: true, pagination: { total: 1 } });
+      expect(customer.statusCode).toBe(403);
+    });
+
+    it('should reject a cursor from a different query', async () => {
+      // Arrange
+      const first = buildResponse();
+      await controller.listTransactions(listRequest(listQuery), first, nextFor(first));
+      const { nextCursor } = (first.body as { pagination: { nextCursor: string } }).pagination;
+
+      // Act
+      const res = buildResponse();
+      await controller.listTransactions(
+        listRequest({ ...listQuery, sort: 'amount', cursor: nextCursor }),
+        res,
+        nextFor(res)
+      );
+
+      // Assert
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ success: false, error: { code: 'invalid_cursor' } });
+    });
+
+    it('should reject a cursor whose sort value was tampered with', async () => {
+      // Arrange
+      const query = { ...listQuery, sort: 'amount' };
+      const first = buildResponse();
+      await controller.listTransactions(listRequest(query), first, nextFor(first));
+      const { nextCursor } = (first.body as { pagination: { nextCursor: string } }).pagination;
+      const payload = JSON.parse(Buffer.from(nextCursor, 'base64url').toString('utf8'));
+      const forged = Buffer.from(JSON.stringify({ ...payload, value: 'not-an-amount' })).toString('base64url');
+
+      // Act
+      const res = buildResponse();
+      await controller.listTransactions(listRequest({ ...query, cursor: forged }), res, nextFor(res));
+
+      // Assert
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toEqual({ success: false, error: { code: 'validation_error', message: 'Invalid cursor' } });
+    });
+  });
+
+  describe('createTransaction with Idempotency-Key', () => {
+    const headers = { 'idempotency-key': 'order_42' };
+
+    it('should replay the original response instead of charging again', async () => {
+      // Arrange
+      const first = buildResponse();
+      await controller.createTransaction(buildRequest({ body: paymentBody }, headers), first, nextFor(first));
+
+      // Act
+      const second = buildResponse();
+      await controller.createTransaction(buildRequest({ body: paymentBody }, headers), second, nextFor(second));
+
+      // Assert
+      expect(second.statusCode).toBe(201);
+      expect(second.body).toEqual(JSON.parse(JSON.stringify(first.body)));
+      expect(second.headers['Idempotent-Replayed']).toBe('true');
+    });
+
+    it('should reject a reused key with a different body', async () => {
+      // Arrange
+      await controller.createTransaction(buildRequest({ body: paymentBody }, headers), buildResponse(), jest.fn());
+
+      // Act
+      const res = buildResponse();
+      await controller.createTransaction(buildRequest({ body: { ...paymentBody, amount: 2000 } }, headers), res, nextFor(res));
+
+      // Assert
+      expect(res.statusCode).toBe(422);
+      expect(res.body).toMatchObject({ success: false, error: { code: 'idempotency_key_reused' } });
+    });
+
+    it('should replay a decline instead of sending the card again', async () => {
+      // Arrange
+      const declinedBody = {
+        ...paymentBody,
+        paymentMethod: { type: 'card', card: { ...paymentBody.paymentMethod.card, number: '4000000000000002' } }
+      };
+      const first = buildResponse();
+      await controller.createTransaction(buildRequest({ body: declinedBody }, headers), first, nextFor(first));
+
+      // Act
+      const second = buildResponse();
+      await controller.createTransaction(buildRequest({ body: declinedBody }, headers), second, nextFor(second));
+
+      // Assert
+      expect(first.statusCode).toBe(400);
+      expect(second.statusCode).toBe(400);
+      expect(second.body).toEqual(first.body);
+      expect(second.headers['Idempotent-Replayed']).toBe('true');
+    });
+  });
+
+  describe('createTransaction amount validation', () => {
+    it('should reject unknown currency codes', async () => {
+      const res = buildResponse();
+      await controller.createTransaction(
+        buildRequest({ body: { ...paymentBody, currency: 'XYZ' } }),
+        res,
+        nextFor(res)
+      );
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ success: false, error: { code: 'invalid_currency' } });
+    });
+
+    it('should reject amounts more precise than the currency allows', async () => {
+      const res = buildResponse();
+      await controller.createTransaction(
+        buildRequest({ body: { ...paymentBody, amount: 10.5, currency: 'JPY' } }),
+        res,
+        nextFor(res)
+      );
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ success: false, error: { code: 'invalid_amount' } });
+    });
+
+    it('should serialize the amount in major units of its currency', async () => {
+      const res = buildResponse();
+      await controller.createTransaction(
+        buildRequest({ body: { ...paymentBody, amount: '12.345', currency: 'KWD' } }),
+        res,
+        nextFor(res)
+      );
+
+      expect(res.statusCode).toBe(201);
+      expect(JSON.parse(JSON.stringify(res.body))).toMatchObject({
+        data: { amount: '12.345', currency: 'KWD' }
+      });
+    });
+  });
+
+  describe('createTransaction fraud screening context', () => {
+    it('should ignore a client-sent country header unless one is configured', async () => {
+      // Arrange
+      const processor = new PaymentProcessor({ transactionRepository, providerAdapter: new SandboxPaymentProviderAdapter() });
+      const processPayment = jest.spyOn(processor, 'processPayment');
+      const screened = new TransactionController(
+        processor,
+        transactionRepository,
+        new IdempotencyService(new InMemoryIdempotencyRepository())
+      );
+
+      // Act
+      const res = buildResponse();
+      await screened.createTransaction(buildRequest({ body: paymentBody }, { 'cf-ipcountry': 'US' }), res, nextFor(res));
+
+      // Assert
+      expect(res.statusCode).toBe(201);
+      expect(processPayment).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ ipCountry: undefined })
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { Request, Response } from 'express';
+import {
+  authenticate,
+  authenticateApiKey,
+  requirePermission,
+  requireRole,
+  resolveMerchant
+} from '../../../src/api/middleware/authenticate';
+import { AuthenticatedUser, Permission, Role } from '../../../src/models/AuthenticatedUser';
+import { MerchantStatus } from '../../../src/models/Merchant';
+import { AuditLogger } from '../../../src/services/AuditLogger';
+import { MerchantService } from '../../../src/services/MerchantService';
+import { InMemoryAuditStore } from '../../../src/repositories/InMemoryAuditStore';
+import { InMemoryMerchantRepository } from '../../../src/repositories/InMemoryMerchantRepository';
+import { freshClaims, signJwt } from '../../helpers/jwt';
+
+const buildRequest = (headers: Record<string, string> = {}, user?: AuthenticatedUser): Request => ({
+  method: 'POST',
+  originalUrl: '/transactions/tx_1/refund',
+  path: '/tx_1/refund',
+  ip: '203.0.113.7',
+  headers,
+  header: (name: string) => headers[name.toLowerCase()],
+  user
+} as unknown as Request);
+
+describe('authentication middleware', () => {
+  const secret = 'test-secret-with-enough-entropy';
+  const options = { hs256Secret: secret, maxLifetimeSeconds: 3600, clockToleranceSeconds: 30 };
+  let auditStore: InMemoryAuditStore;
+  let auditLogger: AuditLogger;
+
+  beforeEach(() => {
+    auditStore = new InMemoryAuditStore();
+    auditLogger = new AuditLogger(auditStore);
+  });
+
+  describe('authenticate', () => {
+    it('should attach the caller from a valid bearer token', async () => {
+      // Arrange
+      const token = signJwt(freshClaims('user_1', { roles: ['support'], scope: 'refunds:create' }), secret);
+      const req = buildRequest({ authorization: `Bearer ${token}` });
+      const next = jest.fn();
+
+      // Act
+      await authenticate(options, auditLogger)(req, {} as Response, next);
+
+      // Assert
+      expect(next).toHaveBeenCalledWith();
+      expect(req.user).toEqual({ id: 'user_1', roles: ['support'], permissions: ['refunds:create'] });
+    });
+
+    it('should reject and audit requests without a token', async () => {
+      // Act
+      const next = jest.fn();
+      await authenticate(options, auditLogger)(buildRequest({ 'user-id': 'user_1' }), {} as Response, next);
+
+      // Assert
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'auth_required' }));
+      expect(await auditStore.readAll()).toEqual([
+        expect.objectContaining({
+          action: 'access.denied',
+          userId: 'unknown',
+          details: expect.objectContaining({ reason: 'auth_required' })
+        })
+      ]);
+    });
+
+    it('should reject tokens signed with another key', async () => {
+      const token = signJwt(freshClaims('user_1'), 'some-other-secret');
+      const next = jest.fn();
+
+      await authenticate(options, auditLogger)(buildRequest({ authorization: `Bearer ${token}` }), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_token' }));
+    });
+
+    it('should take the merchant from the merchant_id claim', async () => {
+      const token = signJwt(freshClaims('user_1', { merchant_id: 'merchant_1' }), secret);
+      const req = buildRequest({ authorization: `Bearer ${token}` });
+
+      await authenticate(options, auditLogger)(req, {} as Response, jest.fn());
+
+      expect(req.user?.merchantId).toBe('merchant_1');
+    });
+  });
+
+  describe('merchant callers', () => {
+    const admin = { actor: 'admin_1' };
+    let merchantService: MerchantService;
+
+    beforeEach(() => {
+      merchantService = new MerchantService(new InMemoryMerchantRepository(), new AuditLogger(new InMemoryAuditStore()));
+    });
+
+    it('should attach the merchant behind an API key', async () => {
+      // Arrange
+      const merchant = await merchantService.createMerchant({ name: 'Books', defaultCurrency: 'EUR' }, admin);
+      const { key } = await merchantService.issueApiKey(merchant.id, [Permission.REFUNDS_CREATE], admin);
+      const req = buildRequest({ 'x-api-key': key });
+      const next = jest.fn();
+
+      // Act
+      await authenticateApiKey(merchantService, auditLogger)(req, {} as Response, next);
+      await authenticate(options, auditLogger)(req, {} as Response, next);
+
+      // Assert
+      expect(next.mock.calls).toEqual([[], []]);
+      expect(req.user).toEqual({
+        id: `merchant:${merchant.id}`,
+        merchantId: merchant.id,
+        roles: [Role.MERCHANT],
+        permissions: [Permission.REFUNDS_CREATE]
+      });
+      expect(req.merchant).toEqual(merchant);
+    });
+
+    it('should reject and audit unknown API keys', async () => {
+      const next = jest.fn();
+
+      await authenticateApiKey(merchantService, auditLogger)(buildRequest({ 'x-api-key': 'gw_nope' }), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_api_key' }));
+      expect(await auditStore.readAll()).toEqual([
+        expect.objectContaining({ action: 'access.denied', details: expect.objectContaining({ reason: 'invalid_api_key' }) })
+      ]);
+    });
+
+    it('should refuse tokens for suspended or unknown merchants', async () => {
+      // Arrange
+      const merchant = await merchantService.createMerchant({ name: 'Books', defaultCurrency: 'EUR' }, admin);
+      await merchantService.updateMerchant(merchant.id, { status: MerchantStatus.SUSPENDED }, admin);
+      const suspended = jest.fn();
+      const unknown = jest.fn();
+
+      // Act
+      await resolveMerchant(merchantService, auditLogger)(
+        buildRequest({}, { id: 'user_1', merchantId: merchant.id, roles: [], permissions: [] }),
+        {} as Response,
+        suspended
+      );
+      await resolveMerchant(merchantService, auditLogger)(
+        buildRequest({}, { id: 'user_1', merchantId: 'missing', roles: [], permissions: [] }),
+        {} as Response,
+        unknown
+      );
+
+      // Assert
+      expect(suspended).toHaveBeenCalledWith(expect.objectContaining({ code: 'merchant_suspended' }));
+      expect(unknown).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_token' }));
+    });
+
+    it('should refuse merchant-role tokens that name no merchant', async () => {
+      // Arrange
+      const next = jest.fn();
+
+      // Act
+      await resolveMerchant(merchantService, auditLogger)(
+        buildRequest({}, { id: 'user_1', roles: [Role.MERCHANT], permissions: [] }),
+        {} as Response,
+        next
+      );
+
+      // Assert
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_token' }));
+      expect(await auditStore.readAll()).toEqual([
+        expect.objectContaining({ action: 'access.denied', details: expect.objectContaining({ reason: 'invalid_token' }) })
+      ]);
+    });
+  });
+
+  describe('authorization', () => {
+    const customer: AuthenticatedUser = { id: 'user_1', roles: ['admin'], permissions: [] };
+
+    it('should require one of the roles and audit denials', async () => {
+      // Act
+      const next = jest.fn();
+      await requireRole(auditLogger, Role.REFUND_APPROVER)(buildRequest({}, customer), {} as Response, next);
+
+      // Assert
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ code: 'forbidden' }));
+      expect(await auditStore.readAll()).toEqual([
+        expect.objectContaining({
+          action: 'access.denied',
+          status: 'failure',
+          userId: 'user_1',
+          details: expect.objectContaining({ reason: 'missing_role' })
+        })
+      ]);
+    });
+
+    it('should require refund permission explicitly, even for admins', async () => {
+      const denied = jest.fn();
+      const allowed = jest.fn();
+
+      await requirePermission(auditLogger, Permission.REFUNDS_CREATE)(buildRequest({}, customer), {} as Response, denied);
+      await requirePermission(auditLogger, Permission.REFUNDS_CREATE)(
+        buildRequest({}, { ...customer, permissions: ['refunds:create'] }),
+        {} as Response,
+        allowed
+      );
+
+      expect(denied).toHaveBeenCalledWith(expect.objectContaining({ code: 'forbidden' }));
+      expect(allowed).toHaveBeenCalledWith();
+    });
+  });
+});
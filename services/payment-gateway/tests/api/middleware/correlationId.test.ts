@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { correlationId } from '../../../src/api/middleware/correlationId';
+import { getLogContext, LogContext } from '../../../src/utils/logging';
+
+const buildRequest = (headers: Record<string, string> = {}): Request => ({
+  headers,
+  ip: '203.0.113.7',
+  header: (name: string) => headers[name.toLowerCase()]
+} as unknown as Request);
+
+const buildResponse = (): Response & { headers: Record<string, string> } => {
+  const res = {
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    }
+  };
+  return res as unknown as Response & { headers: Record<string, string> };
+};
+
+describe('correlationId middleware', () => {
+  it('should propagate a caller-supplied correlation ID', () => {
+    // Arrange
+    const res = buildResponse();
+    let context: LogContext | undefined;
+
+    // Act
+    correlationId(buildRequest({ 'x-correlation-id': 'order-42' }), res, () => {
+      context = getLogContext();
+    });
+
+    // Assert
+    expect(res.headers['X-Correlation-Id']).toBe('order-42');
+    expect(context).toEqual({ correlationId: 'order-42', ipAddress: '203.0.113.7' });
+  });
+
+  it.each([
+    undefined,
+    'bad id\nwith newline',
+    'x'.repeat(129),
+    '4242424242424242',
+    'order-4242-4242-4242-4242',
+    'jane.doe@example.com'
+  ])('should generate an ID when given %p', supplied => {
+    const res = buildResponse();
+    let context: LogContext | undefined;
+
+    correlationId(buildRequest(supplied ? { 'x-correlation-id': supplied } : {}), res, () => {
+      context = getLogContext();
+    });
+
+    expect(res.headers['X-Correlation-Id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(context?.correlationId).toBe(res.headers['X-Correlation-Id']);
+  });
+});
@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { errorHandler, toErrorResponse } from '../../../src/api/middleware/errorHandler';
+import { PaymentError, ProviderError, ValidationError } from '../../../src/errors/PaymentError';
+
+const buildResponse = (): Response & { statusCode: number; body?: unknown } => {
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  } as { statusCode: number; body?: unknown } & Record<string, unknown>;
+  return res as unknown as Response & { statusCode: number; body?: unknown };
+};
+
+describe('errorHandler', () => {
+  const req = { method: 'POST', originalUrl: '/transactions' } as Request;
+
+  it.each([
+    [new PaymentError('Transaction not found', 'transaction_not_found'), 404],
+    [new PaymentError('Your card was declined', 'card_declined'), 400],
+    [new PaymentError('Authentication required', 'auth_required'), 401],
+    [new ProviderError('Provider timed out', 'provider_timeout'), 504]
+  ])('should map %p to HTTP %d', (error, status) => {
+    // Act
+    const res = buildResponse();
+    errorHandler(error, req, res, jest.fn());
+
+    // Assert
+    expect(res.statusCode).toBe(status);
+    expect(res.body).toEqual({ success: false, error: { code: error.code, message: error.message } });
+  });
+
+  it('should include field-level details for validation errors', () => {
+    const error = new ValidationError([{ field: 'body.amount', message: 'Required' }]);
+
+    expect(toErrorResponse(error)).toEqual({
+      statusCode: 400,
+      body: {
+        success: false,
+        error: {
+          code: 'validation_error',
+          message: 'Request validation failed',
+          details: [{ field: 'body.amount', message: 'Required' }]
+        }
+      }
+    });
+  });
+
+  it('should hide internal errors', () => {
+    const res = buildResponse();
+    errorHandler(new Error('SQLITE_BUSY: database is locked'), req, res, jest.fn());
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({
+      success: false,
+      error: { code: 'internal_error', message: 'An unexpected error occurred' }
+    });
+  });
+
+  it('should answer malformed JSON bodies with 400', () => {
+    const error = Object.assign(new SyntaxError('Unexpected token } in JSON'), { type: 'entity.parse.failed' });
+
+    expect(toErrorResponse(error)).toMatchObject({ statusCode: 400, body: { error: { code: 'invalid_json' } } });
+  });
+
+  it('should leave responses that have already started to Express', () => {
+    const next = jest.fn();
+    const error = new Error('stream broke');
+
+    errorHandler(error, req, { headersSent: true } as Response, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+});
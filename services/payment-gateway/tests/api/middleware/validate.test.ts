@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { validate } from '../../../src/api/middleware/validate';
+import { createTransactionSchema, listApprovalsSchema, refundTransactionSchema } from '../../../src/api/schemas';
+import { ValidationError } from '../../../src/errors/PaymentError';
+
+const buildRequest = (parts: Partial<Request> = {}): Request => ({
+  params: {},
+  query: {},
+  headers: {},
+  body: {},
+  ...parts
+} as unknown as Request);
+
+describe('validate middleware', () => {
+  const paymentBody = {
+    amount: '10.50',
+    currency: 'usd',
+    paymentMethod: {
+      type: 'card',
+      card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    }
+  };
+
+  it('should pass valid requests on with the parsed body', () => {
+    // Arrange
+    const req = buildRequest({ body: { ...paymentBody, unexpected: true } });
+    const next = jest.fn();
+
+    // Act
+    validate(createTransactionSchema)(req, {} as Response, next);
+
+    // Assert
+    expect(next).toHaveBeenCalledWith(undefined);
+    expect(req.body).toEqual({ ...paymentBody, currency: 'USD' });
+  });
+
+  it('should report every invalid field with its location', () => {
+    // Arrange
+    const req = buildRequest({
+      headers: { 'idempotency-key': '' },
+      body: {
+        amount: '-5',
+        currency: 'XYZ',
+        paymentMethod: { type: 'card', card: { ...paymentBody.paymentMethod.card, cvv: '12' } }
+      }
+    });
+    const next = jest.fn();
+
+    // Act
+    validate(createTransactionSchema)(req, {} as Response, next);
+
+    // Assert
+    const [error] = next.mock.calls[0];
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).details.map(detail => detail.field)).toEqual([
+      'headers.idempotency-key',
+      'body.amount',
+      'body.currency',
+      'body.paymentMethod.card.cvv'
+    ]);
+  });
+
+  it('should require the details matching the payment method type', () => {
+    const next = jest.fn();
+
+    validate(createTransactionSchema)(
+      buildRequest({ body: { ...paymentBody, paymentMethod: { type: 'wallet' } } }),
+      {} as Response,
+      next
+    );
+
+    expect(next.mock.calls[0][0]).toMatchObject({
+      code: 'validation_error',
+      details: [expect.objectContaining({ field: 'body.paymentMethod.wallet' })]
+    });
+  });
+
+  it('should validate params and enums', () => {
+    const refundNext = jest.fn();
+    const listNext = jest.fn();
+
+    validate(refundTransactionSchema)(
+      buildRequest({ params: { id: '' }, body: { reason: 'changed_mind' } }),
+      {} as Response,
+      refundNext
+    );
+    validate(listApprovalsSchema)(buildRequest({ query: { status: 'maybe' } }), {} as Response, listNext);
+
+    expect((refundNext.mock.calls[0][0] as ValidationError).details.map(detail => detail.field))
+      .toEqual(['params.id', 'body.reason']);
+    expect((listNext.mock.calls[0][0] as ValidationError).details.map(detail => detail.field))
+      .toEqual(['query.status']);
+  });
+});
@@ -0,0 +1,513 @@
+import { Express } from 'express';
+import request, { Response } from 'supertest';
+import { createApp, AppOptions } from '../src/app';
+import { SandboxPaymentProviderAdapter } from '../src/providers/SandboxPaymentProviderAdapter';
+import { InMemoryTransactionRepository } from '../src/repositories/InMemoryTransactionRepository';
+import { InMemoryIdempotencyRepository } from '../src/repositories/InMemoryIdempotencyRepository';
+import { InMemoryRefundApprovalRepository } from '../src/repositories/InMemoryRefundApprovalRepository';
+import { InMemoryAuditStore } from '../src/repositories/InMemoryAuditStore';
+import { InMemoryMerchantRepository } from '../src/repositories/InMemoryMerchantRepository';
+import { InMemoryProviderEventRepository } from '../src/repositories/InMemoryProviderEventRepository';
+import { InMemoryWebhookRepository } from '../src/repositories/InMemoryWebhookRepository';
+import { InMemoryFraudScreeningRepository } from '../src/repositories/InMemoryFraudScreeningRepository';
+import { InMemoryCardTokenRepository } from '../src/repositories/InMemoryCardTokenRepository';
+import { signWebhook } from '../src/utils/webhookSignature';
+import { TransactionStatus, TransactionType } from '../src/models/Transaction';
+import { Money } from '../src/models/Money';
+import { initialStatusHistory } from '../src/models/TransactionStateMachine';
+import { freshClaims, signJwt } from './helpers/jwt';
+import { config } from '../src/config';
+
+describe('app', () => {
+  let app: Express;
+
+  const secret = 'test-secret-with-enough-entropy';
+  const bearer = (sub: string): Record<string, string> => ({ Authorization: `Bearer ${signJwt(freshClaims(sub), secret)}` });
+
+  const start = (overrides: Partial<AppOptions> = {}): void => {
+    app = createApp({
+      transactionRepository: new InMemoryTransactionRepository(),
+      idempotencyRepository: new InMemoryIdempotencyRepository(),
+      refundApprovalRepository: new InMemoryRefundApprovalRepository(),
+      merchantRepository: new InMemoryMerchantRepository(),
+      providerEventRepository: new InMemoryProviderEventRepository(),
+      webhookRepository: new InMemoryWebhookRepository(),
+      auditStore: new InMemoryAuditStore(),
+      providerAdapter: new SandboxPaymentProviderAdapter(),
+      auth: { hs256Secret: secret, maxLifetimeSeconds: 3600, clockToleranceSeconds: 30 },
+      ...overrides
+    });
+  };
+
+  const paymentBody = {
+    amount: '25.00',
+    currency: 'USD',
+    paymentMethod: {
+      type: 'card',
+      card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    }
+  };
+
+  it('should serve payments end to end', async () => {
+    // Arrange
+    start();
+
+    // Act
+    const created = await request(app).post('/transactions').set(bearer('user_1')).send(paymentBody);
+    const fetched = await request(app).get(`/transactions/${created.body.data.id}`).set(bearer('user_1'));
+
+    // Assert
+    expect(created.status).toBe(201);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body).toMatchObject({ success: true, data: { amount: '25.00', currency: 'USD', status: 'completed' } });
+  });
+
+  it('should list transactions with filters from the query string', async () => {
+    // Arrange
+    start();
+    await request(app).post('/transactions').set(bearer('user_1')).send(paymentBody);
+    await request(app).post('/transactions').set(bearer('user_1')).send({ ...paymentBody, amount: '5.00' });
+
+    // Act
+    const listed = await request(app)
+      .get('/transactions?status=completed,refunded&currency=usd&minAmount=10&sort=amount&limit=1&includeTotal=true')
+      .set(bearer('user_1'));
+    const invalid = await request(app).get('/transactions?minAmount=10&limit=500').set(bearer('user_1'));
+    const reversedRange = await request(app)
+      .get('/transactions?currency=USD&minAmount=100000000000000.02&maxAmount=100000000000000.01')
+      .set(bearer('user_1'));
+    const mixedCurrencies = await request(app).get('/transactions?sort=-amount').set(bearer('user_1'));
+
+    // Assert
+    expect(listed.status).toBe(200);
+    expect(listed.body).toMatchObject({
+      success: true,
+      data: [{ amount: '25.00' }],
+      pagination: { hasMore: false, nextCursor: null, total: 1 }
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details.map((detail: { field: string }) => detail.field).sort()).toEqual([
+      'query.currency',
+      'query.limit'
+    ]);
+    expect(reversedRange.status).toBe(400);
+    expect(reversedRange.body.error.details.map((detail: { field: string }) => detail.field)).toEqual(['query.maxAmount']);
+    expect(mixedCurrencies.status).toBe(400);
+    expect(mixedCurrencies.body.error.details).toEqual([{ field: 'query.currency', message: 'Required when sorting by amount' }]);
+  });
+
+  it('should apply security headers and a correlation ID', async () => {
+    start();
+
+    const response = await request(app).get('/health');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, data: { status: 'ok', provider: { state: 'closed' } } });
+    expect(response.headers['x-content-type-options']).toBe('nosniff');
+    expect(response.headers['x-powered-by']).toBeUndefined();
+    expect(response.headers['x-correlation-id']).toBeDefined();
+  });
+
+  it('should answer invalid input in the standard error envelope', async () => {
+    // Arrange
+    start();
+
+    // Act
+    const invalid = await request(app).post('/transactions').set(bearer('user_1')).send({ ...paymentBody, amount: 'ten' });
+    const malformed = await request(app)
+      .post('/transactions')
+      .set({ ...bearer('user_1'), 'Content-Type': 'application/json' })
+      .send('{"amount":');
+    const unknown = await request(app).get('/payments');
+
+    // Assert
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({
+      success: false,
+      error: {
+        code: 'validation_error',
+        message: 'Request validation failed',
+        details: [{ field: 'body.amount', message: 'Must be a decimal number, e.g. "10.50"' }]
+      }
+    });
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.error.code).toBe('invalid_json');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.error.code).toBe('route_not_found');
+  });
+
+  it('should require a bearer token', async () => {
+    start();
+
+    const response = await request(app).get('/transactions/tx_1').set({ 'user-id': 'user_1' });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe('auth_required');
+  });
+
+  it('should rate limit each client but never the health check', async () => {
+    // Arrange
+    start({ rateLimit: { windowMs: 60000, max: 2 } });
+    await request(app).get('/transactions/tx_1');
+    await request(app).get('/transactions/tx_1');
+
+    // Act
+    const limited = await request(app).get('/transactions/tx_1');
+    const health = await request(app).get('/health');
+
+    // Assert
+    expect(limited.status).toBe(429);
+    expect(limited.body).toEqual({
+      success: false,
+      error: { code: 'rate_limited', message: 'Too many requests, please retry later' }
+    });
+    expect(limited.headers['ratelimit-limit']).toBe('2');
+    expect(health.status).toBe(200);
+  });
+
+  it('should serve merchants with API keys issued by an admin', async () => {
+    // Arrange
+    start();
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const createMerchant = async (name: string): Promise<{ id: string; key: string }> => {
+      const merchant = await request(app).post('/merchants').set(admin).send({ name, defaultCurrency: 'eur' });
+      const issued = await request(app)
+        .post(`/merchants/${merchant.body.data.id}/api-keys`)
+        .set(admin)
+        .send({ permissions: ['refunds:create'] });
+      return { id: merchant.body.data.id, key: issued.body.data.key };
+    };
+    const books = await createMerchant('Books');
+    const games = await createMerchant('Games');
+
+    // Act
+    const { currency: _currency, ...bodyWithoutCurrency } = paymentBody;
+    const created = await request(app).post('/transactions').set({ 'X-Api-Key': books.key }).send(bodyWithoutCurrency);
+    const ownRead = await request(app).get(`/transactions/${created.body.data.id}`).set({ 'X-Api-Key': books.key });
+    const otherRead = await request(app).get(`/transactions/${created.body.data.id}`).set({ 'X-Api-Key': games.key });
+    const keys = await request(app).get(`/merchants/${books.id}/api-keys`).set(admin);
+    const asMerchant = await request(app).get('/merchants').set({ 'X-Api-Key': books.key });
+
+    // Assert
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ merchantId: books.id, currency: 'EUR' });
+    expect(ownRead.status).toBe(200);
+    expect(otherRead.status).toBe(404);
+    expect(keys.body.data[0].secretHash).toBeUndefined();
+    expect(keys.body.data[0].key).toBeUndefined();
+    expect(asMerchant.status).toBe(403);
+  });
+
+  it('should stop accepting a revoked API key', async () => {
+    // Arrange
+    start();
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const merchant = await request(app).post('/merchants').set(admin).send({ name: 'Books', defaultCurrency: 'EUR' });
+    const issued = await request(app).post(`/merchants/${merchant.body.data.id}/api-keys`).set(admin).send({});
+
+    // Act
+    await request(app).post(`/merchants/${merchant.body.data.id}/api-keys/${issued.body.data.id}/revoke`).set(admin);
+    const response = await request(app).get('/transactions/tx_1').set({ 'X-Api-Key': issued.body.data.key });
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe('invalid_api_key');
+  });
+
+  it('should apply signed provider webhooks and reject unsigned ones', async () => {
+    // Arrange
+    const transactionRepository = new InMemoryTransactionRepository();
+    await transactionRepository.save({
+      id: 'tx_pending',
+      providerTransactionId: 'prov_1',
+      amount: Money.of('25.00', 'USD'),
+      currency: 'USD',
+      status: TransactionStatus.PENDING,
+      statusHistory: initialStatusHistory(TransactionStatus.PENDING, 'user_1'),
+      type: TransactionType.PAYMENT,
+      metadata: { userId: 'user_1' },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    start({ transactionRepository, webhooks: { secret: 'whsec_test', toleranceSeconds: 300 } });
+    const payload = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded', data: { id: 'prov_1' } });
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+
+    // Act
+    const forged = await request(app)
+      .post('/webhooks/provider')
+      .set({ 'Content-Type': 'application/json', 'X-Provider-Signature': signWebhook(payload, 'whsec_forged') })
+      .send(payload);
+    const delivered = await request(app)
+      .post('/webhooks/provider')
+      .set({ 'Content-Type': 'application/json', 'X-Provider-Signature': signWebhook(payload, 'whsec_test') })
+      .send(payload);
+    const events = await request(app).get('/provider-events?status=processed').set(admin);
+
+    // Assert
+    expect(forged.status).toBe(401);
+    expect(forged.body.error.code).toBe('invalid_webhook_signature');
+    expect(delivered.status).toBe(200);
+    expect(delivered.body.data).toEqual({ eventId: 'evt_1', status: 'processed', duplicate: false });
+    expect((await transactionRepository.findById('tx_pending'))?.status).toBe(TransactionStatus.COMPLETED);
+    expect(events.body.data).toEqual([expect.objectContaining({ id: 'evt_1', payload, transactionId: 'tx_pending' })]);
+  });
+
+  it('should let merchants subscribe to webhooks and queue deliveries for their transactions', async () => {
+    // Arrange
+    start();
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const merchant = await request(app).post('/merchants').set(admin).send({ name: 'Books', defaultCurrency: 'USD' });
+    const issued = await request(app).post(`/merchants/${merchant.body.data.id}/api-keys`).set(admin).send({});
+    const books = { 'X-Api-Key': issued.body.data.key };
+
+    // Act
+    const invalid = await request(app)
+      .post('/webhook-subscriptions')
+      .set(books)
+      .send({ url: 'http://books.example/hooks', eventTypes: ['payment.shipped'] });
+    const asPlatformAdmin = await request(app)
+      .post('/webhook-subscriptions')
+      .set(admin)
+      .send({ url: 'https://books.example/hooks', eventTypes: ['*'] });
+    const created = await request(app)
+      .post('/webhook-subscriptions')
+      .set(books)
+      .send({ url: 'https://books.example/hooks', eventTypes: ['payment.completed'] });
+    const listed = await request(app).get('/webhook-subscriptions').set(books);
+    const payment = await request(app).post('/transactions').set(books).send(paymentBody);
+    const deliveries = await request(app).get('/webhook-deliveries').set(books);
+    const forSupport = await request(app)
+      .get('/webhook-deliveries?status=pending')
+      .set({ Authorization: `Bearer ${signJwt(freshClaims('support_1', { roles: ['support'] }), secret)}` });
+
+    // Assert
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details.map((detail: { field: string }) => detail.field)).toEqual(['body.url', 'body.eventTypes.0']);
+    expect(asPlatformAdmin.status).toBe(403);
+    expect(created.status).toBe(201);
+    expect(created.body.data.secret).toMatch(/^whsec_/);
+    expect(listed.body.data).toEqual([expect.not.objectContaining({ secret: expect.anything() })]);
+    expect(deliveries.body.data).toEqual([expect.objectContaining({
+      subscriptionId: created.body.data.id,
+      eventId: `${payment.body.data.id}:1`,
+      eventType: 'payment.completed',
+      status: 'pending'
+    })]);
+    expect(forSupport.body.data).toHaveLength(1);
+  });
+
+  it('should show admins the ledger behind each payment', async () => {
+    // Arrange
+    start();
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const created = await request(app).post('/transactions').set(bearer('user_1')).send(paymentBody);
+
+    // Act
+    const entries = await request(app).get(`/ledger/transactions/${created.body.data.id}/entries`).set(admin);
+    const balances = await request(app).get('/ledger/balances?account=fees').set(admin);
+    const before = await request(app).get('/ledger/balances?asOf=2020-01-01T00:00:00Z').set(admin);
+    const verified = await request(app).get('/ledger/verify').set(admin);
+    const asUser = await request(app).get('/ledger/verify').set(bearer('user_1'));
+
+    // Assert
+    expect(entries.body.data.map((entry: { kind: string }) => entry.kind)).toEqual(['payment', 'fee']);
+    expect(balances.body.data).toEqual([{ account: 'fees', currency: 'USD', debits: '0.00', credits: '0.72', balance: '-0.72' }]);
+    expect(before.body.data).toEqual([]);
+    expect(verified.status).toBe(200);
+    expect(verified.body.data).toEqual({ balanced: true, entriesChecked: 2, imbalances: [] });
+    expect(asUser.status).toBe(403);
+  });
+
+  it('should reconcile settlement reports posted by admins', async () => {
+    // Arrange
+    start();
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const created = await request(app).post('/transactions').set(bearer('user_1')).send(paymentBody);
+    const providerTransactionId = created.body.data.providerTransactionId;
+    const from = new Date(Date.now() - 60000).toISOString();
+    const to = new Date(Date.now() + 60000).toISOString();
+
+    // Act
+    const csv = await request(app)
+      .post(`/reconciliations?from=${from}&to=${to}`)
+      .set({ ...admin, 'Content-Type': 'text/csv' })
+      .send(`provider_transaction_id,amount,currency\n${providerTransactionId},25.00,USD\n`);
+    const json = await request(app)
+      .post(`/reconciliations?from=${from}&to=${to}`)
+      .set(admin)
+      .send({ settlementId: 'stl_1', lines: [{ providerTransactionId: 'prov_unknown', amount: '1.00', currency: 'USD' }] });
+    const malformed = await request(app)
+      .post(`/reconciliations?from=${to}&to=${from}`)
+      .set({ ...admin, 'Content-Type': 'text/csv' })
+      .send('not a report');
+    const asUser = await request(app).post(`/reconciliations?from=${from}&to=${to}`).set(bearer('user_1')).send('');
+
+    // Assert
+    expect(csv.status).toBe(200);
+    expect(csv.body.data).toMatchObject({ matched: 1, reconciled: true, issues: [] });
+    expect(json.status).toBe(200);
+    expect(json.body.data).toMatchObject({ settlementId: 'stl_1', reconciled: false, summary: { missing: 1, unknown: 1 } });
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.error.details.map((detail: { field: string }) => detail.field)).toEqual(['query.to']);
+    expect(asUser.status).toBe(403);
+  });
+
+  it('should hold large payments until an admin approves the review', async () => {
+    // Arrange
+    start({
+      fraudScreeningRepository: new InMemoryFraudScreeningRepository(),
+      fraud: { ...config.fraud, reviewAmounts: { USD: '1000' }, blockAmounts: { USD: '10000' } }
+    });
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const largePayment = { ...paymentBody, amount: '2000.00', customerEmail: 'customer@example.com' };
+
+    // Act
+    const held = await request(app).post('/transactions').set(bearer('user_1')).send(largePayment);
+    const blocked = await request(app).post('/transactions').set(bearer('user_1')).send({ ...paymentBody, amount: '10000.00' });
+    const queue = await request(app).get('/fraud-reviews?status=pending').set(admin);
+    const approved = await request(app)
+      .post(`/fraud-reviews/${queue.body.data[0]?.id}/approve`)
+      .set(admin)
+      .send({ note: 'Known customer' });
+    const retried = await request(app).post('/transactions').set(bearer('user_1')).send(largePayment);
+    const asUser = await request(app).get('/fraud-reviews').set(bearer('user_1'));
+
+    // Assert
+    expect(held.status).toBe(402);
+    expect(held.body.error.code).toBe('payment_held_for_review');
+    expect(blocked.status).toBe(402);
+    expect(blocked.body.error).toEqual({ code: 'payment_blocked', message: 'Payment was declined by fraud screening' });
+    expect(queue.body.data).toEqual([
+      expect.objectContaining({ userId: 'user_1', amount: '2000.00', decision: 'review', reviewStatus: 'pending', emailDomain: 'example.com' })
+    ]);
+    expect(approved.status).toBe(200);
+    expect(approved.body.data).toMatchObject({ reviewStatus: 'approved', reviewedBy: 'admin_1' });
+    expect(retried.status).toBe(201);
+    expect(retried.body.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(asUser.status).toBe(403);
+  });
+
+  it('should limit payments per end customer rather than per merchant API key', async () => {
+    // Arrange
+    start({
+      fraudScreeningRepository: new InMemoryFraudScreeningRepository(),
+      fraud: { ...config.fraud, velocity: { ...config.fraud.velocity, maxPerUser: 10, maxPerCard: 0 } }
+    });
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const merchant = await request(app).post('/merchants').set(admin).send({ name: 'Books', defaultCurrency: 'USD' });
+    const issued = await request(app).post(`/merchants/${merchant.body.data.id}/api-keys`).set(admin).send({});
+    const apiKey = { 'X-Api-Key': issued.body.data.key };
+    const pay = (data: Record<string, unknown>): Promise<Response> =>
+      request(app).post('/transactions').set(apiKey).send({ ...paymentBody, ...data });
+
+    // Act
+    const anonymous = [];
+    for (let i = 0; i < 12; i++) {
+      anonymous.push(await pay({}));
+    }
+    const sameCustomer = [];
+    for (let i = 0; i < 11; i++) {
+      sameCustomer.push(await pay({ customerId: 'cus_1' }));
+    }
+    const otherCustomer = await pay({ customerId: 'cus_2' });
+
+    // Assert
+    expect(anonymous.map(response => response.status)).toEqual(Array(12).fill(201));
+    expect(sameCustomer.slice(0, 10).map(response => response.status)).toEqual(Array(10).fill(201));
+    expect(sameCustomer[10].status).toBe(402);
+    expect(sameCustomer[10].body.error.code).toBe('payment_held_for_review');
+    expect(otherCustomer.status).toBe(201);
+  });
+
+  it('should let users pay with card tokens instead of card details', async () => {
+    // Arrange
+    start({ cardTokenRepository: new InMemoryCardTokenRepository() });
+
+    // Act
+    const tokenized = await request(app).post('/tokens').set(bearer('user_1')).send({ card: paymentBody.paymentMethod.card });
+    const tokenPayment = { ...paymentBody, paymentMethod: { type: 'card_token', cardToken: { token: tokenized.body.data?.token } } };
+    const paid = await request(app).post('/transactions').set(bearer('user_1')).send(tokenPayment);
+    const otherUser = await request(app).post('/transactions').set(bearer('user_2')).send(tokenPayment);
+    const missingCvv = await request(app)
+      .post('/tokens')
+      .set(bearer('user_1'))
+      .send({ card: { ...paymentBody.paymentMethod.card, cvv: undefined } });
+
+    // Assert
+    expect(tokenized.status).toBe(201);
+    expect(tokenized.body.data).toEqual({
+      token: expect.stringMatching(/^tok_/),
+      userId: 'user_1',
+      brand: 'visa',
+      bin: '424242',
+      last4: '4242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      createdAt: expect.any(String)
+    });
+    expect(paid.status).toBe(201);
+    expect(paid.body.data.status).toBe(TransactionStatus.COMPLETED);
+    expect(otherUser.status).toBe(404);
+    expect(otherUser.body.error.code).toBe('card_token_not_found');
+    expect(missingCvv.status).toBe(400);
+  });
+
+  it('should only let the owner of an authorization capture or void it', async () => {
+    // Arrange
+    start();
+    const settler = (sub: string): Record<string, string> => ({
+      Authorization: `Bearer ${signJwt(freshClaims(sub, { permissions: ['captures:create', 'authorizations:void'] }), secret)}`
+    });
+    const authorize = async (): Promise<string> => (await request(app)
+      .post('/transactions/authorize')
+      .set(settler('user_1'))
+      .send(paymentBody)).body.data.id;
+    const toCapture = await authorize();
+    const toVoid = await authorize();
+
+    // Act
+    const otherUserCapture = await request(app).post(`/transactions/${toCapture}/capture`).set(settler('user_2')).send({});
+    const otherUserVoid = await request(app).post(`/transactions/${toVoid}/void`).set(settler('user_2'));
+    const withoutPermission = await request(app).post(`/transactions/${toCapture}/capture`).set(bearer('user_1')).send({});
+    const ownCapture = await request(app).post(`/transactions/${toCapture}/capture`).set(settler('user_1')).send({});
+    const ownVoid = await request(app).post(`/transactions/${toVoid}/void`).set(settler('user_1'));
+
+    // Assert
+    expect(otherUserCapture.status).toBe(404);
+    expect(otherUserCapture.body.error.code).toBe('transaction_not_found');
+    expect(otherUserVoid.status).toBe(404);
+    expect(withoutPermission.status).toBe(403);
+    expect(ownCapture.status).toBe(201);
+    expect(ownVoid.status).toBe(200);
+    expect(ownVoid.body.data.status).toBe(TransactionStatus.VOIDED);
+  });
+
+  it('should not let a merchant capture or void another merchant\'s authorization', async () => {
+    // Arrange
+    start();
+    const admin = { Authorization: `Bearer ${signJwt(freshClaims('admin_1', { roles: ['admin'] }), secret)}` };
+    const apiKeyFor = async (name: string): Promise<Record<string, string>> => {
+      const merchant = await request(app).post('/merchants').set(admin).send({ name, defaultCurrency: 'USD' });
+      const issued = await request(app)
+        .post(`/merchants/${merchant.body.data.id}/api-keys`)
+        .set(admin)
+        .send({ permissions: ['captures:create', 'authorizations:void'] });
+      return { 'X-Api-Key': issued.body.data.key };
+    };
+    const books = await apiKeyFor('Books');
+    const games = await apiKeyFor('Games');
+    const authorization = await request(app).post('/transactions/authorize').set(books).send(paymentBody);
+
+    // Act
+    const otherCapture = await request(app).post(`/transactions/${authorization.body.data.id}/capture`).set(games).send({});
+    const otherVoid = await request(app).post(`/transactions/${authorization.body.data.id}/void`).set(games);
+    const ownVoid = await request(app).post(`/transactions/${authorization.body.data.id}/void`).set(books);
+
+    // Assert
+    expect(authorization.status).toBe(201);
+    expect(otherCapture.status).toBe(404);
+    expect(otherVoid.status).toBe(404);
+    expect(ownVoid.status).toBe(200);
+  });
+});
@@ -0,0 +1,28 @@
+import { createHmac, createSign } from 'crypto';
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Sign claims as a compact JWT the way an identity provider would
+ * @param key HMAC secret for HS256, PEM private key for RS256
+ */
+export const signJwt = (
+  claims: Record<string, unknown>,
+  key: string,
+  header: Record<string, unknown> = { alg: 'HS256', typ: 'JWT' }
+): string => {
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = header.alg === 'RS256'
+    ? createSign('RSA-SHA256').update(signingInput).sign(key)
+    : createHmac('sha256', key).update(signingInput).digest();
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+/**
+ * Claims for a token issued now and valid for the given number of seconds
+ */
+export const freshClaims = (sub: string, extra: Record<string, unknown> = {}, lifetimeSeconds = 900): Record<string, unknown> => {
+  const iat = Math.floor(Date.now() / 1000);
+  return { sub, iat, exp: iat + lifetimeSeconds, ...extra };
+};
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileMessageBroker } from '../../src/messaging/FileMessageBroker';
+import { DomainEvent, DomainEventType } from '../../src/models/DomainEvent';
+
+describe('FileMessageBroker', () => {
+  let directory: string;
+  let file: string;
+  let broker: FileMessageBroker;
+
+  const event = (id: string, type: DomainEventType = DomainEventType.PAYMENT_SUCCEEDED): DomainEvent => ({
+    id,
+    type,
+    occurredAt: new Date('2026-01-01T10:00:00.000Z'),
+    data: { transactionId: id, amount: '25.00', currency: 'USD', actor: 'user_1' }
+  } as DomainEvent);
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 5000;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'events-'));
+    file = path.join(directory, 'domain-events.jsonl');
+    broker = new FileMessageBroker(file, 10);
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should deliver events published after subscribing to a subscriber in another broker instance', async () => {
+    // Arrange
+    await broker.publish(event('tx_0'));
+    const consumer = new FileMessageBroker(file, 10);
+    const received: DomainEvent[] = [];
+    consumer.subscribe([DomainEventType.PAYMENT_SUCCEEDED], published => {
+      received.push(published);
+    });
+
+    // Act
+    await broker.publish(event('tx_1'));
+    await broker.publish(event('tx_2', DomainEventType.REFUND_ISSUED));
+    await broker.publish(event('tx_3'));
+    await waitFor(() => received.length === 2);
+    await consumer.close();
+
+    // Assert
+    expect(received).toEqual([event('tx_1'), event('tx_3')]);
+    expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(4);
+  });
+
+  it('should retry a failing handler with the same event before moving on', async () => {
+    // Arrange
+    const received: string[] = [];
+    let failures = 1;
+    broker.subscribe(Object.values(DomainEventType), published => {
+      if (failures-- > 0) {
+        throw new Error('consumer unavailable');
+      }
+      received.push(published.id);
+    });
+
+    // Act
+    await broker.publish(event('tx_1'));
+    await broker.publish(event('tx_2'));
+    await waitFor(() => received.length === 2);
+
+    // Assert
+    expect(received).toEqual(['tx_1', 'tx_2']);
+  });
+});
@@ -0,0 +1,61 @@
+import { DomainEventType, domainEventsFor } from '../../src/models/DomainEvent';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+
+describe('domainEventsFor', () => {
+  const authorization = (status: TransactionStatus, ...steps: TransactionStatus[]): Transaction => {
+    const history = [...initialStatusHistory(TransactionStatus.PENDING, 'user_1')];
+    steps.forEach(to => history.push({ from: history[history.length - 1].to, to, timestamp: new Date(), actor: 'user_1' }));
+
+    return {
+      id: 'tx_1',
+      amount: Money.of('25.00', 'USD'),
+      currency: 'USD',
+      status,
+      statusHistory: history,
+      type: TransactionType.AUTHORIZATION,
+      error: { message: 'Card declined', code: 'card_declined' },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  };
+
+  it('should raise an event for each status change other services care about', () => {
+    const events = domainEventsFor(authorization(TransactionStatus.VOIDED, TransactionStatus.AUTHORIZED, TransactionStatus.VOIDED));
+
+    expect(events.map(event => [event.id, event.type])).toEqual([
+      ['tx_1:1', DomainEventType.AUTHORIZATION_SUCCEEDED],
+      ['tx_1:2', DomainEventType.AUTHORIZATION_VOIDED]
+    ]);
+    expect(events[0].data).not.toHaveProperty('error');
+  });
+
+  it('should carry the error on failure events', () => {
+    const [event] = domainEventsFor(authorization(TransactionStatus.FAILED, TransactionStatus.FAILED));
+
+    expect(event).toMatchObject({
+      type: DomainEventType.AUTHORIZATION_FAILED,
+      data: { error: { message: 'Card declined', code: 'card_declined' } }
+    });
+  });
+
+  it('should raise a chargeback only for the amount the provider took back', () => {
+    const payment = (chargebackAmount?: Money): Transaction => ({
+      ...authorization(TransactionStatus.REFUNDED, TransactionStatus.COMPLETED, TransactionStatus.REFUNDED),
+      type: TransactionType.PAYMENT,
+      refundedAmount: Money.of('25.00', 'USD'),
+      chargebackAmount
+    });
+
+    expect(domainEventsFor(payment(Money.of('15.00', 'USD'))).map(event => [event.type, event.data.amount])).toEqual([
+      [DomainEventType.PAYMENT_SUCCEEDED, '25.00'],
+      [DomainEventType.CHARGEBACK_RECEIVED, '15.00']
+    ]);
+    expect(domainEventsFor(payment()).map(event => event.type)).toEqual([DomainEventType.PAYMENT_SUCCEEDED]);
+  });
+
+  it('should raise nothing for a transaction that is still pending', () => {
+    expect(domainEventsFor(authorization(TransactionStatus.PENDING))).toEqual([]);
+  });
+});
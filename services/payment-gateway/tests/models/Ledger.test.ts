@@ -0,0 +1,70 @@
+import { DomainEvent, DomainEventType } from '../../src/models/DomainEvent';
+import { EntrySide, JournalKind, LedgerAccountType, imbalances, journalEntriesFor } from '../../src/models/Ledger';
+import { Money } from '../../src/models/Money';
+
+describe('journalEntriesFor', () => {
+  const event = (type: DomainEventType, amount = '100.00'): DomainEvent => ({
+    id: 'tx_1:1',
+    type,
+    occurredAt: new Date('2026-01-01T10:00:00.000Z'),
+    data: { transactionId: 'tx_1', merchantId: 'merchant_1', originalTransactionId: 'tx_0', amount, currency: 'USD', actor: 'user_1' }
+  } as DomainEvent);
+
+  const summary = (lines: { account: string; side: EntrySide; amount: Money }[]): string[] =>
+    lines.map(line => `${line.side} ${line.account} ${line.amount.toString()}`);
+
+  it('should post a balanced charge and the platform fee for a payment', () => {
+    const [charge, fee] = journalEntriesFor(event(DomainEventType.PAYMENT_SUCCEEDED), '0.029');
+
+    expect(charge).toMatchObject({ id: 'tx_1:1:payment', kind: JournalKind.PAYMENT, transactionId: 'tx_1' });
+    expect(summary(charge.lines)).toEqual([
+      'debit customer_receivable 100.00',
+      'credit merchant_payable:merchant_1 100.00',
+      'debit provider_clearing 100.00',
+      'credit customer_receivable 100.00'
+    ]);
+    expect(fee).toMatchObject({ id: 'tx_1:1:fee', kind: JournalKind.FEE });
+    expect(summary(fee.lines)).toEqual(['debit merchant_payable:merchant_1 2.90', 'credit fees 2.90']);
+  });
+
+  it('should post no fee entry when the fee rounds to zero', () => {
+    expect(journalEntriesFor(event(DomainEventType.CAPTURE_COMPLETED, '0.10'), '0.029').map(entry => entry.kind))
+      .toEqual([JournalKind.CAPTURE]);
+  });
+
+  it('should charge refunds to the merchant and pay them out through the provider', () => {
+    const [refund] = journalEntriesFor(event(DomainEventType.REFUND_ISSUED, '40.00'), '0.029');
+
+    expect(summary(refund.lines)).toEqual([
+      'debit merchant_payable:merchant_1 40.00',
+      'credit refunds 40.00',
+      'debit refunds 40.00',
+      'credit provider_clearing 40.00'
+    ]);
+  });
+
+  it('should recover chargebacks from the merchant and keep the platform fee', () => {
+    const entries = journalEntriesFor(event(DomainEventType.CHARGEBACK_RECEIVED, '60.00'), '0.029');
+
+    expect(entries).toEqual([expect.objectContaining({ id: 'tx_1:1:chargeback', kind: JournalKind.CHARGEBACK })]);
+    expect(summary(entries[0].lines)).toEqual(['debit merchant_payable:merchant_1 60.00', 'credit provider_clearing 60.00']);
+  });
+
+  it('should post nothing for events that move no money', () => {
+    expect(journalEntriesFor(event(DomainEventType.PAYMENT_FAILED), '0.029')).toEqual([]);
+    expect(journalEntriesFor(event(DomainEventType.AUTHORIZATION_SUCCEEDED), '0.029')).toEqual([]);
+  });
+});
+
+describe('imbalances', () => {
+  it('should report the difference per currency', () => {
+    const lines = [
+      { account: LedgerAccountType.FEES, side: EntrySide.DEBIT, amount: Money.of('5.00', 'USD') },
+      { account: LedgerAccountType.FEES, side: EntrySide.CREDIT, amount: Money.of('4.00', 'USD') },
+      { account: LedgerAccountType.FEES, side: EntrySide.DEBIT, amount: Money.of('3.00', 'EUR') },
+      { account: LedgerAccountType.FEES, side: EntrySide.CREDIT, amount: Money.of('3.00', 'EUR') }
+    ];
+
+    expect(imbalances('je_1', lines)).toEqual([{ entryId: 'je_1', currency: 'USD', difference: Money.of('1.00', 'USD') }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { Money } from '../../src/models/Money';
+
+describe('Money', () => {
+  describe('of', () => {
+    it('should keep exact decimal amounts', () => {
+      const money = Money.of('0.1', 'USD').plus(Money.of('0.2', 'USD'));
+
+      expect(money.equals(Money.of('0.3', 'USD'))).toBe(true);
+      expect(money.toString()).toBe('0.30');
+    });
+
+    it('should normalize the currency code', () => {
+      expect(Money.of(10, 'usd').currency).toBe('USD');
+    });
+
+    it('should reject unknown currencies', () => {
+      expect(() => Money.of(10, 'XYZ')).toThrow(expect.objectContaining({ code: 'invalid_currency' }));
+    });
+
+    it.each([
+      ['10.001', 'USD'],
+      ['1.5', 'JPY'],
+      ['1.0001', 'KWD']
+    ])('should reject %s %s as too precise', (amount, currency) => {
+      expect(() => Money.of(amount, currency)).toThrow(expect.objectContaining({ code: 'invalid_amount' }));
+    });
+
+    it.each(['abc', '', 'Infinity'])('should reject %p as an amount', amount => {
+      expect(() => Money.of(amount, 'USD')).toThrow(expect.objectContaining({ code: 'invalid_amount' }));
+    });
+  });
+
+  describe('minor units', () => {
+    it.each([
+      ['10.50', 'USD', 1050],
+      ['1000', 'JPY', 1000],
+      ['1.234', 'KWD', 1234]
+    ])('should convert %s %s to %d minor units', (amount, currency, minor) => {
+      expect(Money.of(amount, currency).toMinorUnits()).toBe(minor);
+      expect(Money.fromMinorUnits(minor, currency).equals(Money.of(amount, currency))).toBe(true);
+    });
+
+    it('should reject fractional minor units', () => {
+      expect(() => Money.fromMinorUnits(10.5, 'USD')).toThrow(expect.objectContaining({ code: 'invalid_amount' }));
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should refuse to mix currencies', () => {
+      expect(() => Money.of(1, 'USD').plus(Money.of(1, 'EUR'))).toThrow(
+        expect.objectContaining({ code: 'currency_mismatch' })
+      );
+    });
+
+    it('should round multiplication half-even to the currency precision', () => {
+      expect(Money.of('0.25', 'USD').times('0.1').toString()).toBe('0.02');
+      expect(Money.of('0.35', 'USD').times('0.1').toString()).toBe('0.04');
+      expect(Money.of(15, 'JPY').times('0.1').toString()).toBe('2');
+    });
+  });
+
+  it('should serialize to a major-unit string padded to the currency precision', () => {
+    expect(JSON.stringify({ amount: Money.of(10.5, 'USD') })).toBe('{"amount":"10.50"}');
+    expect(JSON.stringify({ amount: Money.of(5, 'BHD') })).toBe('{"amount":"5.000"}');
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  canTransition,
+  initialStatusHistory,
+  transitionTransaction,
+  SYSTEM_ACTOR
+} from '../../src/models/TransactionStateMachine';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { PaymentError } from '../../src/errors/PaymentError';
+import { Money } from '../../src/models/Money';
+
+describe('TransactionStateMachine', () => {
+  const buildTransaction = (status: TransactionStatus): Transaction => ({
+    id: 'txn_123',
+    amount: Money.of(1000, 'USD'),
+    currency: 'USD',
+    status,
+    statusHistory: initialStatusHistory(status, 'user_1'),
+    type: TransactionType.PAYMENT,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  it.each([
+    [TransactionStatus.PENDING, TransactionStatus.COMPLETED],
+    [TransactionStatus.PENDING, TransactionStatus.AUTHORIZED],
+    [TransactionStatus.AUTHORIZED, TransactionStatus.VOIDED],
+    [TransactionStatus.COMPLETED, TransactionStatus.PARTIALLY_REFUNDED],
+    [TransactionStatus.PARTIALLY_REFUNDED, TransactionStatus.REFUNDED]
+  ])('should allow %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    [TransactionStatus.FAILED, TransactionStatus.COMPLETED],
+    [TransactionStatus.REFUNDED, TransactionStatus.PARTIALLY_REFUNDED],
+    [TransactionStatus.VOIDED, TransactionStatus.AUTHORIZED],
+    [TransactionStatus.PENDING, TransactionStatus.REFUNDED],
+    [TransactionStatus.COMPLETED, TransactionStatus.PENDING]
+  ])('should reject %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it('should record the creation entry', () => {
+    const [entry] = initialStatusHistory(TransactionStatus.PENDING);
+
+    expect(entry).toMatchObject({ from: null, to: TransactionStatus.PENDING, actor: SYSTEM_ACTOR });
+  });
+
+  it('should append each change to the history', () => {
+    // Arrange
+    const transaction = buildTransaction(TransactionStatus.PENDING);
+    const original = transaction.statusHistory;
+
+    // Act
+    transitionTransaction(transaction, TransactionStatus.COMPLETED, 'user_1', 'Provider approved the payment');
+
+    // Assert
+    expect(transaction.status).toBe(TransactionStatus.COMPLETED);
+    expect(transaction.statusHistory).toHaveLength(2);
+    expect(transaction.statusHistory[1]).toMatchObject({
+      from: TransactionStatus.PENDING,
+      to: TransactionStatus.COMPLETED,
+      actor: 'user_1',
+      reason: 'Provider approved the payment'
+    });
+    expect(original).toHaveLength(1);
+  });
+
+  it('should throw a typed error for an illegal transition', () => {
+    // Arrange
+    const transaction = buildTransaction(TransactionStatus.FAILED);
+
+    // Act & Assert
+    expect(() => transitionTransaction(transaction, TransactionStatus.COMPLETED)).toThrow(PaymentError);
+    expect(() => transitionTransaction(transaction, TransactionStatus.COMPLETED))
+      .toThrow(expect.objectContaining({ code: 'invalid_status_transition' }));
+    expect(transaction.status).toBe(TransactionStatus.FAILED);
+    expect(transaction.statusHistory).toHaveLength(1);
+  });
+});
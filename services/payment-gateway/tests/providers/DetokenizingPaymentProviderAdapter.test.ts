@@ -0,0 +1,56 @@
+import { DetokenizingPaymentProviderAdapter } from '../../src/providers/DetokenizingPaymentProviderAdapter';
+import { PaymentProviderAdapter } from '../../src/providers/PaymentProviderAdapter';
+import { PaymentMethod } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+
+describe('DetokenizingPaymentProviderAdapter', () => {
+  const storedCard = { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030 };
+  let provider: jest.Mocked<PaymentProviderAdapter>;
+  let detokenize: jest.Mock;
+  let adapter: DetokenizingPaymentProviderAdapter;
+
+  beforeEach(() => {
+    provider = {
+      name: 'acquirer',
+      charge: jest.fn().mockResolvedValue({ status: 'succeeded', providerTransactionId: 'prov_1' }),
+      authorize: jest.fn().mockResolvedValue({ status: 'succeeded', providerTransactionId: 'prov_2' }),
+      capture: jest.fn(),
+      refund: jest.fn(),
+      void: jest.fn()
+    };
+    detokenize = jest.fn().mockResolvedValue(storedCard);
+    adapter = new DetokenizingPaymentProviderAdapter(provider, { detokenize });
+  });
+
+  it('should send the stored card in place of a card token', async () => {
+    // Arrange
+    const paymentMethod: PaymentMethod = { type: 'card_token', cardToken: { token: 'tok_1' } };
+    const request = { amount: Money.of('10.00', 'USD'), paymentMethod, idempotencyKey: 'key_1' };
+
+    // Act
+    await adapter.charge(request);
+    await adapter.authorize(request);
+
+    // Assert
+    expect(detokenize).toHaveBeenCalledWith('tok_1');
+    expect(provider.charge).toHaveBeenCalledWith({ ...request, paymentMethod: { type: 'card', card: storedCard } });
+    expect(provider.authorize).toHaveBeenCalledWith({ ...request, paymentMethod: { type: 'card', card: storedCard } });
+    expect(adapter.name).toBe('acquirer');
+  });
+
+  it('should pass other payment methods through untouched', async () => {
+    // Arrange
+    const request = {
+      amount: Money.of('10.00', 'USD'),
+      paymentMethod: { type: 'wallet', wallet: { provider: 'paypal', token: 'wallet_token' } } as PaymentMethod,
+      idempotencyKey: 'key_1'
+    };
+
+    // Act
+    await adapter.charge(request);
+
+    // Assert
+    expect(detokenize).not.toHaveBeenCalled();
+    expect(provider.charge).toHaveBeenCalledWith(request);
+  });
+});
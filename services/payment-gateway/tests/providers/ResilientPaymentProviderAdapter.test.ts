@@ -0,0 +1,96 @@
+import { ResilientPaymentProviderAdapter } from '../../src/providers/ResilientPaymentProviderAdapter';
+import { PaymentProviderAdapter, ProviderResponse } from '../../src/providers/PaymentProviderAdapter';
+import { ProviderError } from '../../src/errors/PaymentError';
+import { PaymentMethod } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { CircuitBreaker, CircuitState } from '../../src/utils/resilience';
+
+describe('ResilientPaymentProviderAdapter', () => {
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  const succeeded: ProviderResponse = { status: 'succeeded', providerTransactionId: 'prov_1' };
+  const retryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+  let provider: jest.Mocked<PaymentProviderAdapter>;
+  let circuitBreaker: CircuitBreaker;
+
+  beforeEach(() => {
+    provider = {
+      name: 'flaky',
+      charge: jest.fn(),
+      authorize: jest.fn(),
+      capture: jest.fn(),
+      refund: jest.fn(),
+      void: jest.fn()
+    };
+    circuitBreaker = new CircuitBreaker('flaky', { failureThreshold: 5, resetTimeoutMs: 60000 });
+  });
+
+  it('should retry a refund after a dropped connection', async () => {
+    // Arrange
+    provider.refund
+      .mockRejectedValueOnce(new ProviderError('socket hang up', 'provider_unavailable'))
+      .mockResolvedValueOnce(succeeded);
+    const adapter = new ResilientPaymentProviderAdapter(provider, { retryPolicy, circuitBreaker });
+
+    // Act
+    const response = await adapter.refund({ transactionId: 'prov_0', idempotencyKey: 'refund_1' });
+
+    // Assert
+    expect(response).toBe(succeeded);
+    expect(provider.refund).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out a slow attempt and retry it with the same idempotency key', async () => {
+    // Arrange
+    provider.charge
+      .mockReturnValueOnce(new Promise(() => undefined))
+      .mockResolvedValueOnce(succeeded);
+    const adapter = new ResilientPaymentProviderAdapter(provider, { retryPolicy, circuitBreaker, timeoutMs: 10 });
+    const request = { amount: Money.of('10.00', 'USD'), paymentMethod, idempotencyKey: 'charge_1' };
+
+    // Act
+    const response = await adapter.charge(request);
+
+    // Assert
+    expect(response).toBe(succeeded);
+    expect(provider.charge).toHaveBeenCalledTimes(2);
+    expect(provider.charge.mock.calls.map(([sent]) => sent.idempotencyKey)).toEqual(['charge_1', 'charge_1']);
+  });
+
+  it('should not retry declines', async () => {
+    // Arrange
+    const declined: ProviderResponse = { status: 'failed', error: { message: 'Declined', code: 'card_declined' } };
+    provider.charge.mockResolvedValue(declined);
+    const adapter = new ResilientPaymentProviderAdapter(provider, { retryPolicy, circuitBreaker });
+
+    // Act
+    const response = await adapter.charge({ amount: Money.of('10.00', 'USD'), paymentMethod, idempotencyKey: 'charge_1' });
+
+    // Assert
+    expect(response).toBe(declined);
+    expect(provider.charge).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop calling the provider once its circuit opens', async () => {
+    // Arrange
+    provider.void.mockRejectedValue(new ProviderError('HTTP 503', 'provider_unavailable'));
+    const adapter = new ResilientPaymentProviderAdapter(provider, {
+      retryPolicy,
+      circuitBreaker: new CircuitBreaker('flaky', { failureThreshold: 2, resetTimeoutMs: 60000 })
+    });
+
+    // Act & Assert
+    await expect(adapter.void({ authorizationId: 'auth_1', idempotencyKey: 'void_1' }))
+      .rejects.toMatchObject({ code: 'provider_circuit_open' });
+    expect(provider.void).toHaveBeenCalledTimes(2);
+    expect(adapter.circuitBreaker.snapshot().state).toBe(CircuitState.OPEN);
+  });
+});
@@ -0,0 +1,69 @@
+import { SandboxPaymentProviderAdapter } from '../../src/providers/SandboxPaymentProviderAdapter';
+import { ProviderError } from '../../src/errors/PaymentError';
+import { PaymentMethod } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+
+describe('SandboxPaymentProviderAdapter', () => {
+  let adapter: SandboxPaymentProviderAdapter;
+
+  const cardPayment = (number: string): PaymentMethod => ({
+    type: 'card',
+    card: {
+      number,
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  });
+
+  const charge = (number: string, amount = '1000') => adapter.charge({
+    amount: Money.of(amount, 'USD'),
+    paymentMethod: cardPayment(number),
+    idempotencyKey: `key_${number}_${amount}`
+  });
+
+  beforeEach(() => {
+    adapter = new SandboxPaymentProviderAdapter();
+  });
+
+  it('should approve the standard test card', async () => {
+    const response = await charge('4242424242424242');
+
+    expect(response.status).toBe('succeeded');
+  });
+
+  it.each([
+    ['4000000000000002', 'card_declined'],
+    ['4000000000009995', 'insufficient_funds'],
+    ['4000000000003220', 'authentication_required']
+  ])('should decline card %s with %s', async (number, code) => {
+    const response = await charge(number);
+
+    expect(response.status).toBe('failed');
+    expect(response.error?.code).toBe(code);
+  });
+
+  it.each([
+    ['4000000000000408', 'provider_timeout'],
+    ['4000000000000500', 'provider_unavailable']
+  ])('should fail card %s with a %s provider error', async (number, code) => {
+    await expect(charge(number)).rejects.toEqual(expect.any(ProviderError));
+    await expect(charge(number)).rejects.toMatchObject({ code, retryable: true });
+  });
+
+  it('should apply amount triggers to otherwise approved cards', async () => {
+    const response = await charge('4242424242424242', '9995.00');
+
+    expect(response.error?.code).toBe('insufficient_funds');
+  });
+
+  it('should apply the same outcomes to authorizations', async () => {
+    const response = await adapter.authorize({
+      amount: Money.of('1000', 'USD'),
+      paymentMethod: cardPayment('4000000000009995'),
+      idempotencyKey: 'auth_1'
+    });
+
+    expect(response.status).toBe('failed');
+  });
+});
@@ -0,0 +1,97 @@
+import { SimulatorPaymentProviderAdapter } from '../../src/providers/SimulatorPaymentProviderAdapter';
+import { PaymentMethod } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+
+describe('SimulatorPaymentProviderAdapter', () => {
+  let adapter: SimulatorPaymentProviderAdapter;
+
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+
+  beforeEach(() => {
+    adapter = new SimulatorPaymentProviderAdapter();
+  });
+
+  it('should approve a charge', async () => {
+    const response = await adapter.charge({
+      amount: Money.of('10.00', 'USD'),
+      paymentMethod,
+      idempotencyKey: 'charge_1'
+    });
+
+    expect(response.status).toBe('succeeded');
+    expect(response.providerTransactionId).toMatch(/^sim_/);
+    expect(response.amount).toBe('10.00');
+  });
+
+  it('should return the original response for a repeated idempotency key', async () => {
+    const request = { amount: Money.of('10.00', 'USD'), paymentMethod, idempotencyKey: 'charge_1' };
+
+    const first = await adapter.charge(request);
+    const second = await adapter.charge(request);
+
+    expect(second.providerTransactionId).toBe(first.providerTransactionId);
+  });
+
+  it('should capture up to the authorized amount', async () => {
+    // Arrange
+    const authorization = await adapter.authorize({
+      amount: Money.of('10.00', 'USD'),
+      paymentMethod,
+      idempotencyKey: 'auth_1'
+    });
+    const authorizationId = authorization.providerTransactionId as string;
+
+    // Act
+    const partial = await adapter.capture({ authorizationId, amount: Money.of('6.00', 'USD'), idempotencyKey: 'cap_1' });
+    const excessive = await adapter.capture({ authorizationId, amount: Money.of('5.00', 'USD'), idempotencyKey: 'cap_2' });
+
+    // Assert
+    expect(partial.status).toBe('succeeded');
+    expect(excessive.status).toBe('failed');
+    expect(excessive.error?.code).toBe('amount_too_large');
+  });
+
+  it('should reject captures after a void', async () => {
+    // Arrange
+    const authorization = await adapter.authorize({
+      amount: Money.of('10.00', 'USD'),
+      paymentMethod,
+      idempotencyKey: 'auth_1'
+    });
+    const authorizationId = authorization.providerTransactionId as string;
+
+    // Act
+    const voided = await adapter.void({ authorizationId, idempotencyKey: 'void_1' });
+    const capture = await adapter.capture({ authorizationId, idempotencyKey: 'cap_1' });
+
+    // Assert
+    expect(voided.status).toBe('succeeded');
+    expect(capture.status).toBe('failed');
+  });
+
+  it('should reject captures after a final capture', async () => {
+    // Arrange
+    const authorization = await adapter.authorize({
+      amount: Money.of('10.00', 'USD'),
+      paymentMethod,
+      idempotencyKey: 'auth_1'
+    });
+    const authorizationId = authorization.providerTransactionId as string;
+
+    // Act
+    const final = await adapter.capture({ authorizationId, amount: Money.of('6.00', 'USD'), idempotencyKey: 'cap_1', final: true });
+    const capture = await adapter.capture({ authorizationId, idempotencyKey: 'cap_2' });
+
+    // Assert
+    expect(final.status).toBe('succeeded');
+    expect(capture.status).toBe('failed');
+  });
+});
@@ -0,0 +1,45 @@
+import Database from 'better-sqlite3';
+import { SqliteCardTokenRepository } from '../../src/repositories/SqliteCardTokenRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import { CardToken } from '../../src/models/CardToken';
+
+describe('SqliteCardTokenRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteCardTokenRepository;
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteCardTokenRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should read a token back exactly', async () => {
+    // Arrange
+    const cardToken: CardToken = {
+      token: 'tok_1',
+      userId: 'user_1',
+      merchantId: 'merchant_1',
+      brand: 'visa',
+      bin: '424242',
+      last4: '4242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cardholderName: 'Ada Lovelace',
+      fingerprint: 'f'.repeat(64),
+      encryptedNumber: 'v1.iv.tag.ciphertext',
+      createdAt: new Date('2026-01-01T10:00:00.000Z')
+    };
+
+    // Act
+    await repository.save(cardToken);
+    await repository.save({ ...cardToken, token: 'tok_2', merchantId: undefined, cardholderName: undefined });
+
+    // Assert
+    expect(await repository.findByToken('tok_1')).toEqual(cardToken);
+    expect(await repository.findByToken('tok_2')).toEqual({ ...cardToken, token: 'tok_2', merchantId: undefined, cardholderName: undefined });
+    expect(await repository.findByToken('tok_3')).toBeUndefined();
+  });
+});
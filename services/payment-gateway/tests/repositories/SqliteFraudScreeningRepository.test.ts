@@ -0,0 +1,107 @@
+import Database from 'better-sqlite3';
+import { SqliteFraudScreeningRepository } from '../../src/repositories/SqliteFraudScreeningRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import { FraudDecision, FraudReviewStatus, FraudScreening } from '../../src/models/FraudScreening';
+import { Money } from '../../src/models/Money';
+
+describe('SqliteFraudScreeningRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteFraudScreeningRepository;
+
+  const screening = (id: string, overrides: Partial<FraudScreening> = {}): FraudScreening => ({
+    id,
+    transactionId: `tx_${id}`,
+    merchantId: 'merchant_1',
+    userId: 'user_1',
+    cardFingerprint: 'card_1',
+    amount: Money.of('2000.00', 'USD'),
+    currency: 'USD',
+    decision: FraudDecision.REVIEW,
+    score: 50,
+    reasons: [{ rule: 'amount_threshold', decision: FraudDecision.REVIEW, score: 50, message: 'Amount is at or above 1000.00 USD' }],
+    screenedAt: new Date('2026-01-01T10:00:00.000Z'),
+    reviewStatus: FraudReviewStatus.PENDING,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteFraudScreeningRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should read a screening back exactly and only update its review', async () => {
+    // Arrange
+    const stored = screening('s_1', { binCountry: 'GB', ipAddress: '203.0.113.7', ipCountry: 'US', emailDomain: 'example.com' });
+    await repository.save(stored);
+
+    // Act
+    await repository.save({
+      ...stored,
+      score: 0,
+      reviewStatus: FraudReviewStatus.APPROVED,
+      reviewedBy: 'admin_1',
+      reviewedAt: new Date('2026-01-01T11:00:00.000Z'),
+      reviewNote: 'Known customer'
+    });
+
+    // Assert
+    expect(await repository.findById('s_1')).toEqual({
+      ...stored,
+      reviewStatus: FraudReviewStatus.APPROVED,
+      reviewedBy: 'admin_1',
+      reviewedAt: new Date('2026-01-01T11:00:00.000Z'),
+      reviewNote: 'Known customer'
+    });
+    expect(await repository.findById('s_2')).toBeUndefined();
+  });
+
+  it('should count screenings of a user or card within a window', async () => {
+    // Arrange
+    await repository.save(screening('s_1', { screenedAt: new Date('2026-01-01T09:00:00.000Z') }));
+    await repository.save(screening('s_2', { decision: FraudDecision.ALLOW, reviewStatus: undefined }));
+    await repository.save(screening('s_3', { userId: 'user_2' }));
+    await repository.save(screening('s_4', { merchantId: 'merchant_2' }));
+    await repository.save(screening('s_5', { merchantId: undefined }));
+
+    // Act & Assert
+    expect(await repository.countSince({ userId: 'user_1', merchantId: 'merchant_1' }, new Date('2026-01-01T09:30:00.000Z'))).toBe(1);
+    expect(await repository.countSince({ userId: 'user_1', merchantId: 'merchant_2' }, new Date('2026-01-01T09:30:00.000Z'))).toBe(1);
+    expect(await repository.countSince({ userId: 'user_1' }, new Date('2026-01-01T09:00:00.000Z'))).toBe(1);
+    expect(await repository.countSince({ cardFingerprint: 'card_1' }, new Date('2026-01-01T09:00:00.000Z'))).toBe(5);
+  });
+
+  it('should list held screenings oldest first', async () => {
+    // Arrange
+    await repository.save(screening('s_2', { screenedAt: new Date('2026-01-01T11:00:00.000Z'), merchantId: 'merchant_2' }));
+    await repository.save(screening('s_1', { reviewStatus: FraudReviewStatus.REJECTED }));
+    await repository.save(screening('s_3', { decision: FraudDecision.ALLOW, reviewStatus: undefined }));
+
+    // Act & Assert
+    expect((await repository.listReviews()).map(review => review.id)).toEqual(['s_1', 's_2']);
+    expect((await repository.listReviews(FraudReviewStatus.PENDING)).map(review => review.id)).toEqual(['s_2']);
+    expect((await repository.listReviews(undefined, 'merchant_1')).map(review => review.id)).toEqual(['s_1']);
+  });
+
+  it('should only release an unused approval of the same payment', async () => {
+    // Arrange
+    const approval = {
+      reviewStatus: FraudReviewStatus.APPROVED,
+      reviewedBy: 'admin_1',
+      reviewedAt: new Date('2026-01-01T11:00:00.000Z')
+    };
+    await repository.save(screening('s_1', { ...approval, releasedTransactionId: 'tx_earlier' }));
+    await repository.save(screening('s_2', { ...approval, userId: undefined }));
+    await repository.save(screening('s_3', approval));
+    const since = new Date('2026-01-01T10:30:00.000Z');
+
+    // Act & Assert
+    expect((await repository.findReleasableReview(screening('retry'), since))?.id).toBe('s_3');
+    expect((await repository.findReleasableReview(screening('retry', { userId: undefined }), since))?.id).toBe('s_2');
+    expect(await repository.findReleasableReview(screening('retry', { amount: Money.of('2000.01', 'USD') }), since)).toBeUndefined();
+    expect(await repository.findReleasableReview(screening('retry'), new Date('2026-01-01T11:30:00.000Z'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import Database from 'better-sqlite3';
+import { SqliteLedgerRepository } from '../../src/repositories/SqliteLedgerRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import { DomainEvent, DomainEventType } from '../../src/models/DomainEvent';
+import { EntrySide, JournalEntry, JournalKind, journalEntriesFor } from '../../src/models/Ledger';
+import { Money } from '../../src/models/Money';
+
+describe('SqliteLedgerRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteLedgerRepository;
+
+  const entriesFor = (id: string, type: DomainEventType, amount: string, occurredAt: string): JournalEntry[] =>
+    journalEntriesFor({
+      id: `${id}:1`,
+      type,
+      occurredAt: new Date(occurredAt),
+      data: { transactionId: id, merchantId: 'merchant_1', amount, currency: 'USD', actor: 'user_1' }
+    } as DomainEvent, '0.02');
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteLedgerRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store each entry once and read it back exactly', async () => {
+    // Arrange
+    const entries = entriesFor('tx_1', DomainEventType.PAYMENT_SUCCEEDED, '10.05', '2026-01-01T10:00:00.000Z');
+
+    // Act
+    await repository.append(entries);
+    await repository.append(entriesFor('tx_1', DomainEventType.PAYMENT_SUCCEEDED, '99.00', '2026-01-01T10:00:00.000Z'));
+
+    // Assert
+    expect(await repository.count()).toBe(2);
+    expect(await repository.findByTransactionId('tx_1')).toEqual(entries);
+  });
+
+  it('should sum balances at a point in time', async () => {
+    // Arrange
+    await repository.append(entriesFor('tx_1', DomainEventType.PAYMENT_SUCCEEDED, '100.00', '2026-01-01T10:00:00.000Z'));
+    await repository.append(entriesFor('tx_2', DomainEventType.REFUND_ISSUED, '30.00', '2026-01-02T10:00:00.000Z'));
+
+    // Act
+    const beforeRefund = await repository.balances({ asOf: new Date('2026-01-01T23:59:59.999Z') });
+    const afterRefund = await repository.balances({ asOf: new Date('2026-01-03T00:00:00.000Z'), account: 'merchant_payable:merchant_1' });
+
+    // Assert
+    expect(beforeRefund.map(balance => [balance.account, balance.balance.toString()])).toEqual([
+      ['customer_receivable', '0.00'],
+      ['fees', '-2.00'],
+      ['merchant_payable:merchant_1', '-98.00'],
+      ['provider_clearing', '100.00']
+    ]);
+    expect(afterRefund).toEqual([{
+      account: 'merchant_payable:merchant_1',
+      currency: 'USD',
+      debits: Money.of('32.00', 'USD'),
+      credits: Money.of('100.00', 'USD'),
+      balance: Money.of('-68.00', 'USD')
+    }]);
+  });
+
+  it('should refuse to change or delete posted entries', async () => {
+    // Arrange
+    await repository.append(entriesFor('tx_1', DomainEventType.PAYMENT_SUCCEEDED, '100.00', '2026-01-01T10:00:00.000Z'));
+
+    // Act & Assert
+    expect(() => db.prepare("UPDATE journal_lines SET amount_minor = 1 WHERE entry_id = 'tx_1:1:payment'").run())
+      .toThrow('Journal lines are immutable');
+    expect(() => db.prepare('DELETE FROM journal_entries').run()).toThrow('Journal entries are immutable');
+  });
+
+  it('should find entries that do not balance', async () => {
+    // Arrange
+    await repository.append(entriesFor('tx_1', DomainEventType.PAYMENT_SUCCEEDED, '100.00', '2026-01-01T10:00:00.000Z'));
+    await repository.append([{
+      id: 'je_broken',
+      kind: JournalKind.FEE,
+      transactionId: 'tx_2',
+      description: 'Written by hand',
+      lines: [{ account: 'fees', side: EntrySide.CREDIT, amount: Money.of('1.50', 'USD') }],
+      effectiveAt: new Date(),
+      recordedAt: new Date()
+    }]);
+
+    // Act
+    const imbalances = await repository.findImbalances();
+
+    // Assert
+    expect(imbalances).toEqual([{ entryId: 'je_broken', currency: 'USD', difference: Money.of('-1.50', 'USD') }]);
+  });
+});
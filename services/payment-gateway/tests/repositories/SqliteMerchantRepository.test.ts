@@ -0,0 +1,66 @@
+import Database from 'better-sqlite3';
+import { SqliteMerchantRepository } from '../../src/repositories/SqliteMerchantRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import { Merchant, MerchantApiKey, MerchantStatus } from '../../src/models/Merchant';
+
+describe('SqliteMerchantRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteMerchantRepository;
+
+  const merchant: Merchant = {
+    id: 'merchant_1',
+    name: 'Books',
+    status: MerchantStatus.ACTIVE,
+    defaultCurrency: 'EUR',
+    providerCredentials: { url: 'https://books.provider.test/v1', apiKeyEnv: 'MERCHANT_PROVIDER_KEY_BOOKS' },
+    createdAt: new Date('2026-01-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T10:00:00.000Z')
+  };
+
+  const apiKey: MerchantApiKey = {
+    id: '0123456789abcdef',
+    merchantId: 'merchant_1',
+    prefix: 'gw_0123456789abcdef',
+    secretHash: 'a'.repeat(64),
+    permissions: ['refunds:create'],
+    createdAt: new Date('2026-01-01T10:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteMerchantRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should round-trip a merchant with its provider credentials', async () => {
+    // Act
+    await repository.save(merchant);
+    await repository.save({ ...merchant, status: MerchantStatus.SUSPENDED, updatedAt: new Date('2026-02-01T10:00:00.000Z') });
+
+    // Assert
+    expect(await repository.findById('merchant_1')).toEqual({
+      ...merchant,
+      status: MerchantStatus.SUSPENDED,
+      updatedAt: new Date('2026-02-01T10:00:00.000Z')
+    });
+    expect(await repository.list()).toHaveLength(1);
+  });
+
+  it('should update usage and revocation of an API key', async () => {
+    // Arrange
+    await repository.saveApiKey(apiKey);
+
+    // Act
+    const lastUsedAt = new Date('2026-01-02T10:00:00.000Z');
+    const revokedAt = new Date('2026-01-03T10:00:00.000Z');
+    await repository.saveApiKey({ ...apiKey, lastUsedAt, revokedAt });
+
+    // Assert
+    expect(await repository.findApiKey(apiKey.id)).toEqual({ ...apiKey, lastUsedAt, revokedAt });
+    expect(await repository.listApiKeys('merchant_1')).toHaveLength(1);
+    expect(await repository.listApiKeys('merchant_2')).toEqual([]);
+  });
+});
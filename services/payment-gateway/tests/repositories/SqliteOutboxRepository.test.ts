@@ -0,0 +1,84 @@
+import Database from 'better-sqlite3';
+import { SqliteTransactionRepository } from '../../src/repositories/SqliteTransactionRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import { DomainEvent, DomainEventType, domainEventsFor } from '../../src/models/DomainEvent';
+import { OutboxStatus } from '../../src/models/OutboxEntry';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+
+describe('SqliteOutboxRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteTransactionRepository;
+
+  const completedPayment = (id: string): Transaction => ({
+    id,
+    merchantId: 'merchant_1',
+    amount: Money.of('25.00', 'USD'),
+    currency: 'USD',
+    status: TransactionStatus.COMPLETED,
+    statusHistory: [
+      ...initialStatusHistory(TransactionStatus.PENDING, 'user_1'),
+      { from: TransactionStatus.PENDING, to: TransactionStatus.COMPLETED, timestamp: new Date('2026-01-01T10:00:01.000Z'), actor: 'user_1' }
+    ],
+    type: TransactionType.PAYMENT,
+    createdAt: new Date('2026-01-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T10:00:01.000Z')
+  });
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteTransactionRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store events with their transaction, once each, in order', async () => {
+    // Arrange
+    const first = completedPayment('tx_1');
+    const second = completedPayment('tx_2');
+
+    // Act
+    await repository.save(first, domainEventsFor(first));
+    await repository.save(second, domainEventsFor(second));
+    await repository.save(first, domainEventsFor(first));
+
+    // Assert
+    const pending = await repository.outbox.listPending(10);
+    expect(pending.map(entry => entry.event.id)).toEqual(['tx_1:1', 'tx_2:1']);
+    expect(pending[0].event).toEqual({
+      id: 'tx_1:1',
+      type: DomainEventType.PAYMENT_SUCCEEDED,
+      occurredAt: new Date('2026-01-01T10:00:01.000Z'),
+      data: { transactionId: 'tx_1', merchantId: 'merchant_1', amount: '25.00', currency: 'USD', actor: 'user_1' }
+    });
+  });
+
+  it('should store neither the transaction nor its events when writing the events fails', async () => {
+    // Arrange
+    const transaction = completedPayment('tx_1');
+    const unstorable = { ...domainEventsFor(transaction)[0], occurredAt: new Date('invalid') } as DomainEvent;
+
+    // Act & Assert
+    await expect(repository.save(transaction, [unstorable])).rejects.toThrow();
+    expect(await repository.findById('tx_1')).toBeUndefined();
+    expect(await repository.outbox.listPending(10)).toEqual([]);
+  });
+
+  it('should leave published events out of the pending list', async () => {
+    // Arrange
+    const transaction = completedPayment('tx_1');
+    await repository.save(transaction, domainEventsFor(transaction));
+    const [entry] = await repository.outbox.listPending(10);
+    const published = { ...entry, status: OutboxStatus.PUBLISHED, publishedAt: new Date('2026-01-01T10:00:02.000Z') };
+
+    // Act
+    await repository.outbox.save(published);
+
+    // Assert
+    expect(await repository.outbox.listPending(10)).toEqual([]);
+    expect(await repository.outbox.findById('tx_1:1')).toEqual(published);
+  });
+});
@@ -0,0 +1,60 @@
+import Database from 'better-sqlite3';
+import { SqliteProviderEventRepository } from '../../src/repositories/SqliteProviderEventRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import { ProviderEvent, ProviderEventStatus } from '../../src/models/ProviderEvent';
+
+describe('SqliteProviderEventRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteProviderEventRepository;
+
+  const event: ProviderEvent = {
+    id: 'evt_1',
+    type: 'charge.succeeded',
+    providerTransactionId: 'prov_1',
+    payload: '{"id":"evt_1","type":"charge.succeeded","data":{"id":"prov_1"}}',
+    status: ProviderEventStatus.RECEIVED,
+    attempts: 0,
+    receivedAt: new Date('2026-01-01T10:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteProviderEventRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store an event ID only once', async () => {
+    // Act
+    const first = await repository.insert(event);
+    const second = await repository.insert({ ...event, payload: '{}' });
+
+    // Assert
+    expect(first).toBe(true);
+    expect(second).toBe(false);
+    expect(await repository.findById('evt_1')).toEqual(event);
+  });
+
+  it('should record the outcome of an attempt and filter by it', async () => {
+    // Arrange
+    const processed: ProviderEvent = {
+      ...event,
+      status: ProviderEventStatus.PROCESSED,
+      transactionId: 'tx_1',
+      attempts: 1,
+      processedAt: new Date('2026-01-01T10:00:01.000Z')
+    };
+    await repository.insert(event);
+    await repository.insert({ ...event, id: 'evt_2', receivedAt: new Date('2026-01-01T11:00:00.000Z') });
+
+    // Act
+    await repository.save(processed);
+
+    // Assert
+    expect(await repository.findById('evt_1')).toEqual(processed);
+    expect((await repository.list(ProviderEventStatus.RECEIVED)).map(stored => stored.id)).toEqual(['evt_2']);
+    expect((await repository.list()).map(stored => stored.id)).toEqual(['evt_1', 'evt_2']);
+  });
+});
@@ -0,0 +1,84 @@
+import { SqliteTransactionRepository } from '../../src/repositories/SqliteTransactionRepository';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory, transitionTransaction } from '../../src/models/TransactionStateMachine';
+
+describe('SqliteTransactionRepository', () => {
+  let repository: SqliteTransactionRepository;
+
+  const buildTransaction = (): Transaction => ({
+    id: 'txn_123',
+    amount: Money.of('10.05', 'USD'),
+    currency: 'USD',
+    status: TransactionStatus.PENDING,
+    statusHistory: initialStatusHistory(TransactionStatus.PENDING, 'user_1'),
+    type: TransactionType.PAYMENT,
+    metadata: { userId: 'user_1' },
+    createdAt: new Date('2022-03-01T10:00:00.000Z'),
+    updatedAt: new Date('2022-03-01T10:00:00.000Z')
+  });
+
+  beforeEach(() => {
+    repository = new SqliteTransactionRepository(':memory:');
+  });
+
+  afterEach(() => {
+    repository.close();
+  });
+
+  it('should return undefined for an unknown transaction', async () => {
+    expect(await repository.findById('missing')).toBeUndefined();
+  });
+
+  it('should round-trip a transaction without losing precision', async () => {
+    // Arrange
+    const transaction = buildTransaction();
+
+    // Act
+    await repository.save(transaction);
+    const stored = await repository.findById(transaction.id);
+
+    // Assert
+    expect(stored?.amount.toString()).toBe('10.05');
+    expect(stored?.metadata).toEqual({ userId: 'user_1' });
+    expect(stored?.createdAt).toEqual(transaction.createdAt);
+  });
+
+  it('should update the record on status change', async () => {
+    // Arrange
+    const transaction = buildTransaction();
+    await repository.save(transaction);
+
+    // Act
+    transaction.providerTransactionId = 'prov_123';
+    transitionTransaction(transaction, TransactionStatus.COMPLETED, 'user_1', 'approved');
+    await repository.save(transaction);
+    const stored = await repository.findById(transaction.id);
+
+    // Assert
+    expect(stored?.status).toBe(TransactionStatus.COMPLETED);
+    expect(stored?.providerTransactionId).toBe('prov_123');
+    expect(stored?.createdAt).toEqual(transaction.createdAt);
+    expect(stored?.statusHistory).toEqual(transaction.statusHistory);
+    expect(stored?.statusHistory[1].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should keep the merchant a transaction belongs to', async () => {
+    await repository.save({ ...buildTransaction(), merchantId: 'merchant_1' });
+
+    expect((await repository.findById('txn_123'))?.merchantId).toBe('merchant_1');
+  });
+
+  it('should keep the amount taken back by a chargeback', async () => {
+    await repository.save({ ...buildTransaction(), chargebackAmount: Money.of('4.05', 'USD') });
+
+    expect((await repository.findById('txn_123'))?.chargebackAmount?.toString()).toBe('4.05');
+  });
+
+  it('should find a transaction by its provider ID', async () => {
+    await repository.save({ ...buildTransaction(), providerTransactionId: 'prov_123' });
+
+    expect((await repository.findByProviderTransactionId('prov_123'))?.id).toBe('txn_123');
+    expect(await repository.findByProviderTransactionId('prov_missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import Database from 'better-sqlite3';
+import { SqliteWebhookRepository } from '../../src/repositories/SqliteWebhookRepository';
+import { openSqliteDatabase } from '../../src/repositories/sqliteDatabase';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  WebhookSubscriptionStatus
+} from '../../src/models/MerchantWebhook';
+
+describe('SqliteWebhookRepository', () => {
+  let db: Database.Database;
+  let repository: SqliteWebhookRepository;
+
+  const subscription: WebhookSubscription = {
+    id: 'sub_1',
+    merchantId: 'merchant_1',
+    url: 'https://merchant.example/hooks',
+    eventTypes: ['payment.completed', 'refund.completed'],
+    status: WebhookSubscriptionStatus.ACTIVE,
+    secret: 'whsec_test',
+    createdAt: new Date('2026-01-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T10:00:00.000Z')
+  };
+
+  const delivery: WebhookDelivery = {
+    id: 'del_1',
+    subscriptionId: 'sub_1',
+    merchantId: 'merchant_1',
+    eventId: 'tx_1:1',
+    eventType: 'payment.completed',
+    payload: '{"id":"tx_1:1"}',
+    status: WebhookDeliveryStatus.PENDING,
+    attempts: [],
+    nextAttemptAt: new Date('2026-01-01T10:00:00.000Z'),
+    createdAt: new Date('2026-01-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T10:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+    repository = new SqliteWebhookRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store subscriptions per merchant', async () => {
+    // Act
+    await repository.saveSubscription(subscription);
+    await repository.saveSubscription({ ...subscription, id: 'sub_2', merchantId: 'merchant_2' });
+    await repository.deleteSubscription('sub_2');
+
+    // Assert
+    expect(await repository.findSubscription('sub_1')).toEqual(subscription);
+    expect(await repository.listSubscriptions('merchant_1')).toEqual([subscription]);
+    expect(await repository.findSubscription('sub_2')).toBeUndefined();
+  });
+
+  it('should queue an event only once per subscription', async () => {
+    // Act
+    const first = await repository.insertDelivery(delivery);
+    const second = await repository.insertDelivery({ ...delivery, id: 'del_2' });
+    const otherSubscription = await repository.insertDelivery({ ...delivery, id: 'del_3', subscriptionId: 'sub_2' });
+
+    // Assert
+    expect([first, second, otherSubscription]).toEqual([true, false, true]);
+    expect(await repository.findDelivery('del_1')).toEqual(delivery);
+  });
+
+  it('should list pending deliveries that are due and keep recorded attempts', async () => {
+    // Arrange
+    const retrying: WebhookDelivery = {
+      ...delivery,
+      attempts: [{ attemptedAt: new Date('2026-01-01T10:00:00.000Z'), statusCode: 500, error: 'HTTP 500', durationMs: 12 }],
+      nextAttemptAt: new Date('2026-01-01T10:05:00.000Z')
+    };
+    await repository.insertDelivery(delivery);
+    await repository.insertDelivery({ ...delivery, id: 'del_2', eventId: 'tx_2:1', status: WebhookDeliveryStatus.DEAD });
+
+    // Act
+    await repository.saveDelivery(retrying);
+
+    // Assert
+    expect(await repository.listDueDeliveries(new Date('2026-01-01T10:01:00.000Z'), 10)).toEqual([]);
+    expect(await repository.listDueDeliveries(new Date('2026-01-01T10:05:00.000Z'), 10)).toEqual([retrying]);
+    expect((await repository.listDeliveries({ status: WebhookDeliveryStatus.DEAD }, 10)).map(stored => stored.id))
+      .toEqual(['del_2']);
+    expect(await repository.listDeliveries({ merchantId: 'merchant_2' }, 10)).toEqual([]);
+  });
+});
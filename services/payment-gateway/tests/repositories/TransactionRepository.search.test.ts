@@ -0,0 +1,129 @@
+import { InMemoryTransactionRepository } from '../../src/repositories/InMemoryTransactionRepository';
+import { SqliteTransactionRepository } from '../../src/repositories/SqliteTransactionRepository';
+import { TransactionRepository, TransactionSearch } from '../../src/repositories/TransactionRepository';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+
+const buildTransaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  amount: Money.of('10.00', 'USD'),
+  currency: 'USD',
+  status: TransactionStatus.COMPLETED,
+  statusHistory: initialStatusHistory(TransactionStatus.COMPLETED, 'user_1'),
+  type: TransactionType.PAYMENT,
+  metadata: { userId: 'user_1' },
+  createdAt: new Date('2026-01-01T10:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T10:00:00.000Z'),
+  ...overrides
+});
+
+const search = (overrides: Partial<TransactionSearch> = {}): TransactionSearch => ({
+  sortBy: 'createdAt',
+  sortDirection: 'desc',
+  limit: 10,
+  ...overrides
+});
+
+describe.each([
+  ['InMemoryTransactionRepository', (): TransactionRepository => new InMemoryTransactionRepository()],
+  ['SqliteTransactionRepository', (): TransactionRepository => new SqliteTransactionRepository(':memory:')]
+])('%s search', (_name, createRepository) => {
+  let repository: TransactionRepository;
+
+  const ids = async (query: Partial<TransactionSearch>): Promise<string[]> =>
+    (await repository.search(search(query))).transactions.map(transaction => transaction.id);
+
+  beforeEach(async () => {
+    repository = createRepository();
+    await Promise.all([
+      buildTransaction('tx_a', { amount: Money.of('9.00', 'USD'), createdAt: new Date('2026-01-01T10:00:00.000Z') }),
+      buildTransaction('tx_b', {
+        amount: Money.of('100.00', 'USD'),
+        createdAt: new Date('2026-01-02T10:00:00.000Z'),
+        metadata: { userId: 'user_2', orderId: 'order_7' }
+      }),
+      buildTransaction('tx_c', {
+        amount: Money.of('25.50', 'EUR'),
+        currency: 'EUR',
+        status: TransactionStatus.FAILED,
+        merchantId: 'merchant_1',
+        createdAt: new Date('2026-01-03T10:00:00.000Z')
+      }),
+      buildTransaction('tx_d', {
+        type: TransactionType.REFUND,
+        originalTransactionId: 'tx_b',
+        amount: Money.of('100.00', 'USD'),
+        metadata: undefined,
+        createdAt: new Date('2026-01-02T10:00:00.000Z')
+      })
+    ].map(transaction => repository.save(transaction)));
+  });
+
+  afterEach(() => {
+    (repository as Partial<SqliteTransactionRepository>).close?.();
+  });
+
+  it('should sort by creation time, breaking ties by ID', async () => {
+    expect(await ids({})).toEqual(['tx_c', 'tx_d', 'tx_b', 'tx_a']);
+    expect(await ids({ sortDirection: 'asc' })).toEqual(['tx_a', 'tx_b', 'tx_d', 'tx_c']);
+  });
+
+  it('should sort amounts numerically', async () => {
+    expect(await ids({ sortBy: 'amount', sortDirection: 'asc' })).toEqual(['tx_a', 'tx_c', 'tx_b', 'tx_d']);
+  });
+
+  it('should compare amounts exactly where floating point would round them', async () => {
+    // Arrange
+    await repository.save(buildTransaction('tx_e', { amount: Money.of('100000000000000.02', 'USD') }));
+    await repository.save(buildTransaction('tx_f', { amount: Money.of('100000000000000.01', 'USD') }));
+
+    // Act & Assert
+    expect(await ids({ sortBy: 'amount', sortDirection: 'desc', limit: 2 })).toEqual(['tx_e', 'tx_f']);
+    expect(await ids({ minAmount: '100000000000000.02' })).toEqual(['tx_e']);
+    expect(await ids({ sortBy: 'amount', sortDirection: 'desc', after: { value: '100000000000000.02', id: 'tx_e' }, limit: 1 }))
+      .toEqual(['tx_f']);
+  });
+
+  it('should page through every match exactly once', async () => {
+    // Act
+    const first = await repository.search(search({ limit: 3, includeTotal: true }));
+    const last = first.transactions[first.transactions.length - 1];
+    const second = await repository.search(search({
+      limit: 3,
+      after: { value: last.createdAt.toISOString(), id: last.id }
+    }));
+
+    // Assert
+    expect(first.transactions.map(transaction => transaction.id)).toEqual(['tx_c', 'tx_d', 'tx_b']);
+    expect(first).toMatchObject({ hasMore: true, total: 4 });
+    expect(second.transactions.map(transaction => transaction.id)).toEqual(['tx_a']);
+    expect(second.hasMore).toBe(false);
+    expect(second.total).toBeUndefined();
+  });
+
+  it('should continue after a position when sorting by amount', async () => {
+    expect(await ids({ sortBy: 'amount', sortDirection: 'asc', after: { value: '100.00', id: 'tx_b' } })).toEqual(['tx_d']);
+  });
+
+  it('should combine status, type, currency, amount and date filters', async () => {
+    expect(await ids({ statuses: [TransactionStatus.FAILED] })).toEqual(['tx_c']);
+    expect(await ids({ types: [TransactionType.REFUND] })).toEqual(['tx_d']);
+    expect(await ids({ currency: 'USD', minAmount: '10', maxAmount: '100' })).toEqual(['tx_d', 'tx_b']);
+    expect(await ids({
+      createdFrom: new Date('2026-01-02T00:00:00.000Z'),
+      createdTo: new Date('2026-01-03T10:00:00.000Z')
+    })).toEqual(['tx_d', 'tx_b']);
+  });
+
+  it('should match owners through the original transaction and filter by merchant', async () => {
+    expect(await ids({ userId: 'user_2' })).toEqual(['tx_d', 'tx_b']);
+    expect(await ids({ merchantId: 'merchant_1' })).toEqual(['tx_c']);
+  });
+
+  it('should filter by metadata key and value', async () => {
+    expect(await ids({ metadataKey: 'orderId' })).toEqual(['tx_b']);
+    expect(await ids({ metadataKey: 'orderId', metadataValue: 'order_8' })).toEqual([]);
+    expect(await ids({ metadataKey: 'orderId', metadataValue: 'order_7' })).toEqual(['tx_b']);
+  });
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLogger, GENESIS_HASH } from '../../src/services/AuditLogger';
+import { FileAuditStore } from '../../src/repositories/FileAuditStore';
+import { AuditRecord } from '../../src/models/AuditEvent';
+
+describe('AuditLogger', () => {
+  let directory: string;
+  let file: string;
+  let auditLogger: AuditLogger;
+
+  const readLines = (): AuditRecord[] =>
+    fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+  const writeLines = (records: AuditRecord[]): void => {
+    fs.writeFileSync(file, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    file = path.join(directory, 'audit-trail.jsonl');
+    auditLogger = new AuditLogger(new FileAuditStore(file));
+
+    await auditLogger.record({ action: 'payment.create', status: 'success', userId: 'user_1', details: { amount: '10.00' } });
+    await auditLogger.record({ action: 'refund.create', status: 'success', userId: 'user_1', details: { amount: '5.00' } });
+    await auditLogger.record({ action: 'access.denied', status: 'failure', details: { reason: 'auth_required' } });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write records in the documented format, chained by hash', () => {
+    const records = readLines();
+
+    expect(records).toHaveLength(3);
+    expect(records[0]).toMatchObject({
+      sequence: 1,
+      previousHash: GENESIS_HASH,
+      userId: 'user_1',
+      ipAddress: 'unknown',
+      service: 'payment-gateway',
+      action: 'payment.create',
+      status: 'success',
+      details: { amount: '10.00' }
+    });
+    expect(records[0].eventId).toEqual(expect.any(String));
+    expect(new Date(records[0].timestamp).toISOString()).toBe(records[0].timestamp);
+    expect(records[1].previousHash).toBe(records[0].hash);
+  });
+
+  it('should verify an untouched trail', async () => {
+    expect(await auditLogger.verify()).toEqual({ valid: true, checked: 3 });
+  });
+
+  it('should continue the chain after a restart', async () => {
+    const restarted = new AuditLogger(new FileAuditStore(file));
+
+    const record = await restarted.record({ action: 'payment.create', status: 'success' });
+
+    expect(record.sequence).toBe(4);
+    expect(await restarted.verify()).toEqual({ valid: true, checked: 4 });
+  });
+
+  it('should detect a modified entry', async () => {
+    const records = readLines();
+    records[1].details = { amount: '500.00' };
+    writeLines(records);
+
+    expect(await auditLogger.verify()).toMatchObject({ valid: false, sequence: 2, checked: 1 });
+  });
+
+  it('should detect a deleted entry', async () => {
+    const records = readLines();
+    writeLines([records[0], records[2]]);
+
+    expect(await auditLogger.verify()).toMatchObject({ valid: false, sequence: 2 });
+  });
+
+  it('should detect a deleted entry even when the sequence numbers are rewritten', async () => {
+    const records = readLines();
+    writeLines([records[0], { ...records[2], sequence: 2 }]);
+
+    expect(await auditLogger.verify()).toMatchObject({ valid: false, sequence: 2 });
+  });
+});
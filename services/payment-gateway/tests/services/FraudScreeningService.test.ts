@@ -0,0 +1,189 @@
+import { FraudScreeningOptions, FraudScreeningService, PaymentScreeningRequest } from '../../src/services/FraudScreeningService';
+import { AuditLogger } from '../../src/services/AuditLogger';
+import { InMemoryFraudScreeningRepository } from '../../src/repositories/InMemoryFraudScreeningRepository';
+import { InMemoryAuditStore } from '../../src/repositories/InMemoryAuditStore';
+import { FraudDecision, FraudReviewStatus } from '../../src/models/FraudScreening';
+import { Money } from '../../src/models/Money';
+import { config } from '../../src/config';
+
+describe('FraudScreeningService', () => {
+  let repository: InMemoryFraudScreeningRepository;
+  let auditStore: InMemoryAuditStore;
+  let service: FraudScreeningService;
+
+  const options: FraudScreeningOptions = {
+    ...config.fraud,
+    reviewScore: 50,
+    blockScore: 100,
+    velocity: { windowSeconds: 3600, maxPerUser: 3, maxPerCard: 3, userScore: 60, cardScore: 100 },
+    reviewAmounts: { USD: '1000', '*': '500' },
+    blockAmounts: { USD: '10000' },
+    binCountries: { '424242': 'US', '42424299': 'GB' },
+    binCountryMismatchScore: 60,
+    disposableEmailDomains: ['mailinator.com'],
+    disposableEmailScore: 40,
+    reviewReleaseSeconds: 3600,
+    cardFingerprintSecret: 'fingerprint-secret'
+  };
+
+  const request = (overrides: Partial<PaymentScreeningRequest> = {}): PaymentScreeningRequest => ({
+    transactionId: `tx_${Math.random()}`,
+    userId: 'user_1',
+    amount: Money.of('25.00', 'USD'),
+    paymentMethod: {
+      type: 'card',
+      card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    },
+    ipCountry: 'US',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    repository = new InMemoryFraudScreeningRepository();
+    auditStore = new InMemoryAuditStore();
+    service = new FraudScreeningService(repository, new AuditLogger(auditStore), options);
+  });
+
+  it('should allow an ordinary payment and keep only a keyed card fingerprint', async () => {
+    // Act
+    const screening = await service.screen(request());
+
+    // Assert
+    expect(screening).toMatchObject({ decision: FraudDecision.ALLOW, score: 0, reasons: [], binCountry: 'US', ipCountry: 'US' });
+    expect(screening.cardFingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(screening)).not.toContain('4242424242424242');
+    expect(screening.reviewStatus).toBeUndefined();
+  });
+
+  it('should not start without a card fingerprint secret', () => {
+    expect(() => new FraudScreeningService(repository, new AuditLogger(auditStore), { ...options, cardFingerprintSecret: undefined }))
+      .toThrow('Fraud screening needs a card fingerprint secret');
+  });
+
+  it.each([
+    ['999.99 USD', Money.of('999.99', 'USD'), FraudDecision.ALLOW],
+    ['1000 USD', Money.of('1000.00', 'USD'), FraudDecision.REVIEW],
+    ['10000 USD', Money.of('10000.00', 'USD'), FraudDecision.BLOCK],
+    ['500 EUR through the wildcard', Money.of('500.00', 'EUR'), FraudDecision.REVIEW]
+  ])('should decide %s by the amount thresholds', async (_name, amount, decision) => {
+    expect((await service.screen(request({ amount }))).decision).toBe(decision);
+  });
+
+  it('should block a card used more often than its velocity limit', async () => {
+    // Arrange
+    await service.screen(request({ userId: 'user_1' }));
+    await service.screen(request({ userId: 'user_2' }));
+    await service.screen(request({ userId: 'user_3' }));
+
+    // Act
+    const screening = await service.screen(request({ userId: 'user_4' }));
+
+    // Assert
+    expect(screening.decision).toBe(FraudDecision.BLOCK);
+    expect(screening.reasons).toEqual([expect.objectContaining({ rule: 'card_velocity', decision: FraudDecision.BLOCK, score: 100 })]);
+  });
+
+  it('should hold payments of a customer paying more often than their velocity limit with different cards', async () => {
+    // Arrange
+    const card = (number: string): PaymentScreeningRequest['paymentMethod'] => ({
+      type: 'card',
+      card: { number, expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    });
+    await service.screen(request({ paymentMethod: card('4000056655665556') }));
+    await service.screen(request({ paymentMethod: card('5555555555554444') }));
+    await service.screen(request({ paymentMethod: card('378282246310005') }));
+
+    // Act
+    const screening = await service.screen(request({ paymentMethod: card('6011111111111117') }));
+
+    // Assert
+    expect(screening.decision).toBe(FraudDecision.REVIEW);
+    expect(screening.reasons.map(reason => reason.rule)).toEqual(['user_velocity']);
+  });
+
+  it('should not count another merchant\'s screenings of the same customer ID toward the velocity limit', async () => {
+    // Arrange
+    const card = (number: string): PaymentScreeningRequest['paymentMethod'] => ({
+      type: 'card',
+      card: { number, expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+    });
+    await service.screen(request({ merchantId: 'merchant_a', paymentMethod: card('4000056655665556') }));
+    await service.screen(request({ merchantId: 'merchant_a', paymentMethod: card('5555555555554444') }));
+    await service.screen(request({ merchantId: 'merchant_a', paymentMethod: card('378282246310005') }));
+
+    // Act
+    const otherMerchant = await service.screen(request({ merchantId: 'merchant_b', paymentMethod: card('6011111111111117') }));
+    const sameMerchant = await service.screen(request({ merchantId: 'merchant_a', paymentMethod: card('3566002020360505') }));
+
+    // Assert
+    expect(otherMerchant.decision).toBe(FraudDecision.ALLOW);
+    expect(sameMerchant.reasons.map(reason => reason.rule)).toEqual(['user_velocity']);
+  });
+
+  it('should add up the scores of a country mismatch and a disposable email', async () => {
+    // Act
+    const mismatchOnly = await service.screen(request({ userId: 'user_a', ipCountry: 'de', email: 'a@example.com' }));
+    const both = await service.screen(request({
+      userId: 'user_b',
+      paymentMethod: { type: 'card', card: { number: '4242429912345678', expiryMonth: 12, expiryYear: 2030, cvv: '123' } },
+      ipCountry: 'US',
+      email: 'someone@eu.mailinator.com'
+    }));
+    const unknownCountry = await service.screen(request({
+      userId: 'user_c',
+      paymentMethod: { type: 'card', card: { number: '4242429912345679', expiryMonth: 12, expiryYear: 2030, cvv: '123' } },
+      ipCountry: 'XX'
+    }));
+
+    // Assert
+    expect(mismatchOnly).toMatchObject({ decision: FraudDecision.REVIEW, score: 60 });
+    expect(both).toMatchObject({ decision: FraudDecision.BLOCK, score: 100, binCountry: 'GB', emailDomain: 'eu.mailinator.com' });
+    expect(both.reasons).toEqual([
+      { rule: 'bin_country_mismatch', decision: FraudDecision.REVIEW, score: 60, message: 'Card issued in GB but the request came from US' },
+      {
+        rule: 'disposable_email',
+        decision: FraudDecision.ALLOW,
+        score: 40,
+        message: 'Email domain eu.mailinator.com is a disposable mailbox provider'
+      }
+    ]);
+    expect(unknownCountry.decision).toBe(FraudDecision.ALLOW);
+  });
+
+  it('should queue held payments and let the retry through once after approval', async () => {
+    // Arrange
+    const held = await service.screen(request({ amount: Money.of('2000.00', 'USD') }));
+    const otherAmount = await service.screen(request({
+      userId: 'user_2',
+      amount: Money.of('3000.00', 'USD'),
+      paymentMethod: { type: 'card', card: { number: '5555555555554444', expiryMonth: 12, expiryYear: 2030, cvv: '123' } }
+    }));
+
+    // Act
+    const approved = await service.approveReview(held.id, { actor: 'admin_1', note: 'Known customer' });
+    const retry = await service.screen(request({ transactionId: 'tx_retry', amount: Money.of('2000.00', 'USD') }));
+    const secondRetry = await service.screen(request({ amount: Money.of('2000.00', 'USD') }));
+
+    // Assert
+    expect(held.reviewStatus).toBe(FraudReviewStatus.PENDING);
+    expect(approved).toMatchObject({ reviewStatus: FraudReviewStatus.APPROVED, reviewedBy: 'admin_1', reviewNote: 'Known customer' });
+    expect(retry.decision).toBe(FraudDecision.ALLOW);
+    expect(retry.reasons.map(reason => reason.rule)).toEqual(['amount_threshold', 'approved_review']);
+    expect(secondRetry.decision).toBe(FraudDecision.REVIEW);
+    expect((await service.getReview(held.id)).releasedTransactionId).toBe('tx_retry');
+    expect((await service.listReviews(FraudReviewStatus.PENDING)).map(review => review.id))
+      .toEqual([otherAmount.id, secondRetry.id]);
+    expect((await auditStore.readAll()).map(event => event.action)).toEqual(['fraud_review.approved']);
+  });
+
+  it('should only decide pending reviews', async () => {
+    // Arrange
+    const held = await service.screen(request({ amount: Money.of('2000.00', 'USD') }));
+    const allowed = await service.screen(request({ userId: 'user_2' }));
+    await service.rejectReview(held.id, { actor: 'admin_1' });
+
+    // Act & Assert
+    await expect(service.approveReview(held.id, { actor: 'admin_2' })).rejects.toMatchObject({ code: 'fraud_review_not_pending' });
+    await expect(service.getReview(allowed.id)).rejects.toMatchObject({ code: 'fraud_review_not_found' });
+  });
+});
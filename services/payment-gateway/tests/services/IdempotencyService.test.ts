@@ -0,0 +1,83 @@
+import { IdempotencyService } from '../../src/services/IdempotencyService';
+import { InMemoryIdempotencyRepository } from '../../src/repositories/InMemoryIdempotencyRepository';
+import { PaymentError } from '../../src/errors/PaymentError';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  const scope = { userId: 'user_1', key: 'key_1', operation: 'create_transaction' };
+  const payload = { body: { amount: 1000, currency: 'USD' } };
+
+  beforeEach(() => {
+    service = new IdempotencyService(new InMemoryIdempotencyRepository(), 60);
+  });
+
+  it('should claim an unused key', async () => {
+    expect(await service.begin(scope, payload)).toEqual({ replay: false });
+  });
+
+  it('should replay the stored response for an identical request', async () => {
+    // Arrange
+    await service.begin(scope, payload);
+    await service.complete(scope, { statusCode: 201, body: { success: true } });
+
+    // Act
+    const outcome = await service.begin(scope, { body: { currency: 'USD', amount: 1000 } });
+
+    // Assert
+    expect(outcome).toEqual({ replay: true, response: { statusCode: 201, body: { success: true } } });
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    // Arrange
+    await service.begin(scope, payload);
+    await service.complete(scope, { statusCode: 201, body: { success: true } });
+
+    // Act & Assert
+    await expect(
+      service.begin(scope, { body: { amount: 2000, currency: 'USD' } })
+    ).rejects.toMatchObject({ code: 'idempotency_key_reused' });
+  });
+
+  it('should reject a key reused for a different operation', async () => {
+    await service.begin(scope, payload);
+
+    await expect(
+      service.begin({ ...scope, operation: 'refund_transaction' }, payload)
+    ).rejects.toMatchObject({ code: 'idempotency_key_reused' });
+  });
+
+  it('should reject a retry while the original request is in flight', async () => {
+    await service.begin(scope, payload);
+
+    await expect(service.begin(scope, payload)).rejects.toThrow(PaymentError);
+    await expect(service.begin(scope, payload)).rejects.toMatchObject({ code: 'idempotency_key_in_progress' });
+  });
+
+  it('should scope keys by user', async () => {
+    await service.begin(scope, payload);
+
+    expect(await service.begin({ ...scope, userId: 'user_2' }, payload)).toEqual({ replay: false });
+  });
+
+  it('should allow a released key to be used again', async () => {
+    await service.begin(scope, payload);
+    await service.release(scope);
+
+    expect(await service.begin(scope, payload)).toEqual({ replay: false });
+  });
+
+  it('should forget keys after the configured window', async () => {
+    // Arrange
+    jest.useFakeTimers().setSystemTime(new Date('2022-03-01T10:00:00.000Z'));
+    await service.begin(scope, payload);
+    await service.complete(scope, { statusCode: 201, body: { success: true } });
+
+    // Act
+    jest.setSystemTime(new Date('2022-03-01T10:01:01.000Z'));
+    const outcome = await service.begin(scope, { body: { amount: 2000 } });
+
+    // Assert
+    expect(outcome).toEqual({ replay: false });
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,106 @@
+import { LedgerService } from '../../src/services/LedgerService';
+import { PaymentProcessor } from '../../src/services/PaymentProcessor';
+import { ProviderWebhookService } from '../../src/services/ProviderWebhookService';
+import { AuditLogger } from '../../src/services/AuditLogger';
+import { InMemoryTransactionRepository } from '../../src/repositories/InMemoryTransactionRepository';
+import { InMemoryProviderEventRepository } from '../../src/repositories/InMemoryProviderEventRepository';
+import { InMemoryAuditStore } from '../../src/repositories/InMemoryAuditStore';
+import { SandboxPaymentProviderAdapter } from '../../src/providers/SandboxPaymentProviderAdapter';
+import { EntrySide, JournalKind } from '../../src/models/Ledger';
+import { Money } from '../../src/models/Money';
+import { PaymentMethod } from '../../src/models/Transaction';
+
+describe('LedgerService', () => {
+  let transactionRepository: InMemoryTransactionRepository;
+  let paymentProcessor: PaymentProcessor;
+  let ledgerService: LedgerService;
+
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' }
+  };
+
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    paymentProcessor = new PaymentProcessor({
+      transactionRepository,
+      providerAdapter: new SandboxPaymentProviderAdapter(),
+      feeRate: '0.03'
+    });
+    ledgerService = new LedgerService(transactionRepository.ledger);
+  });
+
+  it('should account for payments and refunds made through the processor', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of('200.00', 'USD'), paymentMethod, {}, { merchantId: 'merchant_1' });
+
+    // Act
+    await paymentProcessor.processRefund(payment.id, Money.of('50.00', 'USD'));
+    const balances = await ledgerService.balances();
+
+    // Assert
+    expect(balances.map(balance => [balance.account, balance.balance.toString()])).toEqual([
+      ['customer_receivable', '0.00'],
+      ['fees', '-6.00'],
+      ['merchant_payable:merchant_1', '-144.00'],
+      ['provider_clearing', '150.00'],
+      ['refunds', '0.00']
+    ]);
+    expect((await ledgerService.entriesFor(payment.id)).map(entry => entry.kind)).toEqual([JournalKind.PAYMENT, JournalKind.FEE]);
+    expect(await ledgerService.assertBalanced()).toEqual({ balanced: true, entriesChecked: 3, imbalances: [] });
+  });
+
+  it('should take a chargeback reported by the provider back from the merchant', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of('200.00', 'USD'), paymentMethod, {}, { merchantId: 'merchant_1' });
+    await paymentProcessor.processRefund(payment.id, Money.of('50.00', 'USD'));
+    const auditLogger = new AuditLogger(new InMemoryAuditStore());
+    const webhooks = new ProviderWebhookService(
+      paymentProcessor,
+      transactionRepository,
+      new InMemoryProviderEventRepository(),
+      auditLogger,
+      { secret: 'whsec_test', toleranceSeconds: 300 }
+    );
+
+    // Act
+    await webhooks.receive(Buffer.from(JSON.stringify({
+      id: 'evt_1',
+      type: 'charge.chargeback',
+      data: { id: payment.providerTransactionId }
+    })));
+    const balances = await ledgerService.balances();
+
+    // Assert
+    expect(balances.map(balance => [balance.account, balance.balance.toString()])).toEqual([
+      ['customer_receivable', '0.00'],
+      ['fees', '-6.00'],
+      ['merchant_payable:merchant_1', '6.00'],
+      ['provider_clearing', '0.00'],
+      ['refunds', '0.00']
+    ]);
+    const chargeback = (await ledgerService.entriesFor(payment.id)).find(entry => entry.kind === JournalKind.CHARGEBACK);
+    expect(chargeback?.lines.map(line => line.amount.toString())).toEqual(['150.00', '150.00']);
+    expect(await ledgerService.assertBalanced()).toMatchObject({ balanced: true, entriesChecked: 4 });
+  });
+
+  it('should fail the invariant check when an entry does not sum to zero', async () => {
+    // Arrange
+    await transactionRepository.ledger.append([{
+      id: 'je_broken',
+      kind: JournalKind.FEE,
+      transactionId: 'tx_1',
+      description: 'Written by hand',
+      lines: [
+        { account: 'fees', side: EntrySide.CREDIT, amount: Money.of('1.50', 'USD') },
+        { account: 'fees', side: EntrySide.DEBIT, amount: Money.of('1.50', 'EUR') }
+      ],
+      effectiveAt: new Date(),
+      recordedAt: new Date()
+    }]);
+
+    // Act & Assert
+    expect((await ledgerService.verify()).imbalances.map(imbalance => imbalance.currency)).toEqual(['USD', 'EUR']);
+    await expect(ledgerService.assertBalanced()).rejects.toMatchObject({ code: 'ledger_unbalanced' });
+  });
+});
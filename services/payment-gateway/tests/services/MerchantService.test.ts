@@ -0,0 +1,163 @@
+import { MerchantService } from '../../src/services/MerchantService';
+import { AuditLogger } from '../../src/services/AuditLogger';
+import { InMemoryMerchantRepository } from '../../src/repositories/InMemoryMerchantRepository';
+import { InMemoryAuditStore } from '../../src/repositories/InMemoryAuditStore';
+import { Merchant, MerchantStatus } from '../../src/models/Merchant';
+import { Permission } from '../../src/models/AuthenticatedUser';
+import { RestPaymentProviderAdapter } from '../../src/providers/RestPaymentProviderAdapter';
+
+describe('MerchantService', () => {
+  const admin = { actor: 'admin_1', ipAddress: '203.0.113.7' };
+  let repository: InMemoryMerchantRepository;
+  let auditStore: InMemoryAuditStore;
+  let service: MerchantService;
+  let merchant: Merchant;
+
+  beforeEach(async () => {
+    repository = new InMemoryMerchantRepository();
+    auditStore = new InMemoryAuditStore();
+    service = new MerchantService(repository, new AuditLogger(auditStore));
+    merchant = await service.createMerchant({ name: 'Books', defaultCurrency: 'EUR' }, admin);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('API keys', () => {
+    it('should authenticate a newly issued key and store only its hash', async () => {
+      // Arrange
+      const { apiKey, key } = await service.issueApiKey(merchant.id, [Permission.REFUNDS_CREATE], admin);
+
+      // Act
+      const authenticated = await service.authenticate(key);
+
+      // Assert
+      expect(key).toMatch(/^gw_[0-9a-f]{16}_[A-Za-z0-9_-]{43}$/);
+      expect(key.startsWith(`${apiKey.prefix}_`)).toBe(true);
+      expect(authenticated.merchant.id).toBe(merchant.id);
+      expect(authenticated.apiKey.permissions).toEqual([Permission.REFUNDS_CREATE]);
+      expect(JSON.stringify(await repository.listApiKeys(merchant.id))).not.toContain(key.slice(apiKey.prefix.length + 1));
+    });
+
+    it.each([
+      ['an unknown key', 'gw_0123456789abcdef_' + 'a'.repeat(43)],
+      ['a malformed key', 'not-a-key'],
+      ['an empty key', '']
+    ])('should reject %s', async (_label, key) => {
+      await expect(service.authenticate(key)).rejects.toMatchObject({ code: 'invalid_api_key' });
+    });
+
+    it('should reject a key whose secret part was changed', async () => {
+      const { key } = await service.issueApiKey(merchant.id, [], admin);
+      const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+
+      await expect(service.authenticate(tampered)).rejects.toMatchObject({ code: 'invalid_api_key' });
+    });
+
+    it('should reject revoked keys', async () => {
+      // Arrange
+      const { apiKey, key } = await service.issueApiKey(merchant.id, [], admin);
+
+      // Act
+      await service.revokeApiKey(merchant.id, apiKey.id, admin);
+
+      // Assert
+      await expect(service.authenticate(key)).rejects.toMatchObject({ code: 'invalid_api_key' });
+    });
+
+    it('should keep a rotated key working until the grace period ends', async () => {
+      // Arrange
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const original = await service.issueApiKey(merchant.id, [Permission.REFUNDS_CREATE], admin);
+
+      // Act
+      const replacement = await service.rotateApiKey(merchant.id, original.apiKey.id, admin);
+
+      // Assert
+      expect(replacement.apiKey.permissions).toEqual([Permission.REFUNDS_CREATE]);
+      await expect(service.authenticate(original.key)).resolves.toBeDefined();
+      jest.setSystemTime(new Date('2026-01-02T00:00:01Z'));
+      await expect(service.authenticate(original.key)).rejects.toMatchObject({ code: 'invalid_api_key' });
+      await expect(service.authenticate(replacement.key)).resolves.toBeDefined();
+    });
+
+    it('should not manage keys through another merchant', async () => {
+      const other = await service.createMerchant({ name: 'Games', defaultCurrency: 'USD' }, admin);
+      const { apiKey } = await service.issueApiKey(merchant.id, [], admin);
+
+      await expect(service.revokeApiKey(other.id, apiKey.id, admin)).rejects.toMatchObject({ code: 'api_key_not_found' });
+    });
+
+    it('should refuse valid keys while the merchant is suspended', async () => {
+      // Arrange
+      const { key } = await service.issueApiKey(merchant.id, [], admin);
+
+      // Act
+      await service.updateMerchant(merchant.id, { status: MerchantStatus.SUSPENDED }, admin);
+
+      // Assert
+      await expect(service.authenticate(key)).rejects.toMatchObject({ code: 'merchant_suspended' });
+    });
+
+    it('should audit the key lifecycle without the key', async () => {
+      // Arrange
+      const { apiKey, key } = await service.issueApiKey(merchant.id, [], admin);
+
+      // Act
+      const rotated = await service.rotateApiKey(merchant.id, apiKey.id, admin);
+      await service.revokeApiKey(merchant.id, rotated.apiKey.id, admin);
+
+      // Assert
+      const records = await auditStore.readAll();
+      expect(records.map(record => record.action)).toEqual([
+        'merchant.create',
+        'merchant.api_key_issue',
+        'merchant.api_key_rotate',
+        'merchant.api_key_revoke'
+      ]);
+      expect(records[1]).toMatchObject({ userId: 'admin_1', details: { merchantId: merchant.id, prefix: apiKey.prefix } });
+      expect(JSON.stringify(records)).not.toContain(key);
+    });
+  });
+
+  describe('provider credentials', () => {
+    afterEach(() => {
+      delete process.env.MERCHANT_PROVIDER_KEY_BOOKS;
+    });
+
+    it('should use the default provider for merchants without their own account', async () => {
+      await expect(service.providerAdapterFor(merchant.id)).resolves.toBeUndefined();
+    });
+
+    it('should build a provider adapter with its own circuit breaker name', async () => {
+      // Arrange
+      process.env.MERCHANT_PROVIDER_KEY_BOOKS = 'books_provider_key';
+      await service.updateMerchant(merchant.id, {
+        providerCredentials: { url: 'https://books.provider.test/v1', apiKeyEnv: 'MERCHANT_PROVIDER_KEY_BOOKS' }
+      }, admin);
+
+      // Act
+      const adapter = await service.providerAdapterFor(merchant.id);
+
+      // Assert
+      expect(adapter).toBeInstanceOf(RestPaymentProviderAdapter);
+      expect(adapter?.name).toBe(`rest:${merchant.id}`);
+      expect(await service.providerAdapterFor(merchant.id)).toBe(adapter);
+    });
+
+    it('should only read provider keys from reserved environment variables', async () => {
+      await expect(service.updateMerchant(merchant.id, {
+        providerCredentials: { apiKeyEnv: 'JWT_HS256_SECRET' }
+      }, admin)).rejects.toMatchObject({ code: 'invalid_provider_credentials' });
+    });
+
+    it('should fail provider calls when the referenced key is not set', async () => {
+      await service.updateMerchant(merchant.id, {
+        providerCredentials: { apiKeyEnv: 'MERCHANT_PROVIDER_KEY_BOOKS' }
+      }, admin);
+
+      await expect(service.providerAdapterFor(merchant.id)).rejects.toMatchObject({ code: 'provider_unavailable' });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import axios from 'axios';
+import { MerchantWebhookService, MerchantWebhookOptions } from '../../src/services/MerchantWebhookService';
+import { AuditLogger } from '../../src/services/AuditLogger';
+import { InMemoryWebhookRepository } from '../../src/repositories/InMemoryWebhookRepository';
+import { InMemoryAuditStore } from '../../src/repositories/InMemoryAuditStore';
+import { WebhookDeliveryStatus, WebhookSubscription, WebhookSubscriptionStatus } from '../../src/models/MerchantWebhook';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+import { webhookHmac } from '../../src/utils/webhookSignature';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('MerchantWebhookService', () => {
+  const options: MerchantWebhookOptions = {
+    retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000 },
+    timeoutMs: 1000,
+    pollIntervalMs: 1000,
+    batchSize: 10
+  };
+  const context = { actor: 'user_1', ipAddress: '10.0.0.1' };
+  let repository: InMemoryWebhookRepository;
+  let auditStore: InMemoryAuditStore;
+  let service: MerchantWebhookService;
+  let subscription: WebhookSubscription;
+
+  const completedPayment = (merchantId = 'merchant_1'): Transaction => {
+    const created = new Date('2026-01-01T10:00:00.000Z');
+    return {
+      id: 'tx_1',
+      merchantId,
+      amount: Money.of('25.00', 'USD'),
+      currency: 'USD',
+      status: TransactionStatus.COMPLETED,
+      statusHistory: [
+        ...initialStatusHistory(TransactionStatus.PENDING, 'user_1'),
+        { from: TransactionStatus.PENDING, to: TransactionStatus.COMPLETED, timestamp: created, actor: 'user_1' }
+      ],
+      type: TransactionType.PAYMENT,
+      createdAt: created,
+      updatedAt: created
+    };
+  };
+
+  const respond = (status: number): void => {
+    mockedAxios.post.mockResolvedValueOnce({ status, data: {} });
+  };
+
+  beforeEach(async () => {
+    mockedAxios.post.mockReset();
+    repository = new InMemoryWebhookRepository();
+    auditStore = new InMemoryAuditStore();
+    service = new MerchantWebhookService(repository, new AuditLogger(auditStore), options);
+    subscription = await service.createSubscription(
+      'merchant_1',
+      { url: 'https://merchant.example/hooks', eventTypes: ['payment.completed'] },
+      context
+    );
+  });
+
+  describe('subscriptions', () => {
+    it('should generate a signing secret and audit the change', async () => {
+      expect(subscription).toMatchObject({ status: WebhookSubscriptionStatus.ACTIVE, secret: expect.stringMatching(/^whsec_/) });
+      expect((await auditStore.readAll()).map(record => record.action)).toEqual(['webhook_subscription.create']);
+    });
+
+    it("should report another merchant's subscription as not found", async () => {
+      await expect(service.getSubscription('merchant_2', subscription.id)).rejects.toMatchObject({
+        code: 'webhook_subscription_not_found'
+      });
+      await expect(service.deleteSubscription('merchant_2', subscription.id, context)).rejects.toMatchObject({
+        code: 'webhook_subscription_not_found'
+      });
+    });
+  });
+
+  describe('transactionSaved', () => {
+    it('should queue one delivery per matching subscription and status change', async () => {
+      // Arrange
+      await service.createSubscription('merchant_1', { url: 'https://merchant.example/all', eventTypes: ['*'] }, context);
+      await service.createSubscription('merchant_1', { url: 'https://merchant.example/fail', eventTypes: ['payment.failed'] }, context);
+      await service.createSubscription('merchant_2', { url: 'https://other.example/all', eventTypes: ['*'] }, context);
+
+      // Act
+      await service.transactionSaved(completedPayment());
+      await service.transactionSaved(completedPayment());
+
+      // Assert
+      const deliveries = await service.listDeliveries({ merchantId: 'merchant_1' }, 10);
+      expect(deliveries).toHaveLength(2);
+      expect(deliveries[0]).toMatchObject({ eventId: 'tx_1:1', eventType: 'payment.completed', status: WebhookDeliveryStatus.PENDING });
+    });
+
+    it('should not queue anything for a new transaction or one without a merchant', async () => {
+      // Arrange
+      const created = { ...completedPayment(), status: TransactionStatus.PENDING, statusHistory: initialStatusHistory(TransactionStatus.PENDING, 'user_1') };
+
+      // Act
+      await service.transactionSaved(created);
+      await service.transactionSaved({ ...completedPayment(), merchantId: undefined });
+
+      // Assert
+      expect(await service.listDeliveries({}, 10)).toEqual([]);
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('should post the signed event to the subscription', async () => {
+      // Arrange
+      await service.transactionSaved(completedPayment());
+      respond(200);
+
+      // Act
+      const sent = await service.dispatchDue();
+
+      // Assert
+      expect(sent).toBe(1);
+      const [url, body, request] = mockedAxios.post.mock.calls[0];
+      expect(url).toBe('https://merchant.example/hooks');
+      expect(JSON.parse(body as string)).toMatchObject({ id: 'tx_1:1', type: 'payment.completed', data: { id: 'tx_1' } });
+      const headers = request?.headers as Record<string, string>;
+      const [, timestamp, signature] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(headers['X-Gateway-Signature']) || [];
+      expect(signature).toBe(webhookHmac(body as string, subscription.secret, Number(timestamp)));
+      expect(headers['X-Gateway-Event']).toBe('payment.completed');
+
+      const [delivery] = await service.listDeliveries({}, 10);
+      expect(delivery.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+      expect(delivery.attempts).toEqual([expect.objectContaining({ statusCode: 200 })]);
+    });
+
+    it('should retry with a growing delay and move the delivery to the dead-letter list when attempts run out', async () => {
+      // Arrange
+      await service.transactionSaved(completedPayment());
+      respond(500);
+      respond(503);
+      mockedAxios.post.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+      const later = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      // Act
+      await service.dispatchDue();
+      const [afterFirst] = await service.listDeliveries({}, 10);
+      expect(await service.dispatchDue()).toBe(0);
+      expect(await service.dispatchDue(later)).toBe(1);
+      await service.dispatchDue(later);
+
+      // Assert
+      expect(afterFirst.status).toBe(WebhookDeliveryStatus.PENDING);
+      expect(afterFirst.nextAttemptAt!.getTime() - afterFirst.updatedAt.getTime()).toBeGreaterThanOrEqual(999);
+      const [delivery] = await service.listDeliveries({}, 10);
+      expect(delivery.status).toBe(WebhookDeliveryStatus.DEAD);
+      expect(delivery.attempts.map(attempt => attempt.statusCode ?? attempt.error)).toEqual([500, 503, 'connect ECONNREFUSED']);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('should drop deliveries for a disabled subscription', async () => {
+      // Arrange
+      await service.transactionSaved(completedPayment());
+      await service.updateSubscription('merchant_1', subscription.id, { status: WebhookSubscriptionStatus.DISABLED }, context);
+
+      // Act
+      await service.dispatchDue();
+
+      // Assert
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      expect((await service.listDeliveries({}, 10))[0].status).toBe(WebhookDeliveryStatus.DEAD);
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should send a dead delivery again and audit it', async () => {
+      // Arrange
+      await service.transactionSaved(completedPayment());
+      const [queued] = await service.listDeliveries({}, 10);
+      await repository.saveDelivery({ ...queued, status: WebhookDeliveryStatus.DEAD, nextAttemptAt: undefined });
+      respond(204);
+
+      // Act
+      const delivery = await service.redeliver(queued.id, 'merchant_1', context);
+
+      // Assert
+      expect(delivery.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+      expect((await auditStore.readAll()).map(record => record.action)).toContain('webhook_delivery.redeliver');
+    });
+
+    it('should leave a dead delivery dead when the redelivery fails', async () => {
+      // Arrange
+      await service.transactionSaved(completedPayment());
+      const [queued] = await service.listDeliveries({}, 10);
+      await repository.saveDelivery({ ...queued, status: WebhookDeliveryStatus.DEAD, nextAttemptAt: undefined });
+      respond(500);
+
+      // Act
+      const delivery = await service.redeliver(queued.id, undefined, context);
+
+      // Assert
+      expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.DEAD, attempts: [expect.objectContaining({ statusCode: 500 })] });
+    });
+
+    it("should report another merchant's delivery as not found", async () => {
+      // Arrange
+      await service.transactionSaved(completedPayment());
+      const [queued] = await service.listDeliveries({}, 10);
+
+      // Act & Assert
+      await expect(service.redeliver(queued.id, 'merchant_2', context)).rejects.toMatchObject({
+        code: 'webhook_delivery_not_found'
+      });
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+  });
+});
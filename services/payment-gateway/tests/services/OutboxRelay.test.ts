@@ -0,0 +1,75 @@
+import { OutboxRelay } from '../../src/services/OutboxRelay';
+import { InProcessMessageBroker } from '../../src/messaging/InProcessMessageBroker';
+import { InMemoryOutboxRepository } from '../../src/repositories/InMemoryOutboxRepository';
+import { DomainEvent, DomainEventType } from '../../src/models/DomainEvent';
+import { OutboxStatus } from '../../src/models/OutboxEntry';
+
+describe('OutboxRelay', () => {
+  let outbox: InMemoryOutboxRepository;
+  let broker: InProcessMessageBroker;
+  let relay: OutboxRelay;
+
+  const event = (id: string, type: DomainEventType = DomainEventType.PAYMENT_SUCCEEDED): DomainEvent => ({
+    id,
+    type,
+    occurredAt: new Date('2026-01-01T10:00:00.000Z'),
+    data: { transactionId: id.split(':')[0], amount: '25.00', currency: 'USD', actor: 'user_1' }
+  } as DomainEvent);
+
+  beforeEach(async () => {
+    outbox = new InMemoryOutboxRepository();
+    broker = new InProcessMessageBroker();
+    relay = new OutboxRelay(outbox, broker, { pollIntervalMs: 1000, batchSize: 10, retryBaseDelayMs: 1000, retryMaxDelayMs: 60000 });
+    await outbox.append([event('tx_1:1'), event('tx_2:1', DomainEventType.REFUND_ISSUED), event('tx_3:1')]);
+  });
+
+  it('should publish pending events in order to the subscribers of their type', async () => {
+    // Arrange
+    const payments: string[] = [];
+    const refunds: string[] = [];
+    broker.subscribe([DomainEventType.PAYMENT_SUCCEEDED], received => {
+      payments.push(received.id);
+    });
+    broker.subscribe([DomainEventType.REFUND_ISSUED], received => {
+      refunds.push(`${received.id}:${received.data.amount}`);
+    });
+
+    // Act
+    const published = await relay.relayPending();
+    const again = await relay.relayPending();
+
+    // Assert
+    expect(published).toBe(3);
+    expect(again).toBe(0);
+    expect(payments).toEqual(['tx_1:1', 'tx_3:1']);
+    expect(refunds).toEqual(['tx_2:1:25.00']);
+    expect(await outbox.findById('tx_3:1')).toMatchObject({ status: OutboxStatus.PUBLISHED, publishedAt: expect.any(Date) });
+  });
+
+  it('should hold back later events until a refused one is published', async () => {
+    // Arrange
+    const received: string[] = [];
+    const handler = jest.fn((published: DomainEvent) => {
+      received.push(published.id);
+    });
+    handler.mockImplementationOnce(() => {
+      throw new Error('consumer unavailable');
+    });
+    broker.subscribe(Object.values(DomainEventType), handler);
+    const later = new Date(Date.now() + 60 * 1000);
+
+    // Act
+    const firstRun = await relay.relayPending();
+    const beforeRetry = await relay.relayPending();
+    const afterRetry = await relay.relayPending(later);
+
+    // Assert
+    expect([firstRun, beforeRetry, afterRetry]).toEqual([0, 0, 3]);
+    expect(received).toEqual(['tx_1:1', 'tx_2:1', 'tx_3:1']);
+    expect(await outbox.findById('tx_1:1')).toMatchObject({
+      status: OutboxStatus.PUBLISHED,
+      attempts: 1,
+      lastError: undefined
+    });
+  });
+});
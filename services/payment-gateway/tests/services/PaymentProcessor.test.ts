@@ -1,6 +1,27 @@
-import { PaymentProcessor, PaymentError } from '../../src/services/PaymentProcessor';
+import {
+  PaymentProcessor,
+  PaymentError,
+  RefundApprovalRequiredError,
+  PaymentBlockedError,
+  PaymentHeldForReviewError
+} from '../../src/services/PaymentProcessor';
 import axios from 'axios';
-import { TransactionStatus } from '../../src/models/Transaction';
+import { PaymentMethod, TransactionStatus, TransactionType, RefundReason } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { DomainEventType } from '../../src/models/DomainEvent';
+import { RefundApproval, RefundApprovalStatus } from '../../src/models/RefundApproval';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+import { InMemoryTransactionRepository } from '../../src/repositories/InMemoryTransactionRepository';
+import { TransactionSearch } from '../../src/repositories/TransactionRepository';
+import { SimulatorPaymentProviderAdapter } from '../../src/providers/SimulatorPaymentProviderAdapter';
+import { SandboxPaymentProviderAdapter } from '../../src/providers/SandboxPaymentProviderAdapter';
+import { AuditLogger } from '../../src/services/AuditLogger';
+import { InMemoryAuditStore } from '../../src/repositories/InMemoryAuditStore';
+import { InMemoryFraudScreeningRepository } from '../../src/repositories/InMemoryFraudScreeningRepository';
+import { FraudScreeningService } from '../../src/services/FraudScreeningService';
+import { InMemoryCardTokenRepository } from '../../src/repositories/InMemoryCardTokenRepository';
+import { TokenizationService } from '../../src/services/TokenizationService';
+import { config } from '../../src/config';
 
 // Mock axios
 jest.mock('axios');
@@ -8,9 +29,11 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 
 describe('PaymentProcessor', () => {
   let paymentProcessor: PaymentProcessor;
+  let transactionRepository: InMemoryTransactionRepository;
   
   beforeEach(() => {
-    paymentProcessor = new PaymentProcessor();
+    transactionRepository = new InMemoryTransactionRepository();
+    paymentProcessor = new PaymentProcessor({ transactionRepository });
     jest.clearAllMocks();
   });
   
@@ -19,7 +42,7 @@ describe('PaymentProcessor', () => {
       // Arrange
       const amount = 1000;
       const currency = 'USD';
-      const paymentMethod = {
+      const paymentMethod: PaymentMethod = {
         type: 'card',
         card: {
           number: '4242424242424242',
@@ -39,21 +62,56 @@ describe('PaymentProcessor', () => {
       });
       
       // Act
-      const result = await paymentProcessor.processPayment(amount, currency, paymentMethod);
+      const result = await paymentProcessor.processPayment(Money.of(amount, currency), paymentMethod);
       
       // Assert
       expect(result.status).toBe(TransactionStatus.COMPLETED);
-      expect(result.amount).toBe(amount);
+      expect(result.amount.equals(Money.of(amount, currency))).toBe(true);
       expect(result.currency).toBe(currency);
       expect(result.providerTransactionId).toBe('test_transaction_123');
       expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining('/payments'),
+        expect.objectContaining({ amount: 100000, currency: 'USD' }),
+        expect.anything()
+      );
+    });
+    
+    it('should persist the completed transaction', async () => {
+      // Arrange
+      const paymentMethod: PaymentMethod = {
+        type: 'card',
+        card: {
+          number: '4242424242424242',
+          expiryMonth: 12,
+          expiryYear: 2025,
+          cvv: '123'
+        }
+      };
+      
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          id: 'test_transaction_123',
+          status: 'succeeded',
+          amount: '1000',
+          currency: 'USD'
+        }
+      });
+      
+      // Act
+      const result = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+      
+      // Assert
+      const stored = await transactionRepository.findById(result.id);
+      expect(stored?.status).toBe(TransactionStatus.COMPLETED);
+      expect(stored?.providerTransactionId).toBe('test_transaction_123');
     });
     
     it('should handle payment failure', async () => {
       // Arrange
       const amount = 1000;
       const currency = 'USD';
-      const paymentMethod = {
+      const paymentMethod: PaymentMethod = {
         type: 'card',
         card: {
           number: '4242424242424242',
@@ -73,17 +131,22 @@ describe('PaymentProcessor', () => {
         }
       });
       
+      const saveSpy = jest.spyOn(transactionRepository, 'save');
+      
       // Act & Assert
       await expect(
-        paymentProcessor.processPayment(amount, currency, paymentMethod)
+        paymentProcessor.processPayment(Money.of(amount, currency), paymentMethod)
       ).rejects.toThrow(PaymentError);
+      
+      const [saved] = saveSpy.mock.calls[saveSpy.mock.calls.length - 1];
+      expect(saved.status).toBe(TransactionStatus.FAILED);
     });
     
     it('should handle network errors', async () => {
       // Arrange
       const amount = 1000;
       const currency = 'USD';
-      const paymentMethod = {
+      const paymentMethod: PaymentMethod = {
         type: 'card',
         card: {
           number: '4242424242424242',
@@ -97,9 +160,180 @@ describe('PaymentProcessor', () => {
       
       // Act & Assert
       await expect(
-        paymentProcessor.processPayment(amount, currency, paymentMethod)
+        paymentProcessor.processPayment(Money.of(amount, currency), paymentMethod)
       ).rejects.toThrow(PaymentError);
     });
+    
+    it('should rethrow unexpected errors instead of reporting them as provider errors', async () => {
+      // Arrange
+      const paymentMethod: PaymentMethod = {
+        type: 'card',
+        card: {
+          number: '4242424242424242',
+          expiryMonth: 12,
+          expiryYear: 2025,
+          cvv: '123'
+        }
+      };
+      
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { id: 'test_transaction_123', status: 'succeeded', amount: '1000', currency: 'USD' }
+      });
+      const save = transactionRepository.save.bind(transactionRepository);
+      jest.spyOn(transactionRepository, 'save')
+        .mockImplementationOnce(save)
+        .mockRejectedValueOnce(new Error('Database is locked'));
+      
+      // Act
+      const error = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod).catch(caught => caught);
+      
+      // Assert
+      expect(error).not.toBeInstanceOf(PaymentError);
+      expect(error.message).toBe('Database is locked');
+    });
+  });
+  
+  describe('provider resilience', () => {
+    const paymentMethod: PaymentMethod = {
+      type: 'card',
+      card: {
+        number: '4242424242424242',
+        expiryMonth: 12,
+        expiryYear: 2025,
+        cvv: '123'
+      }
+    };
+    
+    it('should retry a charge after a provider server error', async () => {
+      // Arrange
+      const processor = new PaymentProcessor({
+        transactionRepository,
+        resilience: { retryPolicy: { baseDelayMs: 0 } }
+      });
+      mockedAxios.post
+        .mockRejectedValueOnce({ message: 'Request failed with status code 503', response: { status: 503 } })
+        .mockResolvedValueOnce({ data: { id: 'prov_retry', status: 'succeeded', amount: '1000', currency: 'USD' } });
+      
+      // Act
+      const result = await processor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+      
+      // Assert
+      expect(result.status).toBe(TransactionStatus.COMPLETED);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      expect(processor.getProviderCircuitState()).toMatchObject({ name: 'rest', consecutiveFailures: 0 });
+    });
+    
+    it('should not retry a request the provider rejected', async () => {
+      // Arrange
+      const processor = new PaymentProcessor({
+        transactionRepository,
+        resilience: { retryPolicy: { baseDelayMs: 0 } }
+      });
+      mockedAxios.post.mockRejectedValueOnce({
+        message: 'Request failed with status code 400',
+        response: { status: 400, data: { error: { message: 'Invalid card', code: 'invalid_card' } } }
+      });
+      
+      // Act & Assert
+      await expect(
+        processor.processPayment(Money.of(1000, 'USD'), paymentMethod)
+      ).rejects.toMatchObject({ code: 'invalid_card' });
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should keep provider connection details out of the error clients see', async () => {
+      // Arrange
+      const processor = new PaymentProcessor({
+        transactionRepository,
+        resilience: { retryPolicy: { maxAttempts: 1 } }
+      });
+      mockedAxios.post.mockRejectedValueOnce({ message: 'connect ECONNREFUSED 10.0.0.12:443', code: 'ECONNREFUSED' });
+      const saveSpy = jest.spyOn(transactionRepository, 'save');
+      
+      // Act
+      const error = await processor.processPayment(Money.of(1000, 'USD'), paymentMethod).catch(caught => caught);
+      
+      // Assert
+      expect(error).toMatchObject({ code: 'provider_unavailable', message: 'Payment provider is unavailable' });
+      const [failed] = saveSpy.mock.calls[saveSpy.mock.calls.length - 1];
+      expect(failed.error?.message).toContain('ECONNREFUSED 10.0.0.12:443');
+    });
+  });
+  
+  describe('with an injected provider adapter', () => {
+    it('should route payments through the adapter instead of the REST provider', async () => {
+      // Arrange
+      const providerAdapter = new SimulatorPaymentProviderAdapter();
+      const processor = new PaymentProcessor({ transactionRepository, providerAdapter });
+      const paymentMethod: PaymentMethod = {
+        type: 'card',
+        card: {
+          number: '4242424242424242',
+          expiryMonth: 12,
+          expiryYear: 2025,
+          cvv: '123'
+        }
+      };
+      
+      // Act
+      const result = await processor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+      
+      // Assert
+      expect(result.status).toBe(TransactionStatus.COMPLETED);
+      expect(result.providerTransactionId).toMatch(/^sim_/);
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+    
+    it('should surface sandbox declines as payment errors', async () => {
+      // Arrange
+      const processor = new PaymentProcessor({
+        transactionRepository,
+        providerAdapter: new SandboxPaymentProviderAdapter()
+      });
+      const paymentMethod: PaymentMethod = {
+        type: 'card',
+        card: {
+          number: '4000000000009995',
+          expiryMonth: 12,
+          expiryYear: 2025,
+          cvv: '123'
+        }
+      };
+      
+      // Act & Assert
+      await expect(
+        processor.processPayment(Money.of(1000, 'USD'), paymentMethod)
+      ).rejects.toMatchObject({ code: 'insufficient_funds' });
+    });
+
+    it('should report every saved status to the transaction listener, even when it fails', async () => {
+      // Arrange
+      const onTransactionSaved = jest.fn().mockRejectedValue(new Error('listener down'));
+      const processor = new PaymentProcessor({
+        transactionRepository,
+        providerAdapter: new SimulatorPaymentProviderAdapter(),
+        onTransactionSaved
+      });
+      const paymentMethod: PaymentMethod = {
+        type: 'card',
+        card: {
+          number: '4242424242424242',
+          expiryMonth: 12,
+          expiryYear: 2025,
+          cvv: '123'
+        }
+      };
+
+      // Act
+      const result = await processor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+
+      // Assert
+      expect(result.status).toBe(TransactionStatus.COMPLETED);
+      expect(onTransactionSaved.mock.calls.map(([saved]) => saved.status)).toEqual([
+        TransactionStatus.PENDING,
+        TransactionStatus.COMPLETED
+      ]);
+    });
   });
   
   describe('processRefund', () => {
@@ -108,6 +342,18 @@ describe('PaymentProcessor', () => {
       const transactionId = 'test_transaction_123';
       const amount = 500;
       
+      await transactionRepository.save({
+        id: transactionId,
+        providerTransactionId: 'prov_123',
+        amount: Money.of(1000, 'USD'),
+        currency: 'USD',
+        status: TransactionStatus.COMPLETED,
+        statusHistory: initialStatusHistory(TransactionStatus.COMPLETED),
+        type: TransactionType.PAYMENT,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      
       mockedAxios.post.mockResolvedValueOnce({
         data: {
           id: 'test_refund_123',
@@ -118,14 +364,790 @@ describe('PaymentProcessor', () => {
       });
       
       // Act
-      const result = await paymentProcessor.processRefund(transactionId, amount);
+      const result = await paymentProcessor.processRefund(transactionId, Money.of(amount, 'USD'));
       
       // Assert
       expect(result.status).toBe(TransactionStatus.COMPLETED);
-      expect(result.amount).toBe(amount);
+      expect(result.amount.toString()).toBe('500.00');
       expect(result.type).toBe('refund');
       expect(result.originalTransactionId).toBe(transactionId);
       expect(mockedAxios.post).toHaveBeenCalledTimes(1);
     });
   });
 });
+
+describe('PaymentProcessor authorization lifecycle', () => {
+  let paymentProcessor: PaymentProcessor;
+  let transactionRepository: InMemoryTransactionRepository;
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    paymentProcessor = new PaymentProcessor({
+      transactionRepository,
+      providerAdapter: new SimulatorPaymentProviderAdapter()
+    });
+  });
+  
+  it('should authorize the full amount as capturable', async () => {
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    expect(authorization.status).toBe(TransactionStatus.AUTHORIZED);
+    expect(authorization.type).toBe('authorization');
+    expect(authorization.capturableAmount?.toString()).toBe('1000.00');
+  });
+  
+  it('should allow multiple partial captures up to the authorized amount', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act
+    const first = await paymentProcessor.capturePayment(authorization.id, Money.of(600, 'USD'));
+    const afterFirst = await transactionRepository.findById(authorization.id);
+    const second = await paymentProcessor.capturePayment(authorization.id);
+    const afterSecond = await transactionRepository.findById(authorization.id);
+    
+    // Assert
+    expect(first.amount.toString()).toBe('600.00');
+    expect(first.originalTransactionId).toBe(authorization.id);
+    expect(afterFirst?.status).toBe(TransactionStatus.AUTHORIZED);
+    expect(afterFirst?.capturableAmount?.toString()).toBe('400.00');
+    expect(second.amount.toString()).toBe('400.00');
+    expect(afterSecond?.status).toBe(TransactionStatus.COMPLETED);
+    expect(afterSecond?.capturableAmount?.toString()).toBe('0.00');
+  });
+  
+  it('should reject a capture above the remaining balance', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    await paymentProcessor.capturePayment(authorization.id, Money.of(600, 'USD'));
+    
+    // Act & Assert
+    await expect(
+      paymentProcessor.capturePayment(authorization.id, Money.of(500, 'USD'))
+    ).rejects.toMatchObject({ code: 'capture_exceeds_authorization' });
+  });
+  
+  it('should not over-capture when captures run concurrently', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act
+    const results = await Promise.allSettled([
+      paymentProcessor.capturePayment(authorization.id, Money.of(700, 'USD')),
+      paymentProcessor.capturePayment(authorization.id, Money.of(700, 'USD'))
+    ]);
+    
+    // Assert
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+  
+  it('should void an uncaptured authorization', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act
+    const voided = await paymentProcessor.voidAuthorization(authorization.id);
+    
+    // Assert
+    expect(voided.status).toBe(TransactionStatus.VOIDED);
+    await expect(
+      paymentProcessor.capturePayment(authorization.id)
+    ).rejects.toMatchObject({ code: 'authorization_not_active' });
+  });
+  
+  it('should release the rest of a partially captured authorization when it is voided', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    await paymentProcessor.capturePayment(authorization.id, Money.of(100, 'USD'));
+    
+    // Act
+    const released = await paymentProcessor.voidAuthorization(authorization.id);
+    
+    // Assert
+    expect(released.status).toBe(TransactionStatus.COMPLETED);
+    expect(released.capturableAmount?.toString()).toBe('0.00');
+    expect(released.statusHistory[released.statusHistory.length - 1].reason).toBe('Remaining 900.00 of the authorization released');
+    await expect(
+      paymentProcessor.capturePayment(authorization.id)
+    ).rejects.toMatchObject({ code: 'authorization_not_active' });
+  });
+  
+  it('should release the rest of the authorization with a final capture', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    await paymentProcessor.capturePayment(authorization.id, Money.of(100, 'USD'));
+    
+    // Act
+    const capture = await paymentProcessor.capturePayment(authorization.id, Money.of(200, 'USD'), { final: true });
+    const completed = await transactionRepository.findById(authorization.id);
+    
+    // Assert
+    expect(capture.status).toBe(TransactionStatus.COMPLETED);
+    expect(completed?.status).toBe(TransactionStatus.COMPLETED);
+    expect(completed?.capturableAmount?.toString()).toBe('0.00');
+    await expect(
+      paymentProcessor.voidAuthorization(authorization.id)
+    ).rejects.toMatchObject({ code: 'authorization_not_active' });
+  });
+  
+  it('should keep a capture the provider approved when saving it fails', async () => {
+    // Arrange
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    const save = transactionRepository.save.bind(transactionRepository);
+    jest.spyOn(transactionRepository, 'save')
+      .mockImplementationOnce(save)
+      .mockRejectedValueOnce(new Error('Database is locked'));
+    
+    // Act & Assert
+    await expect(paymentProcessor.capturePayment(authorization.id)).rejects.toThrow('Database is locked');
+  });
+  
+  it('should reject captures of unknown authorizations', async () => {
+    await expect(
+      paymentProcessor.capturePayment('missing')
+    ).rejects.toMatchObject({ code: 'transaction_not_found' });
+  });
+});
+
+describe('PaymentProcessor refund accounting', () => {
+  let paymentProcessor: PaymentProcessor;
+  let transactionRepository: InMemoryTransactionRepository;
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    paymentProcessor = new PaymentProcessor({
+      transactionRepository,
+      providerAdapter: new SandboxPaymentProviderAdapter()
+    });
+  });
+  
+  it('should track partial refunds until the payment is fully refunded', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act
+    const first = await paymentProcessor.processRefund(payment.id, Money.of(300, 'USD'), { reason: RefundReason.DUPLICATE });
+    const afterFirst = await transactionRepository.findById(payment.id);
+    const second = await paymentProcessor.processRefund(payment.id);
+    const afterSecond = await transactionRepository.findById(payment.id);
+    
+    // Assert
+    expect(first.refundReason).toBe(RefundReason.DUPLICATE);
+    expect(first.currency).toBe('USD');
+    expect(afterFirst?.status).toBe(TransactionStatus.PARTIALLY_REFUNDED);
+    expect(afterFirst?.refundedAmount?.toString()).toBe('300.00');
+    expect(second.amount.toString()).toBe('700.00');
+    expect(afterSecond?.status).toBe(TransactionStatus.REFUNDED);
+    expect(afterSecond?.refundedAmount?.toString()).toBe('1000.00');
+  });
+  
+  it('should write domain events to the outbox with the transactions', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act
+    const refund = await paymentProcessor.processRefund(payment.id, Money.of(300, 'USD'), { reason: RefundReason.DUPLICATE });
+    
+    // Assert
+    const events = (await transactionRepository.outbox.listPending(10)).map(entry => entry.event);
+    expect(events).toEqual([
+      expect.objectContaining({
+        id: `${payment.id}:1`,
+        type: DomainEventType.PAYMENT_SUCCEEDED,
+        data: expect.objectContaining({ transactionId: payment.id, amount: '1000.00', currency: 'USD' })
+      }),
+      expect.objectContaining({
+        type: DomainEventType.REFUND_ISSUED,
+        data: expect.objectContaining({
+          transactionId: refund.id,
+          originalTransactionId: payment.id,
+          amount: '300.00',
+          refundReason: RefundReason.DUPLICATE
+        })
+      })
+    ]);
+  });
+  
+  it('should reject a refund above the remaining balance', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    await paymentProcessor.processRefund(payment.id, Money.of(600, 'USD'));
+    
+    // Act & Assert
+    await expect(
+      paymentProcessor.processRefund(payment.id, Money.of(500, 'USD'))
+    ).rejects.toMatchObject({ code: 'refund_exceeds_remaining' });
+  });
+  
+  it('should not over-refund when refunds run concurrently', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act
+    const results = await Promise.allSettled([
+      paymentProcessor.processRefund(payment.id, Money.of(700, 'USD')),
+      paymentProcessor.processRefund(payment.id, Money.of(700, 'USD'))
+    ]);
+    
+    // Assert
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+  
+  it('should reject refunds of failed payments', async () => {
+    // Arrange
+    await transactionRepository.save({
+      id: 'failed_payment',
+      amount: Money.of(1000, 'USD'),
+      currency: 'USD',
+      status: TransactionStatus.FAILED,
+      statusHistory: initialStatusHistory(TransactionStatus.FAILED),
+      type: TransactionType.PAYMENT,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    
+    // Act & Assert
+    await expect(
+      paymentProcessor.processRefund('failed_payment')
+    ).rejects.toMatchObject({ code: 'transaction_not_refundable' });
+  });
+  
+  it('should reject refunds of uncaptured authorizations', async () => {
+    const authorization = await paymentProcessor.authorizePayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    await expect(
+      paymentProcessor.processRefund(authorization.id)
+    ).rejects.toMatchObject({ code: 'transaction_not_refundable' });
+  });
+  
+  it('should reject refunds in a different currency', async () => {
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    await expect(
+      paymentProcessor.processRefund(payment.id, Money.of(100, 'EUR'))
+    ).rejects.toMatchObject({ code: 'currency_mismatch' });
+  });
+  
+  it('should reject refunds of unknown transactions', async () => {
+    await expect(
+      paymentProcessor.processRefund('missing')
+    ).rejects.toMatchObject({ code: 'transaction_not_found' });
+  });
+});
+
+describe('PaymentProcessor refund approvals', () => {
+  let paymentProcessor: PaymentProcessor;
+  let transactionRepository: InMemoryTransactionRepository;
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  const heldRefund = async (): Promise<RefundApproval> => {
+    const payment = await paymentProcessor.processPayment(Money.of(5000, 'USD'), paymentMethod);
+    const error = await paymentProcessor
+      .processRefund(payment.id, Money.of(2000, 'USD'), { actor: 'maker', reason: RefundReason.DUPLICATE })
+      .catch(caught => caught);
+    return (error as RefundApprovalRequiredError).approval;
+  };
+  
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    paymentProcessor = new PaymentProcessor({
+      transactionRepository,
+      providerAdapter: new SandboxPaymentProviderAdapter(),
+      refundApprovalThresholds: { USD: '1000' }
+    });
+  });
+  
+  it('should process refunds at or below the threshold immediately', async () => {
+    const payment = await paymentProcessor.processPayment(Money.of(5000, 'USD'), paymentMethod);
+    
+    const refund = await paymentProcessor.processRefund(payment.id, Money.of(1000, 'USD'));
+    
+    expect(refund.status).toBe(TransactionStatus.COMPLETED);
+  });
+  
+  it('should hold every refund in a currency without a threshold', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(50, 'EUR'), paymentMethod);
+    
+    // Act
+    const error = await paymentProcessor.processRefund(payment.id, Money.of(1, 'EUR')).catch(caught => caught);
+    
+    // Assert
+    expect(error).toBeInstanceOf(RefundApprovalRequiredError);
+  });
+  
+  it('should hold refunds above the threshold without calling the provider', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(5000, 'USD'), paymentMethod);
+    
+    // Act
+    const error = await paymentProcessor
+      .processRefund(payment.id, Money.of('1000.01', 'USD'), { actor: 'maker' })
+      .catch(caught => caught);
+    
+    // Assert
+    expect(error).toBeInstanceOf(RefundApprovalRequiredError);
+    expect(error.approval).toMatchObject({ status: RefundApprovalStatus.PENDING, requestedBy: 'maker' });
+    expect((await transactionRepository.findById(payment.id))?.status).toBe(TransactionStatus.COMPLETED);
+    expect(await paymentProcessor.listRefundApprovals(RefundApprovalStatus.PENDING)).toHaveLength(1);
+  });
+  
+  it('should process the refund once a different user approves it', async () => {
+    // Arrange
+    const approval = await heldRefund();
+    
+    // Act
+    const approved = await paymentProcessor.approveRefund(approval.id, { actor: 'checker', note: 'Verified with customer' });
+    
+    // Assert
+    expect(approved).toMatchObject({
+      status: RefundApprovalStatus.APPROVED,
+      requestedBy: 'maker',
+      reviewedBy: 'checker',
+      reviewNote: 'Verified with customer'
+    });
+    const refund = await transactionRepository.findById(approved.refundTransactionId as string);
+    expect(refund?.status).toBe(TransactionStatus.COMPLETED);
+    expect(refund?.refundReason).toBe(RefundReason.DUPLICATE);
+    const original = await transactionRepository.findById(approval.transactionId);
+    expect(original?.status).toBe(TransactionStatus.PARTIALLY_REFUNDED);
+  });
+  
+  it('should not let the requester approve their own refund', async () => {
+    const approval = await heldRefund();
+    
+    await expect(
+      paymentProcessor.approveRefund(approval.id, { actor: 'maker' })
+    ).rejects.toMatchObject({ code: 'refund_self_approval' });
+  });
+  
+  it('should not process a rejected refund', async () => {
+    // Arrange
+    const approval = await heldRefund();
+    
+    // Act
+    const rejected = await paymentProcessor.rejectRefund(approval.id, { actor: 'checker', note: 'Not eligible' });
+    
+    // Assert
+    expect(rejected.status).toBe(RefundApprovalStatus.REJECTED);
+    expect((await transactionRepository.findById(approval.transactionId))?.refundedAmount).toBeUndefined();
+    await expect(
+      paymentProcessor.approveRefund(approval.id, { actor: 'checker' })
+    ).rejects.toMatchObject({ code: 'refund_approval_not_pending' });
+  });
+  
+  it('should not approve the same request twice when approvals run concurrently', async () => {
+    const approval = await heldRefund();
+    
+    const results = await Promise.allSettled([
+      paymentProcessor.approveRefund(approval.id, { actor: 'checker_1' }),
+      paymentProcessor.approveRefund(approval.id, { actor: 'checker_2' })
+    ]);
+    
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+});
+
+describe('PaymentProcessor audit trail', () => {
+  let paymentProcessor: PaymentProcessor;
+  let auditStore: InMemoryAuditStore;
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  beforeEach(() => {
+    auditStore = new InMemoryAuditStore();
+    paymentProcessor = new PaymentProcessor({
+      transactionRepository: new InMemoryTransactionRepository(),
+      providerAdapter: new SandboxPaymentProviderAdapter(),
+      auditLogger: new AuditLogger(auditStore)
+    });
+  });
+  
+  it('should record payments, captures and refunds with the acting user and IP address', async () => {
+    // Arrange
+    const options = { actor: 'user_1', ipAddress: '203.0.113.7' };
+    
+    // Act
+    const payment = await paymentProcessor.processPayment(Money.of(100, 'USD'), paymentMethod, {}, options);
+    const refund = await paymentProcessor.processRefund(payment.id, Money.of(40, 'USD'), options);
+    const authorization = await paymentProcessor.authorizePayment(Money.of(50, 'USD'), paymentMethod, {}, options);
+    await paymentProcessor.capturePayment(authorization.id, undefined, options);
+    
+    // Assert
+    const records = await auditStore.readAll();
+    expect(records.map(record => record.action)).toEqual([
+      'payment.create',
+      'refund.create',
+      'authorization.create',
+      'capture.create'
+    ]);
+    expect(records[0]).toMatchObject({
+      userId: 'user_1',
+      ipAddress: '203.0.113.7',
+      status: 'success',
+      details: { transactionId: payment.id, amount: '100.00', currency: 'USD', transactionType: 'payment' }
+    });
+    expect(records[1].details).toMatchObject({ transactionId: refund.id, relatedTransactionId: payment.id });
+  });
+  
+  it('should record declined payments as failures with the error code', async () => {
+    const declined: PaymentMethod = { type: 'card', card: { ...paymentMethod.card!, number: '4000000000000002' } };
+    
+    await expect(paymentProcessor.processPayment(Money.of(100, 'USD'), declined)).rejects.toThrow(PaymentError);
+    
+    const [record] = await auditStore.readAll();
+    expect(record).toMatchObject({
+      action: 'payment.create',
+      status: 'failure',
+      details: { errorCode: 'card_declined' }
+    });
+  });
+});
+
+describe('PaymentProcessor merchant scoping', () => {
+  let paymentProcessor: PaymentProcessor;
+  let merchantAdapter: SandboxPaymentProviderAdapter;
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  beforeEach(() => {
+    merchantAdapter = new SandboxPaymentProviderAdapter();
+    paymentProcessor = new PaymentProcessor({
+      transactionRepository: new InMemoryTransactionRepository(),
+      providerAdapter: new SandboxPaymentProviderAdapter(),
+      // merchant_own has its own provider account; others use the default adapter
+      merchantProviderAdapter: async merchantId => merchantId === 'merchant_own' ? merchantAdapter : undefined,
+      refundApprovalThresholds: { '*': '500' }
+    });
+  });
+  
+  it('should keep refunds and captures with the merchant of the original', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(100, 'USD'), paymentMethod, {}, { merchantId: 'merchant_a' });
+    const authorization = await paymentProcessor.authorizePayment(Money.of(100, 'USD'), paymentMethod, {}, { merchantId: 'merchant_a' });
+    
+    // Act
+    const refund = await paymentProcessor.processRefund(payment.id, undefined, { merchantId: 'merchant_a' });
+    const capture = await paymentProcessor.capturePayment(authorization.id);
+    
+    // Assert
+    expect(payment.merchantId).toBe('merchant_a');
+    expect(refund.merchantId).toBe('merchant_a');
+    expect(capture.merchantId).toBe('merchant_a');
+  });
+  
+  it('should report other merchants\' transactions as not found', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(100, 'USD'), paymentMethod, {}, { merchantId: 'merchant_a' });
+    const authorization = await paymentProcessor.authorizePayment(Money.of(100, 'USD'), paymentMethod, {}, { merchantId: 'merchant_a' });
+    const other = { merchantId: 'merchant_b' };
+    
+    // Act & Assert
+    await expect(paymentProcessor.processRefund(payment.id, undefined, other))
+      .rejects.toMatchObject({ code: 'transaction_not_found' });
+    await expect(paymentProcessor.capturePayment(authorization.id, undefined, other))
+      .rejects.toMatchObject({ code: 'transaction_not_found' });
+    await expect(paymentProcessor.voidAuthorization(authorization.id, other))
+      .rejects.toMatchObject({ code: 'transaction_not_found' });
+  });
+  
+  it('should only let approvers of the same merchant review a held refund', async () => {
+    // Arrange
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod, {}, { merchantId: 'merchant_a' });
+    const error = await paymentProcessor
+      .processRefund(payment.id, undefined, { actor: 'maker', merchantId: 'merchant_a' })
+      .catch(caught => caught);
+    const approval = (error as RefundApprovalRequiredError).approval;
+    
+    // Act & Assert
+    expect(approval.merchantId).toBe('merchant_a');
+    expect(await paymentProcessor.listRefundApprovals(undefined, 'merchant_b')).toEqual([]);
+    await expect(paymentProcessor.approveRefund(approval.id, { actor: 'checker', merchantId: 'merchant_b' }))
+      .rejects.toMatchObject({ code: 'refund_approval_not_found' });
+    await expect(paymentProcessor.approveRefund(approval.id, { actor: 'checker', merchantId: 'merchant_a' }))
+      .resolves.toMatchObject({ status: RefundApprovalStatus.APPROVED });
+  });
+  
+  it('should send a merchant\'s payments to its own provider account', async () => {
+    // Arrange
+    const charge = jest.spyOn(merchantAdapter, 'charge');
+    
+    // Act
+    await paymentProcessor.processPayment(Money.of(100, 'USD'), paymentMethod, {}, { merchantId: 'merchant_a' });
+    const payment = await paymentProcessor.processPayment(Money.of(100, 'USD'), paymentMethod, {}, { merchantId: 'merchant_own' });
+    await paymentProcessor.processRefund(payment.id);
+    
+    // Assert
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(charge).toHaveBeenCalledWith(expect.objectContaining({ idempotencyKey: payment.id }));
+  });
+});
+
+describe('PaymentProcessor provider updates', () => {
+  let paymentProcessor: PaymentProcessor;
+  let transactionRepository: InMemoryTransactionRepository;
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    paymentProcessor = new PaymentProcessor({ transactionRepository });
+    jest.clearAllMocks();
+  });
+  
+  it('should keep a payment the provider reports as pending open for a later update', async () => {
+    // Arrange
+    mockedAxios.post.mockResolvedValueOnce({
+      data: { id: 'prov_pending_1', status: 'pending', amount: '1000', currency: 'USD' }
+    });
+    
+    // Act
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Assert
+    expect(payment.status).toBe(TransactionStatus.PENDING);
+    expect(payment.providerTransactionId).toBe('prov_pending_1');
+    expect((await transactionRepository.findById(payment.id))?.status).toBe(TransactionStatus.PENDING);
+  });
+  
+  it('should apply a reported outcome once and ignore it when reported again', async () => {
+    // Arrange
+    mockedAxios.post.mockResolvedValueOnce({
+      data: { id: 'prov_pending_2', status: 'pending', amount: '1000', currency: 'USD' }
+    });
+    const payment = await paymentProcessor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    const update = { status: TransactionStatus.COMPLETED, reason: 'Provider event charge.succeeded (evt_1)' };
+    
+    // Act
+    await paymentProcessor.applyProviderUpdate(payment.id, update, { actor: 'provider-webhook' });
+    const repeated = await paymentProcessor.applyProviderUpdate(payment.id, update, { actor: 'provider-webhook' });
+    
+    // Assert
+    expect(repeated.status).toBe(TransactionStatus.COMPLETED);
+    expect(repeated.statusHistory).toHaveLength(2);
+    expect(repeated.statusHistory[1]).toMatchObject({ from: 'pending', to: 'completed', actor: 'provider-webhook' });
+  });
+  
+  it('should take back the unrefunded balance on a chargeback', async () => {
+    // Arrange
+    const processor = new PaymentProcessor({ transactionRepository, providerAdapter: new SimulatorPaymentProviderAdapter() });
+    const payment = await processor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    await processor.processRefund(payment.id, Money.of(100, 'USD'));
+    
+    // Act
+    const chargedBack = await processor.applyProviderUpdate(payment.id, {
+      status: TransactionStatus.REFUNDED,
+      reason: 'Provider event charge.chargeback (evt_2)'
+    });
+    
+    // Assert
+    expect(chargedBack.status).toBe(TransactionStatus.REFUNDED);
+    expect(chargedBack.refundedAmount?.toString()).toBe('1000.00');
+  });
+  
+  it('should refuse an outcome the transaction has moved past', async () => {
+    // Arrange
+    const processor = new PaymentProcessor({ transactionRepository, providerAdapter: new SimulatorPaymentProviderAdapter() });
+    const payment = await processor.processPayment(Money.of(1000, 'USD'), paymentMethod);
+    
+    // Act & Assert
+    await expect(processor.applyProviderUpdate(payment.id, {
+      status: TransactionStatus.FAILED,
+      reason: 'Provider event charge.failed (evt_3)'
+    })).rejects.toMatchObject({ code: 'invalid_status_transition' });
+    await expect(processor.applyProviderUpdate('missing', {
+      status: TransactionStatus.COMPLETED,
+      reason: 'Provider event charge.succeeded (evt_4)'
+    })).rejects.toMatchObject({ code: 'transaction_not_found' });
+  });
+});
+
+describe('PaymentProcessor fraud screening', () => {
+  let paymentProcessor: PaymentProcessor;
+  let transactionRepository: InMemoryTransactionRepository;
+  let providerAdapter: SandboxPaymentProviderAdapter;
+  let auditStore: InMemoryAuditStore;
+  let fraudScreening: FraudScreeningService;
+  const allTransactions: TransactionSearch = { sortBy: 'createdAt', sortDirection: 'asc', limit: 100 };
+  const paymentMethod: PaymentMethod = {
+    type: 'card',
+    card: {
+      number: '4242424242424242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      cvv: '123'
+    }
+  };
+  
+  beforeEach(() => {
+    transactionRepository = new InMemoryTransactionRepository();
+    providerAdapter = new SandboxPaymentProviderAdapter();
+    auditStore = new InMemoryAuditStore();
+    const auditLogger = new AuditLogger(auditStore);
+    fraudScreening = new FraudScreeningService(new InMemoryFraudScreeningRepository(), auditLogger, {
+      ...config.fraud,
+      reviewAmounts: { USD: '1000' },
+      blockAmounts: { USD: '10000' }
+    });
+    paymentProcessor = new PaymentProcessor({ transactionRepository, providerAdapter, auditLogger, fraudScreening });
+  });
+  
+  it('should decline blocked payments without contacting the provider or recording a transaction', async () => {
+    // Arrange
+    const charge = jest.spyOn(providerAdapter, 'charge');
+    
+    // Act
+    const attempt = paymentProcessor.processPayment(Money.of('10000.00', 'USD'), paymentMethod, {}, { actor: 'user_1' });
+    
+    // Assert
+    await expect(attempt).rejects.toBeInstanceOf(PaymentBlockedError);
+    await expect(attempt).rejects.toMatchObject({ code: 'payment_blocked' });
+    expect(charge).not.toHaveBeenCalled();
+    expect((await transactionRepository.search(allTransactions)).transactions).toHaveLength(0);
+    expect(await auditStore.readAll()).toEqual([
+      expect.objectContaining({ action: 'payment.fraud_blocked', status: 'failure', userId: 'user_1' })
+    ]);
+  });
+  
+  it('should hold authorizations for review and let the retry through once approved', async () => {
+    // Arrange
+    const authorize = jest.spyOn(providerAdapter, 'authorize');
+    const amount = Money.of('2000.00', 'USD');
+    const held = await paymentProcessor.authorizePayment(amount, paymentMethod, {}, { actor: 'user_1' })
+      .catch((error: PaymentHeldForReviewError) => error);
+    
+    // Act
+    await fraudScreening.approveReview((held as PaymentHeldForReviewError).screening.id, { actor: 'admin_1' });
+    const authorization = await paymentProcessor.authorizePayment(amount, paymentMethod, {}, { actor: 'user_1' });
+    
+    // Assert
+    expect(held).toBeInstanceOf(PaymentHeldForReviewError);
+    expect(held).toMatchObject({ code: 'payment_held_for_review' });
+    expect(authorize).toHaveBeenCalledTimes(1);
+    expect(authorization.status).toBe(TransactionStatus.AUTHORIZED);
+    expect((await transactionRepository.search(allTransactions)).transactions.map(transaction => transaction.id)).toEqual([authorization.id]);
+    expect((await auditStore.readAll()).map(record => record.action)).toEqual([
+      'authorization.fraud_held',
+      'fraud_review.approved',
+      'authorization.create'
+    ]);
+  });
+});
+
+describe('PaymentProcessor card tokens', () => {
+  let paymentProcessor: PaymentProcessor;
+  let providerAdapter: SandboxPaymentProviderAdapter;
+  let tokenization: TokenizationService;
+  const card = { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cvv: '123' };
+  const tokenFor = async (userId: string, number = card.number): Promise<PaymentMethod> => {
+    const { token } = await tokenization.tokenize({ ...card, number }, { userId });
+    return { type: 'card_token', cardToken: { token } };
+  };
+  
+  beforeEach(() => {
+    providerAdapter = new SandboxPaymentProviderAdapter();
+    tokenization = new TokenizationService(new InMemoryCardTokenRepository(), {
+      encryptionKey: '0'.repeat(64),
+      fingerprintSecret: 'fingerprint-secret'
+    });
+    paymentProcessor = new PaymentProcessor({ providerAdapter, tokenization });
+  });
+  
+  it('should send the stored card to the provider without a CVV', async () => {
+    // Arrange
+    const charge = jest.spyOn(providerAdapter, 'charge');
+    const paymentMethod = await tokenFor('user_1');
+    
+    // Act
+    const transaction = await paymentProcessor.processPayment(Money.of(25, 'USD'), paymentMethod, {}, { actor: 'user_1' });
+    
+    // Assert
+    expect(transaction.status).toBe(TransactionStatus.COMPLETED);
+    expect(charge.mock.calls[0][0].paymentMethod).toEqual({
+      type: 'card',
+      card: { number: '4242424242424242', expiryMonth: 12, expiryYear: 2030 }
+    });
+  });
+  
+  it('should apply the stored card\'s decline', async () => {
+    // Arrange
+    const paymentMethod = await tokenFor('user_1', '4000000000000002');
+    
+    // Act & Assert
+    await expect(paymentProcessor.authorizePayment(Money.of(25, 'USD'), paymentMethod, {}, { actor: 'user_1' }))
+      .rejects.toMatchObject({ code: 'card_declined' });
+  });
+  
+  it('should reject another user\'s token before contacting the provider', async () => {
+    // Arrange
+    const charge = jest.spyOn(providerAdapter, 'charge');
+    const paymentMethod = await tokenFor('user_1');
+    
+    // Act & Assert
+    await expect(paymentProcessor.processPayment(Money.of(25, 'USD'), paymentMethod, {}, { actor: 'user_2' }))
+      .rejects.toMatchObject({ code: 'card_token_not_found' });
+    expect(charge).not.toHaveBeenCalled();
+  });
+  
+  it('should count tokenized and raw payments with a card towards the same velocity limit', async () => {
+    // Arrange
+    const fraudScreening = new FraudScreeningService(
+      new InMemoryFraudScreeningRepository(),
+      new AuditLogger(new InMemoryAuditStore()),
+      { ...config.fraud, velocity: { ...config.fraud.velocity, maxPerCard: 1 }, cardFingerprintSecret: 'fingerprint-secret' }
+    );
+    paymentProcessor = new PaymentProcessor({ providerAdapter, tokenization, fraudScreening });
+    await paymentProcessor.processPayment(Money.of(25, 'USD'), { type: 'card', card }, {}, { actor: 'user_1' });
+    
+    // Act & Assert
+    await expect(paymentProcessor.processPayment(Money.of(25, 'USD'), await tokenFor('user_1'), {}, { actor: 'user_1' }))
+      .rejects.toBeInstanceOf(PaymentBlockedError);
+  });
+});
@@ -0,0 +1,193 @@
+import { ProviderWebhookService } from '../../src/services/ProviderWebhookService';
+import { signWebhook } from '../../src/utils/webhookSignature';
+import { PaymentProcessor } from '../../src/services/PaymentProcessor';
+import { AuditLogger } from '../../src/services/AuditLogger';
+import { InMemoryTransactionRepository } from '../../src/repositories/InMemoryTransactionRepository';
+import { InMemoryProviderEventRepository } from '../../src/repositories/InMemoryProviderEventRepository';
+import { InMemoryAuditStore } from '../../src/repositories/InMemoryAuditStore';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { ProviderEventStatus } from '../../src/models/ProviderEvent';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+
+describe('ProviderWebhookService', () => {
+  const secret = 'whsec_test';
+  let transactionRepository: InMemoryTransactionRepository;
+  let eventRepository: InMemoryProviderEventRepository;
+  let auditStore: InMemoryAuditStore;
+  let service: ProviderWebhookService;
+
+  const pendingPayment = (id: string, providerTransactionId: string): Transaction => ({
+    id,
+    providerTransactionId,
+    amount: Money.of('25.00', 'USD'),
+    currency: 'USD',
+    status: TransactionStatus.PENDING,
+    statusHistory: initialStatusHistory(TransactionStatus.PENDING, 'user_1'),
+    type: TransactionType.PAYMENT,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const body = (id: string, type: string, data: Record<string, unknown> = { id: 'prov_1' }): Buffer =>
+    Buffer.from(JSON.stringify({ id, type, data }));
+
+  beforeEach(async () => {
+    transactionRepository = new InMemoryTransactionRepository();
+    eventRepository = new InMemoryProviderEventRepository();
+    auditStore = new InMemoryAuditStore();
+    const auditLogger = new AuditLogger(auditStore);
+    service = new ProviderWebhookService(
+      new PaymentProcessor({ transactionRepository, auditLogger }),
+      transactionRepository,
+      eventRepository,
+      auditLogger,
+      { secret, toleranceSeconds: 300 }
+    );
+    await transactionRepository.save(pendingPayment('tx_1', 'prov_1'));
+  });
+
+  describe('verifySignature', () => {
+    const payload = body('evt_1', 'charge.succeeded');
+    const now = Math.floor(Date.now() / 1000);
+
+    it('should accept a current signature, also next to one made with an old secret', () => {
+      const header = signWebhook(payload, secret, now);
+      const rotating = `${header},v1=${signWebhook(payload, 'whsec_old', now).split('v1=')[1]}`;
+
+      expect(() => service.verifySignature(payload, header)).not.toThrow();
+      expect(() => service.verifySignature(payload, rotating)).not.toThrow();
+    });
+
+    it.each([
+      ['missing', undefined],
+      ['malformed', 'v1=abc'],
+      ['made with another secret', signWebhook(payload, 'whsec_other', now)],
+      ['made for another body', signWebhook(body('evt_2', 'charge.succeeded'), secret, now)],
+      ['older than the tolerance', signWebhook(payload, secret, now - 301)]
+    ])('should reject a signature that is %s', (_label, header) => {
+      expect(() => service.verifySignature(payload, header)).toThrow(
+        expect.objectContaining({ code: 'invalid_webhook_signature' })
+      );
+    });
+
+    it('should reject every delivery when no secret is configured', () => {
+      const unconfigured = new ProviderWebhookService(
+        new PaymentProcessor({ transactionRepository }),
+        transactionRepository,
+        eventRepository,
+        new AuditLogger(auditStore),
+        { toleranceSeconds: 300 }
+      );
+
+      expect(() => unconfigured.verifySignature(payload, signWebhook(payload, secret, now))).toThrow(
+        expect.objectContaining({ code: 'invalid_webhook_signature' })
+      );
+    });
+  });
+
+  describe('receive', () => {
+    it('should move the transaction to the reported status and store the raw event', async () => {
+      // Arrange
+      const payload = body('evt_1', 'charge.succeeded');
+
+      // Act
+      const { event, duplicate } = await service.receive(payload);
+
+      // Assert
+      expect(duplicate).toBe(false);
+      expect(event).toMatchObject({ status: ProviderEventStatus.PROCESSED, transactionId: 'tx_1', attempts: 1 });
+      expect((await eventRepository.findById('evt_1'))?.payload).toBe(payload.toString());
+      const transaction = await transactionRepository.findById('tx_1');
+      expect(transaction?.status).toBe(TransactionStatus.COMPLETED);
+      expect(transaction?.statusHistory[1]).toMatchObject({ actor: 'provider-webhook' });
+    });
+
+    it('should not apply a redelivered event again', async () => {
+      // Arrange
+      await service.receive(body('evt_1', 'charge.succeeded'));
+
+      // Act
+      const { event, duplicate } = await service.receive(body('evt_1', 'charge.succeeded'));
+
+      // Assert
+      expect(duplicate).toBe(true);
+      expect(event.attempts).toBe(1);
+    });
+
+    it('should record the provider error on a failed charge', async () => {
+      // Act
+      await service.receive(body('evt_1', 'charge.failed', {
+        id: 'prov_1',
+        error: { message: 'Card declined', code: 'card_declined' }
+      }));
+
+      // Assert
+      expect(await transactionRepository.findById('tx_1')).toMatchObject({
+        status: TransactionStatus.FAILED,
+        error: { message: 'Card declined', code: 'card_declined' }
+      });
+    });
+
+    it('should store unhandled event types as ignored', async () => {
+      const { event } = await service.receive(body('evt_1', 'payout.paid'));
+
+      expect(event.status).toBe(ProviderEventStatus.IGNORED);
+      expect((await transactionRepository.findById('tx_1'))?.status).toBe(TransactionStatus.PENDING);
+    });
+
+    it('should reject a body that is not an event', async () => {
+      await expect(service.receive(Buffer.from('{"type":"charge.succeeded"}'))).rejects.toMatchObject({
+        code: 'invalid_webhook_payload'
+      });
+      await expect(service.receive(Buffer.from('not json'))).rejects.toMatchObject({ code: 'invalid_webhook_payload' });
+    });
+  });
+
+  describe('failed events', () => {
+    it('should keep an event for an unknown transaction and apply it on replay', async () => {
+      // Arrange
+      const { event } = await service.receive(body('evt_1', 'charge.succeeded', { id: 'prov_2' }));
+      await transactionRepository.save(pendingPayment('tx_2', 'prov_2'));
+
+      // Act
+      const replayed = await service.replay('evt_1', 'admin_1');
+
+      // Assert
+      expect(event).toMatchObject({ status: ProviderEventStatus.FAILED, error: expect.stringContaining('transaction_not_found') });
+      expect(replayed).toMatchObject({ status: ProviderEventStatus.PROCESSED, transactionId: 'tx_2', attempts: 2 });
+      expect(replayed.error).toBeUndefined();
+      expect(await service.listEvents(ProviderEventStatus.FAILED)).toEqual([]);
+      expect((await auditStore.readAll()).map(record => record.action)).toContain('provider_event.replay');
+    });
+
+    it('should apply a failed event again when the provider redelivers it', async () => {
+      // Arrange
+      await service.receive(body('evt_1', 'charge.succeeded', { id: 'prov_2' }));
+      await transactionRepository.save(pendingPayment('tx_2', 'prov_2'));
+
+      // Act
+      const { event, duplicate } = await service.receive(body('evt_1', 'charge.succeeded', { id: 'prov_2' }));
+
+      // Assert
+      expect(duplicate).toBe(false);
+      expect(event.status).toBe(ProviderEventStatus.PROCESSED);
+    });
+
+    it('should not apply charge events to authorizations', async () => {
+      // Arrange
+      await transactionRepository.save({ ...pendingPayment('tx_3', 'prov_3'), type: TransactionType.AUTHORIZATION });
+
+      // Act
+      const { event } = await service.receive(body('evt_1', 'charge.succeeded', { id: 'prov_3' }));
+
+      // Assert
+      expect(event.status).toBe(ProviderEventStatus.FAILED);
+      expect((await transactionRepository.findById('tx_3'))?.status).toBe(TransactionStatus.PENDING);
+    });
+
+    it('should report replaying an unknown event as not found', async () => {
+      await expect(service.replay('evt_missing', 'admin_1')).rejects.toMatchObject({ code: 'provider_event_not_found' });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { ReconciliationService, parseSettlementReport } from '../../src/services/ReconciliationService';
+import { InMemoryTransactionRepository } from '../../src/repositories/InMemoryTransactionRepository';
+import { ReconciliationIssueType } from '../../src/models/Settlement';
+import { Transaction, TransactionStatus, TransactionType } from '../../src/models/Transaction';
+import { Money } from '../../src/models/Money';
+import { initialStatusHistory } from '../../src/models/TransactionStateMachine';
+
+const buildTransaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  providerTransactionId: `prov_${id}`,
+  amount: Money.of('10.00', 'USD'),
+  currency: 'USD',
+  status: TransactionStatus.COMPLETED,
+  statusHistory: initialStatusHistory(TransactionStatus.COMPLETED, 'user_1'),
+  type: TransactionType.PAYMENT,
+  createdAt: new Date('2026-01-01T10:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T10:00:00.000Z'),
+  ...overrides
+});
+
+describe('parseSettlementReport', () => {
+  it('should read CSV by column name and ignore other columns', () => {
+    // Act
+    const report = parseSettlementReport(
+      'Settled_At,Provider_Transaction_Id,Fee,Amount,Currency,Type\n' +
+      '2026-01-02T00:00:00Z,prov_1,0.30,10.00,usd,charge\n' +
+      ',prov_2,,-4.50,USD,\n',
+      'csv'
+    );
+
+    // Assert
+    expect(report.lines).toEqual([
+      {
+        lineNumber: 2,
+        providerTransactionId: 'prov_1',
+        amount: Money.of('10.00', 'USD'),
+        type: 'charge',
+        settledAt: new Date('2026-01-02T00:00:00Z')
+      },
+      { lineNumber: 3, providerTransactionId: 'prov_2', amount: Money.of('-4.50', 'USD'), type: undefined, settledAt: undefined }
+    ]);
+  });
+
+  it('should read the JSON variant', () => {
+    // Act
+    const report = parseSettlementReport(JSON.stringify({
+      settlementId: 'stl_1',
+      lines: [{ providerTransactionId: 'prov_1', amount: 10, currency: 'EUR' }]
+    }), 'json');
+
+    // Assert
+    expect(report).toEqual({
+      settlementId: 'stl_1',
+      lines: [{ lineNumber: 1, providerTransactionId: 'prov_1', amount: Money.of('10', 'EUR'), type: undefined, settledAt: undefined }]
+    });
+  });
+
+  it.each([
+    ['', 'csv', 'Settlement report is empty'],
+    ['provider_transaction_id,amount\nprov_1,10.00', 'csv', 'missing the column(s) currency'],
+    ['provider_transaction_id,amount,currency\nprov_1,ten,USD', 'csv', 'Settlement line 2: amount must be a decimal number'],
+    ['provider_transaction_id,amount,currency\nprov_1,10.001,USD', 'csv', 'Settlement line 2: USD amounts cannot have more than 2'],
+    ['provider_transaction_id,amount,currency\n,10.00,USD', 'csv', 'Settlement line 2: provider transaction ID is missing'],
+    ['[]', 'json', 'must be an object with a lines array'],
+    ['{"lines":[{"providerTransactionId":"prov_1","amount":"1","currency":"XXX"}]}', 'json', 'Settlement line 1: Unsupported currency']
+  ] as const)('should reject %j as %s', (content, format, message) => {
+    expect(() => parseSettlementReport(content, format)).toThrow(expect.objectContaining({
+      code: 'invalid_settlement_report',
+      message: expect.stringContaining(message)
+    }));
+  });
+});
+
+describe('ReconciliationService', () => {
+  const period = { from: new Date('2026-01-01T00:00:00Z'), to: new Date('2026-01-02T00:00:00Z') };
+  let transactionRepository: InMemoryTransactionRepository;
+  let service: ReconciliationService;
+
+  beforeEach(async () => {
+    transactionRepository = new InMemoryTransactionRepository();
+    service = new ReconciliationService(transactionRepository);
+    await Promise.all([
+      buildTransaction('tx_paid'),
+      buildTransaction('tx_refund', { type: TransactionType.REFUND, amount: Money.of('4.00', 'USD'), originalTransactionId: 'tx_paid' }),
+      buildTransaction('tx_mismatch', { amount: Money.of('20.00', 'USD') }),
+      buildTransaction('tx_twice'),
+      buildTransaction('tx_missing'),
+      buildTransaction('tx_failed', { status: TransactionStatus.FAILED }),
+      buildTransaction('tx_next_day', { createdAt: new Date('2026-01-02T00:00:00Z') })
+    ].map(transaction => transactionRepository.save(transaction)));
+  });
+
+  it('should reconcile a settlement that matches every transaction', async () => {
+    // Arrange
+    const settlement = parseSettlementReport(
+      'provider_transaction_id,amount,currency\n' +
+      'prov_tx_paid,10.00,USD\nprov_tx_refund,-4.00,USD\nprov_tx_mismatch,20.00,USD\nprov_tx_twice,10.00,USD\nprov_tx_missing,10.00,USD\n',
+      'csv'
+    );
+
+    // Act
+    const report = await service.reconcile(settlement, period);
+
+    // Assert
+    expect(report).toMatchObject({
+      linesChecked: 5,
+      transactionsExpected: 5,
+      matched: 5,
+      reconciled: true,
+      summary: { missing: 0, duplicate: 0, amount_mismatch: 0, unknown: 0 },
+      issues: []
+    });
+  });
+
+  it('should flag missing, duplicated, mismatched and unknown items', async () => {
+    // Arrange
+    const settlement = parseSettlementReport(
+      'provider_transaction_id,amount,currency\n' +
+      'prov_tx_paid,10.00,USD\nprov_tx_refund,4.00,USD\nprov_tx_mismatch,20.00,EUR\n' +
+      'prov_tx_twice,10.00,USD\nprov_unknown,3.00,USD\nprov_tx_twice,10.00,USD\nprov_tx_next_day,10.00,USD\n',
+      'csv'
+    );
+
+    // Act
+    const report = await service.reconcile(settlement, period);
+
+    // Assert
+    expect(report.reconciled).toBe(false);
+    expect(report.matched).toBe(3);
+    expect(report.summary).toEqual({ missing: 1, duplicate: 1, amount_mismatch: 1, unknown: 1 });
+    expect(report.issues).toEqual([
+      {
+        type: ReconciliationIssueType.AMOUNT_MISMATCH,
+        providerTransactionId: 'prov_tx_mismatch',
+        transactionId: 'tx_mismatch',
+        lineNumbers: [4],
+        expected: { amount: '20.00', currency: 'USD' },
+        settled: { amount: '20.00', currency: 'EUR' }
+      },
+      { type: ReconciliationIssueType.DUPLICATE, providerTransactionId: 'prov_tx_twice', transactionId: 'tx_twice', lineNumbers: [5, 7] },
+      {
+        type: ReconciliationIssueType.UNKNOWN,
+        providerTransactionId: 'prov_unknown',
+        lineNumbers: [6],
+        settled: { amount: '3.00', currency: 'USD' }
+      },
+      {
+        type: ReconciliationIssueType.MISSING,
+        providerTransactionId: 'prov_tx_missing',
+        transactionId: 'tx_missing',
+        lineNumbers: [],
+        expected: { amount: '10.00', currency: 'USD' }
+      }
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+import { TokenizationService } from '../../src/services/TokenizationService';
+import { InMemoryCardTokenRepository } from '../../src/repositories/InMemoryCardTokenRepository';
+import { CardDetails } from '../../src/models/Transaction';
+import { cardFingerprint } from '../../src/utils/cardFingerprint';
+
+describe('TokenizationService', () => {
+  let repository: InMemoryCardTokenRepository;
+  let service: TokenizationService;
+  const options = { encryptionKey: randomBytes(32).toString('hex'), fingerprintSecret: 'fingerprint-secret' };
+  const card: CardDetails = {
+    number: '4242424242424242',
+    expiryMonth: 12,
+    expiryYear: 2030,
+    cvv: '123',
+    cardholderName: 'Ada Lovelace'
+  };
+  const owner = { userId: 'user_1', merchantId: 'merchant_1' };
+
+  beforeEach(() => {
+    repository = new InMemoryCardTokenRepository();
+    service = new TokenizationService(repository, options);
+  });
+
+  it('should store the card number encrypted and drop the CVV', async () => {
+    // Act
+    const cardToken = await service.tokenize(card, owner);
+
+    // Assert
+    expect(cardToken).toMatchObject({
+      userId: 'user_1',
+      merchantId: 'merchant_1',
+      brand: 'visa',
+      bin: '424242',
+      last4: '4242',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      fingerprint: cardFingerprint('4242424242424242', 'fingerprint-secret')
+    });
+    expect(cardToken.token).toMatch(/^tok_[A-Za-z0-9_-]{32}$/);
+    const stored = JSON.stringify(await repository.findByToken(cardToken.token));
+    expect(stored).not.toContain('4242424242424242');
+    expect(stored).not.toContain('123"');
+    expect(stored).not.toMatch(/cvv/i);
+  });
+
+  it('should read the card back without a CVV', async () => {
+    // Arrange
+    const { token } = await service.tokenize(card, owner);
+
+    // Act
+    const detokenized = await service.detokenize(token);
+
+    // Assert
+    expect(detokenized).toEqual({ number: '4242424242424242', expiryMonth: 12, expiryYear: 2030, cardholderName: 'Ada Lovelace' });
+  });
+
+  it('should only find tokens for their owner', async () => {
+    // Arrange
+    const { token } = await service.tokenize(card, owner);
+
+    // Act & Assert
+    await expect(service.findToken(token, owner)).resolves.toMatchObject({ token, last4: '4242' });
+    await expect(service.findToken(token, { userId: 'user_2', merchantId: 'merchant_1' }))
+      .rejects.toMatchObject({ code: 'card_token_not_found' });
+    await expect(service.findToken(token, { userId: 'user_1' })).rejects.toMatchObject({ code: 'card_token_not_found' });
+    await expect(service.findToken('tok_unknown', owner)).rejects.toMatchObject({ code: 'card_token_not_found' });
+  });
+
+  it('should not read tokens back with another vault key', async () => {
+    // Arrange
+    const { token } = await service.tokenize(card, owner);
+    const otherVault = new TokenizationService(repository, { ...options, encryptionKey: randomBytes(32).toString('base64') });
+
+    // Act & Assert
+    await expect(otherVault.detokenize(token)).rejects.toMatchObject({ code: 'card_token_not_found' });
+  });
+
+  it('should not start without an encryption key or fingerprint secret', () => {
+    expect(() => new TokenizationService(repository, { fingerprintSecret: 'fingerprint-secret' })).toThrow();
+    expect(() => new TokenizationService(repository, { encryptionKey: options.encryptionKey })).toThrow();
+  });
+
+  it('should refuse to tokenize an expired card', async () => {
+    await expect(service.tokenize({ ...card, expiryYear: 2001 }, owner))
+      .rejects.toMatchObject({ code: 'invalid_card', message: 'Card is not valid: Card has expired' });
+  });
+});
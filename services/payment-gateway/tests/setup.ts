@@ -0,0 +1,5 @@
+// Keep test runs from creating database files in the working directory
+process.env.TRANSACTION_STORE = 'memory';
+// The gateway does not start without card vault secrets
+process.env.CARD_VAULT_ENCRYPTION_KEY = '0'.repeat(64);
+process.env.CARD_FINGERPRINT_SECRET = 'test-fingerprint-secret';
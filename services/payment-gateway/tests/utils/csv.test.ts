@@ -0,0 +1,32 @@
+import { parseCsv } from '../../src/utils/csv';
+
+describe('parseCsv', () => {
+  it('should split records and fields with their line numbers', () => {
+    // Act
+    const records = parseCsv('\uFEFFid,amount\r\ntx_1,10.00\r\n\r\ntx_2,5.00');
+
+    // Assert
+    expect(records).toEqual([
+      { line: 1, fields: ['id', 'amount'] },
+      { line: 2, fields: ['tx_1', '10.00'] },
+      { line: 4, fields: ['tx_2', '5.00'] }
+    ]);
+  });
+
+  it('should read quoted fields with commas, quotes and line breaks', () => {
+    // Act
+    const records = parseCsv('"a, b","say ""hi""","two\nlines"\nnext,,\n');
+
+    // Assert
+    expect(records).toEqual([
+      { line: 1, fields: ['a, b', 'say "hi"', 'two\nlines'] },
+      { line: 3, fields: ['next', '', ''] }
+    ]);
+  });
+
+  it('should reject malformed quoting', () => {
+    expect(() => parseCsv('id\n"tx_1')).toThrow('Quoted field starting on line 2 is not closed');
+    expect(() => parseCsv('id\ntx"1')).toThrow('Unexpected quote in unquoted field on line 2');
+    expect(() => parseCsv('"tx_1"x')).toThrow('Unexpected character after closing quote on line 1');
+  });
+});
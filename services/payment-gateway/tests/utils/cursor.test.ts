@@ -0,0 +1,23 @@
+import { decodeCursor, encodeCursor } from '../../src/utils/cursor';
+
+describe('pagination cursors', () => {
+  const query = { filter: { status: ['completed'], userId: 'user_1' }, sort: '-createdAt' };
+  const position = { value: '2026-01-01T10:00:00.000Z', id: 'tx_1' };
+
+  it('should round-trip a position for the same query', () => {
+    // Act
+    const cursor = encodeCursor(position, query);
+
+    // Assert
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, { sort: '-createdAt', filter: { userId: 'user_1', status: ['completed'] } })).toEqual(position);
+  });
+
+  it.each([
+    ['issued for other filters', encodeCursor(position, { ...query, filter: { userId: 'user_2' } })],
+    ['not base64 JSON', 'not-a-cursor'],
+    ['missing the position', Buffer.from(JSON.stringify({ q: 'x' })).toString('base64url')]
+  ])('should reject a cursor %s', (_label, cursor) => {
+    expect(() => decodeCursor(cursor, query)).toThrow(expect.objectContaining({ code: 'invalid_cursor' }));
+  });
+});
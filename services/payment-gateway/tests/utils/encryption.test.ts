@@ -0,0 +1,39 @@
+import { randomBytes } from 'crypto';
+import { decrypt, encrypt, parseEncryptionKey } from '../../src/utils/encryption';
+
+describe('encryption', () => {
+  const key = randomBytes(32);
+
+  // Change the first character of the encrypted data, which is always significant in base64
+  const tamper = (ciphertext: string): string => {
+    const parts = ciphertext.split('.');
+    parts[3] = `${parts[3][0] === 'A' ? 'B' : 'A'}${parts[3].slice(1)}`;
+    return parts.join('.');
+  };
+
+  it('should round-trip a value bound to its context', () => {
+    // Act
+    const ciphertext = encrypt('4242424242424242', key, 'tok_1');
+
+    // Assert
+    expect(ciphertext).toMatch(/^v1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(ciphertext).not.toContain('4242');
+    expect(encrypt('4242424242424242', key, 'tok_1')).not.toBe(ciphertext);
+    expect(decrypt(ciphertext, key, 'tok_1')).toBe('4242424242424242');
+  });
+
+  it.each([
+    ['another context', (ciphertext: string) => decrypt(ciphertext, key, 'tok_2')],
+    ['another key', (ciphertext: string) => decrypt(ciphertext, randomBytes(32), 'tok_1')],
+    ['a tampered ciphertext', (ciphertext: string) => decrypt(tamper(ciphertext), key, 'tok_1')],
+    ['an unknown format', () => decrypt('v0.a.b.c', key, 'tok_1')]
+  ])('should refuse to decrypt with %s', (_label, attempt) => {
+    expect(() => attempt(encrypt('4242424242424242', key, 'tok_1'))).toThrow();
+  });
+
+  it('should read keys as hex or base64 and reject other lengths', () => {
+    expect(parseEncryptionKey(key.toString('hex'))).toEqual(key);
+    expect(parseEncryptionKey(key.toString('base64'))).toEqual(key);
+    expect(() => parseEncryptionKey(randomBytes(16).toString('base64'))).toThrow('Encryption key must be 32 bytes');
+  });
+});
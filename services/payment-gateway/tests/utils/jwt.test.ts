@@ -0,0 +1,79 @@
+import { generateKeyPairSync } from 'crypto';
+import { JwtVerifyOptions, verifyJwt } from '../../src/utils/jwt';
+import { freshClaims, signJwt } from '../helpers/jwt';
+
+describe('verifyJwt', () => {
+  const secret = 'test-secret-with-enough-entropy';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  const options: JwtVerifyOptions = {
+    hs256Secret: secret,
+    rs256PublicKey: publicKey,
+    issuer: 'https://auth.circular.test',
+    audience: 'payment-gateway',
+    maxLifetimeSeconds: 3600,
+    clockToleranceSeconds: 30
+  };
+  const claims = (extra: Record<string, unknown> = {}, lifetimeSeconds?: number): Record<string, unknown> =>
+    freshClaims('user_1', { iss: options.issuer, aud: options.audience, ...extra }, lifetimeSeconds);
+
+  it('should accept HS256 and RS256 tokens signed with the configured keys', () => {
+    const hs256 = signJwt(claims({ roles: ['support'] }), secret);
+    const rs256 = signJwt(claims(), privateKey, { alg: 'RS256', typ: 'JWT' });
+
+    expect(verifyJwt(hs256, options)).toMatchObject({ sub: 'user_1', roles: ['support'] });
+    expect(verifyJwt(rs256, options)).toMatchObject({ sub: 'user_1' });
+  });
+
+  it('should reject a tampered payload', () => {
+    const [header, , signature] = signJwt(claims(), secret).split('.');
+    const forged = Buffer.from(JSON.stringify(claims({ roles: ['admin'] }))).toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${forged}.${signature}`, options)).toThrow(
+      expect.objectContaining({ code: 'invalid_token' })
+    );
+  });
+
+  it.each([
+    ['unsigned tokens', { alg: 'none' }],
+    ['other algorithms', { alg: 'HS512' }]
+  ])('should reject %s', (_description, header) => {
+    expect(() => verifyJwt(signJwt(claims(), secret, header), options)).toThrow(
+      expect.objectContaining({ code: 'invalid_token' })
+    );
+  });
+
+  it('should not accept the RS256 public key as an HS256 secret', () => {
+    const confused = signJwt(claims(), publicKey);
+
+    expect(() => verifyJwt(confused, { ...options, hs256Secret: undefined })).toThrow(
+      expect.objectContaining({ code: 'invalid_token', message: expect.stringContaining('HS256') })
+    );
+  });
+
+  it('should report expired tokens', () => {
+    const issued = Math.floor(Date.now() / 1000) - 7200;
+    const expired = signJwt(claims({ iat: issued, exp: issued + 3600 }), secret);
+
+    expect(() => verifyJwt(expired, options)).toThrow(expect.objectContaining({ code: 'token_expired' }));
+  });
+
+  it('should reject tokens living longer than an hour', () => {
+    expect(() => verifyJwt(signJwt(claims({}, 3601), secret), options)).toThrow(
+      expect.objectContaining({ code: 'invalid_token', message: expect.stringContaining('lifetime') })
+    );
+  });
+
+  it.each([
+    ['issuer', { iss: 'https://evil.test' }],
+    ['audience', { aud: 'reporting' }],
+    ['subject', { sub: '' }]
+  ])('should reject an unexpected %s', (_claim, extra) => {
+    expect(() => verifyJwt(signJwt(claims(extra), secret), options)).toThrow(
+      expect.objectContaining({ code: 'invalid_token' })
+    );
+  });
+});
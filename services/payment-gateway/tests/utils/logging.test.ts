@@ -0,0 +1,139 @@
+import { Writable } from 'stream';
+import winston from 'winston';
+import { Money } from '../../src/models/Money';
+import {
+  createLogger,
+  getLogContext,
+  logger,
+  redact,
+  runWithLogContext,
+  updateLogContext
+} from '../../src/utils/logging';
+
+describe('logging', () => {
+  let lines: Record<string, unknown>[];
+  let transport: winston.transport;
+
+  beforeEach(() => {
+    lines = [];
+    transport = new winston.transports.Stream({
+      stream: new Writable({
+        write(chunk, _encoding, callback) {
+          lines.push(JSON.parse(chunk.toString()));
+          callback();
+        }
+      })
+    });
+    logger.add(transport);
+  });
+
+  afterEach(() => {
+    logger.remove(transport);
+  });
+
+  const pause = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 5));
+
+  it('should tag every line with the module and the current request context', () => {
+    runWithLogContext({ correlationId: 'corr_1', userId: 'user_1', ipAddress: '203.0.113.7' }, () => {
+      createLogger('payment-processor').info('Starting payment processing');
+    });
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        message: 'Starting payment processing',
+        service: 'payment-processor',
+        correlationId: 'corr_1',
+        userId: 'user_1',
+        ipAddress: '203.0.113.7'
+      })
+    ]);
+  });
+
+  it('should keep the context of concurrent requests apart', async () => {
+    const moduleLogger = createLogger('transaction-controller');
+    const handle = (correlationId: string): Promise<void> =>
+      runWithLogContext({ correlationId }, async () => {
+        await pause();
+        moduleLogger.info(correlationId);
+        await pause();
+        moduleLogger.info(correlationId);
+      });
+
+    await Promise.all([handle('corr_a'), handle('corr_b')]);
+
+    expect(lines).toHaveLength(4);
+    lines.forEach(line => expect(line.correlationId).toBe(line.message));
+  });
+
+  it('should not leak context outside the request', () => {
+    runWithLogContext({ correlationId: 'corr_1' }, () => {
+      updateLogContext({ userId: 'user_1' });
+      expect(getLogContext()).toEqual({ correlationId: 'corr_1', userId: 'user_1' });
+    });
+
+    createLogger('payment-processor').info('Background job');
+
+    expect(getLogContext()).toBeUndefined();
+    expect(lines[0]).not.toHaveProperty('correlationId');
+    expect(lines[0]).not.toHaveProperty('userId');
+  });
+
+  describe('redaction', () => {
+    it('should mask card data in every logger', () => {
+      // Act
+      createLogger('credit-card-validator').info('Charging card 4242 4242 4242 4242', {
+        paymentMethod: { card: { number: '4000000000000002', cvv: '123', expiryYear: 2030 } },
+        notes: ['card 5555555555554444 cvv: 999']
+      });
+
+      // Assert
+      const [line] = lines;
+      expect(line.message).toBe('Charging card ****4242');
+      expect(line.paymentMethod).toEqual({ card: { number: '****0002', cvv: '[REDACTED]', expiryYear: 2030 } });
+      expect(line.notes).toEqual(['card ****4444 cvv: [REDACTED]']);
+    });
+
+    it('should leave digit runs that fail the Luhn check alone', () => {
+      expect(redact('order 4242424242424241')).toBe('order 4242424242424241');
+    });
+
+    it('should mask bank details, emails and credentials', () => {
+      expect(redact({
+        accountNumber: '000123456789',
+        routing_number: '021000021',
+        customer: 'jane.doe@example.com',
+        headers: { authorization: 'Bearer abc.def' },
+        note: 'refund to account no. 12345678, sent with Bearer eyJhbGciOi.payload.sig'
+      })).toEqual({
+        accountNumber: '****6789',
+        routing_number: '****0021',
+        customer: '***@example.com',
+        headers: { authorization: '[REDACTED]' },
+        note: 'refund to account no. [REDACTED], sent with Bearer [REDACTED]'
+      });
+    });
+
+    it('should keep only the prefix of merchant API keys', () => {
+      const key = `gw_0123456789abcdef_${'x'.repeat(43)}`;
+
+      expect(redact({ 'x-api-key': key, note: `rejected ${key}` })).toEqual({
+        'x-api-key': '[REDACTED]',
+        note: 'rejected gw_0123456789abcdef_[REDACTED]'
+      });
+    });
+
+    it('should not touch allow-listed fields', () => {
+      expect(redact({ transactionId: 'tx_4242424242424242', amount: Money.of('10.50', 'USD') })).toEqual({
+        transactionId: 'tx_4242424242424242',
+        amount: Money.of('10.50', 'USD')
+      });
+    });
+
+    it('should survive circular metadata', () => {
+      const metadata: Record<string, unknown> = { email: 'a@b.io' };
+      metadata.self = metadata;
+
+      expect(redact(metadata)).toEqual({ email: '***@b.io', self: '[Circular]' });
+    });
+  });
+});
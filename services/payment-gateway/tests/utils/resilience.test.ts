@@ -0,0 +1,156 @@
+import { CircuitOpenError, PaymentError, ProviderError } from '../../src/errors/PaymentError';
+import {
+  CircuitBreaker,
+  CircuitState,
+  backoffDelay,
+  getCircuitBreaker,
+  getCircuitBreakerSnapshots,
+  isRetryableError,
+  withRetry,
+  withTimeout
+} from '../../src/utils/resilience';
+
+describe('resilience', () => {
+  const policy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+  const unavailable = (): ProviderError => new ProviderError('HTTP 503', 'provider_unavailable');
+
+  describe('backoffDelay', () => {
+    it('should double the delay ceiling per attempt up to the cap', () => {
+      const backoff = { maxAttempts: 10, baseDelayMs: 100, maxDelayMs: 1000 };
+      const ceiling = (): number => 1 - Number.EPSILON;
+
+      expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, backoff, ceiling))).toEqual([99, 199, 399, 799, 999]);
+    });
+
+    it('should spread delays between zero and the ceiling', () => {
+      const backoff = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+      expect(backoffDelay(2, backoff, () => 0)).toBe(0);
+      expect(backoffDelay(2, backoff, () => 0.5)).toBe(100);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry retryable failures until the operation succeeds', async () => {
+      // Arrange
+      const operation = jest.fn()
+        .mockRejectedValueOnce(unavailable())
+        .mockRejectedValueOnce(unavailable())
+        .mockResolvedValueOnce('ok');
+
+      // Act
+      const result = await withRetry(operation, { policy, isRetryable: isRetryableError });
+
+      // Assert
+      expect(result).toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the last attempt', async () => {
+      const operation = jest.fn().mockRejectedValue(unavailable());
+
+      await expect(withRetry(operation, { policy, isRetryable: isRetryableError }))
+        .rejects.toMatchObject({ code: 'provider_unavailable' });
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it.each([
+      ['a decline', new PaymentError('Card declined', 'card_declined')],
+      ['a non-retryable provider error', new ProviderError('Bad request', 'invalid_request', false)],
+      ['an open circuit', new CircuitOpenError('rest')]
+    ])('should not retry %s', async (_description, error) => {
+      const operation = jest.fn().mockRejectedValue(error);
+
+      await expect(withRetry(operation, { policy, isRetryable: isRetryableError })).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should reject when the operation takes too long', async () => {
+      const never = (): Promise<string> => new Promise(() => undefined);
+
+      await expect(withTimeout(never, 10, () => new ProviderError('Timed out', 'provider_timeout')))
+        .rejects.toMatchObject({ code: 'provider_timeout' });
+    });
+
+    it('should pass through a result that arrives in time', async () => {
+      await expect(withTimeout(async () => 'ok', 1000, () => new Error('late'))).resolves.toBe('ok');
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      breaker = new CircuitBreaker('test-provider', { failureThreshold: 2, resetTimeoutMs: 1000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const fail = (): Promise<never> => breaker.execute(() => Promise.reject(unavailable()));
+
+    it('should open after consecutive failures and fail fast without calling the operation', async () => {
+      // Arrange
+      await expect(fail()).rejects.toThrow(ProviderError);
+      await expect(fail()).rejects.toThrow(ProviderError);
+      const operation = jest.fn().mockResolvedValue('ok');
+
+      // Act & Assert
+      await expect(breaker.execute(operation)).rejects.toThrow(CircuitOpenError);
+      expect(operation).not.toHaveBeenCalled();
+      expect(breaker.snapshot()).toMatchObject({ state: CircuitState.OPEN, consecutiveFailures: 2 });
+    });
+
+    it('should not count declines and other final errors as failures', async () => {
+      const decline = new PaymentError('Card declined', 'card_declined');
+
+      await expect(breaker.execute(() => Promise.reject(decline))).rejects.toBe(decline);
+      await expect(breaker.execute(() => Promise.reject(decline))).rejects.toBe(decline);
+
+      expect(breaker.snapshot()).toMatchObject({ state: CircuitState.CLOSED, consecutiveFailures: 0 });
+    });
+
+    it('should close again after a successful trial call once the reset timeout has passed', async () => {
+      // Arrange
+      await expect(fail()).rejects.toThrow(ProviderError);
+      await expect(fail()).rejects.toThrow(ProviderError);
+
+      // Act
+      jest.advanceTimersByTime(1000);
+      const result = await breaker.execute(async () => 'ok');
+
+      // Assert
+      expect(result).toBe('ok');
+      expect(breaker.snapshot()).toMatchObject({ state: CircuitState.CLOSED, consecutiveFailures: 0 });
+    });
+
+    it('should reopen when the trial call fails', async () => {
+      // Arrange
+      await expect(fail()).rejects.toThrow(ProviderError);
+      await expect(fail()).rejects.toThrow(ProviderError);
+      jest.advanceTimersByTime(1000);
+
+      // Act
+      await expect(fail()).rejects.toThrow(ProviderError);
+
+      // Assert
+      expect(breaker.snapshot().state).toBe(CircuitState.OPEN);
+      await expect(breaker.execute(async () => 'ok')).rejects.toThrow(CircuitOpenError);
+    });
+  });
+
+  it('should share one breaker per dependency and report it for monitoring', () => {
+    const options = { failureThreshold: 5, resetTimeoutMs: 1000 };
+
+    const breaker = getCircuitBreaker('shared-provider', options);
+
+    expect(getCircuitBreaker('shared-provider', options)).toBe(breaker);
+    expect(getCircuitBreakerSnapshots()).toContainEqual(
+      expect.objectContaining({ name: 'shared-provider', state: CircuitState.CLOSED })
+    );
+  });
+});